@@ -30,7 +30,7 @@ app.get("/api/schools", async (_req, res) => {
     const result = await pool.query(`
       SELECT clean_name as name, lat, lng, 1 as row_count
       FROM schools
-      WHERE lat IS NOT NULL
+      WHERE lat IS NOT NULL AND merged_into IS NULL
       ORDER BY clean_name
     `);
     res.json(result.rows);
@@ -72,6 +72,67 @@ app.patch("/api/schools", async (req, res) => {
   }
 });
 
+const ANOMALY_STATUSES = ["open", "confirmed", "dismissed"];
+
+// Review queue written by the pipeline's `npm run anomalies`
+app.get("/api/anomalies", async (req, res) => {
+  const status = typeof req.query.status === "string" ? req.query.status : "open";
+  const kind = typeof req.query.kind === "string" && req.query.kind ? req.query.kind : null;
+  const year = typeof req.query.year === "string" && req.query.year ? Number(req.query.year) : null;
+  if (!ANOMALY_STATUSES.includes(status) || (year !== null && !Number.isInteger(year))) {
+    res.status(400).json({ error: "Invalid status or year" });
+    return;
+  }
+
+  try {
+    const result = await pool.query(
+      `SELECT an.id, an.kind, an.score, an.reason, an.context, an.status, an.detected_at, an.reviewed_at,
+              pr.id AS report_id, pr.year, pr.pdf_url, pr.unit_name, s.clean_name AS school_name,
+              q.text AS question
+       FROM anomalies an
+       JOIN pdf_reports pr ON pr.id = an.pdf_report_id
+       JOIN schools s ON s.id = pr.school_id
+       LEFT JOIN questions q ON q.id = an.question_id
+       WHERE an.status = $1
+         AND ($2::text IS NULL OR an.kind = $2)
+         AND ($3::int IS NULL OR pr.year = $3)
+       ORDER BY an.score DESC, an.id
+       LIMIT 500`,
+      [status, kind, year],
+    );
+    res.json(result.rows);
+  } catch (err) {
+    console.error("Error fetching anomalies:", err);
+    res.status(500).json({ error: "Failed to fetch anomalies" });
+  }
+});
+
+app.patch("/api/anomalies/:id", async (req, res) => {
+  const id = Number(req.params.id);
+  const { status } = req.body as { status: string };
+  if (!Number.isInteger(id) || !ANOMALY_STATUSES.includes(status)) {
+    res.status(400).json({ error: "Expected an anomaly id and a status of open, confirmed or dismissed" });
+    return;
+  }
+
+  try {
+    const result = await pool.query(
+      `UPDATE anomalies
+       SET status = $1, reviewed_at = CASE WHEN $1 = 'open' THEN NULL ELSE NOW() END
+       WHERE id = $2`,
+      [status, id],
+    );
+    if (result.rowCount === 0) {
+      res.status(404).json({ error: "No such anomaly" });
+      return;
+    }
+    res.json({ id, status });
+  } catch (err) {
+    console.error("Error updating anomaly:", err);
+    res.status(500).json({ error: "Failed to update anomaly" });
+  }
+});
+
 const PORT = Number(process.env.ADMIN_PORT) || 3456;
 app.listen(PORT, () => {
   console.log(`Admin server running at http://localhost:${PORT}`);
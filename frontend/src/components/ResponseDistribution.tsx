@@ -12,12 +12,15 @@ const COLORS = {
   disagree: "#ef5350",
   stronglyDisagree: "#c62828",
   dontKnow: "#484f58",
+  noAnswer: "#6e7681",
 };
 
 export function ResponseDistribution({ responses }: Props) {
   if (responses.length === 0) return null;
 
   const questions = responses.map((r) => r.question);
+  // Only the XLS era (2007-2009) reports the share who left a question unanswered
+  const hasNoAnswer = responses.some((r) => r.noAnswer != null);
 
   const option = {
     backgroundColor: "transparent",
@@ -33,6 +36,7 @@ export function ResponseDistribution({ responses }: Props) {
         "Stämmer ganska dåligt",
         "Stämmer inte alls",
         "Vet ej",
+        ...(hasNoAnswer ? ["Ej svar"] : []),
       ],
       bottom: 0,
       textStyle: { fontSize: 11 },
@@ -102,6 +106,17 @@ export function ResponseDistribution({ responses }: Props) {
         color: COLORS.dontKnow,
         data: responses.map((r) => r.dontKnow),
       },
+      ...(hasNoAnswer
+        ? [
+            {
+              name: "Ej svar",
+              type: "bar",
+              stack: "total",
+              color: COLORS.noAnswer,
+              data: responses.map((r) => r.noAnswer),
+            },
+          ]
+        : []),
     ],
   };
 
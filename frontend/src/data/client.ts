@@ -39,10 +39,30 @@ export interface SchoolEntry {
   units?: UnitEntry[];
 }
 
+export interface YearSpan {
+  from: number;
+  to: number;
+}
+
+/** A school across the years: when it was surveyed, the full survey years it missed, names and areas */
+export interface SchoolHistory {
+  firstYear: number;
+  lastYear: number;
+  /** Full survey years between the first and last year without a report for the school */
+  gaps: YearSpan[];
+  /** Names, oldest first; more than one means the school was renamed */
+  names: Array<YearSpan & { name: string }>;
+  areas: Array<YearSpan & { name: string }>;
+  /** Surveyed in the latest full survey year; false means closed or no longer surveyed */
+  current: boolean;
+}
+
 export interface Index {
   years: YearEntry[];
   areas: AreaEntry[];
   schools: SchoolEntry[];
+  /** By school id. Missing in older exports */
+  histories?: Record<string, SchoolHistory>;
 }
 
 export interface AreaSchoolSummary {
@@ -59,39 +79,71 @@ export interface AreaSchools {
   schools: AreaSchoolSummary[];
 }
 
+/** Where a value was read in the source PDF: page, line within the page and the raw text */
+export interface SourceRef {
+  page: number;
+  line: number | null;
+  text: string;
+}
+
 export interface MeanEntry {
   question: string;
+  /** Canonical question id, shared by the question's wordings across years */
+  canonicalId: number | null;
   area: string;
   gr: number | null;
   goteborg: number | null;
   district: number | null;
   school: number | null;
   history: Record<string, number | null>;
+  /** 0-100 index score (XLS reports, 2007-2009): the school's and all schools' */
+  indexSchool: number | null;
+  indexDistrict: number | null;
+  source: SourceRef | null;
 }
 
 export interface ResponseEntry {
   question: string;
+  canonicalId: number | null;
   stronglyAgree: number | null;
   agree: number | null;
   neither: number | null;
   disagree: number | null;
   stronglyDisagree: number | null;
   dontKnow: number | null;
+  /** Share of respondents who left the question unanswered (XLS reports, 2007-2009) */
+  noAnswer: number | null;
+  source: SourceRef | null;
 }
 
 export interface GenderEntry {
   question: string;
+  canonicalId: number | null;
   total: number | null;
   flicka: number | null;
   pojke: number | null;
+  source: SourceRef | null;
 }
 
 export interface ImportantEntry {
   question: string;
+  canonicalId: number | null;
   rank: number;
   pct: number | null;
 }
 
+/** NKI or quality factor index (Scandinfo 2011-2014, parent workbooks 2007-2009), 0-100 */
+export interface NkiEntry {
+  /** As printed: "HELHET" for NKI itself, otherwise the quality factor */
+  name: string;
+  area: string | null;
+  value: number | null;
+  goteborg: number | null;
+  district: number | null;
+  scale: string;
+  source: SourceRef | null;
+}
+
 export interface UnitMeanEntry {
   unit: string;
   area: string;
@@ -105,6 +157,15 @@ export interface RelatedReport {
   schoolName: string;
 }
 
+/** Result of the pipeline's consistency checks (npm run check) for one report */
+export interface DataQuality {
+  /** "unchecked" when the report hasn't been checked since it was last parsed */
+  status: "ok" | "issues" | "unchecked";
+  checkedAt: string | null;
+  /** One entry per violated rule, with the first violation as an example */
+  issues: { rule: string; count: number; example: string }[];
+}
+
 export interface SchoolDetail {
   id: number;
   schoolId: number;
@@ -126,7 +187,18 @@ export interface SchoolDetail {
   responses: ResponseEntry[];
   genderSplit: GenderEntry[];
   importantQuestions: ImportantEntry[];
+  /** Missing in files exported before NKI indices were stored apart from the means */
+  nki?: NkiEntry[];
   unitMeans: UnitMeanEntry[];
+  /** Missing in files exported before the consistency checks existed */
+  dataQuality?: DataQuality;
+  /**
+   * Set when the report had no usable text layer and its values were read through OCR;
+   * confidence is the OCR engine's mean word confidence, 0-1. Missing in older exports
+   */
+  ocr?: { confidence: number | null } | null;
+  /** The school's lifecycle; missing in older exports */
+  history?: SchoolHistory | null;
   relatedReports?: RelatedReport[];
 }
 
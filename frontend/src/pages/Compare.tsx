@@ -1,7 +1,7 @@
 import { useState, useEffect, useMemo } from "react";
 import { useSearchParams, Link } from "react-router-dom";
 import { loadSchoolDetail } from "../data/client.ts";
-import type { SchoolDetail } from "../data/client.ts";
+import type { MeanEntry, SchoolDetail } from "../data/client.ts";
 import { buildSchoolColorMap } from "../utils/colors.ts";
 import { SchoolCompare } from "../components/SchoolCompare.tsx";
 import { CompareDemographics } from "../components/CompareDemographics.tsx";
@@ -175,13 +175,19 @@ function Section({
   );
 }
 
+/** Row key for a question: its canonical id (absent in older exports), so rewordings across years share a row */
+function questionKey(m: MeanEntry): string {
+  return m.canonicalId != null ? `c${m.canonicalId}` : m.question;
+}
+
 function ComparisonTable({ schools }: { schools: SchoolDetail[] }) {
   // Collect all unique questions
-  const allQuestions = new Map<string, string>();
+  const allQuestions = new Map<string, { question: string; area: string }>();
   for (const s of schools) {
     for (const m of s.means) {
-      if (!allQuestions.has(m.question)) {
-        allQuestions.set(m.question, m.area);
+      const key = questionKey(m);
+      if (!allQuestions.has(key)) {
+        allQuestions.set(key, { question: m.question, area: m.area });
       }
     }
   }
@@ -207,7 +213,7 @@ function ComparisonTable({ schools }: { schools: SchoolDetail[] }) {
           </tr>
         </thead>
         <tbody>
-          {questions.map(([q, area], i) => (
+          {questions.map(([key, { question: q, area }], i) => (
             <tr
               key={i}
               style={{
@@ -224,7 +230,7 @@ function ComparisonTable({ schools }: { schools: SchoolDetail[] }) {
                 </span>
               </td>
               {schools.map((s) => {
-                const mean = s.means.find((m) => m.question === q);
+                const mean = s.means.find((m) => questionKey(m) === key);
                 return (
                   <td
                     key={s.id}
@@ -5,6 +5,7 @@ import L from "leaflet";
 import { loadIndex } from "../data/client.ts";
 import type { Index } from "../data/client.ts";
 import { haversineKm } from "../utils/geo.ts";
+import { describeHistory } from "../utils/history.ts";
 import { useAddressSearch } from "../hooks/useAddressSearch.ts";
 
 const GOTHENBURG_CENTER: [number, number] = [57.7089, 11.9746];
@@ -282,6 +283,12 @@ export function MapHome() {
                 <br />
                 <span style={{ color: "#8b949e", fontSize: 12 }}>{s.areaName}</span>
                 <br />
+                {index?.histories?.[s.id] &&
+                  describeHistory(index.histories[s.id], s.year).map((note) => (
+                    <span key={note} style={{ display: "block", color: "#8b949e", fontSize: 12 }}>
+                      {note}
+                    </span>
+                  ))}
                 {s.avgMean !== null && (
                   <span style={{ fontSize: 13 }}>
                     Snitt: {s.avgMean.toFixed(2)} · {s.respondents ?? "?"} svar
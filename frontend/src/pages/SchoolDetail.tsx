@@ -1,7 +1,8 @@
 import { useState, useEffect, useMemo } from "react";
 import { useParams, Link } from "react-router-dom";
 import { loadSchoolDetail } from "../data/client.ts";
-import type { SchoolDetail as SchoolDetailType, MeanEntry, UnitMeanEntry } from "../data/client.ts";
+import type { SchoolDetail as SchoolDetailType, DataQuality, MeanEntry, NkiEntry, SchoolHistory, UnitMeanEntry } from "../data/client.ts";
+import { describeAreas, describeHistory } from "../utils/history.ts";
 import { ResponseDistribution } from "../components/ResponseDistribution.tsx";
 import { TrendChart } from "../components/TrendChart.tsx";
 import { GenderSplitChart } from "../components/GenderSplitChart.tsx";
@@ -102,9 +103,14 @@ export function SchoolDetail() {
             >
               Visa original-PDF
             </a>
+            {detail.ocr && <OcrBadge confidence={detail.ocr.confidence} />}
           </p>
         )}
 
+        {detail.history && <HistoryNote history={detail.history} year={detail.year} />}
+
+        {detail.dataQuality?.status === "issues" && <DataQualityNote quality={detail.dataQuality} />}
+
         {detail.relatedReports && detail.relatedReports.length > 0 && (
           <div style={{ display: "flex", flexWrap: "wrap", gap: 6, marginBottom: 16 }}>
             <Link
@@ -268,6 +274,12 @@ export function SchoolDetail() {
           </Section>
         )}
 
+        {detail.nki && detail.nki.length > 0 && (
+          <Section title="NKI och kvalitetsfaktorer">
+            <NkiTable nki={detail.nki} />
+          </Section>
+        )}
+
         {detail.means.length > 0 && (
           <Section title="Alla medelvärden">
             <MeansTable means={detail.means} />
@@ -320,6 +332,8 @@ function Stat({ label, value }: { label: string; value: string }) {
 }
 
 function MeansTable({ means }: { means: SchoolDetailType["means"] }) {
+  // XLS reports (2007-2009) also carry the workbook's own 0-100 index score
+  const hasIndex = means.some((m) => m.indexSchool != null);
   return (
     <div style={{ overflowX: "auto" }}>
       <table
@@ -337,6 +351,12 @@ function MeansTable({ means }: { means: SchoolDetailType["means"] }) {
             <th style={{ textAlign: "right", padding: "6px 8px", color: "#e6edf3" }}>GR</th>
             <th style={{ textAlign: "right", padding: "6px 8px", color: "#e6edf3" }}>Göteborg</th>
             <th style={{ textAlign: "right", padding: "6px 8px", color: "#e6edf3" }}>Stadsdel</th>
+            {hasIndex && (
+              <>
+                <th style={{ textAlign: "right", padding: "6px 8px", color: "#e6edf3" }}>Index</th>
+                <th style={{ textAlign: "right", padding: "6px 8px", color: "#e6edf3" }}>Index alla</th>
+              </>
+            )}
           </tr>
         </thead>
         <tbody>
@@ -369,6 +389,156 @@ function MeansTable({ means }: { means: SchoolDetailType["means"] }) {
               <td style={{ padding: "6px 8px", textAlign: "right", color: "#8b949e" }}>
                 {m.district?.toFixed(2) ?? "—"}
               </td>
+              {hasIndex && (
+                <>
+                  <td style={{ padding: "6px 8px", textAlign: "right", fontWeight: 600, color: "#e6edf3" }}>
+                    {m.indexSchool?.toFixed(0) ?? "—"}
+                  </td>
+                  <td style={{ padding: "6px 8px", textAlign: "right", color: "#8b949e" }}>
+                    {m.indexDistrict?.toFixed(0) ?? "—"}
+                  </td>
+                </>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+const CHECK_RULE_LABELS: Record<string, string> = {
+  distribution_sum: "svarsfördelningar som inte summerar till 100 %",
+  distribution_mean: "medelvärden som inte stämmer med svarsfördelningen",
+  mean_out_of_scale: "medelvärden utanför svarsskalan",
+  nki_out_of_range: "index utanför skalan 0-100",
+  respondents_exceed_invited: "fler svarande än tillfrågade",
+  response_rate_mismatch: "svarsfrekvens som inte stämmer med antalet svarande",
+  gender_split_bracket: "könsuppdelning där totalen ligger utanför flickor och pojkar",
+};
+
+function OcrBadge({ confidence }: { confidence: number | null }) {
+  const title =
+    "Rapporten saknar läsbar text och siffrorna har lästs in med textigenkänning (OCR). " +
+    "De kan innehålla feltolkningar – jämför med original-PDF:en." +
+    (confidence !== null ? ` Säkerhet: ${Math.round(confidence * 100)} %.` : "");
+  return (
+    <span
+      title={title}
+      style={{
+        marginLeft: 8,
+        padding: "1px 8px",
+        border: "1px solid #9e6a03",
+        borderRadius: 10,
+        color: "#d29922",
+        fontSize: 12,
+        cursor: "help",
+      }}
+    >
+      OCR-tolkad
+    </span>
+  );
+}
+
+function HistoryNote({ history, year }: { history: SchoolHistory; year: number }) {
+  const notes = describeHistory(history, year);
+  const areas = describeAreas(history);
+  if (notes.length === 0 && !areas) return null;
+  return (
+    <details
+      style={{
+        margin: "0 0 16px",
+        padding: "8px 12px",
+        border: "1px solid #30363d",
+        borderRadius: 6,
+        background: "#161b22",
+        fontSize: 13,
+      }}
+    >
+      <summary style={{ cursor: "pointer", color: "#e6edf3" }}>
+        Med i enkäten {history.firstYear === history.lastYear ? history.firstYear : `${history.firstYear}–${history.lastYear}`}
+        {notes.length > 0 && <span style={{ color: "#8b949e" }}> · {notes.join(" · ")}</span>}
+      </summary>
+      <ul style={{ margin: "8px 0 0", paddingLeft: 20, color: "#e6edf3" }}>
+        {history.names.map((n) => (
+          <li key={`${n.name}-${n.from}`}>
+            {n.name} ({n.from === n.to ? n.from : `${n.from}–${n.to}`})
+          </li>
+        ))}
+        {areas && <li style={{ color: "#8b949e" }}>Område: {areas}</li>}
+      </ul>
+    </details>
+  );
+}
+
+function DataQualityNote({ quality }: { quality: DataQuality }) {
+  return (
+    <details
+      style={{
+        margin: "0 0 16px",
+        padding: "8px 12px",
+        border: "1px solid #9e6a03",
+        borderRadius: 6,
+        background: "#2d2205",
+        fontSize: 13,
+      }}
+    >
+      <summary style={{ cursor: "pointer", color: "#d29922" }}>
+        Inläsningen av rapporten innehåller motsägelser – tolka siffrorna med försiktighet
+      </summary>
+      <ul style={{ margin: "8px 0 0", paddingLeft: 20, color: "#e6edf3" }}>
+        {quality.issues.map((issue) => (
+          <li key={issue.rule}>
+            {CHECK_RULE_LABELS[issue.rule] ?? issue.rule} ({issue.count} st)
+            <div style={{ color: "#8b949e", fontSize: 12 }}>t.ex. {issue.example}</div>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+function NkiTable({ nki }: { nki: NkiEntry[] }) {
+  const hasGoteborg = nki.some((n) => n.goteborg != null);
+  const hasDistrict = nki.some((n) => n.district != null);
+  return (
+    <div style={{ overflowX: "auto" }}>
+      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+        <thead>
+          <tr style={{ borderBottom: "2px solid #30363d" }}>
+            <th style={{ textAlign: "left", padding: "6px 8px", color: "#e6edf3" }}>Index</th>
+            <th style={{ textAlign: "left", padding: "6px 8px", color: "#e6edf3" }}>Område</th>
+            <th style={{ textAlign: "right", padding: "6px 8px", color: "#e6edf3" }}>Skola</th>
+            {hasGoteborg && <th style={{ textAlign: "right", padding: "6px 8px", color: "#e6edf3" }}>Göteborg</th>}
+            {hasDistrict && <th style={{ textAlign: "right", padding: "6px 8px", color: "#e6edf3" }}>Stadsdel</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {nki.map((n, i) => (
+            <tr
+              key={n.name}
+              style={{
+                borderBottom: "1px solid #21262d",
+                background: i % 2 === 0 ? "#161b22" : "transparent",
+              }}
+            >
+              <td style={{ padding: "6px 8px", color: "#e6edf3" }}>
+                {n.name === "HELHET" ? "NKI, helhet" : n.name.charAt(0) + n.name.slice(1).toLowerCase()}
+              </td>
+              <td style={{ padding: "6px 8px", color: "#8b949e" }}>{n.area ?? "—"}</td>
+              <td style={{ padding: "6px 8px", textAlign: "right", fontWeight: 600, color: "#e6edf3" }}>
+                {n.value?.toFixed(0) ?? "—"}
+              </td>
+              {hasGoteborg && (
+                <td style={{ padding: "6px 8px", textAlign: "right", color: "#8b949e" }}>
+                  {n.goteborg?.toFixed(0) ?? "—"}
+                </td>
+              )}
+              {hasDistrict && (
+                <td style={{ padding: "6px 8px", textAlign: "right", color: "#8b949e" }}>
+                  {n.district?.toFixed(0) ?? "—"}
+                </td>
+              )}
             </tr>
           ))}
         </tbody>
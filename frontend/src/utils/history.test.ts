@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { describeAreas, describeHistory } from "./history.ts";
+import type { SchoolHistory } from "../data/client.ts";
+
+const history: SchoolHistory = {
+  firstYear: 2017,
+  lastYear: 2023,
+  gaps: [{ from: 2018, to: 2020 }],
+  names: [
+    { name: "Förskolan Bågen", from: 2017, to: 2017 },
+    { name: "Regnbågen förskola", from: 2021, to: 2023 },
+  ],
+  areas: [{ name: "Centrum", from: 2017, to: 2023 }],
+  current: false,
+};
+
+describe("describeHistory", () => {
+  it("names the earlier name, gaps and the last survey year", () => {
+    expect(describeHistory(history, 2022)).toEqual([
+      "Tidigare namn: Förskolan Bågen (2017)",
+      "Ingen enkät 2018–2020",
+      "Inte med i enkäten efter 2023",
+    ]);
+  });
+
+  it("names a later name when looking at an old year", () => {
+    expect(describeHistory(history, 2017)[0]).toBe("Heter från 2021: Regnbågen förskola");
+  });
+
+  it("has nothing to say about a school surveyed every year under one name", () => {
+    const steady: SchoolHistory = { ...history, gaps: [], names: history.names.slice(1), current: true };
+    expect(describeHistory(steady, 2022)).toEqual([]);
+  });
+});
+
+describe("describeAreas", () => {
+  it("lists areas only when the school changed area", () => {
+    expect(describeAreas(history)).toBeNull();
+    expect(
+      describeAreas({ ...history, areas: [{ name: "Örgryte-Härlanda", from: 2017, to: 2018 }, { name: "Centrum område 1", from: 2020, to: 2025 }] }),
+    ).toBe("Örgryte-Härlanda (2017–2018), Centrum område 1 (2020–2025)");
+  });
+});
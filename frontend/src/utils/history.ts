@@ -0,0 +1,30 @@
+import type { SchoolHistory, YearSpan } from "../data/client.ts";
+
+function formatSpan({ from, to }: YearSpan): string {
+  return from === to ? `${from}` : `${from}–${to}`;
+}
+
+/**
+ * Short Swedish notes on a school's lifecycle as seen from one survey year: earlier and later names,
+ * years it wasn't surveyed, and whether it has dropped out of the survey.
+ */
+export function describeHistory(history: SchoolHistory, year: number): string[] {
+  const notes: string[] = [];
+  const current = history.names.findIndex((n) => n.from <= year && year <= n.to);
+  const earlier = current >= 0 ? history.names.slice(0, current) : history.names.filter((n) => n.to < year);
+  const later = current >= 0 ? history.names.slice(current + 1) : history.names.filter((n) => n.from > year);
+
+  if (earlier.length > 0) {
+    notes.push(`Tidigare namn: ${earlier.map((n) => `${n.name} (${formatSpan(n)})`).join(", ")}`);
+  }
+  for (const n of later) notes.push(`Heter från ${n.from}: ${n.name}`);
+  for (const gap of history.gaps) notes.push(`Ingen enkät ${formatSpan(gap)}`);
+  if (!history.current) notes.push(`Inte med i enkäten efter ${history.lastYear}`);
+  return notes;
+}
+
+/** "Örgryte-Härlanda (2017–2018), Centrum område 1 (2020–2025)" when the school changed area */
+export function describeAreas(history: SchoolHistory): string | null {
+  if (history.areas.length < 2) return null;
+  return history.areas.map((a) => `${a.name} (${formatSpan(a)})`).join(", ");
+}
@@ -0,0 +1,177 @@
+/**
+ * Year-over-year anomaly detection: flags question means that jump implausibly from the school's
+ * previous year, stand far outside the city-wide distribution, are shared exactly by most reports,
+ * or contradict the history the reports print, and queues them for review in `anomalies`.
+ *
+ * Run: npm run anomalies                        Detect across all years and update the review queue
+ *      npm run anomalies -- --year=2024         Only queue that year's anomalies (other years still give context)
+ *      npm run anomalies -- --list              List open anomalies, highest score first
+ *      npm run anomalies -- --list --kind=year_jump --year=2024
+ *
+ * Anomalies are reviewed (confirmed or dismissed) in the admin tool; reviewed ones keep their status
+ * across re-runs.
+ */
+import "dotenv/config";
+import { query, withTransaction } from "./db.js";
+import pool from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
+import { normalize } from "./normalize.js";
+import { detectAnomalies } from "./anomaly-detection.js";
+import type { Anomaly, AnomalyKind, MeanObservation } from "./anomaly-detection.js";
+
+const KINDS: AnomalyKind[] = ["city_outlier", "year_jump", "city_constant", "history_mismatch"];
+const LIST_LIMIT = 100;
+
+interface Options {
+  year: number | null;
+  kind: AnomalyKind | null;
+  list: boolean;
+}
+
+function parseOptions(args: string[]): Options {
+  const yearArg = args.find((a) => a.startsWith("--year="));
+  const kindArg = args.find((a) => a.startsWith("--kind="));
+
+  const year = yearArg ? yearArg.split("=")[1] : null;
+  if (year !== null && !/^\d{4}$/.test(year)) throw new Error(`Invalid year: ${yearArg}`);
+
+  const kind = kindArg ? kindArg.split("=")[1] : null;
+  if (kind !== null && !KINDS.includes(kind as AnomalyKind)) {
+    throw new Error(`Unknown kind: ${kind} (known: ${KINDS.join(", ")})`);
+  }
+  return {
+    year: year !== null ? parseInt(year, 10) : null,
+    kind: kind as AnomalyKind | null,
+    list: args.includes("--list"),
+  };
+}
+
+/** Every stored school mean, on the 0-100 scale, with the report's printed history */
+async function loadObservations(): Promise<MeanObservation[]> {
+  const { rows } = await query(
+    `SELECT qm.pdf_report_id, pr.year, pr.school_id, pr.report_type, pr.unit_name, pr.report_category,
+            qm.question_id, q.text, a.canonical_question_id, qm.mean_school, qm.historical_means
+     FROM question_means qm
+     JOIN pdf_reports pr ON pr.id = qm.pdf_report_id
+     JOIN questions q ON q.id = qm.question_id
+     LEFT JOIN question_aliases a ON a.question_id = qm.question_id AND a.status = 'confirmed'
+     WHERE pr.parsed_at IS NOT NULL AND pr.parse_error IS NULL AND pr.vanished_at IS NULL
+       AND qm.mean_school IS NOT NULL`,
+  );
+  return rows.map((r) => {
+    const category = r.report_category as "barn" | "foralder" | undefined;
+    const history: Record<string, number> = {};
+    for (const [year, value] of Object.entries((r.historical_means ?? {}) as Record<string, number | null>)) {
+      // Printed on the report's own scale
+      if (value !== null && /^\d{4}$/.test(year)) history[year] = normalize(value, r.year, category)!;
+    }
+    return {
+      reportId: r.pdf_report_id,
+      year: r.year,
+      seriesKey: [r.school_id, r.report_type, r.unit_name ?? "", r.report_category ?? ""].join("|"),
+      questionKey: r.canonical_question_id !== null ? `c${r.canonical_question_id}` : `q${r.question_id}`,
+      questionId: r.question_id,
+      question: r.text,
+      mean: r.mean_school,
+      normalized: normalize(r.mean_school, r.year, category)!,
+      history,
+    };
+  });
+}
+
+/** Upsert the detected anomalies and drop open ones in scope that weren't detected again */
+async function updateQueue(anomalies: Anomaly[], year: number | null): Promise<number> {
+  return withTransaction(async (client) => {
+    for (const a of anomalies) {
+      // NOW() is the transaction's start time, so everything touched here shares one detected_at
+      await client.query(
+        `INSERT INTO anomalies (pdf_report_id, question_id, kind, score, reason, context)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (pdf_report_id, kind, COALESCE(question_id, 0)) DO UPDATE SET
+           score = EXCLUDED.score, reason = EXCLUDED.reason, context = EXCLUDED.context, detected_at = NOW()`,
+        [a.reportId, a.questionId, a.kind, a.score, a.reason, JSON.stringify(a.context)],
+      );
+    }
+    const stale = await client.query(
+      `DELETE FROM anomalies an
+       USING pdf_reports pr
+       WHERE pr.id = an.pdf_report_id AND an.status = 'open' AND an.detected_at < NOW()
+         AND ($1::int IS NULL OR pr.year = $1)`,
+      [year],
+    );
+    return stale.rowCount ?? 0;
+  });
+}
+
+async function listQueue(options: Options) {
+  const { rows } = await query(
+    `SELECT an.id, an.kind, an.score, an.reason, pr.year, pr.id AS report_id,
+            s.clean_name AS school_name, pr.unit_name, q.text AS question
+     FROM anomalies an
+     JOIN pdf_reports pr ON pr.id = an.pdf_report_id
+     JOIN schools s ON s.id = pr.school_id
+     LEFT JOIN questions q ON q.id = an.question_id
+     WHERE an.status = 'open'
+       AND ($1::int IS NULL OR pr.year = $1)
+       AND ($2::text IS NULL OR an.kind = $2)
+     ORDER BY an.score DESC, an.id
+     LIMIT ${LIST_LIMIT + 1}`,
+    [options.year, options.kind],
+  );
+  if (rows.length === 0) {
+    console.log("No open anomalies");
+    return;
+  }
+  for (const r of rows.slice(0, LIST_LIMIT)) {
+    const school = r.unit_name ? `${r.school_name} / ${r.unit_name}` : r.school_name;
+    console.log(`#${r.id}  ${r.kind}  score ${Number(r.score).toFixed(2)}  ${r.year} #${r.report_id} ${school}`);
+    if (r.question) console.log(`    ${r.question}`);
+    console.log(`    ${r.reason}`);
+  }
+  if (rows.length > LIST_LIMIT) console.log(`\n(first ${LIST_LIMIT}; narrow with --year= or --kind=)`);
+}
+
+async function main() {
+  await assertSchemaCurrent();
+  const options = parseOptions(process.argv.slice(2));
+  if (options.list) {
+    await listQueue(options);
+    await pool.end();
+    return;
+  }
+
+  const observations = await loadObservations();
+  console.log(`Loaded ${observations.length} school means`);
+
+  const yearOf = new Map(observations.map((o) => [o.reportId, o.year]));
+  const anomalies = detectAnomalies(observations).filter(
+    (a) => options.year === null || yearOf.get(a.reportId) === options.year,
+  );
+  const removed = await updateQueue(anomalies, options.year);
+
+  const counts = new Map<string, { anomalies: number; reports: Set<number> }>();
+  for (const a of anomalies) {
+    const key = `${a.kind}\u0000${yearOf.get(a.reportId)}`;
+    if (!counts.has(key)) counts.set(key, { anomalies: 0, reports: new Set() });
+    counts.get(key)!.anomalies++;
+    counts.get(key)!.reports.add(a.reportId);
+  }
+  for (const kind of KINDS) {
+    const rows = [...counts.entries()].filter(([key]) => key.startsWith(`${kind}\u0000`)).sort();
+    if (rows.length === 0) continue;
+    const total = rows.reduce((sum, [, c]) => sum + c.anomalies, 0);
+    console.log(`\n${kind} — ${total} total`);
+    for (const [key, c] of rows) {
+      console.log(`  ${key.split("\u0000")[1]}  ${String(c.anomalies).padStart(6)} in ${c.reports.size} reports`);
+    }
+  }
+  console.log(`\n${anomalies.length} anomalies queued, ${removed} no longer detected removed`);
+  console.log("List open anomalies with --list, review them in the admin tool");
+
+  await pool.end();
+}
+
+main().catch((err) => {
+  console.error("Anomaly detection failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,260 @@
+/**
+ * Anomaly detection for `npm run anomalies` (anomalies.ts): compares each report's question means
+ * with the same school's other years and with the city-wide distribution for the year, and checks
+ * the history printed in each report (historical_means) against what was stored for those years.
+ * Parser bugs tend to show up here as implausible jumps or values many reports share exactly.
+ */
+
+export interface MeanObservation {
+  reportId: number;
+  year: number;
+  /** Identifies the same school, report type, unit and respondent group across years */
+  seriesKey: string;
+  /** Canonical question when the wording is linked to one, otherwise the question itself */
+  questionKey: string;
+  questionId: number;
+  question: string;
+  /** mean_school as stored */
+  mean: number;
+  /** mean_school on the 0-100 scale (normalize()) */
+  normalized: number;
+  /** The report's historical_means on the 0-100 scale, by year */
+  history: Record<string, number>;
+}
+
+export type AnomalyKind = "city_outlier" | "year_jump" | "city_constant" | "history_mismatch";
+
+export interface Anomaly {
+  reportId: number;
+  /** Null for report-level anomalies (history_mismatch) */
+  questionId: number | null;
+  kind: AnomalyKind;
+  /** How far past the kind's threshold: 1 is just flagged, 2 twice as far */
+  score: number;
+  reason: string;
+  context: Record<string, unknown>;
+}
+
+/** Fewest reports a year's question needs before its city-wide distribution is used */
+export const MIN_CITY_REPORTS = 10;
+/** Robust z-score (median / MAD) from the year's city-wide distribution that counts as an outlier */
+export const CITY_OUTLIER_Z = 5;
+/** Robust z-score of a year-over-year change, compared with the city-wide changes, that counts as a jump */
+export const JUMP_Z = 4;
+/** Smallest year-over-year change (0-100 points) reported as a jump */
+export const MIN_JUMP_POINTS = 15;
+/** Share of a year's reports reading exactly the same mean that makes the value suspect */
+export const CONSTANT_SHARE = 0.5;
+/** Points (0-100) a printed historical mean may differ from the stored mean for that year */
+export const HISTORY_TOLERANCE_POINTS = 5;
+/** Share of a report's history comparisons that must disagree to flag the report */
+export const HISTORY_MISMATCH_SHARE = 0.5;
+export const MIN_HISTORY_COMPARISONS = 3;
+
+function round(value: number, decimals = 2): number {
+  const f = 10 ** decimals;
+  return Math.round(value * f) / f;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Median and scaled median absolute deviation; null when the spread is zero */
+export function robustSpread(values: number[]): { median: number; sigma: number } | null {
+  const m = median(values);
+  const sigma = 1.4826 * median(values.map((v) => Math.abs(v - m)));
+  return sigma > 0 ? { median: m, sigma } : null;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(item);
+  }
+  return groups;
+}
+
+function cityOutliers(byYearQuestion: Map<string, MeanObservation[]>): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+  for (const group of byYearQuestion.values()) {
+    if (group.length < MIN_CITY_REPORTS) continue;
+    const spread = robustSpread(group.map((o) => o.normalized));
+    if (!spread) continue;
+    for (const o of group) {
+      const z = (o.normalized - spread.median) / spread.sigma;
+      if (Math.abs(z) < CITY_OUTLIER_Z) continue;
+      anomalies.push({
+        reportId: o.reportId,
+        questionId: o.questionId,
+        kind: "city_outlier",
+        score: round(Math.abs(z) / CITY_OUTLIER_Z),
+        reason:
+          `${round(o.normalized, 1)} is ${round(Math.abs(z), 1)} robust SDs ${z < 0 ? "below" : "above"} ` +
+          `the ${o.year} city-wide median of ${round(spread.median, 1)} (0-100)`,
+        context: {
+          question: o.question,
+          mean: o.mean,
+          normalized: round(o.normalized),
+          cityMedian: round(spread.median),
+          z: round(z),
+          reports: group.length,
+        },
+      });
+    }
+  }
+  return anomalies;
+}
+
+function cityConstants(byYearQuestion: Map<string, MeanObservation[]>): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+  for (const group of byYearQuestion.values()) {
+    if (group.length < MIN_CITY_REPORTS) continue;
+    const byValue = groupBy(group, (o) => String(round(o.mean, 4)));
+    for (const same of byValue.values()) {
+      const share = same.length / group.length;
+      if (share < CONSTANT_SHARE) continue;
+      for (const o of same) {
+        anomalies.push({
+          reportId: o.reportId,
+          questionId: o.questionId,
+          kind: "city_constant",
+          score: round(share / CONSTANT_SHARE),
+          reason: `${same.length} of ${group.length} reports in ${o.year} read exactly ${o.mean} for this question`,
+          context: { question: o.question, mean: o.mean, sharing: same.length, reports: group.length },
+        });
+      }
+    }
+  }
+  return anomalies;
+}
+
+interface YearChange {
+  observation: MeanObservation;
+  previousYear: number;
+  previous: number;
+  previousSource: "report" | "history";
+  delta: number;
+}
+
+/**
+ * Change since the school's nearest earlier year: from that year's stored report, or else from
+ * the history this report prints
+ */
+function yearChanges(observations: MeanObservation[]): YearChange[] {
+  const changes: YearChange[] = [];
+  for (const series of groupBy(observations, (o) => `${o.seriesKey}\u0000${o.questionKey}`).values()) {
+    series.sort((a, b) => a.year - b.year);
+    series.forEach((o, i) => {
+      const stored = i > 0 ? series[i - 1] : null;
+      const printedYears = Object.keys(o.history).map(Number).filter((y) => y < o.year);
+      const printedYear = printedYears.length > 0 ? Math.max(...printedYears) : null;
+      let previousYear: number;
+      let previous: number;
+      let previousSource: YearChange["previousSource"];
+      if (stored && (printedYear === null || stored.year >= printedYear)) {
+        [previousYear, previous, previousSource] = [stored.year, stored.normalized, "report"];
+      } else if (printedYear !== null) {
+        [previousYear, previous, previousSource] = [printedYear, o.history[printedYear], "history"];
+      } else {
+        return;
+      }
+      changes.push({ observation: o, previousYear, previous, previousSource, delta: o.normalized - previous });
+    });
+  }
+  return changes;
+}
+
+function yearJumps(observations: MeanObservation[]): Anomaly[] {
+  const anomalies: Anomaly[] = [];
+  const changes = yearChanges(observations);
+  for (const group of groupBy(changes, (c) => `${c.observation.year}\u0000${c.observation.questionKey}`).values()) {
+    if (group.length < MIN_CITY_REPORTS) continue;
+    const spread = robustSpread(group.map((c) => c.delta));
+    if (!spread) continue;
+    for (const c of group) {
+      const z = (c.delta - spread.median) / spread.sigma;
+      if (Math.abs(z) < JUMP_Z || Math.abs(c.delta) < MIN_JUMP_POINTS) continue;
+      const o = c.observation;
+      const printed = o.history[c.previousYear];
+      const historyNote =
+        c.previousSource === "history"
+          ? `; ${c.previousYear} value from the report's own history`
+          : printed !== undefined
+            ? `; the report's own history gives ${round(printed, 1)} for ${c.previousYear}`
+            : "";
+      anomalies.push({
+        reportId: o.reportId,
+        questionId: o.questionId,
+        kind: "year_jump",
+        score: round(Math.abs(z) / JUMP_Z),
+        reason:
+          `${round(c.previous, 1)} → ${round(o.normalized, 1)} (0-100) since ${c.previousYear}, ` +
+          `${round(Math.abs(z), 1)} robust SDs from the city-wide change of ${round(spread.median, 1)}${historyNote}`,
+        context: {
+          question: o.question,
+          mean: o.mean,
+          normalized: round(o.normalized),
+          previousYear: c.previousYear,
+          previous: round(c.previous),
+          previousSource: c.previousSource,
+          printedPrevious: printed !== undefined ? round(printed) : null,
+          delta: round(c.delta),
+          cityDelta: round(spread.median),
+          z: round(z),
+        },
+      });
+    }
+  }
+  return anomalies;
+}
+
+/** Reports whose printed history mostly disagrees with what was stored for those years */
+function historyMismatches(observations: MeanObservation[]): Anomaly[] {
+  const stored = new Map(observations.map((o) => [`${o.seriesKey}\u0000${o.questionKey}\u0000${o.year}`, o]));
+  const anomalies: Anomaly[] = [];
+  for (const report of groupBy(observations, (o) => String(o.reportId)).values()) {
+    let compared = 0;
+    const mismatches: { question: string; year: number; printed: number; stored: number }[] = [];
+    for (const o of report) {
+      for (const [yearKey, printed] of Object.entries(o.history)) {
+        const year = Number(yearKey);
+        const other = year === o.year ? o : stored.get(`${o.seriesKey}\u0000${o.questionKey}\u0000${year}`);
+        if (!other) continue;
+        compared++;
+        if (Math.abs(other.normalized - printed) > HISTORY_TOLERANCE_POINTS) {
+          mismatches.push({ question: o.question, year, printed: round(printed), stored: round(other.normalized) });
+        }
+      }
+    }
+    if (compared < MIN_HISTORY_COMPARISONS) continue;
+    const share = mismatches.length / compared;
+    if (share < HISTORY_MISMATCH_SHARE) continue;
+    anomalies.push({
+      reportId: report[0].reportId,
+      questionId: null,
+      kind: "history_mismatch",
+      score: round(share / HISTORY_MISMATCH_SHARE),
+      reason:
+        `The report's historical means disagree with the stored means by more than ` +
+        `${HISTORY_TOLERANCE_POINTS} points (0-100) in ${mismatches.length} of ${compared} comparisons`,
+      context: { compared, mismatched: mismatches.length, examples: mismatches.slice(0, 5) },
+    });
+  }
+  return anomalies;
+}
+
+/** Every anomaly among the observations, highest score first */
+export function detectAnomalies(observations: MeanObservation[]): Anomaly[] {
+  const byYearQuestion = groupBy(observations, (o) => `${o.year}\u0000${o.questionKey}`);
+  return [
+    ...cityOutliers(byYearQuestion),
+    ...cityConstants(byYearQuestion),
+    ...yearJumps(observations),
+    ...historyMismatches(observations),
+  ].sort((a, b) => b.score - a.score);
+}
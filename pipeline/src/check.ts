@@ -0,0 +1,220 @@
+/**
+ * Internal consistency checks across the stored data: evaluates every rule in checks.ts against
+ * each parsed report and records the violations per report in check_violations.
+ *
+ * Run: npm run check                          Check every parsed report
+ *      npm run check -- --year=2024           Only one survey year
+ *      npm run check -- --rule=ID             Also list that rule's violations
+ *
+ * Reports re-parsed after their last check count as unchecked until the next run (see export).
+ * Violations in reports read through OCR (text_source = 'ocr') are marked, as they may be misreads.
+ */
+import "dotenv/config";
+import { query, withTransaction } from "./db.js";
+import pool from "./db.js";
+import type { Queryable } from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
+import { CHECK_RULES, checkReport } from "./checks.js";
+import type { CheckedReport, CheckViolation } from "./checks.js";
+import { toNumber } from "./validation.js";
+
+interface Options {
+  year: number | null;
+  rule: string | null;
+}
+
+function parseOptions(args: string[]): Options {
+  const yearArg = args.find((a) => a.startsWith("--year="));
+  const ruleArg = args.find((a) => a.startsWith("--rule="));
+
+  const year = yearArg ? yearArg.split("=")[1] : null;
+  if (year !== null && !/^\d{4}$/.test(year)) throw new Error(`Invalid year: ${yearArg}`);
+
+  const rule = ruleArg ? ruleArg.split("=")[1] : null;
+  if (rule !== null && !CHECK_RULES.some((r) => r.id === rule)) {
+    throw new Error(`Unknown rule: ${rule} (known: ${CHECK_RULES.map((r) => r.id).join(", ")})`);
+  }
+  return { year: year !== null ? parseInt(year, 10) : null, rule };
+}
+
+/** Load one survey year's parsed reports with the tables the rules look at */
+async function loadYear(year: number): Promise<CheckedReport[]> {
+  const { rows: reportRows } = await query(
+    `SELECT pr.id, pr.report_category, rm.response_rate, rm.respondents, rm.total_invited,
+            rm.pdf_report_id IS NOT NULL AS has_metadata
+     FROM pdf_reports pr
+     LEFT JOIN report_metadata rm ON rm.pdf_report_id = pr.id
+     WHERE pr.year = $1 AND pr.parsed_at IS NOT NULL AND pr.parse_error IS NULL
+     ORDER BY pr.id`,
+    [year],
+  );
+  const reports = new Map<number, CheckedReport>();
+  for (const r of reportRows) {
+    reports.set(r.id, {
+      reportId: r.id,
+      year,
+      category: r.report_category,
+      metadata: r.has_metadata
+        ? {
+            responseRate: toNumber(r.response_rate),
+            respondents: toNumber(r.respondents),
+            totalInvited: toNumber(r.total_invited),
+          }
+        : null,
+      means: new Map(),
+      responses: [],
+      genderSplit: [],
+      nkiIndices: [],
+    });
+  }
+
+  const yearFilter = `JOIN pdf_reports pr ON pr.id = t.pdf_report_id AND pr.year = $1`;
+  const means = await query(
+    `SELECT t.pdf_report_id, q.text, t.mean_school
+     FROM question_means t JOIN questions q ON q.id = t.question_id ${yearFilter}`,
+    [year],
+  );
+  for (const m of means.rows) reports.get(m.pdf_report_id)?.means.set(m.text, toNumber(m.mean_school));
+
+  const responses = await query(
+    `SELECT t.pdf_report_id, q.text, t.pct_strongly_agree, t.pct_agree, t.pct_neither,
+            t.pct_disagree, t.pct_strongly_disagree, t.pct_dont_know, t.pct_no_answer
+     FROM question_responses t JOIN questions q ON q.id = t.question_id ${yearFilter}`,
+    [year],
+  );
+  for (const r of responses.rows) {
+    reports.get(r.pdf_report_id)?.responses.push({
+      question: r.text,
+      stronglyAgree: toNumber(r.pct_strongly_agree),
+      agree: toNumber(r.pct_agree),
+      neither: toNumber(r.pct_neither),
+      disagree: toNumber(r.pct_disagree),
+      stronglyDisagree: toNumber(r.pct_strongly_disagree),
+      dontKnow: toNumber(r.pct_dont_know),
+      noAnswer: toNumber(r.pct_no_answer),
+    });
+  }
+
+  const gender = await query(
+    `SELECT t.pdf_report_id, q.text, t.pct_total, t.pct_flicka, t.pct_pojke
+     FROM gender_split t JOIN questions q ON q.id = t.question_id ${yearFilter}`,
+    [year],
+  );
+  for (const g of gender.rows) {
+    reports.get(g.pdf_report_id)?.genderSplit.push({
+      question: g.text,
+      total: toNumber(g.pct_total),
+      flicka: toNumber(g.pct_flicka),
+      pojke: toNumber(g.pct_pojke),
+    });
+  }
+
+  const nki = await query(
+    `SELECT t.pdf_report_id, t.name, t.value, t.scale_min, t.scale_max
+     FROM nki_indices t ${yearFilter}`,
+    [year],
+  );
+  for (const n of nki.rows) {
+    reports.get(n.pdf_report_id)?.nkiIndices.push({
+      name: n.name,
+      value: toNumber(n.value),
+      scaleMin: Number(n.scale_min),
+      scaleMax: Number(n.scale_max),
+    });
+  }
+
+  return [...reports.values()];
+}
+
+/** Replace a report's violations with the ones from this run and mark it checked */
+async function replaceCheckViolations(db: Queryable, reportId: number, violations: CheckViolation[]) {
+  await db.query("DELETE FROM check_violations WHERE pdf_report_id = $1", [reportId]);
+  for (const v of violations) {
+    await db.query(
+      `INSERT INTO check_violations (pdf_report_id, rule, message, context)
+       VALUES ($1, $2, $3, $4)`,
+      [reportId, v.rule, v.message, v.context ? JSON.stringify(v.context) : null],
+    );
+  }
+  await db.query("UPDATE pdf_reports SET checked_at = NOW() WHERE id = $1", [reportId]);
+}
+
+async function main() {
+  await assertSchemaCurrent();
+  const options = parseOptions(process.argv.slice(2));
+
+  const { rows: yearRows } = await query(
+    `SELECT DISTINCT year FROM pdf_reports
+     WHERE parsed_at IS NOT NULL AND ($1::int IS NULL OR year = $1)
+     ORDER BY year`,
+    [options.year],
+  );
+  const { rows: ocrRows } = await query(
+    `SELECT id FROM pdf_reports WHERE text_source = 'ocr' AND ($1::int IS NULL OR year = $1)`,
+    [options.year],
+  );
+  const ocrReports = new Set(ocrRows.map((r) => r.id as number));
+
+  // rule → year → [violations, reports]
+  const counts = new Map<string, Map<number, { violations: number; reports: number }>>();
+  const listed: { year: number; reportId: number; violation: CheckViolation }[] = [];
+  let checked = 0;
+  let flagged = 0;
+  let flaggedOcr = 0;
+
+  for (const { year } of yearRows) {
+    const reports = await loadYear(year);
+    for (const report of reports) {
+      const violations = checkReport(report);
+      await withTransaction((client) => replaceCheckViolations(client, report.reportId, violations));
+      checked++;
+      if (violations.length > 0) flagged++;
+      if (violations.length > 0 && ocrReports.has(report.reportId)) flaggedOcr++;
+
+      for (const rule of new Set(violations.map((v) => v.rule))) {
+        if (!counts.has(rule)) counts.set(rule, new Map());
+        const byYear = counts.get(rule)!;
+        const entry = byYear.get(year) ?? { violations: 0, reports: 0 };
+        entry.violations += violations.filter((v) => v.rule === rule).length;
+        entry.reports++;
+        byYear.set(year, entry);
+      }
+      if (options.rule) {
+        for (const v of violations.filter((x) => x.rule === options.rule)) {
+          listed.push({ year, reportId: report.reportId, violation: v });
+        }
+      }
+    }
+    console.log(`${year}: ${reports.length} reports checked`);
+  }
+
+  console.log(
+    `\nChecked ${checked} reports, ${flagged} with violations` +
+      (flaggedOcr > 0 ? ` (${flaggedOcr} read through OCR, where they may be misreads)` : ""),
+  );
+  for (const rule of CHECK_RULES) {
+    const byYear = counts.get(rule.id);
+    if (!byYear) continue;
+    const total = [...byYear.values()].reduce((sum, e) => sum + e.violations, 0);
+    console.log(`\n${rule.id} — ${total} total\n  ${rule.description}`);
+    for (const [year, e] of byYear) {
+      console.log(`  ${year}  ${String(e.violations).padStart(6)} in ${e.reports} reports`);
+    }
+  }
+
+  if (options.rule) {
+    console.log(`\n${options.rule}: ${listed.length} violations`);
+    for (const { year, reportId, violation } of listed) {
+      console.log(`  ${year}  #${reportId}${ocrReports.has(reportId) ? " (OCR)" : ""}  ${violation.message}`);
+    }
+  } else if (counts.size > 0) {
+    console.log("\nList one rule's violations with --rule=ID");
+  }
+
+  await pool.end();
+}
+
+main().catch((err) => {
+  console.error("Check failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,229 @@
+/**
+ * Internal consistency rules for `npm run check` (check.ts): each rule looks at one report's
+ * stored tables and returns the places where the numbers contradict each other. Violations are
+ * stored per report in check_violations and summarised as a data-quality flag by export.
+ */
+import { getScale } from "./normalize.js";
+
+export interface CheckedMetadata {
+  responseRate: number | null;
+  respondents: number | null;
+  totalInvited: number | null;
+}
+
+export interface CheckedResponse {
+  question: string;
+  stronglyAgree: number | null;
+  agree: number | null;
+  neither: number | null;
+  disagree: number | null;
+  stronglyDisagree: number | null;
+  dontKnow: number | null;
+  noAnswer: number | null;
+}
+
+export interface CheckedGenderSplit {
+  question: string;
+  total: number | null;
+  flicka: number | null;
+  pojke: number | null;
+}
+
+/** One report's stored data, as the rules see it */
+export interface CheckedReport {
+  reportId: number;
+  year: number;
+  category: "barn" | "foralder" | null;
+  metadata: CheckedMetadata | null;
+  /** Question text → mean_school */
+  means: Map<string, number | null>;
+  responses: CheckedResponse[];
+  genderSplit: CheckedGenderSplit[];
+  nkiIndices: { name: string; value: number | null; scaleMin: number; scaleMax: number }[];
+}
+
+export interface CheckViolation {
+  /** Id of the rule that found it, e.g. "distribution_sum" */
+  rule: string;
+  message: string;
+  /** Details for tracking the problem down (question text, the values compared…) */
+  context?: Record<string, unknown>;
+}
+
+export interface CheckRule {
+  id: string;
+  description: string;
+  check(report: CheckedReport): CheckViolation[];
+}
+
+/** Distributions are printed as whole percentages, so their sums drift a few points from 100 */
+export const DISTRIBUTION_SUM_TOLERANCE = 3;
+/** Allowed gap between a distribution's implied mean and mean_school, as a share of the scale range */
+export const DISTRIBUTION_MEAN_TOLERANCE = 0.125;
+/** Percentage points response_rate may differ from respondents / total_invited */
+export const RESPONSE_RATE_TOLERANCE = 1;
+/** Percentage points pct_total may lie outside the range spanned by pct_flicka and pct_pojke */
+export const GENDER_BRACKET_TOLERANCE = 2;
+
+function round(value: number, decimals = 2): number {
+  const f = 10 ** decimals;
+  return Math.round(value * f) / f;
+}
+
+/** The answer shares of a distribution, strongly disagree first; null when nothing was read */
+function answerShares(r: CheckedResponse): number[] | null {
+  const values = [r.stronglyDisagree, r.disagree, r.neither, r.agree, r.stronglyAgree];
+  if (values.every((v) => v === null)) return null;
+  return values.map((v) => v ?? 0);
+}
+
+/**
+ * Mean implied by a distribution, for the scales whose answer options map onto the stored
+ * columns one to one: 1-5 (strongly disagree … strongly agree) and 1-3 (disagree, neither,
+ * agree in the strongly-disagree, neither and strongly-agree columns). "Vet ej" is left out,
+ * like it is from the report's own means. Null for other scales or an empty distribution.
+ */
+export function impliedMean(r: CheckedResponse, scale: { min: number; max: number }): number | null {
+  const shares = answerShares(r);
+  if (!shares) return null;
+  let weights: number[];
+  if (scale.min === 1 && scale.max === 5) weights = [1, 2, 3, 4, 5];
+  else if (scale.min === 1 && scale.max === 3) weights = [1, 0, 2, 0, 3];
+  else return null;
+
+  let total = 0;
+  let weighted = 0;
+  shares.forEach((share, i) => {
+    if (weights[i] === 0) return;
+    total += share;
+    weighted += share * weights[i];
+  });
+  return total > 0 ? weighted / total : null;
+}
+
+export const CHECK_RULES: CheckRule[] = [
+  {
+    id: "distribution_sum",
+    description: `Answer distributions sum to 100 % (±${DISTRIBUTION_SUM_TOLERANCE})`,
+    check(report) {
+      const violations: CheckViolation[] = [];
+      for (const r of report.responses) {
+        const shares = answerShares(r);
+        if (!shares) continue;
+        // "Vet ej" is one of the answers and counts; the workbooks' no-answer share is left out, as it
+        // is of all respondents while the distribution is of those who answered
+        const sum = round(shares.reduce((a, b) => a + b, 0) + (r.dontKnow ?? 0));
+        if (Math.abs(sum - 100) <= DISTRIBUTION_SUM_TOLERANCE) continue;
+        violations.push({
+          rule: "distribution_sum",
+          message: `Distribution sums to ${sum} %: ${r.question}`,
+          context: { question: r.question, sum },
+        });
+      }
+      return violations;
+    },
+  },
+  {
+    id: "distribution_mean",
+    description: "The mean implied by a distribution matches mean_school (1-5 and 1-3 scales)",
+    check(report) {
+      const scale = getScale(report.year, report.category ?? undefined);
+      const tolerance = (scale.max - scale.min) * DISTRIBUTION_MEAN_TOLERANCE;
+      const violations: CheckViolation[] = [];
+      for (const r of report.responses) {
+        const mean = report.means.get(r.question);
+        if (mean === null || mean === undefined) continue;
+        const implied = impliedMean(r, scale);
+        if (implied === null || Math.abs(implied - mean) <= tolerance) continue;
+        violations.push({
+          rule: "distribution_mean",
+          message: `Distribution implies a mean of ${round(implied)}, stored mean is ${mean}: ${r.question}`,
+          context: { question: r.question, impliedMean: round(implied), meanSchool: mean },
+        });
+      }
+      return violations;
+    },
+  },
+  {
+    id: "mean_out_of_scale",
+    description: "Question means lie within the year's answer scale",
+    check(report) {
+      const scale = getScale(report.year, report.category ?? undefined);
+      const violations: CheckViolation[] = [];
+      for (const [question, mean] of report.means) {
+        if (mean === null || (mean >= scale.min && mean <= scale.max)) continue;
+        violations.push({
+          rule: "mean_out_of_scale",
+          message: `Mean ${mean} is outside the ${scale.label} scale: ${question}`,
+          context: { question, meanSchool: mean, scale: scale.label },
+        });
+      }
+      return violations;
+    },
+  },
+  {
+    id: "nki_out_of_range",
+    description: "NKI and quality factor indices lie within their scale",
+    check(report) {
+      return report.nkiIndices
+        .filter((n) => n.value !== null && (n.value < n.scaleMin || n.value > n.scaleMax))
+        .map((n) => ({
+          rule: "nki_out_of_range",
+          message: `${n.name} index ${n.value} is outside ${n.scaleMin}-${n.scaleMax}`,
+          context: { name: n.name, value: n.value },
+        }));
+    },
+  },
+  {
+    id: "respondents_exceed_invited",
+    description: "respondents does not exceed total_invited",
+    check(report) {
+      const m = report.metadata;
+      if (!m || m.respondents === null || m.totalInvited === null || m.respondents <= m.totalInvited) return [];
+      return [{
+        rule: "respondents_exceed_invited",
+        message: `${m.respondents} respondents but only ${m.totalInvited} invited`,
+        context: { respondents: m.respondents, totalInvited: m.totalInvited },
+      }];
+    },
+  },
+  {
+    id: "response_rate_mismatch",
+    description: `response_rate matches respondents / total_invited (±${RESPONSE_RATE_TOLERANCE} point)`,
+    check(report) {
+      const m = report.metadata;
+      if (!m || m.responseRate === null || m.respondents === null || !m.totalInvited) return [];
+      const computed = round((m.respondents / m.totalInvited) * 100, 1);
+      if (Math.abs(computed - m.responseRate) <= RESPONSE_RATE_TOLERANCE) return [];
+      return [{
+        rule: "response_rate_mismatch",
+        message: `Response rate ${m.responseRate} % but ${m.respondents}/${m.totalInvited} is ${computed} %`,
+        context: { responseRate: m.responseRate, computed },
+      }];
+    },
+  },
+  {
+    id: "gender_split_bracket",
+    description: `pct_flicka and pct_pojke bracket pct_total (±${GENDER_BRACKET_TOLERANCE})`,
+    check(report) {
+      const violations: CheckViolation[] = [];
+      for (const g of report.genderSplit) {
+        if (g.total === null || g.flicka === null || g.pojke === null) continue;
+        const low = Math.min(g.flicka, g.pojke) - GENDER_BRACKET_TOLERANCE;
+        const high = Math.max(g.flicka, g.pojke) + GENDER_BRACKET_TOLERANCE;
+        if (g.total >= low && g.total <= high) continue;
+        violations.push({
+          rule: "gender_split_bracket",
+          message: `Total ${g.total} % is outside flickor ${g.flicka} % / pojkar ${g.pojke} %: ${g.question}`,
+          context: { question: g.question, total: g.total, flicka: g.flicka, pojke: g.pojke },
+        });
+      }
+      return violations;
+    },
+  },
+];
+
+/** Run every rule (or the given subset) against one report */
+export function checkReport(report: CheckedReport, rules: CheckRule[] = CHECK_RULES): CheckViolation[] {
+  return rules.flatMap((rule) => rule.check(report));
+}
@@ -0,0 +1,195 @@
+/**
+ * Format classification audit: runs survey format detection over every downloaded file and
+ * stores the detected format, the formats that matched and the detection signals on pdf_reports.
+ * Prints a year × format table and lists files whose format doesn't belong to their survey year
+ * or that several formats recognise.
+ *
+ * Run: npm run classify [year]
+ * Table only, from the stored classification: npm run classify -- --report [year]
+ */
+import "dotenv/config";
+import { existsSync } from "node:fs";
+import { query } from "./db.js";
+import pool from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
+import { extractLayoutText } from "./parser/tables.js";
+import { classifySurveyFormat, formatCoversYear, listSurveyFormats } from "./parser/formats/index.js";
+import type { SurveyFormat } from "./parser/formats/index.js";
+
+/** XLS workbooks are recognised by file extension, not by content (see parser/index.ts) */
+const XLS_FORMAT: Pick<SurveyFormat, "id" | "years"> = { id: "xls", years: { from: 2007, to: 2009 } };
+
+interface ReportRow {
+  id: number;
+  year: number;
+  local_path: string;
+}
+
+interface ClassifiedRow extends ReportRow {
+  detected_format: string;
+  format_candidates: string[];
+  format_signals: string[];
+}
+
+interface Classification {
+  format: string;
+  candidates: string[];
+  signals: string[];
+}
+
+async function classifyFile(path: string): Promise<Classification> {
+  if (/\.xlsx?$/i.test(path)) {
+    return { format: XLS_FORMAT.id, candidates: [XLS_FORMAT.id], signals: [] };
+  }
+  const result = classifySurveyFormat(await extractLayoutText(path));
+  return {
+    format: result.format.id,
+    candidates: result.candidates.map((f) => f.id),
+    signals: result.signals,
+  };
+}
+
+/** Known formats in era order, XLS first */
+function formatsByEra(): Array<Pick<SurveyFormat, "id" | "years">> {
+  return [XLS_FORMAT, ...[...listSurveyFormats()].sort((a, b) => a.years.from - b.years.from)];
+}
+
+function describeYears(format: Pick<SurveyFormat, "years">): string {
+  return `${format.years.from}-${format.years.to ?? ""}`;
+}
+
+/** Why a classified report needs a look (empty when it doesn't) */
+function flagReasons(row: ClassifiedRow, formats: Array<Pick<SurveyFormat, "id" | "years">>): string[] {
+  const reasons: string[] = [];
+  const format = formats.find((f) => f.id === row.detected_format);
+  if (!format) {
+    reasons.push(`unknown format "${row.detected_format}"`);
+  } else if (!formatCoversYear(format, row.year)) {
+    reasons.push(`outside era (${format.id} is ${describeYears(format)})`);
+  }
+  if (row.format_candidates.length > 1) {
+    reasons.push(`several formats match (${row.format_candidates.join(", ")})`);
+  }
+  return reasons;
+}
+
+async function classifyReports(year?: number) {
+  const params: unknown[] = [];
+  let sql = `
+    SELECT id, year, local_path FROM pdf_reports
+    WHERE local_path IS NOT NULL AND vanished_at IS NULL
+  `;
+  if (year !== undefined) {
+    params.push(year);
+    sql += ` AND year = $${params.length}`;
+  }
+  sql += " ORDER BY year, id";
+  const { rows } = await query(sql, params);
+  console.log(`Classifying ${rows.length} downloaded files...`);
+
+  // Unit reports from one XLS workbook share its file
+  const byPath = new Map<string, Classification>();
+  let missing = 0;
+  let errors = 0;
+
+  for (const row of rows as ReportRow[]) {
+    if (!existsSync(row.local_path)) {
+      missing++;
+      continue;
+    }
+    try {
+      let result = byPath.get(row.local_path);
+      if (!result) {
+        result = await classifyFile(row.local_path);
+        byPath.set(row.local_path, result);
+      }
+      await query(
+        `UPDATE pdf_reports
+         SET detected_format = $2, format_candidates = $3, format_signals = $4, classified_at = NOW()
+         WHERE id = $1`,
+        [row.id, result.format, result.candidates, result.signals],
+      );
+    } catch (err) {
+      errors++;
+      console.error(`  Error #${row.id} ${row.local_path}: ${err}`);
+    }
+  }
+
+  console.log(`Classified ${rows.length - missing - errors} files (${missing} missing on disk, ${errors} errors)`);
+}
+
+/** Print the year × format table and the flagged files from the stored classification */
+async function printClassificationReport(year?: number) {
+  const params: unknown[] = [];
+  let sql = `
+    SELECT id, year, local_path, detected_format, format_candidates, format_signals
+    FROM pdf_reports
+    WHERE detected_format IS NOT NULL AND vanished_at IS NULL
+  `;
+  if (year !== undefined) {
+    params.push(year);
+    sql += ` AND year = $${params.length}`;
+  }
+  sql += " ORDER BY year, id";
+  const rows = (await query(sql, params)).rows as ClassifiedRow[];
+  if (rows.length === 0) {
+    console.log("No classified reports (run npm run classify first)");
+    return;
+  }
+
+  const formats = formatsByEra();
+  // Formats stored by an earlier classification but no longer registered still get a column
+  const columns = formats.map((f) => f.id);
+  for (const id of new Set(rows.map((r) => r.detected_format))) {
+    if (!columns.includes(id)) columns.push(id);
+  }
+
+  const counts = new Map<number, Map<string, number>>();
+  const flagged: Array<{ row: ClassifiedRow; reasons: string[] }> = [];
+  for (const row of rows) {
+    const yearCounts = counts.get(row.year) ?? new Map<string, number>();
+    yearCounts.set(row.detected_format, (yearCounts.get(row.detected_format) ?? 0) + 1);
+    counts.set(row.year, yearCounts);
+
+    const reasons = flagReasons(row, formats);
+    if (reasons.length > 0) flagged.push({ row, reasons });
+  }
+
+  console.log(`\n${"Year".padEnd(6)} ${columns.map((id) => id.padStart(10)).join("")} ${"Flagged".padStart(9)}`);
+  console.log("─".repeat(7 + columns.length * 10 + 10));
+  for (const [y, yearCounts] of counts) {
+    const cells = columns.map((id) => {
+      const n = yearCounts.get(id);
+      return (n ? String(n) : "·").padStart(10);
+    });
+    const nFlagged = flagged.filter((f) => f.row.year === y).length;
+    console.log(`${String(y).padEnd(6)} ${cells.join("")} ${String(nFlagged || "").padStart(9)}`);
+  }
+
+  console.log(`\nFlagged files (${flagged.length})`);
+  for (const { row, reasons } of flagged) {
+    console.log(`  ${row.year}  #${row.id}  ${row.detected_format}: ${reasons.join("; ")}`);
+    console.log(`        ${row.local_path}`);
+    console.log(`        signals: ${row.format_signals.join(", ") || "none"}`);
+  }
+}
+
+async function main() {
+  await assertSchemaCurrent();
+
+  const args = process.argv.slice(2);
+  const yearArg = args.find((a) => /^\d{4}$/.test(a));
+  const year = yearArg ? parseInt(yearArg, 10) : undefined;
+
+  if (!args.includes("--report")) {
+    await classifyReports(year);
+  }
+  await printClassificationReport(year);
+
+  await pool.end();
+}
+
+main().catch((err) => {
+  console.error("Classify failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,117 @@
+/**
+ * Crawl history reports: what a crawl of a year added, removed or renamed
+ * compared to the reports known before it (crawl_runs / crawl_run_urls / crawl_run_changes).
+ * Run: npm run crawl -- --diff [year]
+ */
+import { query } from "./db.js";
+
+interface CrawlRun {
+  id: number;
+  year: number;
+  started_at: Date;
+  status: string;
+}
+
+function formatTime(ts: Date | null): string {
+  return ts ? ts.toISOString().slice(0, 16).replace("T", " ") : "—";
+}
+
+/** One-line change summary for a crawl run, printed at the end of each crawled year */
+export async function summarizeCrawlRun(runId: number): Promise<string> {
+  const urls = await query(
+    `SELECT status, count(*) AS n FROM crawl_run_urls WHERE crawl_run_id = $1 GROUP BY status`,
+    [runId],
+  );
+  const changes = await query(
+    `SELECT change, count(*) AS n FROM crawl_run_changes WHERE crawl_run_id = $1 GROUP BY change`,
+    [runId],
+  );
+  const count = (rows: Array<Record<string, unknown>>, key: string, value: string) =>
+    Number(rows.find((r) => r[key] === value)?.n ?? 0);
+
+  return (
+    `Changes: ${count(urls.rows, "status", "added")} new PDFs, ` +
+    `${count(urls.rows, "status", "removed")} vanished, ` +
+    `${count(changes.rows, "change", "school_renamed")} renamed schools, ` +
+    `${count(changes.rows, "change", "area_added")} new areas ` +
+    `(${count(urls.rows, "status", "seen")} unchanged)`
+  );
+}
+
+async function printRunDiff(run: CrawlRun) {
+  const previous = await query(
+    `SELECT id, started_at FROM crawl_runs
+     WHERE year = $1 AND id < $2 AND status <> 'running'
+     ORDER BY id DESC LIMIT 1`,
+    [run.year, run.id],
+  );
+  const against = previous.rows.length > 0
+    ? `compared with crawl #${previous.rows[0].id} on ${formatTime(previous.rows[0].started_at)}`
+    : "first recorded crawl, compared with the reports already in the database";
+  console.log(`\n${run.year}: crawl #${run.id} on ${formatTime(run.started_at)}, ${run.status} (${against})`);
+  if (run.status !== "succeeded") {
+    console.log("  Incomplete crawl — vanished reports were not checked");
+  }
+
+  const areas = await query(
+    `SELECT new_name, url_slug FROM crawl_run_changes
+     WHERE crawl_run_id = $1 AND change = 'area_added'
+     ORDER BY new_name`,
+    [run.id],
+  );
+  const pdfs = await query(
+    `SELECT u.status, u.pdf_url, s.clean_name, pr.unit_name
+     FROM crawl_run_urls u
+     LEFT JOIN pdf_reports pr ON pr.id = u.pdf_report_id
+     LEFT JOIN schools s ON s.id = pr.school_id
+     WHERE u.crawl_run_id = $1 AND u.status IN ('added', 'removed')
+     ORDER BY s.clean_name, pr.unit_name NULLS FIRST, u.pdf_url`,
+    [run.id],
+  );
+  const renames = await query(
+    `SELECT c.old_name, c.new_name, a.name AS area_name
+     FROM crawl_run_changes c
+     LEFT JOIN areas a ON a.id = c.area_id
+     WHERE c.crawl_run_id = $1 AND c.change = 'school_renamed'
+     ORDER BY c.old_name`,
+    [run.id],
+  );
+
+  const describePdf = (r: Record<string, string | null>) =>
+    `${r.clean_name ?? "?"}${r.unit_name ? ` / ${r.unit_name}` : ""}  ${r.pdf_url}`;
+  const added = pdfs.rows.filter((r) => r.status === "added");
+  const removed = pdfs.rows.filter((r) => r.status === "removed");
+
+  console.log(`  New areas (${areas.rows.length})`);
+  for (const r of areas.rows) console.log(`    + ${r.new_name}`);
+  console.log(`  New PDFs (${added.length})`);
+  for (const r of added) console.log(`    + ${describePdf(r)}`);
+  console.log(`  Vanished PDFs (${removed.length})`);
+  for (const r of removed) console.log(`    - ${describePdf(r)}`);
+  console.log(`  Renamed schools (${renames.rows.length})`);
+  for (const r of renames.rows) console.log(`    ${r.old_name} → ${r.new_name} (${r.area_name})`);
+}
+
+/** Print the changes found by the latest finished crawl of each year (or of one year) */
+export async function printCrawlDiff(year?: number) {
+  const params: unknown[] = [];
+  let sql = `
+    SELECT DISTINCT ON (year) id, year, started_at, status
+    FROM crawl_runs
+    WHERE status <> 'running'
+  `;
+  if (year !== undefined) {
+    params.push(year);
+    sql += ` AND year = $${params.length}`;
+  }
+  sql += " ORDER BY year DESC, id DESC";
+
+  const { rows } = await query(sql, params);
+  if (rows.length === 0) {
+    console.log(year !== undefined ? `No crawls recorded for ${year}` : "No crawls recorded");
+    return;
+  }
+  for (const run of rows) {
+    await printRunDiff(run as CrawlRun);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Stores what a crawl discovered (discover.ts) for one year and logs it against the crawl run:
+ * every listed PDF as seen or added, reports no longer listed as removed, and new areas and
+ * renamed school folders (crawl_run_urls / crawl_run_changes, reported by crawl-diff.ts).
+ */
+import { query } from "./db.js";
+import { findOrCreateSchool } from "./school-helpers.js";
+import type { DiscoveredSchool, DiscoveredYear } from "./discover.js";
+
+/** Record the crawled name of a school folder, logging a rename if the slug was known under another name */
+async function recordSchoolName(runId: number, areaId: number, school: DiscoveredSchool) {
+  const { rows } = await query(
+    `SELECT original_name FROM school_name_variants WHERE area_id = $1 AND url_slug = $2`,
+    [areaId, school.slug],
+  );
+  if (rows.length === 0 || rows[0].original_name === school.name) return;
+
+  await query(
+    `UPDATE school_name_variants SET original_name = $1 WHERE area_id = $2 AND url_slug = $3`,
+    [school.name, areaId, school.slug],
+  );
+  await query(
+    `INSERT INTO crawl_run_changes (crawl_run_id, change, area_id, url_slug, old_name, new_name)
+     VALUES ($1, 'school_renamed', $2, $3, $4, $5)`,
+    [runId, areaId, school.slug, rows[0].original_name, school.name],
+  );
+}
+
+/**
+ * Store a discovered year and log it against the reports already known for that year.
+ * Reports no longer listed upstream are marked with vanished_at — only when every page loaded,
+ * so a network hiccup never makes reports look removed.
+ */
+export async function storeDiscoveredYear(runId: number, discovered: DiscoveredYear): Promise<"succeeded" | "partial"> {
+  const { year } = discovered;
+
+  // Reports listed by earlier crawls (XLS unit reports are created by the parser, not crawled)
+  const known = await query(
+    `SELECT id, pdf_url FROM pdf_reports
+     WHERE year = $1 AND vanished_at IS NULL AND pdf_url NOT LIKE '%#%'`,
+    [year],
+  );
+  const knownUrls = new Map<string, number>(known.rows.map((r) => [r.pdf_url, r.id]));
+  const areaResult = await query(`SELECT url_slug FROM areas WHERE year = $1`, [year]);
+  const knownAreas = new Set<string>(areaResult.rows.map((r) => r.url_slug));
+
+  const seenUrls = new Set<string>();
+  let storeErrors = 0;
+
+  for (const area of discovered.areas) {
+    const areaSlug = decodeURIComponent(area.slug.replace(/\+/g, " "));
+
+    // Upsert area
+    const areaResult = await query(
+      `INSERT INTO areas (year, name, url_slug)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (year, url_slug) DO UPDATE SET name = $2
+       RETURNING id`,
+      [year, area.name, areaSlug],
+    );
+    const areaId = areaResult.rows[0].id;
+
+    if (!knownAreas.has(areaSlug)) {
+      knownAreas.add(areaSlug);
+      await query(
+        `INSERT INTO crawl_run_changes (crawl_run_id, change, area_id, url_slug, new_name)
+         VALUES ($1, 'area_added', $2, $3, $4)`,
+        [runId, areaId, areaSlug, area.name],
+      );
+    }
+
+    for (const school of area.schools) {
+      try {
+        await recordSchoolName(runId, areaId, school);
+        const schoolId = await findOrCreateSchool(school.name, school.slug, areaId);
+
+        for (const pdf of school.pdfs) {
+          const pdfResult = await query(
+            `INSERT INTO pdf_reports (school_id, year, report_type, unit_name, pdf_url, area_id, report_category)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)
+             ON CONFLICT (pdf_url) DO UPDATE SET vanished_at = NULL
+             RETURNING id`,
+            [schoolId, year, pdf.reportType, pdf.unitName, pdf.url, areaId, area.reportCategory],
+          );
+
+          if (seenUrls.has(pdf.url)) continue;
+          seenUrls.add(pdf.url);
+          await query(
+            `INSERT INTO crawl_run_urls (crawl_run_id, pdf_report_id, pdf_url, status)
+             VALUES ($1, $2, $3, $4)`,
+            [runId, pdfResult.rows[0].id, pdf.url, knownUrls.has(pdf.url) ? "seen" : "added"],
+          );
+        }
+      } catch (err) {
+        console.error(`      ERROR storing ${school.name}: ${err}`);
+        storeErrors++;
+      }
+    }
+  }
+
+  const incomplete = discovered.errors.length + storeErrors;
+  if (incomplete > 0) {
+    console.log(`  ${incomplete} pages or schools failed — not checking for vanished reports`);
+    return "partial";
+  }
+
+  const vanished = [...knownUrls].filter(([url]) => !seenUrls.has(url));
+  for (const [url, reportId] of vanished) {
+    await query(`UPDATE pdf_reports SET vanished_at = NOW() WHERE id = $1`, [reportId]);
+    await query(
+      `INSERT INTO crawl_run_urls (crawl_run_id, pdf_report_id, pdf_url, status)
+       VALUES ($1, $2, $3, 'removed')`,
+      [runId, reportId, url],
+    );
+  }
+  return "succeeded";
+}
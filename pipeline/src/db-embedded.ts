@@ -0,0 +1,89 @@
+/**
+ * Embedded database (DATABASE_MODE=embedded): PGlite, Postgres compiled to WebAssembly, running
+ * in-process on a local data directory. Wrapped in the same query()/connect() shape as pg.Pool,
+ * with node-postgres' result conventions, so the rest of the pipeline can't tell the difference.
+ */
+import type { PGlite, Results } from "@electric-sql/pglite";
+import type pg from "pg";
+import type { DbClient, DbPool } from "./db.js";
+
+/**
+ * PGlite has a single session. A checked-out client holds it until released (so a transaction
+ * never interleaves with other queries); pool queries wait their turn in between.
+ */
+class SessionLock {
+  private tail: Promise<void> = Promise.resolve();
+
+  acquire(): Promise<() => void> {
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    const previous = this.tail;
+    this.tail = previous.then(() => held);
+    return previous.then(() => release);
+  }
+
+  /** Resolves once everything queued so far has released the session */
+  idle(): Promise<void> {
+    return this.tail;
+  }
+}
+
+function toQueryResult<R extends pg.QueryResultRow>(result: Results | undefined): pg.QueryResult<R> {
+  const rows = (result?.rows ?? []) as R[];
+  const command = result?.command ?? "";
+  return {
+    rows,
+    // pg counts returned rows for SELECT and affected rows otherwise
+    rowCount: command === "SELECT" ? rows.length : (result?.affectedRows ?? 0),
+    command,
+    oid: 0,
+    fields: (result?.fields ?? []).map((f) => ({ ...f, tableID: 0, columnID: 0, dataTypeSize: 0, dataTypeModifier: 0, format: "text" })),
+  };
+}
+
+export function createEmbeddedPool(dataDir: string): DbPool {
+  const ready: Promise<PGlite> = (async () => {
+    const { PGlite, types } = await import("@electric-sql/pglite");
+    // node-postgres returns bigint (count(*), SUM of integers) as a string; keep that here
+    const db = new PGlite(dataDir, { parsers: { [types.INT8]: (value: string) => value } });
+    await db.waitReady;
+    return db;
+  })();
+  const lock = new SessionLock();
+
+  async function run<R extends pg.QueryResultRow>(text: string, params?: unknown[]): Promise<pg.QueryResult<R>> {
+    const db = await ready;
+    if (params && params.length > 0) return toQueryResult<R>(await db.query(text, params));
+    // Without parameters pg uses the simple protocol, which allows several statements (migration
+    // files); like pg for a single statement, return the last statement's result
+    const results = await db.exec(text);
+    return toQueryResult<R>(results[results.length - 1]);
+  }
+
+  return {
+    async query<R extends pg.QueryResultRow>(text: string, params?: unknown[]) {
+      const release = await lock.acquire();
+      try {
+        return await run<R>(text, params);
+      } finally {
+        release();
+      }
+    },
+    async connect(): Promise<DbClient> {
+      const release = await lock.acquire();
+      let released = false;
+      return {
+        query: run,
+        release: () => {
+          if (released) return;
+          released = true;
+          release();
+        },
+      };
+    },
+    async end() {
+      await lock.idle();
+      await (await ready).close();
+    },
+  };
+}
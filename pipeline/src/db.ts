@@ -1,16 +1,52 @@
 import pg from "pg";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createEmbeddedPool } from "./db-embedded.js";
 
-const pool = new pg.Pool({
-  host: process.env.DATABASE_HOST || "localhost",
-  port: Number(process.env.DATABASE_PORT) || 5432,
-  user: process.env.DATABASE_USER || "postgres",
-  password: process.env.DATABASE_PASSWORD || "",
-  database: process.env.DATABASE_NAME || "gr_enkater",
-});
+const __dirname = dirname(fileURLToPath(import.meta.url));
 
-pool.on("error", (err) => {
-  console.error("Unexpected database pool error:", err);
-});
+/** Anything that can run a query: the shared pool, or a checked-out client inside a transaction */
+export interface Queryable {
+  query<R extends pg.QueryResultRow = pg.QueryResultRow>(text: string, params?: unknown[]): Promise<pg.QueryResult<R>>;
+}
+
+/** A client checked out of the pool; its queries share one session until release() */
+export interface DbClient extends Queryable {
+  release(): void;
+}
+
+export interface DbPool extends Queryable {
+  connect(): Promise<DbClient>;
+  end(): Promise<void>;
+}
+
+function createServerPool(): DbPool {
+  const pool = new pg.Pool({
+    host: process.env.DATABASE_HOST || "localhost",
+    port: Number(process.env.DATABASE_PORT) || 5432,
+    user: process.env.DATABASE_USER || "postgres",
+    password: process.env.DATABASE_PASSWORD || "",
+    database: process.env.DATABASE_NAME || "gr_enkater",
+  });
+  pool.on("error", (err) => {
+    console.error("Unexpected database pool error:", err);
+  });
+  return pool;
+}
+
+/**
+ * DATABASE_MODE=server (the default) connects to PostgreSQL with the DATABASE_* settings;
+ * DATABASE_MODE=embedded runs PGlite in-process on DATABASE_DIR (default data/pglite,
+ * `memory://` for a throwaway database), so no PostgreSQL server is needed.
+ */
+function createPool(): DbPool {
+  const mode = process.env.DATABASE_MODE || "server";
+  if (mode === "server") return createServerPool();
+  if (mode === "embedded") return createEmbeddedPool(process.env.DATABASE_DIR || join(__dirname, "../../data/pglite"));
+  throw new Error(`Invalid DATABASE_MODE: ${mode} (expected server or embedded)`);
+}
+
+const pool = createPool();
 
 export async function query<T extends pg.QueryResultRow = pg.QueryResultRow>(
   text: string,
@@ -19,19 +55,27 @@ export async function query<T extends pg.QueryResultRow = pg.QueryResultRow>(
   return pool.query<T>(text, params);
 }
 
-export async function getClient() {
+export async function getClient(): Promise<DbClient> {
   return pool.connect();
 }
 
-export async function ensureSchema() {
-  const { readFileSync } = await import("node:fs");
-  const { fileURLToPath } = await import("node:url");
-  const { dirname, join } = await import("node:path");
-
-  const __dirname = dirname(fileURLToPath(import.meta.url));
-  const sql = readFileSync(join(__dirname, "schema.sql"), "utf-8");
-  await query(sql);
-  console.log("Schema ensured.");
+/**
+ * Run `fn` on a single client inside BEGIN/COMMIT.
+ * Any error rolls the whole transaction back and is rethrown.
+ */
+export async function withTransaction<T>(fn: (client: DbClient) => Promise<T>): Promise<T> {
+  const client = await getClient();
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
 }
 
 export default pool;
@@ -0,0 +1,454 @@
+/**
+ * Site traversal for enkater.goteborg.se: year → categories → areas → schools → PDFs.
+ * Everything here works on fetched HTML only (no database), so a crawl can be
+ * replayed from recorded pages — see http-cache.ts and tests/crawler.test.ts.
+ */
+import * as cheerio from "cheerio";
+import { computeCleanName } from "./normalize.js";
+import type { PageFetcher } from "./http-cache.js";
+
+export const BASE_URL = "https://enkater.goteborg.se";
+
+export interface DiscoveredPdf {
+  name: string;
+  url: string;
+  reportType: string;
+  unitName: string | null;
+}
+
+export interface DiscoveredSchool {
+  name: string;
+  /** Slug passed to findOrCreateSchool: the raw folder slug, or the clean name for flat areas */
+  slug: string;
+  pdfs: DiscoveredPdf[];
+}
+
+export interface DiscoveredArea {
+  name: string;
+  slug: string;
+  catPath: string;
+  reportCategory: "barn" | "foralder";
+  hierarchy: "schools" | "flat";
+  schools: DiscoveredSchool[];
+}
+
+export interface DiscoveredYear {
+  year: number;
+  catPaths: string[];
+  areas: DiscoveredArea[];
+  /** Pages that failed to load — if any, the areas/schools/PDFs found are incomplete */
+  errors: string[];
+}
+
+/** Extract links from a listing page. Returns [{name, path}] */
+export function parseLinks(html: string): Array<{ name: string; href: string }> {
+  const $ = cheerio.load(html);
+  const links: Array<{ name: string; href: string }> = [];
+  $("a").each((_, el) => {
+    const href = $(el).attr("href") || "";
+    const name = $(el).text().trim();
+    if (name && href) {
+      links.push({ name, href });
+    }
+  });
+  return links;
+}
+
+/** Discover available years from the home page and category pages */
+export async function discoverYears(fetchPage: PageFetcher): Promise<number[]> {
+  const years: number[] = [];
+
+  // 1. Check Default.aspx for links containing year in kat= parameter
+  const html = await fetchPage(`${BASE_URL}/Default.aspx`);
+  const $ = cheerio.load(html);
+
+  // Links like href="ListEnkater.aspx?kat=2025%5cBARN__FORSKOLA"
+  $("a").each((_, el) => {
+    const href = $(el).attr("href") || "";
+    const match = href.match(/kat=(\d{4})/);
+    if (match) years.push(parseInt(match[1], 10));
+  });
+
+  // onclick handlers: openPage(2024) or window.open('...?Kat=2024', ...)
+  $("[onclick]").each((_, el) => {
+    const onclick = $(el).attr("onclick") || "";
+    const m1 = onclick.match(/openPage\((\d{4})\)/);
+    if (m1) years.push(parseInt(m1[1], 10));
+    const m2 = onclick.match(/Kat=(\d{4})/);
+    if (m2) years.push(parseInt(m2[1], 10));
+  });
+
+  // Also check .ImageYearText elements that contain plain year numbers
+  $(".ImageYearText, .ImageYearTextArkiv").each((_, el) => {
+    const text = $(el).text().trim();
+    const m = text.match(/^(\d{4})$/);
+    if (m) years.push(parseInt(m[1], 10));
+  });
+
+  // 2. If we found some years, also check a category page for the full year nav
+  if (years.length > 0) {
+    const sampleYear = Math.max(...years);
+    try {
+      const catHtml = await fetchPage(
+        `${BASE_URL}/ListEnkater.aspx?kat=${sampleYear}%5cBARN__F%c3%96RSKOLA`,
+      );
+      const $cat = cheerio.load(catHtml);
+      $cat("[onclick]").each((_, el) => {
+        const onclick = $cat(el).attr("onclick") || "";
+        const m1 = onclick.match(/openPage\((\d{4})\)/);
+        if (m1) years.push(parseInt(m1[1], 10));
+        const m2 = onclick.match(/Kat=(\d{4})/);
+        if (m2) years.push(parseInt(m2[1], 10));
+      });
+      $cat(".ImageYearText, .ImageYearTextArkiv").each((_, el) => {
+        const text = $cat(el).text().trim();
+        const m = text.match(/^(\d{4})$/);
+        if (m) years.push(parseInt(m[1], 10));
+      });
+    } catch {
+      // Non-critical — we still have years from Default.aspx
+    }
+  }
+
+  // 3. Fallback: hardcode known range if nothing found
+  if (years.length === 0) {
+    console.log("  Warning: could not discover years, using known range 2007-2025");
+    for (let y = 2025; y >= 2007; y--) years.push(y);
+  }
+
+  const unique = [...new Set(years)].sort((a, b) => b - a);
+  // Only include years where preschool data exists (BARN__FÖRSKOLA category)
+  // We'll verify during crawl — some years may have different category names
+  return unique;
+}
+
+/**
+ * Extract the raw slug from the last segment of a kat= parameter.
+ * Keeps URL encoding intact so we can rebuild URLs correctly.
+ */
+function extractRawSlug(href: string): string {
+  const match = href.match(/kat=(.+)$/);
+  if (!match) return "";
+  const raw = match[1];
+  // Split by encoded or literal backslash
+  const parts = raw.split(/(?:%5[cC]|\\)/);
+  return parts[parts.length - 1] || "";
+}
+
+/** Filter out breadcrumb and navigation links */
+function isContentLink(link: { name: string; href: string }): boolean {
+  if (!link.href.includes("ListEnkater.aspx")) return false;
+  if (link.name.includes(">>") || link.name.includes("›")) return false;
+  if (link.href.includes("Default.aspx")) return false;
+  return true;
+}
+
+/**
+ * Filter out entries that are not physical schools.
+ * These are area-wide summaries, category entries, or district labels
+ * that the site's hierarchy lists alongside actual schools.
+ */
+export function isPhysicalSchool(name: string): boolean {
+  const n = name.trim().toLowerCase();
+  // Area-wide summary entries: "Fristående förskolor (total)", "Pedagogisk omsorg (total)"
+  if (n.includes("(total)")) return false;
+  // Pedagogisk omsorg = family daycare category, not a physical school
+  if (n === "pedagogisk omsorg" || n.startsWith("pedagogisk omsorg ")) return false;
+  // Family daycare category (not a physical school)
+  if (n.startsWith("familjedaghem")) return false;
+  // Area-wide overviews: "Övergripande fristående"
+  if (n.startsWith("övergripande")) return false;
+  // District/area labels: "Sydväst område 2"
+  if (/\bområde\s+\d/.test(n)) return false;
+  // CMS artifacts
+  if (/^(new folder|test(pdf)?)$/i.test(n)) return false;
+  // XLS file names crawled as school entries (junk)
+  if (/\.xls$/i.test(n)) return false;
+  // Too short after normalization (likely junk)
+  if (n.length < 3) return false;
+  return true;
+}
+
+/**
+ * Discover the preschool category paths for a given year.
+ * The year page lists categories — we find all that match preschool (förskola).
+ * Years 2007-2009, 2011 have two separate categories:
+ *   BARN__FÖRSKOLA (children's surveys) and FÖRÄLDRAR__FÖRSKOLA (parent surveys).
+ * Years 2012+ have a single combined BARN__FÖRSKOLA category.
+ * Returns array of raw kat= values, e.g. ["2011%5cBARN__F%c3%96RSKOLA", "2011%5cF%c3%96R%c3%84LDRAR__F%c3%96RSKOLA"]
+ */
+async function discoverPreschoolCategoryPaths(fetchPage: PageFetcher, year: number): Promise<string[]> {
+  const url = `${BASE_URL}/ListEnkater.aspx?Kat=${year}`;
+  const html = await fetchPage(url);
+  const links = parseLinks(html);
+  const paths: string[] = [];
+
+  for (const link of links) {
+    // Look for preschool category links (contains "förskola" in text)
+    if (
+      link.name.toLowerCase().includes("förskola") &&
+      link.href.includes("ListEnkater.aspx")
+    ) {
+      const match = link.href.match(/kat=(.+)$/i);
+      if (match) paths.push(match[1]);
+    }
+  }
+
+  return paths;
+}
+
+/** Discover areas for a given year */
+async function discoverAreas(
+  fetchPage: PageFetcher,
+  catPath: string,
+): Promise<Array<{ name: string; slug: string }>> {
+  const url = `${BASE_URL}/ListEnkater.aspx?kat=${catPath}`;
+  const html = await fetchPage(url);
+  const links = parseLinks(html);
+
+  return links
+    .filter(isContentLink)
+    .map((l) => {
+      const slug = extractRawSlug(l.href);
+      const name = l.name.replace(/^-\s*/, "").replace(/\s*-$/, "").trim();
+      return { name, slug };
+    })
+    .filter((a) => a.name && a.slug && !a.name.match(/^\d{4}$/));
+}
+
+/** Parse PDF links from an already-fetched HTML page */
+export function parsePdfLinksFromHtml(html: string, schoolSlug: string): DiscoveredPdf[] {
+  const links = parseLinks(html);
+
+  return links
+    .filter((l) => /\.(pdf|xlsx?)$/i.test(l.href))
+    .map((l) => {
+      // Normalize URL: backslashes to forward slashes, encode properly
+      const pdfPath = l.href.replace(/\\/g, "/");
+      const pdfUrl = pdfPath.startsWith("http")
+        ? pdfPath
+        : `${BASE_URL}/${pdfPath}`;
+
+      // Determine report type from filename
+      const filename = decodeURIComponent(pdfPath.split("/").pop() || "");
+      const decodedSchoolSlug = decodeURIComponent(schoolSlug.replace(/\+/g, " "));
+      const baseName = filename
+        .replace(/_uppsk(?:alning)?\.pdf$/i, "")
+        .replace(/\.(pdf|xlsx?)$/i, "")
+        .trim();
+      let reportType = "school";
+      let unitName: string | null = null;
+
+      if (filename.includes("(total)")) {
+        reportType = "total";
+      } else if (
+        baseName.toLowerCase() !== decodedSchoolSlug.toLowerCase() &&
+        !baseName.toLowerCase().startsWith(decodedSchoolSlug.toLowerCase())
+      ) {
+        reportType = "unit";
+        unitName = baseName;
+      }
+
+      return { name: l.name, url: pdfUrl, reportType, unitName };
+    });
+}
+
+/** Discover PDF links for a given school */
+async function discoverPdfs(
+  fetchPage: PageFetcher,
+  catPath: string,
+  areaSlug: string,
+  schoolSlug: string,
+): Promise<DiscoveredPdf[]> {
+  const url = `${BASE_URL}/ListEnkater.aspx?kat=${catPath}%5c${areaSlug}%5c${schoolSlug}`;
+  const html = await fetchPage(url);
+  return parsePdfLinksFromHtml(html, schoolSlug);
+}
+
+/**
+ * Parse school and unit name from flat-hierarchy PDF link text.
+ * Link text patterns:
+ *   2023: "GR, Göteborg, Centrum 1, Borgaregatan 5 förskola, Grodan"
+ *   2021: "Björnidet, Fräntorpsgatan 57, Östra 1, Göteborg, GR.pdf"
+ *   2020: "GR-Göteborg-Centrum 1-Albotorget 5-Junibacken_2020.pdf"
+ * Returns { schoolName, unitName } or null if it's a summary PDF.
+ */
+export function parseSchoolFromLinkText(linkText: string): { schoolName: string; unitName: string | null } | null {
+  // Format 1 (2020): "GR-Göteborg-Centrum 1-Albotorget 5-Junibacken_2020.pdf"
+  // Dashes as separators, _YYYY suffix
+  const dashMatch = linkText.match(/^GR-[^-]+-[^-]+-(.+?)(?:_\d{4})?\.pdf$/i);
+  if (dashMatch) {
+    const remainder = dashMatch[1]; // "Albotorget 5-Junibacken" or "Albotorget 5"
+    const dashParts = remainder.split("-");
+    const schoolName = dashParts[0].trim();
+    const unitName = dashParts.length >= 2 ? dashParts.slice(1).join("-").trim() : null;
+    return { schoolName, unitName };
+  }
+
+  // Format 2 (2023): "GR, Göteborg, Centrum 1, Borgaregatan 5 förskola, Grodan"
+  // Commas as separators
+  const parts = linkText.split(",").map((s) => s.trim());
+
+  // Skip pure summary PDFs (e.g., "Göteborg, GR" or "GR, Göteborg, Fristående Angered")
+  if (parts.length <= 3) {
+    const combined = parts.join(" ").toLowerCase();
+    if (combined.includes("göteborg") || /\bgr\b/.test(combined) || combined.includes("göteborgsregionen")) return null;
+  }
+
+  // "GR, Göteborg, Area, School, Unit" format (2022-2023: GR at start)
+  if (parts.length >= 4 && parts[0].toLowerCase() === "gr") {
+    const schoolName = parts[3].trim();
+    const unitName = parts.length >= 5 ? parts.slice(4).join(", ") : null;
+    return { schoolName, unitName };
+  }
+
+  // "Unit, School, Area, Göteborg, GR.pdf" format (2021: GR at end)
+  // or "School, Area, Göteborg, GR.pdf" (school-only, no unit prefix)
+  const lastPart = parts[parts.length - 1].replace(/\.pdf$/i, "").trim().toLowerCase();
+  if (lastPart === "gr" && parts.length >= 4) {
+    if (parts.length === 4) {
+      // "School, Area, Göteborg, GR.pdf"
+      return { schoolName: parts[0].trim(), unitName: null };
+    }
+    // "Unit, School, Area, Göteborg, GR.pdf"
+    return { schoolName: parts[1].trim(), unitName: parts[0].trim() };
+  }
+
+  // "School, Unit" format (2-3 parts, no GR prefix)
+  if (parts.length >= 1) {
+    return { schoolName: parts[0].trim(), unitName: parts.length >= 2 ? parts.slice(1).join(", ") : null };
+  }
+
+  return null;
+}
+
+/**
+ * Group PDF links listed directly on an area page (flat hierarchy for 2020-2023)
+ * by the school name extracted from the link text.
+ * Returns map of schoolName → PDF list.
+ */
+function groupAreaPdfsBySchool(
+  pdfLinks: Array<{ name: string; href: string }>,
+): Map<string, DiscoveredPdf[]> {
+  const schoolMap = new Map<string, DiscoveredPdf[]>();
+
+  for (const l of pdfLinks) {
+    const pdfPath = l.href.replace(/\\/g, "/");
+    const pdfUrl = pdfPath.startsWith("http") ? pdfPath : `${BASE_URL}/${pdfPath}`;
+
+    // Skip PDFs in the 2__RAPPORTER summary directory
+    if (pdfPath.includes("2__RAPPORTER") || pdfPath.includes("2__rapporter")) continue;
+
+    const parsed = parseSchoolFromLinkText(l.name.trim());
+    if (!parsed) continue;
+
+    const { schoolName, unitName } = parsed;
+    const reportType = unitName ? "unit" : "school";
+
+    if (!schoolMap.has(schoolName)) {
+      schoolMap.set(schoolName, []);
+    }
+    schoolMap.get(schoolName)!.push({ name: l.name, url: pdfUrl, reportType, unitName });
+  }
+
+  return schoolMap;
+}
+
+/**
+ * Walk one year of the site and return every preschool area, school and PDF found.
+ * Pages that fail to load are logged, skipped and listed in `errors`.
+ */
+export async function discoverYear(
+  fetchPage: PageFetcher,
+  year: number,
+  log: (message: string) => void = console.log,
+): Promise<DiscoveredYear> {
+  // Discover the preschool category paths for this year
+  log(`  Discovering preschool categories for ${year}...`);
+  const catPaths = await discoverPreschoolCategoryPaths(fetchPage, year);
+  if (catPaths.length === 0) {
+    return { year, catPaths, areas: [], errors: [] };
+  }
+  log(`  Category paths: ${catPaths.join(", ")}`);
+
+  // Collect areas from all category paths (e.g. BARN__FÖRSKOLA + FÖRÄLDRAR__FÖRSKOLA)
+  const allAreas: Array<{ name: string; slug: string; catPath: string }> = [];
+  for (const catPath of catPaths) {
+    log(`  Discovering areas for ${year} (${catPath})...`);
+    const areas = await discoverAreas(fetchPage, catPath);
+    for (const area of areas) {
+      allAreas.push({ ...area, catPath });
+    }
+  }
+  log(`  Found ${allAreas.length} areas`);
+
+  const result: DiscoveredYear = { year, catPaths, areas: [], errors: [] };
+
+  for (const area of allAreas) {
+    // Derive report category from catPath (BARN__FÖRSKOLA vs FÖRÄLDRAR__FÖRSKOLA)
+    const reportCategory = /f.r.ldrar/i.test(decodeURIComponent(area.catPath)) ? "foralder" : "barn";
+    const discovered: DiscoveredArea = { ...area, reportCategory, hierarchy: "schools", schools: [] };
+    result.areas.push(discovered);
+
+    // Fetch area page to check both school links and direct PDFs
+    const areaPageUrl = `${BASE_URL}/ListEnkater.aspx?kat=${area.catPath}%5c${area.slug}`;
+    let areaPageHtml: string;
+    try {
+      areaPageHtml = await fetchPage(areaPageUrl);
+    } catch (err) {
+      console.error(`    ERROR fetching area page for ${area.name}: ${err}`);
+      result.errors.push(`${area.name}: ${err}`);
+      continue;
+    }
+
+    // Check for school sub-folder links
+    const schoolLinks = parseLinks(areaPageHtml)
+      .filter(isContentLink)
+      .map((l) => ({
+        name: l.name.replace(/^-\s*/, "").replace(/\s*-$/, "").trim(),
+        slug: extractRawSlug(l.href),
+      }))
+      .filter((s) => s.name && s.slug && !s.name.match(/^\d{4}$/));
+
+    // Check for direct PDF links at area level
+    const areaPdfLinks = parseLinks(areaPageHtml).filter((l) =>
+      /\.(pdf|xlsx?)$/i.test(l.href),
+    );
+
+    // Decide strategy: use flat hierarchy if there are significantly more
+    // direct PDFs than school sub-folders, or if there are no schools
+    const useFlat = schoolLinks.length === 0 || areaPdfLinks.length > schoolLinks.length * 5;
+
+    if (!useFlat) {
+      // Standard hierarchy: area → school folders → PDFs
+      const physicalSchools = schoolLinks.filter((s) => isPhysicalSchool(s.name));
+      const skipped = schoolLinks.length - physicalSchools.length;
+      log(`    ${area.name}: ${physicalSchools.length} schools${skipped ? ` (${skipped} non-school entries skipped)` : ""}`);
+
+      for (const school of physicalSchools) {
+        let pdfs: DiscoveredPdf[] = [];
+        try {
+          pdfs = await discoverPdfs(fetchPage, area.catPath, area.slug, school.slug);
+        } catch (err) {
+          console.error(`      ERROR crawling ${school.name}: ${err}`);
+          result.errors.push(`${area.name} / ${school.name}: ${err}`);
+        }
+        discovered.schools.push({ name: school.name, slug: school.slug, pdfs });
+      }
+    } else {
+      // Flat hierarchy: PDFs directly at area level
+      discovered.hierarchy = "flat";
+      log(`    ${area.name}: flat hierarchy (${areaPdfLinks.length} PDFs at area level)`);
+
+      let pdfCount = 0;
+      for (const [schoolName, pdfs] of groupAreaPdfsBySchool(areaPdfLinks)) {
+        if (!isPhysicalSchool(schoolName)) continue;
+        discovered.schools.push({ name: schoolName, slug: computeCleanName(schoolName), pdfs });
+        pdfCount += pdfs.length;
+      }
+      log(`      Found ${discovered.schools.length} schools, ${pdfCount} PDFs`);
+    }
+  }
+
+  return result;
+}
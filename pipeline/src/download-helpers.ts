@@ -0,0 +1,60 @@
+/**
+ * What downloader.ts stores about a report's file: its SHA-256, byte size and ETag/Last-Modified,
+ * and for `npm run download -- --refresh` the previous version when the bytes changed upstream.
+ */
+import { createHash } from "node:crypto";
+import { withTransaction } from "./db.js";
+
+/** The pdf_reports columns describing the currently stored file */
+export interface StoredFile {
+  id: number;
+  pdf_url: string;
+  local_path: string | null;
+  content_sha256: string | null;
+  content_bytes: number | null;
+  http_etag: string | null;
+  http_last_modified: string | null;
+  downloaded_at: Date | null;
+}
+
+/** A file as just downloaded and written to `localPath` */
+export interface DownloadedFile {
+  localPath: string;
+  sha256: string;
+  bytes: number;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+export function sha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Record a report file whose bytes changed: the previous version goes to pdf_report_revisions
+ * (when its hash is known) and the report points at the new file, queued for re-parse. Both in
+ * one transaction, so a failure can't leave a revision without the report moving on, or the
+ * report moving on without its revision.
+ */
+export async function recordChangedFile(
+  row: StoredFile,
+  previous: { sha256: string | null; bytes: number | null },
+  file: DownloadedFile,
+): Promise<void> {
+  await withTransaction(async (client) => {
+    if (previous.sha256) {
+      await client.query(
+        `INSERT INTO pdf_report_revisions (pdf_report_id, content_sha256, content_bytes,
+           http_etag, http_last_modified, downloaded_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [row.id, previous.sha256, previous.bytes, row.http_etag, row.http_last_modified, row.downloaded_at],
+      );
+    }
+    await client.query(
+      `UPDATE pdf_reports SET downloaded_at = NOW(), local_path = $1, content_sha256 = $2, content_bytes = $3,
+         http_etag = $4, http_last_modified = $5, parsed_at = NULL, parse_error = NULL
+       WHERE id = $6`,
+      [file.localPath, file.sha256, file.bytes, file.etag, file.lastModified, row.id],
+    );
+  });
+}
@@ -1,13 +1,22 @@
 /**
  * Downloads PDFs where downloaded_at IS NULL.
  * Saves to data/pdfs/{year}/{area}/{school}/
+ * Stores a SHA-256, byte size and the ETag/Last-Modified headers per file.
+ *
  * Run: npm run download
+ * Re-check downloaded files: npm run download -- --refresh
+ *   Sends conditional requests; files whose bytes changed are rewritten,
+ *   their old hash is kept in pdf_report_revisions and parsed_at is cleared.
  */
 import "dotenv/config";
-import { mkdir, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { dirname, join } from "node:path";
-import { query, ensureSchema } from "./db.js";
+import { query } from "./db.js";
 import pool from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
+import { recordChangedFile, sha256 } from "./download-helpers.js";
+import type { StoredFile } from "./download-helpers.js";
 
 const DATA_DIR = join(dirname(new URL(import.meta.url).pathname), "../../data/pdfs");
 const DELAY_MS = 300;
@@ -26,13 +35,25 @@ function slugify(s: string): string {
     .replace(/(^-|-$)/g, "");
 }
 
+interface DownloadResult {
+  /** null when the server answered 304 Not Modified */
+  data: Buffer | null;
+  etag: string | null;
+  lastModified: string | null;
+}
+
 async function downloadPdf(
   url: string,
+  conditional: { etag: string | null; lastModified: string | null } | null = null,
   retries = MAX_RETRIES,
-): Promise<Buffer> {
+): Promise<DownloadResult> {
+  const headers: Record<string, string> = {};
+  if (conditional?.etag) headers["If-None-Match"] = conditional.etag;
+  if (conditional?.lastModified) headers["If-Modified-Since"] = conditional.lastModified;
+
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
-      const res = await fetch(url);
+      const res = await fetch(url, { headers });
       if (res.status === 429 || res.status >= 500) {
         if (attempt < retries) {
           console.log(`    Retry ${attempt}/${retries} after ${res.status}...`);
@@ -41,9 +62,12 @@ async function downloadPdf(
         }
         throw new Error(`HTTP ${res.status} after ${retries} retries`);
       }
+      const etag = res.headers.get("etag");
+      const lastModified = res.headers.get("last-modified");
+      if (res.status === 304) return { data: null, etag, lastModified };
       if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
       const arrayBuf = await res.arrayBuffer();
-      return Buffer.from(arrayBuf);
+      return { data: Buffer.from(arrayBuf), etag, lastModified };
     } catch (err) {
       if (attempt < retries) {
         console.log(`    Retry ${attempt}/${retries}: ${err}`);
@@ -56,16 +80,57 @@ async function downloadPdf(
   throw new Error("Unreachable");
 }
 
+/**
+ * Re-check an already downloaded report. Returns true if the file's bytes changed.
+ * Reports downloaded before hashes were stored are compared against the local file.
+ */
+async function refreshReport(row: StoredFile, localPath: string): Promise<boolean> {
+  let storedHash = row.content_sha256;
+  let storedBytes = row.content_bytes;
+  if (!storedHash && row.local_path && existsSync(row.local_path)) {
+    const existing = await readFile(row.local_path);
+    storedHash = sha256(existing);
+    storedBytes = existing.length;
+  }
+
+  // Without a known hash a 304 tells us nothing, so only send conditional headers when we have one
+  const result = await downloadPdf(
+    row.pdf_url,
+    storedHash ? { etag: row.http_etag, lastModified: row.http_last_modified } : null,
+  );
+  if (result.data === null) return false;
+
+  const hash = sha256(result.data);
+  if (hash === storedHash) {
+    await query(
+      `UPDATE pdf_reports SET content_sha256 = $1, content_bytes = $2, http_etag = $3, http_last_modified = $4
+       WHERE id = $5`,
+      [hash, result.data.length, result.etag, result.lastModified, row.id],
+    );
+    return false;
+  }
+
+  await writeFile(localPath, result.data);
+  await recordChangedFile(
+    row,
+    { sha256: storedHash, bytes: storedBytes },
+    { localPath, sha256: hash, bytes: result.data.length, etag: result.etag, lastModified: result.lastModified },
+  );
+  return true;
+}
+
 async function main() {
-  await ensureSchema();
+  await assertSchemaCurrent();
 
   const args = process.argv.slice(2);
   const limitArg = args.find((a) => a.startsWith("--limit="));
   const limit = limitArg ? parseInt(limitArg.split("=")[1], 10) : undefined;
   const yearArg = args.find((a) => /^\d{4}$/.test(a));
+  const refresh = args.includes("--refresh");
 
   let sql = `
-    SELECT pr.id, pr.pdf_url, pr.year,
+    SELECT pr.id, pr.pdf_url, pr.year, pr.local_path, pr.downloaded_at,
+           pr.content_sha256, pr.content_bytes, pr.http_etag, pr.http_last_modified,
            a.name as area_name, a.url_slug as area_slug,
            s.clean_name as school_name,
            COALESCE(
@@ -76,7 +141,9 @@ async function main() {
     FROM pdf_reports pr
     JOIN schools s ON pr.school_id = s.id
     JOIN areas a ON pr.area_id = a.id
-    WHERE pr.downloaded_at IS NULL
+    WHERE ${refresh ? "pr.downloaded_at IS NOT NULL" : "pr.downloaded_at IS NULL"}
+      AND pr.pdf_url NOT LIKE '%#%'
+      AND pr.vanished_at IS NULL  -- no longer listed upstream
   `;
   const params: unknown[] = [];
 
@@ -93,9 +160,10 @@ async function main() {
   }
 
   const { rows } = await query(sql, params);
-  console.log(`Found ${rows.length} PDFs to download`);
+  console.log(`Found ${rows.length} PDFs to ${refresh ? "refresh" : "download"}`);
 
   let downloaded = 0;
+  let changed = 0;
   let errors = 0;
 
   for (const row of rows) {
@@ -114,27 +182,44 @@ async function main() {
 
     try {
       console.log(`  [${downloaded + 1}/${rows.length}] ${row.school_name} (${row.year})`);
-      const data = await downloadPdf(row.pdf_url);
-      await writeFile(localPath, data);
-
-      await query(
-        `UPDATE pdf_reports SET downloaded_at = NOW(), local_path = $1 WHERE id = $2`,
-        [localPath, row.id],
-      );
+      if (refresh) {
+        if (await refreshReport(row as StoredFile, row.local_path || localPath)) {
+          console.log(`    Changed upstream — queued for re-parse`);
+          changed++;
+        }
+      } else {
+        const { data, etag, lastModified } = await downloadPdf(row.pdf_url);
+        if (!data) throw new Error(`Unexpected 304 for ${row.pdf_url}`);
+        await writeFile(localPath, data);
+
+        await query(
+          `UPDATE pdf_reports SET downloaded_at = NOW(), local_path = $1, content_sha256 = $2,
+             content_bytes = $3, http_etag = $4, http_last_modified = $5
+           WHERE id = $6`,
+          [localPath, sha256(data), data.length, etag, lastModified, row.id],
+        );
+      }
       downloaded++;
     } catch (err) {
       console.error(`  ERROR: ${err}`);
-      await query(
-        `UPDATE pdf_reports SET parse_error = $1 WHERE id = $2`,
-        [`Download failed: ${err}`, row.id],
-      );
+      // A failed refresh leaves the previously downloaded file in place, so don't flag the report
+      if (!refresh) {
+        await query(
+          `UPDATE pdf_reports SET parse_error = $1 WHERE id = $2`,
+          [`Download failed: ${err}`, row.id],
+        );
+      }
       errors++;
     }
 
     await sleep(DELAY_MS);
   }
 
-  console.log(`\nDownloaded: ${downloaded}, Errors: ${errors}`);
+  if (refresh) {
+    console.log(`\nChecked: ${downloaded}, Changed: ${changed}, Errors: ${errors}`);
+  } else {
+    console.log(`\nDownloaded: ${downloaded}, Errors: ${errors}`);
+  }
   await pool.end();
 }
 
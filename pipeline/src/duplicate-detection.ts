@@ -0,0 +1,142 @@
+/**
+ * Duplicate-school candidates for `npm run schools -- duplicates` (schools.ts). findOrCreateSchool
+ * only joins names with the same address or clean name, so "Förskolan Bågen", "Bågens förskola" and
+ * an address-named variant become separate schools. Every pair of schools is scored on how alike
+ * the names are, how close the coordinates are, whether they share an area, and whether their years
+ * don't overlap (a renamed school reports under one name, then the other).
+ */
+import { schoolNameSimilarity } from "./normalize.js";
+
+export interface SchoolProfile {
+  id: number;
+  name: string;
+  lat: number | null;
+  lng: number | null;
+  /** Area names the school's name variants were crawled under */
+  areas: string[];
+  /** Survey years with a report for the school */
+  years: number[];
+}
+
+export interface DuplicateCandidate {
+  /** The school to keep: the one with the latest year, so the current name stays */
+  keepId: number;
+  mergeId: number;
+  /** 0-1, the weighted sum of the signals below */
+  score: number;
+  nameSimilarity: number;
+  /** Null when either school has no coordinates */
+  distanceMeters: number | null;
+  sharedAreas: string[];
+  /** Both schools have years and none in common */
+  disjointYears: boolean;
+  reasons: string[];
+}
+
+export const NAME_WEIGHT = 0.5;
+export const DISTANCE_WEIGHT = 0.3;
+export const AREA_WEIGHT = 0.1;
+export const YEARS_WEIGHT = 0.1;
+/** Coordinates this close score fully; the distance score falls to 0 at FAR_METERS */
+export const NEAR_METERS = 50;
+export const FAR_METERS = 1000;
+/** A pair is only scored when the names are this alike or the schools this close */
+export const MIN_NAME_SIMILARITY = 0.6;
+export const NEARBY_METERS = 250;
+export const DEFAULT_MIN_SCORE = 0.5;
+
+/** Order-independent key of a school pair, as used by --accept= / --reject= */
+export function pairKey(a: number, b: number): string {
+  return a < b ? `${a}+${b}` : `${b}+${a}`;
+}
+
+function round(value: number, decimals = 2): number {
+  const f = 10 ** decimals;
+  return Math.round(value * f) / f;
+}
+
+/** Haversine distance in meters between two lat/lng points */
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6_371_000;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLng = ((lng2 - lng1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function distanceScore(meters: number | null): number {
+  if (meters === null) return 0;
+  if (meters <= NEAR_METERS) return 1;
+  return Math.max(0, 1 - (meters - NEAR_METERS) / (FAR_METERS - NEAR_METERS));
+}
+
+function formatYears(years: number[]): string {
+  if (years.length === 0) return "no reports";
+  const [first, last] = [Math.min(...years), Math.max(...years)];
+  return first === last ? `${first}` : `${first}-${last}`;
+}
+
+function numbersIn(name: string): string[] {
+  return name.match(/\d+/g) ?? [];
+}
+
+/** Score one pair; null when it isn't worth a look (names unlike and not nearby) */
+export function scorePair(a: SchoolProfile, b: SchoolProfile): DuplicateCandidate | null {
+  // "Kärralundsgatan 11" and "Kärralundsgatan 13" are alike as text but name different places
+  const [numbersA, numbersB] = [numbersIn(a.name), numbersIn(b.name)];
+  const numbersDiffer = numbersA.length > 0 && numbersB.length > 0 && !numbersA.some((n) => numbersB.includes(n));
+  const nameSimilarity = numbersDiffer ? 0 : schoolNameSimilarity(a.name, b.name);
+  const meters =
+    a.lat !== null && a.lng !== null && b.lat !== null && b.lng !== null
+      ? distanceMeters(a.lat, a.lng, b.lat, b.lng)
+      : null;
+  if (nameSimilarity < MIN_NAME_SIMILARITY && (meters === null || meters > NEARBY_METERS)) return null;
+
+  const sharedAreas = a.areas.filter((area) => b.areas.includes(area));
+  const disjointYears = a.years.length > 0 && b.years.length > 0 && !a.years.some((y) => b.years.includes(y));
+  const score =
+    NAME_WEIGHT * nameSimilarity +
+    DISTANCE_WEIGHT * distanceScore(meters) +
+    (sharedAreas.length > 0 ? AREA_WEIGHT : 0) +
+    (disjointYears ? YEARS_WEIGHT : 0);
+
+  const reasons = [numbersDiffer ? "different numbers in the names" : `names ${Math.round(nameSimilarity * 100)}% alike`];
+  if (meters !== null) reasons.push(`${Math.round(meters)} m apart`);
+  if (sharedAreas.length > 0) reasons.push(`both in ${sharedAreas.join(", ")}`);
+  if (disjointYears) reasons.push(`no year in common (${formatYears(a.years)} / ${formatYears(b.years)})`);
+
+  const latest = (s: SchoolProfile) => (s.years.length > 0 ? Math.max(...s.years) : 0);
+  const keepA = latest(a) > latest(b) || (latest(a) === latest(b) && a.id < b.id);
+  return {
+    keepId: keepA ? a.id : b.id,
+    mergeId: keepA ? b.id : a.id,
+    score: round(score),
+    nameSimilarity: round(nameSimilarity),
+    distanceMeters: meters === null ? null : Math.round(meters),
+    sharedAreas,
+    disjointYears,
+    reasons,
+  };
+}
+
+/**
+ * Every pair of schools scoring at least `minScore`, best first. Pairs in `dismissed`
+ * (pairKey) were reviewed as different schools and are left out.
+ */
+export function findDuplicateCandidates(
+  schools: SchoolProfile[],
+  minScore = DEFAULT_MIN_SCORE,
+  dismissed: Set<string> = new Set(),
+): DuplicateCandidate[] {
+  const candidates: DuplicateCandidate[] = [];
+  for (let i = 0; i < schools.length; i++) {
+    for (let j = i + 1; j < schools.length; j++) {
+      if (dismissed.has(pairKey(schools[i].id, schools[j].id))) continue;
+      const candidate = scorePair(schools[i], schools[j]);
+      if (candidate && candidate.score >= minScore) candidates.push(candidate);
+    }
+  }
+  return candidates.sort((a, b) => b.score - a.score || a.keepId - b.keepId || a.mergeId - b.mergeId);
+}
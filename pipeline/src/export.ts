@@ -7,9 +7,12 @@ import { mkdir, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import { fileURLToPath } from "node:url";
 import { dirname } from "node:path";
-import { query, ensureSchema } from "./db.js";
+import { query } from "./db.js";
 import pool from "./db.js";
-import { getScale, normalize } from "./normalize.js";
+import { assertSchemaCurrent } from "./migrate.js";
+import { computeCleanName, getScale, normalize } from "./normalize.js";
+import { deriveSchoolHistory, fullSurveyYears } from "./school-lifecycle.js";
+import type { SchoolHistory, SchoolYear } from "./school-lifecycle.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const DATA_DIR = join(__dirname, "../../frontend/public/data");
@@ -23,13 +26,52 @@ function slugify(s: string): string {
     .replace(/(^-|-$)/g, "");
 }
 
+/** Page, line and raw text a parsed value came from (null for XLS reports) */
+function sourceOf(row: Record<string, unknown>) {
+  return row.source_page === null
+    ? null
+    : { page: row.source_page, line: row.source_line, text: row.source_text };
+}
+
 async function writeJson(path: string, data: unknown) {
   await mkdir(dirname(path), { recursive: true });
   await writeFile(path, JSON.stringify(data));
 }
 
+/**
+ * Lifecycle of every school with reports: first/last year, gaps, names and areas (school-lifecycle.ts).
+ * Each year's name is the one the school was listed under that year (its first name variant).
+ */
+async function loadSchoolHistories(): Promise<Map<number, SchoolHistory>> {
+  const { rows } = await query(
+    `SELECT DISTINCT ON (pr.school_id, pr.year)
+            pr.school_id, pr.year, COALESCE(v.original_name, s.clean_name) AS name, a.name AS area_name
+     FROM pdf_reports pr
+     JOIN schools s ON s.id = pr.school_id
+     JOIN areas a ON a.id = pr.area_id
+     LEFT JOIN school_name_variants v ON v.school_id = pr.school_id AND v.area_id = pr.area_id
+     ORDER BY pr.school_id, pr.year, v.id`,
+  );
+
+  const bySchool = new Map<number, SchoolYear[]>();
+  const schoolsPerYear = new Map<number, number>();
+  for (const r of rows) {
+    if (!bySchool.has(r.school_id)) bySchool.set(r.school_id, []);
+    bySchool.get(r.school_id)!.push({ year: r.year, name: computeCleanName(r.name), area: r.area_name });
+    schoolsPerYear.set(r.year, (schoolsPerYear.get(r.year) ?? 0) + 1);
+  }
+
+  const surveyYears = fullSurveyYears(schoolsPerYear);
+  const histories = new Map<number, SchoolHistory>();
+  for (const [schoolId, years] of bySchool) {
+    const history = deriveSchoolHistory(years, surveyYears);
+    if (history) histories.set(schoolId, history);
+  }
+  return histories;
+}
+
 /** Export index.json — all years, areas, schools */
-async function exportIndex() {
+async function exportIndex(histories: Map<number, SchoolHistory>) {
   const years = await query(
     "SELECT year, crawled_at FROM survey_years ORDER BY year DESC",
   );
@@ -55,13 +97,11 @@ async function exportIndex() {
 
   // Get school-level mean averages and report IDs for quick overview
   // Use 'school' type reports when available, fall back to any report type
-  // Exclude NKI indices (0-100 scale) from average to avoid mixing scales
   const schoolMeans = await query(
     `SELECT DISTINCT ON (pr.school_id, pr.year)
             pr.school_id, pr.id as report_id, pr.year, pr.report_category,
             (SELECT AVG(qm2.mean_school) FROM question_means qm2
-             JOIN questions q2 ON q2.id = qm2.question_id
-             WHERE qm2.pdf_report_id = pr.id AND q2.text NOT LIKE 'NKI %') as avg_mean,
+             WHERE qm2.pdf_report_id = pr.id) as avg_mean,
             rm.respondents, rm.response_rate
      FROM pdf_reports pr
      LEFT JOIN report_metadata rm ON rm.pdf_report_id = pr.id
@@ -79,7 +119,7 @@ async function exportIndex() {
     meansMap.set(`${row.school_id}-${row.year}`, {
       reportId: row.report_id,
       avgMean,
-      avgNormalized: normalize(avgMean, row.year, undefined, category) ?? 0,
+      avgNormalized: normalize(avgMean, row.year, category) ?? 0,
       respondents: row.respondents,
       responseRate: row.response_rate,
       reportCategory: row.report_category,
@@ -90,8 +130,7 @@ async function exportIndex() {
   const crawlerUnits = await query(
     `SELECT pr.id as report_id, pr.school_id, pr.year, pr.unit_name, pr.report_category,
             (SELECT AVG(qm2.mean_school) FROM question_means qm2
-             JOIN questions q2 ON q2.id = qm2.question_id
-             WHERE qm2.pdf_report_id = pr.id AND q2.text NOT LIKE 'NKI %') as avg_mean,
+             WHERE qm2.pdf_report_id = pr.id) as avg_mean,
             rm.respondents, rm.response_rate
      FROM pdf_reports pr
      LEFT JOIN report_metadata rm ON rm.pdf_report_id = pr.id
@@ -116,7 +155,7 @@ async function exportIndex() {
       reportId: row.report_id,
       name: row.unit_name,
       avgMean,
-      avgNormalized: avgMean !== null ? normalize(avgMean, row.year, undefined, category) : null,
+      avgNormalized: avgMean !== null ? normalize(avgMean, row.year, category) : null,
       respondents: row.respondents,
       responseRate: row.response_rate,
     });
@@ -190,6 +229,12 @@ async function exportIndex() {
         if (allUnits.length > 0) entry.units = allUnits;
         return entry;
       }),
+    // One lifecycle per school, shared by its yearly entries
+    histories: Object.fromEntries(
+      [...new Set<number>(schools.rows.map((s) => s.id))]
+        .filter((id) => histories.has(id))
+        .map((id) => [id, histories.get(id)]),
+    ),
   };
 
   await writeJson(join(DATA_DIR, "index.json"), index);
@@ -260,10 +305,12 @@ async function exportAreaSchools() {
 }
 
 /** Export detailed per-school report files */
-async function exportDetails() {
+async function exportDetails(histories: Map<number, SchoolHistory>) {
   const reports = await query(
     `SELECT pr.id, pr.school_id, pr.year, pr.report_type, pr.unit_name,
             pr.pdf_url, pr.parent_school_id, pr.report_category,
+            pr.checked_at >= pr.parsed_at AS checked, pr.checked_at,
+            pr.text_source, pr.ocr_confidence,
             s.clean_name as school_name,
             a.name as area_name
      FROM pdf_reports pr
@@ -317,11 +364,13 @@ async function exportDetails() {
 
     // Question means
     const means = await query(
-      `SELECT q.text as question, qa.name as area,
+      `SELECT q.text as question, al.canonical_question_id, qa.name as area,
               qm.mean_gr, qm.mean_goteborg, qm.mean_district, qm.mean_school,
-              qm.historical_means
+              qm.historical_means, qm.index_school, qm.index_district,
+              qm.source_page, qm.source_line, qm.source_text
        FROM question_means qm
        JOIN questions q ON q.id = qm.question_id
+       LEFT JOIN question_aliases al ON al.question_id = q.id AND al.status = 'confirmed'
        LEFT JOIN question_areas qa ON qa.id = q.question_area_id
        WHERE qm.pdf_report_id = $1
        ORDER BY qa.display_order, q.id`,
@@ -330,11 +379,13 @@ async function exportDetails() {
 
     // Response distributions
     const responses = await query(
-      `SELECT q.text as question,
+      `SELECT q.text as question, al.canonical_question_id,
               qr.pct_strongly_agree, qr.pct_agree, qr.pct_neither,
-              qr.pct_disagree, qr.pct_strongly_disagree, qr.pct_dont_know
+              qr.pct_disagree, qr.pct_strongly_disagree, qr.pct_dont_know, qr.pct_no_answer,
+              qr.source_page, qr.source_line, qr.source_text
        FROM question_responses qr
        JOIN questions q ON q.id = qr.question_id
+       LEFT JOIN question_aliases al ON al.question_id = q.id AND al.status = 'confirmed'
        WHERE qr.pdf_report_id = $1
        ORDER BY q.id`,
       [report.id],
@@ -342,9 +393,11 @@ async function exportDetails() {
 
     // Gender splits
     const gender = await query(
-      `SELECT q.text as question, gs.pct_total, gs.pct_flicka, gs.pct_pojke
+      `SELECT q.text as question, al.canonical_question_id, gs.pct_total, gs.pct_flicka, gs.pct_pojke,
+              gs.source_page, gs.source_line, gs.source_text
        FROM gender_split gs
        JOIN questions q ON q.id = gs.question_id
+       LEFT JOIN question_aliases al ON al.question_id = q.id AND al.status = 'confirmed'
        WHERE gs.pdf_report_id = $1
        ORDER BY q.id`,
       [report.id],
@@ -352,14 +405,38 @@ async function exportDetails() {
 
     // Important questions
     const important = await query(
-      `SELECT q.text as question, iq.rank, iq.pct
+      `SELECT q.text as question, al.canonical_question_id, iq.rank, iq.pct
        FROM important_questions iq
        JOIN questions q ON q.id = iq.question_id
+       LEFT JOIN question_aliases al ON al.question_id = q.id AND al.status = 'confirmed'
        WHERE iq.pdf_report_id = $1
        ORDER BY iq.rank`,
       [report.id],
     );
 
+    // NKI and quality factor indices
+    const nki = await query(
+      `SELECT n.name, qa.name as area, n.value, n.benchmark_goteborg, n.benchmark_district,
+              n.scale_min, n.scale_max, n.source_page, n.source_line, n.source_text
+       FROM nki_indices n
+       LEFT JOIN question_areas qa ON qa.id = n.question_area_id
+       WHERE n.pdf_report_id = $1
+       ORDER BY n.id`,
+      [report.id],
+    );
+
+    // Consistency check violations (npm run check), one entry per rule
+    const violations = report.checked
+      ? await query(
+          `SELECT rule, count(*)::int AS count, (array_agg(message ORDER BY id))[1] AS example
+           FROM check_violations
+           WHERE pdf_report_id = $1
+           GROUP BY rule
+           ORDER BY rule`,
+          [report.id],
+        )
+      : null;
+
     // Unit means
     const units = await query(
       `SELECT um.unit_name, qa.name as area, um.mean_value
@@ -394,39 +471,69 @@ async function exportDetails() {
         : null,
       means: means.rows.map((m) => ({
         question: m.question,
+        canonicalId: m.canonical_question_id,
         area: m.area,
         gr: m.mean_gr,
         goteborg: m.mean_goteborg,
         district: m.mean_district,
         school: m.mean_school,
-        normalized: normalize(m.mean_school, report.year, m.question, detailCategory),
+        normalized: normalize(m.mean_school, report.year, detailCategory),
         history: m.historical_means,
+        indexSchool: m.index_school,
+        indexDistrict: m.index_district,
+        source: sourceOf(m),
       })),
       responses: responses.rows.map((r) => ({
         question: r.question,
+        canonicalId: r.canonical_question_id,
         stronglyAgree: r.pct_strongly_agree,
         agree: r.pct_agree,
         neither: r.pct_neither,
         disagree: r.pct_disagree,
         stronglyDisagree: r.pct_strongly_disagree,
         dontKnow: r.pct_dont_know,
+        noAnswer: r.pct_no_answer,
+        source: sourceOf(r),
       })),
       genderSplit: gender.rows.map((g) => ({
         question: g.question,
+        canonicalId: g.canonical_question_id,
         total: g.pct_total,
         flicka: g.pct_flicka,
         pojke: g.pct_pojke,
+        source: sourceOf(g),
       })),
       importantQuestions: important.rows.map((i) => ({
         question: i.question,
+        canonicalId: i.canonical_question_id,
         rank: i.rank,
         pct: i.pct,
       })),
+      nki: nki.rows.map((n) => ({
+        name: n.name,
+        area: n.area,
+        value: n.value,
+        goteborg: n.benchmark_goteborg,
+        district: n.benchmark_district,
+        scale: `${n.scale_min}-${n.scale_max}`,
+        source: sourceOf(n),
+      })),
       unitMeans: units.rows.map((u) => ({
         unit: u.unit_name,
         area: u.area,
         mean: u.mean_value,
       })),
+      // Reports re-parsed since their last check count as unchecked
+      dataQuality: violations
+        ? {
+            status: violations.rows.length > 0 ? "issues" : "ok",
+            checkedAt: report.checked_at,
+            issues: violations.rows.map((v) => ({ rule: v.rule, count: v.count, example: v.example })),
+          }
+        : { status: "unchecked", checkedAt: null, issues: [] },
+      // Set when the values were read through OCR (no usable text layer), so they are less certain
+      ocr: report.text_source === "ocr" ? { confidence: report.ocr_confidence } : null,
+      history: histories.get(report.school_id) ?? null,
     };
 
     // Build relatedReports: sibling reports (same school_id) + XLS parent/children
@@ -459,13 +566,14 @@ async function exportDetails() {
 }
 
 async function main() {
-  await ensureSchema();
+  await assertSchemaCurrent();
 
   console.log("Exporting data to JSON...\n");
 
-  await exportIndex();
+  const histories = await loadSchoolHistories();
+  await exportIndex(histories);
   await exportAreaSchools();
-  await exportDetails();
+  await exportDetails(histories);
 
   console.log("\nExport complete.");
   await pool.end();
@@ -11,21 +11,22 @@ import "dotenv/config";
 import { writeFileSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
-import { query, ensureSchema } from "./db.js";
+import { query } from "./db.js";
 import pool from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const OUT_PATH = join(__dirname, "../../data/missing-coords.tsv");
 
 async function main() {
-  await ensureSchema();
+  await assertSchemaCurrent();
 
   const result = await query(
     `SELECT s.clean_name,
             (SELECT a.name FROM pdf_reports pr JOIN areas a ON pr.area_id = a.id
              WHERE pr.school_id = s.id ORDER BY a.year DESC LIMIT 1) as area_name
      FROM schools s
-     WHERE s.lat IS NULL
+     WHERE s.lat IS NULL AND s.merged_into IS NULL
      ORDER BY s.clean_name`,
   );
 
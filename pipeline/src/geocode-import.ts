@@ -10,8 +10,9 @@ import "dotenv/config";
 import { readFileSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
-import { query, ensureSchema } from "./db.js";
+import { query } from "./db.js";
 import pool from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const TSV_PATH = join(__dirname, "../../data/missing-coords.tsv");
@@ -48,7 +49,7 @@ async function geocodeAddress(address: string): Promise<{ lat: number; lng: numb
 }
 
 async function main() {
-  await ensureSchema();
+  await assertSchemaCurrent();
 
   const content = readFileSync(TSV_PATH, "utf-8");
   const lines = content.split("\n").filter((l) => l.trim());
@@ -6,8 +6,9 @@
  * Dry run: npm run geocode:osm -- --dry-run
  */
 import "dotenv/config";
-import { query, ensureSchema } from "./db.js";
+import { query } from "./db.js";
 import pool from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
 
 const dryRun = process.argv.includes("--dry-run");
 
@@ -95,7 +96,7 @@ function isPartialMatch(a: string, b: string): boolean {
 }
 
 async function main() {
-  await ensureSchema();
+  await assertSchemaCurrent();
 
   if (dryRun) console.log("** DRY RUN — no database changes **\n");
 
@@ -129,7 +130,7 @@ async function main() {
   }>(
     `SELECT s.id, s.clean_name, s.address
      FROM schools s
-     WHERE s.lat IS NULL
+     WHERE s.lat IS NULL AND s.merged_into IS NULL
      ORDER BY s.clean_name`,
   );
 
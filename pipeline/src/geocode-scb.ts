@@ -11,8 +11,10 @@ import { execSync } from "node:child_process";
 import { existsSync, mkdirSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
-import { query, ensureSchema } from "./db.js";
+import { query } from "./db.js";
 import pool from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
+import { schoolMatchKey } from "./normalize.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const DATA_DIR = join(__dirname, "../../data");
@@ -27,16 +29,6 @@ interface ScbEntry {
   lng: number;
 }
 
-/** Normalize a name for fuzzy matching */
-function normalizeName(s: string): string {
-  return s
-    .toLowerCase()
-    .replace(/[,.\-_]/g, " ")
-    .replace(/\b(förskola|förskolan|föräldrakooperativ|föräldrakooperativet|ek\.?\s*för\.?|ekonomisk\s+förening|ab|hb)\b/g, "")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
 /** Normalize a street address for matching */
 function normalizeAddress(s: string): string {
   return s
@@ -109,7 +101,7 @@ function buildScbLookups(scbData: ScbEntry[]) {
   for (const entry of scbData) {
     for (const nameField of [entry.firma, entry.foretag]) {
       if (!nameField) continue;
-      const key = normalizeName(nameField);
+      const key = schoolMatchKey(nameField);
       if (key.length >= 4 && !scbByName.has(key)) {
         scbByName.set(key, entry);
       }
@@ -130,7 +122,7 @@ function findScbMatch(
   scbByName: Map<string, ScbEntry>,
   scbByAddress: Map<string, ScbEntry>,
 ): { match: ScbEntry; matchType: string } | null {
-  const schoolNorm = normalizeName(name);
+  const schoolNorm = schoolMatchKey(name);
 
   // Strategy 1: Exact normalized name match
   let scbMatch = scbByName.get(schoolNorm);
@@ -138,7 +130,7 @@ function findScbMatch(
 
   // Strategy 2: Name with förskola/förskolan suffix variations
   for (const suffix of [" förskola", " förskolan"]) {
-    scbMatch = scbByName.get(normalizeName(name + suffix));
+    scbMatch = scbByName.get(schoolMatchKey(name + suffix));
     if (scbMatch) return { match: scbMatch, matchType: "name+suffix" };
   }
 
@@ -158,7 +150,7 @@ function findScbMatch(
 }
 
 async function main() {
-  await ensureSchema();
+  await assertSchemaCurrent();
 
   const scbData = await loadScbData();
   console.log(`Loaded ${scbData.length} Gothenburg preschools from SCB.\n`);
@@ -169,7 +161,7 @@ async function main() {
     console.log("=== Refine mode: updating all matched schools with SCB coordinates ===\n");
 
     const all = await query<{ id: number; clean_name: string; lat: number | null; lng: number | null }>(
-      `SELECT id, clean_name, lat, lng FROM schools ORDER BY clean_name`,
+      `SELECT id, clean_name, lat, lng FROM schools WHERE merged_into IS NULL ORDER BY clean_name`,
     );
 
     let refined = 0;
@@ -203,7 +195,7 @@ async function main() {
     const missing = await query(
       `SELECT s.id, s.clean_name
        FROM schools s
-       WHERE s.lat IS NULL
+       WHERE s.lat IS NULL AND s.merged_into IS NULL
        ORDER BY s.clean_name`,
     );
 
@@ -5,7 +5,7 @@
 import "dotenv/config";
 import { query } from "./db.js";
 import pool from "./db.js";
-import { ensureSchema } from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
 
 const USER_AGENT = "forskoleenkaten-gbg/1.0";
 const VIEWBOX = "11.5,57.5,12.3,58.1";
@@ -71,7 +71,7 @@ async function geocodeSchool(cleanName: string, address: string | null, areaName
 }
 
 async function main() {
-  await ensureSchema();
+  await assertSchemaCurrent();
 
   // Find schools that still need geocoding
   const needGeocoding = await query(
@@ -79,7 +79,7 @@ async function main() {
             (SELECT a.name FROM pdf_reports pr JOIN areas a ON pr.area_id = a.id
              WHERE pr.school_id = s.id LIMIT 1) as area_name
      FROM schools s
-     WHERE s.lat IS NULL
+     WHERE s.lat IS NULL AND s.merged_into IS NULL
      ORDER BY s.clean_name`,
   );
 
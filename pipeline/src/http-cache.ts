@@ -0,0 +1,117 @@
+/**
+ * Pluggable page fetching for the crawler, with an on-disk record/replay cache.
+ *
+ * Modes:
+ *   live   — fetch from the network (default)
+ *   record — fetch from the network and save every page to the cache
+ *   replay — serve pages from the cache only; a missing page is an error, nothing is fetched
+ *
+ * The cache is a directory of HTML files plus an index.json mapping each URL to its file,
+ * so recorded pages can be checked in as test fixtures and read by hand.
+ */
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const DEFAULT_CACHE_DIR = join(__dirname, "../../data/http-cache");
+
+export type FetchMode = "live" | "record" | "replay";
+
+/** Fetches a page and returns its body as text */
+export type PageFetcher = (url: string) => Promise<string>;
+
+export interface FetcherOptions {
+  cacheDir?: string;
+  /** Minimum time between network requests (ignored in replay mode) */
+  delayMs?: number;
+}
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+function cacheFileName(url: string): string {
+  return `${createHash("sha256").update(url).digest("hex").slice(0, 16)}.html`;
+}
+
+async function readIndex(cacheDir: string): Promise<Record<string, string>> {
+  try {
+    return JSON.parse(await readFile(join(cacheDir, "index.json"), "utf-8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw err;
+  }
+}
+
+/** Read a page from the cache, or null if the URL has not been recorded */
+export async function readCachedPage(cacheDir: string, url: string): Promise<string | null> {
+  const index = await readIndex(cacheDir);
+  const file = index[url];
+  if (!file) return null;
+  return readFile(join(cacheDir, file), "utf-8");
+}
+
+/** Save a page to the cache, replacing any earlier recording of the same URL */
+export async function writeCachedPage(cacheDir: string, url: string, html: string): Promise<void> {
+  await mkdir(cacheDir, { recursive: true });
+  const file = cacheFileName(url);
+  await writeFile(join(cacheDir, file), html);
+
+  const index = await readIndex(cacheDir);
+  index[url] = file;
+  const sorted = Object.fromEntries(Object.entries(index).sort(([a], [b]) => a.localeCompare(b)));
+  await writeFile(join(cacheDir, "index.json"), JSON.stringify(sorted, null, 2) + "\n");
+}
+
+export function createPageFetcher(mode: FetchMode, options: FetcherOptions = {}): PageFetcher {
+  const cacheDir = options.cacheDir ?? DEFAULT_CACHE_DIR;
+  const delayMs = options.delayMs ?? 0;
+  let lastRequestAt = 0;
+
+  async function fetchLive(url: string): Promise<string> {
+    // Be polite to the server: keep at least delayMs between requests
+    const wait = lastRequestAt + delayMs - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastRequestAt = Date.now();
+
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
+    return res.text();
+  }
+
+  switch (mode) {
+    case "live":
+      return fetchLive;
+    case "record":
+      return async (url) => {
+        const html = await fetchLive(url);
+        await writeCachedPage(cacheDir, url, html);
+        return html;
+      };
+    case "replay":
+      return async (url) => {
+        const html = await readCachedPage(cacheDir, url);
+        if (html === null) throw new Error(`No cached page for ${url} (record it with --record)`);
+        return html;
+      };
+  }
+}
+
+/**
+ * Build a fetcher from CLI arguments: --record, --replay and --cache-dir=DIR.
+ * Without --record/--replay pages are fetched live.
+ */
+export function fetcherFromArgs(args: string[], delayMs: number): { mode: FetchMode; fetchPage: PageFetcher } {
+  const record = args.includes("--record");
+  const replay = args.includes("--replay");
+  if (record && replay) throw new Error("--record and --replay cannot be combined");
+
+  const cacheDirArg = args.find((a) => a.startsWith("--cache-dir="));
+  const cacheDir = cacheDirArg ? cacheDirArg.split("=")[1] : undefined;
+  const mode: FetchMode = record ? "record" : replay ? "replay" : "live";
+
+  return { mode, fetchPage: createPageFetcher(mode, { cacheDir, delayMs }) };
+}
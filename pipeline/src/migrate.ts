@@ -0,0 +1,275 @@
+/**
+ * Versioned schema migrations: ordered SQL files in migrations/ (`NNN-name.sql`), each applied once
+ * in its own transaction and recorded in schema_migrations with a checksum of the file.
+ *
+ * A file may be split by `-- migrate:up` and `-- migrate:down` lines; a file without them is all
+ * up migration and can't be rolled back. Applied files must not change: a checksum that no longer
+ * matches (or an applied file that is gone) is drift, and the runner refuses to go on until it is
+ * resolved. Run with npm run schema (schema-runner.ts); every other command only asserts that the
+ * database is current (assertSchemaCurrent).
+ */
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { getClient } from "./db.js";
+import pool from "./db.js";
+import type { Queryable } from "./db.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+export const MIGRATIONS_DIR = join(__dirname, "migrations");
+
+/**
+ * Migrations 001-002 were run by hand before migrations were tracked. A database that has tables
+ * but no schema_migrations yet gets them recorded as applied rather than run again. 003 came with
+ * the nki_indices table, so no such database has run it; it runs like any pending migration.
+ */
+const LAST_UNTRACKED_VERSION = 2;
+/** pg_advisory_lock key held while migrating, so two runners never apply the same migration */
+const MIGRATION_LOCK_KEY = 72_616_001;
+
+const FILE_RE = /^(\d{3})-([\w-]+)\.sql$/;
+const SECTION_RE = /^--\s*migrate:(up|down)\s*$/m;
+
+export interface Migration {
+  version: number;
+  name: string;
+  file: string;
+  up: string;
+  /** null when the file has no `-- migrate:down` section */
+  down: string | null;
+  /** SHA-256 of the whole file (line endings normalised) */
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+export interface MigrationDrift {
+  version: number;
+  name: string;
+  /**
+   * changed: the applied file's checksum differs; missing: an applied version has no file;
+   * out_of_order: a pending file is older than the latest applied migration
+   */
+  problem: "changed" | "missing" | "out_of_order";
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  drift: MigrationDrift[];
+  /** Latest applied version, -1 for an empty database */
+  current: number;
+  /** Version of the newest migration file */
+  latest: number;
+}
+
+/** Split one migration file into its up and down sections */
+export function parseMigration(file: string, content: string): Migration {
+  const match = file.match(FILE_RE);
+  if (!match) throw new Error(`Migration file name must look like 004-some-change.sql: ${file}`);
+  const normalised = content.replace(/\r\n/g, "\n");
+  const checksum = createHash("sha256").update(normalised).digest("hex");
+
+  const parts = normalised.split(SECTION_RE);
+  let up = parts[0];
+  let down: string | null = null;
+  if (parts.length > 1) {
+    // ["header", "up", "…sql", "down", "…sql"]; the header before the first marker is only comments
+    up = "";
+    for (let i = 1; i < parts.length; i += 2) {
+      if (parts[i] === "up") up += parts[i + 1];
+      else down = (down ?? "") + parts[i + 1];
+    }
+  }
+  if (!up.trim()) throw new Error(`Migration ${file} has no up section`);
+  return { version: parseInt(match[1], 10), name: match[2], file, up, down: down?.trim() ? down : null, checksum };
+}
+
+/** Every migration file, by version */
+export function loadMigrations(dir = MIGRATIONS_DIR): Migration[] {
+  const migrations = readdirSync(dir)
+    .filter((f) => f.endsWith(".sql"))
+    .map((f) => parseMigration(f, readFileSync(join(dir, f), "utf-8")))
+    .sort((a, b) => a.version - b.version);
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(`Two migrations with version ${migrations[i].version}: ${migrations[i - 1].file}, ${migrations[i].file}`);
+    }
+  }
+  return migrations;
+}
+
+/** Compare the migration files with what the database has applied */
+export function compareMigrations(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus {
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+  const appliedVersions = new Set(applied.map((a) => a.version));
+  const current = applied.reduce((max, a) => Math.max(max, a.version), -1);
+  const drift: MigrationDrift[] = [];
+
+  for (const a of applied) {
+    const file = byVersion.get(a.version);
+    if (!file) drift.push({ version: a.version, name: a.name, problem: "missing" });
+    else if (file.checksum !== a.checksum) drift.push({ version: a.version, name: a.name, problem: "changed" });
+  }
+  const pending = migrations.filter((m) => !appliedVersions.has(m.version));
+  for (const m of pending) {
+    if (m.version < current) drift.push({ version: m.version, name: m.name, problem: "out_of_order" });
+  }
+  drift.sort((a, b) => a.version - b.version);
+
+  return {
+    applied: [...applied].sort((a, b) => a.version - b.version),
+    pending,
+    drift,
+    current,
+    latest: migrations.length > 0 ? migrations[migrations.length - 1].version : -1,
+  };
+}
+
+export function describeDrift(drift: MigrationDrift[]): string {
+  const problems = {
+    changed: "changed since it was applied",
+    missing: "applied but its file is gone",
+    out_of_order: "older than the latest applied migration",
+  };
+  return drift.map((d) => `${String(d.version).padStart(3, "0")}-${d.name}: ${problems[d.problem]}`).join("; ");
+}
+
+async function tableExists(db: Queryable, table: string): Promise<boolean> {
+  const { rows } = await db.query(`SELECT to_regclass($1) IS NOT NULL AS exists`, [table]);
+  return rows[0].exists;
+}
+
+/** Applied migrations, or null when the database has no schema_migrations table yet */
+async function readAppliedMigrations(db: Queryable): Promise<AppliedMigration[] | null> {
+  if (!(await tableExists(db, "schema_migrations"))) return null;
+  const { rows } = await db.query(
+    `SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version`,
+  );
+  return rows.map((r) => ({ version: r.version, name: r.name, checksum: r.checksum, appliedAt: r.applied_at }));
+}
+
+export async function migrationStatus(): Promise<MigrationStatus> {
+  return compareMigrations(loadMigrations(), (await readAppliedMigrations(pool)) ?? []);
+}
+
+/**
+ * Throw unless every migration file is applied and unchanged; commands other than
+ * npm run schema call this instead of changing the schema themselves
+ */
+export async function assertSchemaCurrent(): Promise<void> {
+  const applied = await readAppliedMigrations(pool);
+  if (applied === null) {
+    throw new Error("The database has no schema_migrations table; run `npm run schema` first");
+  }
+  const status = compareMigrations(loadMigrations(), applied);
+  if (status.drift.length > 0) {
+    throw new Error(`Schema migrations have drifted: ${describeDrift(status.drift)}`);
+  }
+  if (status.pending.length > 0) {
+    throw new Error(
+      `The database is at schema version ${status.current}, this code needs ${status.latest}; run \`npm run schema\``,
+    );
+  }
+}
+
+/**
+ * Run `fn` on one client holding the migration lock, with schema_migrations in place.
+ * `untracked` is true when the database had tables but no schema_migrations before.
+ */
+async function withMigrationLock<T>(
+  fn: (client: Queryable, applied: AppliedMigration[], untracked: boolean) => Promise<T>,
+): Promise<T> {
+  const client = await getClient();
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+    const applied = await readAppliedMigrations(client);
+    const untracked = applied === null && (await tableExists(client, "pdf_reports"));
+    if (applied === null) {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version    INTEGER PRIMARY KEY,
+          name       TEXT NOT NULL,
+          checksum   TEXT NOT NULL,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )`);
+    }
+    return await fn(client, applied ?? [], untracked);
+  } finally {
+    await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]).catch(() => {});
+    client.release();
+  }
+}
+
+async function inTransaction(client: Queryable, fn: () => Promise<void>) {
+  await client.query("BEGIN");
+  try {
+    await fn();
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  }
+}
+
+/** Apply every pending migration in order; returns the versions applied or recorded */
+export async function migrateUp(log: (line: string) => void = console.log): Promise<number[]> {
+  const migrations = loadMigrations();
+  return withMigrationLock(async (client, applied, untracked) => {
+    const status = compareMigrations(migrations, applied);
+    if (status.drift.length > 0) {
+      throw new Error(`Refusing to migrate, schema migrations have drifted: ${describeDrift(status.drift)}`);
+    }
+
+    const done: number[] = [];
+    for (const m of status.pending) {
+      const record = () =>
+        client.query(`INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)`, [
+          m.version,
+          m.name,
+          m.checksum,
+        ]);
+      // The baseline is idempotent and brings an untracked database's columns up to date;
+      // the data migrations after it already ran by hand there
+      if (untracked && m.version > 0 && m.version <= LAST_UNTRACKED_VERSION) {
+        await record();
+        log(`  ${m.file}: recorded as applied (run by hand before migrations were tracked)`);
+      } else {
+        await inTransaction(client, async () => {
+          await client.query(m.up);
+          await record();
+        });
+        log(`  ${m.file}: applied`);
+      }
+      done.push(m.version);
+    }
+    return done;
+  });
+}
+
+/** Roll back the latest applied migration through its down section; returns its version */
+export async function migrateDown(log: (line: string) => void = console.log): Promise<number | null> {
+  const migrations = loadMigrations();
+  return withMigrationLock(async (client, applied) => {
+    const status = compareMigrations(migrations, applied);
+    if (status.drift.length > 0) {
+      throw new Error(`Refusing to roll back, schema migrations have drifted: ${describeDrift(status.drift)}`);
+    }
+    if (status.current < 0) return null;
+
+    const m = migrations.find((x) => x.version === status.current)!;
+    if (m.down === null) throw new Error(`${m.file} has no -- migrate:down section and can't be rolled back`);
+    await inTransaction(client, async () => {
+      await client.query(m.down!);
+      await client.query(`DELETE FROM schema_migrations WHERE version = $1`, [m.version]);
+    });
+    log(`  ${m.file}: rolled back`);
+    return m.version;
+  });
+}
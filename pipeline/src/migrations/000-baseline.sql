@@ -0,0 +1,352 @@
+-- gr_enkater schema as it stood when migrations started being tracked. Idempotent (IF NOT EXISTS
+-- throughout), so it also brings a database created by the old schema.sql up to date.
+-- Later schema changes go into new numbered migrations, not into this file.
+
+CREATE TABLE IF NOT EXISTS survey_years (
+  year        INTEGER PRIMARY KEY,
+  crawled_at  TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS areas (
+  id          SERIAL PRIMARY KEY,
+  year        INTEGER NOT NULL REFERENCES survey_years(year),
+  name        TEXT NOT NULL,
+  url_slug    TEXT NOT NULL,
+  UNIQUE (year, url_slug)
+);
+
+CREATE TABLE IF NOT EXISTS schools (
+  id          SERIAL PRIMARY KEY,
+  clean_name  TEXT NOT NULL,
+  address     TEXT,
+  lat         DOUBLE PRECISION,
+  lng         DOUBLE PRECISION
+);
+
+-- Merge case-only duplicate schools before creating the case-insensitive index.
+-- Idempotent: safe to re-run even if no duplicates exist.
+DO $$
+DECLARE
+  r RECORD;
+  keep_id INTEGER;
+BEGIN
+  FOR r IN
+    SELECT LOWER(COALESCE(address, clean_name)) AS lkey,
+           array_agg(id ORDER BY id) AS ids
+    FROM schools
+    GROUP BY LOWER(COALESCE(address, clean_name))
+    HAVING COUNT(*) > 1
+  LOOP
+    keep_id := r.ids[1];
+    FOR i IN 2..array_length(r.ids, 1) LOOP
+      -- Move references from duplicate to canonical school
+      UPDATE school_name_variants SET school_id = keep_id WHERE school_id = r.ids[i];
+      UPDATE pdf_reports SET school_id = keep_id WHERE school_id = r.ids[i];
+      UPDATE pdf_reports SET parent_school_id = keep_id WHERE parent_school_id = r.ids[i];
+      DELETE FROM schools WHERE id = r.ids[i];
+    END LOOP;
+  END LOOP;
+END $$;
+
+-- Drop old case-sensitive index if it exists, then create case-insensitive one
+DROP INDEX IF EXISTS schools_dedup_key;
+CREATE UNIQUE INDEX IF NOT EXISTS schools_dedup_key
+  ON schools (LOWER(COALESCE(address, clean_name)));
+
+CREATE TABLE IF NOT EXISTS school_name_variants (
+  id          SERIAL PRIMARY KEY,
+  school_id   INTEGER NOT NULL REFERENCES schools(id) ON DELETE CASCADE,
+  original_name TEXT NOT NULL,
+  url_slug    TEXT NOT NULL,
+  area_id     INTEGER NOT NULL REFERENCES areas(id),
+  UNIQUE (area_id, url_slug)
+);
+
+CREATE TABLE IF NOT EXISTS pdf_reports (
+  id            SERIAL PRIMARY KEY,
+  school_id     INTEGER NOT NULL REFERENCES schools(id),
+  year          INTEGER NOT NULL REFERENCES survey_years(year),
+  report_type   TEXT NOT NULL DEFAULT 'school',  -- 'school' | 'unit' | 'total'
+  unit_name     TEXT,
+  pdf_url       TEXT NOT NULL UNIQUE,
+  local_path    TEXT,
+  downloaded_at TIMESTAMPTZ,
+  parsed_at     TIMESTAMPTZ,
+  parse_error   TEXT,
+  area_id       INTEGER REFERENCES areas(id),
+  parent_school_id INTEGER REFERENCES schools(id)
+);
+
+-- For existing databases: add new columns to pdf_reports
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS area_id INTEGER REFERENCES areas(id);
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS parent_school_id INTEGER REFERENCES schools(id);
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS report_category TEXT;
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS content_sha256 TEXT;
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS content_bytes INTEGER;
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS http_etag TEXT;
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS http_last_modified TEXT;
+-- Parse claims: which worker is parsing a report, so concurrent parsers never pick the same one
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS parse_claimed_by TEXT;
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS parse_claimed_at TIMESTAMPTZ;
+-- Set when a re-crawl no longer finds the report upstream (cleared if it reappears)
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS vanished_at TIMESTAMPTZ;
+-- Format classification audit (npm run classify): the detected survey format, every format
+-- that matched above the fallback, and the detection signals found in the file
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS detected_format TEXT;
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS format_candidates TEXT[];
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS format_signals TEXT[];
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS classified_at TIMESTAMPTZ;
+-- Where the parsed text came from: 'pdftotext', or 'ocr' when the report had no usable text layer
+-- (npm run parse -- --ocr) and its values are less certain; ocr_confidence is tesseract's mean word confidence, 0-1
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS text_source TEXT;
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS ocr_confidence REAL;
+
+-- Previous versions of a report file, recorded when a download's bytes differ from the stored hash
+CREATE TABLE IF NOT EXISTS pdf_report_revisions (
+  id                 SERIAL PRIMARY KEY,
+  pdf_report_id      INTEGER NOT NULL REFERENCES pdf_reports(id),
+  content_sha256     TEXT,
+  content_bytes      INTEGER,
+  http_etag          TEXT,
+  http_last_modified TEXT,
+  downloaded_at      TIMESTAMPTZ,
+  replaced_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS report_metadata (
+  pdf_report_id           INTEGER PRIMARY KEY REFERENCES pdf_reports(id),
+  response_rate           REAL,
+  respondents             INTEGER,
+  total_invited           INTEGER,
+  birth_year_distribution JSONB,
+  child_gender_distribution JSONB,
+  parent_gender_distribution JSONB
+);
+
+CREATE TABLE IF NOT EXISTS question_areas (
+  id            SERIAL PRIMARY KEY,
+  name          TEXT NOT NULL UNIQUE,
+  display_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS questions (
+  id               SERIAL PRIMARY KEY,
+  question_area_id INTEGER REFERENCES question_areas(id),
+  text             TEXT NOT NULL UNIQUE
+);
+
+-- Taxonomy version (parser/taxonomy.ts) that assigned question_area_id; NULL when the area
+-- came from the report itself. Re-applied by `npm run questions:areas` when the taxonomy changes
+ALTER TABLE questions ADD COLUMN IF NOT EXISTS area_taxonomy_version INTEGER;
+
+-- Canonical questions: one row per survey question regardless of wording. Every observed text
+-- variant (a questions row) has one confirmed alias; fuzzy matches to other canonical questions
+-- are stored as 'suggested' aliases until confirmed or rejected with `npm run questions`
+CREATE TABLE IF NOT EXISTS canonical_questions (
+  id               SERIAL PRIMARY KEY,
+  text             TEXT NOT NULL,
+  question_area_id INTEGER REFERENCES question_areas(id),
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS question_aliases (
+  id                    SERIAL PRIMARY KEY,
+  question_id           INTEGER NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  canonical_question_id INTEGER NOT NULL REFERENCES canonical_questions(id) ON DELETE CASCADE,
+  status                TEXT NOT NULL DEFAULT 'confirmed',  -- 'confirmed' | 'suggested' | 'rejected'
+  similarity            REAL,
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  decided_at            TIMESTAMPTZ,
+  UNIQUE (question_id, canonical_question_id)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS question_aliases_confirmed
+  ON question_aliases (question_id) WHERE status = 'confirmed';
+
+CREATE TABLE IF NOT EXISTS question_means (
+  id              SERIAL PRIMARY KEY,
+  pdf_report_id   INTEGER NOT NULL REFERENCES pdf_reports(id),
+  question_id     INTEGER NOT NULL REFERENCES questions(id),
+  mean_gr         REAL,
+  mean_goteborg   REAL,
+  mean_district   REAL,
+  mean_school     REAL,
+  historical_means JSONB,
+  UNIQUE (pdf_report_id, question_id)
+);
+
+CREATE TABLE IF NOT EXISTS question_responses (
+  id                    SERIAL PRIMARY KEY,
+  pdf_report_id         INTEGER NOT NULL REFERENCES pdf_reports(id),
+  question_id           INTEGER NOT NULL REFERENCES questions(id),
+  pct_strongly_agree    REAL,
+  pct_agree             REAL,
+  pct_neither           REAL,
+  pct_disagree          REAL,
+  pct_strongly_disagree REAL,
+  pct_dont_know         REAL,
+  UNIQUE (pdf_report_id, question_id)
+);
+
+CREATE TABLE IF NOT EXISTS gender_split (
+  id              SERIAL PRIMARY KEY,
+  pdf_report_id   INTEGER NOT NULL REFERENCES pdf_reports(id),
+  question_id     INTEGER NOT NULL REFERENCES questions(id),
+  pct_total       REAL,
+  pct_flicka      REAL,
+  pct_pojke       REAL,
+  UNIQUE (pdf_report_id, question_id)
+);
+
+-- Value provenance: the PDF page, line within the page (of the pdftotext -layout text) and raw
+-- text each row was parsed from. NULL for XLS reports; source_line is NULL for pdf2json values
+ALTER TABLE question_means ADD COLUMN IF NOT EXISTS source_page INTEGER;
+ALTER TABLE question_means ADD COLUMN IF NOT EXISTS source_line INTEGER;
+ALTER TABLE question_means ADD COLUMN IF NOT EXISTS source_text TEXT;
+ALTER TABLE question_responses ADD COLUMN IF NOT EXISTS source_page INTEGER;
+ALTER TABLE question_responses ADD COLUMN IF NOT EXISTS source_line INTEGER;
+ALTER TABLE question_responses ADD COLUMN IF NOT EXISTS source_text TEXT;
+ALTER TABLE gender_split ADD COLUMN IF NOT EXISTS source_page INTEGER;
+ALTER TABLE gender_split ADD COLUMN IF NOT EXISTS source_line INTEGER;
+ALTER TABLE gender_split ADD COLUMN IF NOT EXISTS source_text TEXT;
+-- XLS reports (2007-2009): the workbook's 0-100 index score for the unit and for all schools,
+-- and the share of respondents who left the question unanswered
+ALTER TABLE question_means ADD COLUMN IF NOT EXISTS index_school REAL;
+ALTER TABLE question_means ADD COLUMN IF NOT EXISTS index_district REAL;
+ALTER TABLE question_responses ADD COLUMN IF NOT EXISTS pct_no_answer REAL;
+
+CREATE TABLE IF NOT EXISTS unit_means (
+  id               SERIAL PRIMARY KEY,
+  pdf_report_id    INTEGER NOT NULL REFERENCES pdf_reports(id),
+  unit_name        TEXT NOT NULL,
+  question_area_id INTEGER NOT NULL REFERENCES question_areas(id),
+  mean_value       REAL,
+  UNIQUE (pdf_report_id, unit_name, question_area_id)
+);
+
+CREATE TABLE IF NOT EXISTS important_questions (
+  id              SERIAL PRIMARY KEY,
+  pdf_report_id   INTEGER NOT NULL REFERENCES pdf_reports(id),
+  question_id     INTEGER NOT NULL REFERENCES questions(id),
+  rank            INTEGER NOT NULL,
+  pct             REAL,
+  UNIQUE (pdf_report_id, question_id)
+);
+
+-- NKI (Nöjd Kund Index) and quality factor indices from Scandinfo reports (2011-2014) and the
+-- 2007-2009 parent workbooks. On their own 0-100 scale, so kept apart from question_means.
+-- name is the index as printed: HELHET for NKI itself, otherwise the quality factor (TRIVSEL, NFI, ...)
+CREATE TABLE IF NOT EXISTS nki_indices (
+  id                 SERIAL PRIMARY KEY,
+  pdf_report_id      INTEGER NOT NULL REFERENCES pdf_reports(id),
+  name               TEXT NOT NULL,
+  question_area_id   INTEGER REFERENCES question_areas(id),
+  value              REAL,
+  benchmark_goteborg REAL,
+  benchmark_district REAL,
+  scale_min          REAL NOT NULL DEFAULT 0,
+  scale_max          REAL NOT NULL DEFAULT 100,
+  source_page        INTEGER,
+  source_line        INTEGER,
+  source_text        TEXT,
+  UNIQUE (pdf_report_id, name)
+);
+
+-- Non-fatal problems found while parsing a report (skipped rows, fallbacks); replaced on every re-parse.
+-- Fatal errors still go to pdf_reports.parse_error
+CREATE TABLE IF NOT EXISTS parse_warnings (
+  id             SERIAL PRIMARY KEY,
+  pdf_report_id  INTEGER NOT NULL REFERENCES pdf_reports(id) ON DELETE CASCADE,
+  stage          TEXT NOT NULL,  -- 'text' | 'format' | 'metadata' | 'means' | 'responses' | 'gender' | 'units' | 'xls'
+  code           TEXT NOT NULL,
+  message        TEXT NOT NULL,
+  context        JSONB,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS parse_warnings_report ON parse_warnings (pdf_report_id);
+
+-- Internal consistency problems in a report's stored data (see checks.ts); replaced for every
+-- report `npm run check` evaluates. checked_at tells "no violations" apart from "never checked"
+CREATE TABLE IF NOT EXISTS check_violations (
+  id             SERIAL PRIMARY KEY,
+  pdf_report_id  INTEGER NOT NULL REFERENCES pdf_reports(id) ON DELETE CASCADE,
+  rule           TEXT NOT NULL,
+  message        TEXT NOT NULL,
+  context        JSONB,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS check_violations_report ON check_violations (pdf_report_id);
+ALTER TABLE pdf_reports ADD COLUMN IF NOT EXISTS checked_at TIMESTAMPTZ;
+
+-- Review queue of implausible values found by `npm run anomalies` (see anomaly-detection.ts).
+-- Re-runs update open and reviewed rows in place and drop open rows no longer detected;
+-- question_id is NULL for report-level anomalies
+CREATE TABLE IF NOT EXISTS anomalies (
+  id             SERIAL PRIMARY KEY,
+  pdf_report_id  INTEGER NOT NULL REFERENCES pdf_reports(id) ON DELETE CASCADE,
+  question_id    INTEGER REFERENCES questions(id) ON DELETE CASCADE,
+  kind           TEXT NOT NULL,  -- 'city_outlier' | 'year_jump' | 'city_constant' | 'history_mismatch'
+  score          REAL NOT NULL,
+  reason         TEXT NOT NULL,
+  context        JSONB,
+  status         TEXT NOT NULL DEFAULT 'open',  -- 'open' | 'confirmed' | 'dismissed'
+  detected_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_at    TIMESTAMPTZ
+);
+CREATE UNIQUE INDEX IF NOT EXISTS anomalies_subject ON anomalies (pdf_report_id, kind, COALESCE(question_id, 0));
+CREATE INDEX IF NOT EXISTS anomalies_status ON anomalies (status, score DESC);
+
+-- Pipeline run ledger: one row per `npm run sync` invocation, one step row per phase
+CREATE TABLE IF NOT EXISTS pipeline_runs (
+  id             SERIAL PRIMARY KEY,
+  started_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at    TIMESTAMPTZ,
+  status         TEXT NOT NULL DEFAULT 'running',  -- 'running' | 'succeeded' | 'failed'
+  args           TEXT[] NOT NULL DEFAULT '{}',
+  resumed_from   INTEGER REFERENCES pipeline_runs(id),
+  failed_step    TEXT
+);
+
+CREATE TABLE IF NOT EXISTS pipeline_run_steps (
+  id             SERIAL PRIMARY KEY,
+  run_id         INTEGER NOT NULL REFERENCES pipeline_runs(id) ON DELETE CASCADE,
+  step           TEXT NOT NULL,  -- 'crawl' | 'download' | 'parse' | 'export'
+  started_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at    TIMESTAMPTZ,
+  status         TEXT NOT NULL DEFAULT 'running',  -- 'running' | 'succeeded' | 'failed'
+  exit_code      INTEGER,
+  args           TEXT[] NOT NULL DEFAULT '{}',
+  counts_before  JSONB,
+  counts_after   JSONB,
+  UNIQUE (run_id, step)
+);
+
+-- Crawl history: one row per crawled year, with what that crawl saw compared to the reports already known
+CREATE TABLE IF NOT EXISTS crawl_runs (
+  id             SERIAL PRIMARY KEY,
+  year           INTEGER NOT NULL REFERENCES survey_years(year),
+  started_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at    TIMESTAMPTZ,
+  status         TEXT NOT NULL DEFAULT 'running',  -- 'running' | 'succeeded' | 'partial' | 'failed'
+  fetch_mode     TEXT NOT NULL DEFAULT 'live'      -- 'live' | 'record' | 'replay'
+);
+
+-- Per-URL crawl log. 'removed' rows are only written by complete crawls (status 'succeeded')
+CREATE TABLE IF NOT EXISTS crawl_run_urls (
+  id             SERIAL PRIMARY KEY,
+  crawl_run_id   INTEGER NOT NULL REFERENCES crawl_runs(id) ON DELETE CASCADE,
+  pdf_report_id  INTEGER REFERENCES pdf_reports(id) ON DELETE SET NULL,
+  pdf_url        TEXT NOT NULL,
+  status         TEXT NOT NULL,  -- 'seen' | 'added' | 'removed'
+  UNIQUE (crawl_run_id, pdf_url)
+);
+
+-- Area and school changes found by a crawl
+CREATE TABLE IF NOT EXISTS crawl_run_changes (
+  id             SERIAL PRIMARY KEY,
+  crawl_run_id   INTEGER NOT NULL REFERENCES crawl_runs(id) ON DELETE CASCADE,
+  change         TEXT NOT NULL,  -- 'area_added' | 'school_renamed'
+  area_id        INTEGER REFERENCES areas(id),
+  url_slug       TEXT,
+  old_name       TEXT,
+  new_name       TEXT
+);
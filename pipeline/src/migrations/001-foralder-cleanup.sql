@@ -1,7 +1,5 @@
 -- Migration: Clean up junk entries + backfill report_category
--- Run after schema migration (npm run schema adds the report_category column)
-
-BEGIN;
+-- Fixes rows of the production database by id; on a fresh database it finds nothing to change
 
 -- ============================================================
 -- Part A: Backfill report_category on existing data
@@ -153,5 +151,3 @@ DELETE FROM question_responses WHERE pdf_report_id IN (
 );
 DELETE FROM pdf_reports
 WHERE area_id = 207 AND pdf_url LIKE '%#%';
-
-COMMIT;
@@ -1,7 +1,6 @@
 -- Migration: Merge schools with identical GPS coordinates that are clearly the same school
 -- Each merge: move reports + name variants from duplicate to canonical, then delete duplicate
-
-BEGIN;
+-- Merges production school ids; on a fresh database it finds nothing to merge
 
 -- Helper function for merging schools
 CREATE OR REPLACE FUNCTION merge_school(keep_id INT, remove_id INT) RETURNS VOID AS $$
@@ -420,5 +419,3 @@ SELECT merge_school(5530, 5121);  -- Snurran
 
 -- Clean up helper function
 DROP FUNCTION merge_school(INT, INT);
-
-COMMIT;
@@ -0,0 +1,37 @@
+-- Migration: Move NKI and quality factor indices out of question_means into nki_indices
+-- Reports parsed before nki_indices existed stored them as "NKI <factor>" questions; a re-parse
+-- gives the same result, this saves re-parsing every 2007-2009 and 2011-2014 report.
+
+INSERT INTO nki_indices (pdf_report_id, name, question_area_id, value,
+  benchmark_goteborg, benchmark_district, source_page, source_line, source_text)
+SELECT qm.pdf_report_id,
+       CASE WHEN q.text = 'NKI Helhetsbedömning' THEN 'HELHET' ELSE upper(trim(substring(q.text FROM 5))) END,
+       q.question_area_id, qm.mean_school, qm.mean_goteborg, qm.mean_district,
+       qm.source_page, qm.source_line, qm.source_text
+FROM question_means qm
+JOIN questions q ON q.id = qm.question_id
+WHERE q.text LIKE 'NKI %'
+ON CONFLICT (pdf_report_id, name) DO NOTHING;
+
+DELETE FROM question_means qm
+USING questions q
+WHERE q.id = qm.question_id AND q.text LIKE 'NKI %';
+
+-- Drop the NKI questions, their aliases and canonical questions once nothing else uses them
+CREATE TEMP TABLE nki_questions ON COMMIT DROP AS
+SELECT q.id FROM questions q
+WHERE q.text LIKE 'NKI %'
+  AND NOT EXISTS (SELECT 1 FROM question_means x WHERE x.question_id = q.id)
+  AND NOT EXISTS (SELECT 1 FROM question_responses x WHERE x.question_id = q.id)
+  AND NOT EXISTS (SELECT 1 FROM gender_split x WHERE x.question_id = q.id)
+  AND NOT EXISTS (SELECT 1 FROM important_questions x WHERE x.question_id = q.id);
+
+CREATE TEMP TABLE nki_canonical ON COMMIT DROP AS
+SELECT DISTINCT canonical_question_id AS id FROM question_aliases
+WHERE question_id IN (SELECT id FROM nki_questions);
+
+DELETE FROM question_aliases WHERE question_id IN (SELECT id FROM nki_questions);
+DELETE FROM canonical_questions c
+WHERE c.id IN (SELECT id FROM nki_canonical)
+  AND NOT EXISTS (SELECT 1 FROM question_aliases a WHERE a.canonical_question_id = c.id);
+DELETE FROM questions WHERE id IN (SELECT id FROM nki_questions);
@@ -0,0 +1,33 @@
+-- Migration: School merges, splits and renames with an audit trail (npm run schools)
+-- A merged school keeps its row with merged_into set, so a re-crawl that finds it by its name or
+-- address lands on the school it was merged into. name_locked keeps a manual rename from being
+-- overwritten by a longer crawled name.
+
+-- migrate:up
+
+ALTER TABLE schools ADD COLUMN merged_into INTEGER REFERENCES schools(id);
+ALTER TABLE schools ADD COLUMN name_locked BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- One row per merge/split/rename; `details` lists what moved (or the previous name), so the
+-- operation can be reverted. Schools are kept, never deleted, so the ids stay meaningful.
+CREATE TABLE school_identity_log (
+  id              SERIAL PRIMARY KEY,
+  operation       TEXT NOT NULL,                  -- 'merge' | 'split' | 'rename'
+  school_id       INTEGER NOT NULL REFERENCES schools(id),  -- merge: kept; split: split from; rename: renamed
+  other_school_id INTEGER REFERENCES schools(id),           -- merge: merged away; split: the new school
+  details         JSONB NOT NULL,
+  reason          TEXT NOT NULL,
+  performed_by    TEXT NOT NULL,
+  performed_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reverted_at     TIMESTAMPTZ,
+  reverted_by     TEXT,
+  revert_reason   TEXT
+);
+CREATE INDEX school_identity_log_school ON school_identity_log (school_id);
+CREATE INDEX school_identity_log_other_school ON school_identity_log (other_school_id);
+
+-- migrate:down
+
+DROP TABLE school_identity_log;
+ALTER TABLE schools DROP COLUMN name_locked;
+ALTER TABLE schools DROP COLUMN merged_into;
@@ -0,0 +1,18 @@
+-- Migration: School pairs reviewed as different schools (npm run schools -- duplicates --reject=),
+-- so the duplicate finder stops suggesting them. Accepted pairs are merges in school_identity_log.
+
+-- migrate:up
+
+CREATE TABLE school_duplicate_dismissals (
+  school_id       INTEGER NOT NULL REFERENCES schools(id),  -- the lower id of the pair
+  other_school_id INTEGER NOT NULL REFERENCES schools(id),
+  reason          TEXT NOT NULL,
+  performed_by    TEXT NOT NULL,
+  performed_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (school_id, other_school_id),
+  CHECK (school_id < other_school_id)
+);
+
+-- migrate:down
+
+DROP TABLE school_duplicate_dismissals;
@@ -0,0 +1,11 @@
+-- Migration: The steps a sync run planned (npm run sync), so --resume continues within them:
+-- a resumed --only=parse run runs parse again, not parse and every phase after it.
+-- NULL for runs recorded before, which --resume treats as having planned every step.
+
+-- migrate:up
+
+ALTER TABLE pipeline_runs ADD COLUMN steps TEXT[];
+
+-- migrate:down
+
+ALTER TABLE pipeline_runs DROP COLUMN steps;
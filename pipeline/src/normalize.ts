@@ -1,5 +1,5 @@
 /**
- * Normalization utilities for survey values and school names.
+ * Normalization utilities for survey values, school names and question wordings.
  * Shared between crawler, geocoder, export, and tests.
  */
 
@@ -126,6 +126,71 @@ export function extractAddress(cleanName: string): string | null {
   return normalizeAddressRange(m[1]);
 }
 
+/**
+ * Reduce a question text to the form used to compare wordings across years:
+ * lowercase, without leading ellipsis, punctuation or repeated whitespace.
+ */
+export function questionMatchKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/^[…\u2026.]+/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function bigrams(s: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < s.length - 1; i++) {
+    const bigram = s.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** Sørensen–Dice similarity over character bigrams, 0-1 */
+function diceSimilarity(keyA: string, keyB: string): number {
+  if (keyA === keyB) return 1;
+  const bigramsA = bigrams(keyA);
+  const bigramsB = bigrams(keyB);
+  let total = 0;
+  for (const n of bigramsA.values()) total += n;
+  for (const n of bigramsB.values()) total += n;
+  if (total === 0) return 0;
+  let shared = 0;
+  for (const [bigram, n] of bigramsA) shared += Math.min(n, bigramsB.get(bigram) ?? 0);
+  return (2 * shared) / total;
+}
+
+/**
+ * Similarity of two question wordings, 0-1 (Sørensen–Dice over character bigrams of the match keys).
+ * 1 means the texts differ only in case, punctuation or whitespace.
+ */
+export function questionSimilarity(a: string, b: string): number {
+  return diceSimilarity(questionMatchKey(a), questionMatchKey(b));
+}
+
+/**
+ * Reduce a school name to the form used for fuzzy matching: lowercase, without punctuation,
+ * "förskola(n)" / "föräldrakooperativ(et)" or company forms (ek. för., AB, HB).
+ */
+export function schoolMatchKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[,.\-_]/g, " ")
+    .replace(/\b(förskola|förskolan|föräldrakooperativ|föräldrakooperativet|ek\.?\s*för\.?|ekonomisk\s+förening|ab|hb)\b/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Similarity of two school names, 0-1: Sørensen–Dice over the match keys with their words sorted,
+ * so "Förskolan Bågen" and "Bågens förskola" compare "bågen" with "bågens".
+ */
+export function schoolNameSimilarity(a: string, b: string): number {
+  const sortedKey = (name: string) => schoolMatchKey(name).split(" ").sort().join(" ");
+  return diceSimilarity(sortedKey(a), sortedKey(b));
+}
+
 /**
  * Clean up a school name for display and geocoding.
  * @deprecated Use computeCleanName() instead.
@@ -138,8 +203,8 @@ export function cleanSchoolName(name: string): string {
  * Determine the measurement scale for a given year.
  * Different survey eras use different Likert scales:
  * - 2007-2009 BARN (XLS):        1-3 scale
- * - 2007-2009 FÖRÄLDRAR (XLS):   1-10 scale (+ NKI 0-100 indices)
- * - 2012-2014 (Scandinfo NKI):   1-10 scale (+ NKI 0-100 indices)
+ * - 2007-2009 FÖRÄLDRAR (XLS):   1-10 scale (NKI indices are 0-100, see nki_indices)
+ * - 2012-2014 (Scandinfo NKI):   1-10 scale (NKI indices are 0-100, see nki_indices)
  * - 2015-2018 (ECERS/7-point):   1-7 scale
  * - 2020-2025 (5-point):         1-5 scale
  */
@@ -154,14 +219,11 @@ export function getScale(year: number, category?: 'barn' | 'foralder'): { min: n
 }
 
 /**
- * Normalize a mean value to 0-100 scale.
- * For NKI indices (already 0-100), returns the value as-is.
- * For question means on any scale, linearly maps [min, max] → [0, 100].
+ * Normalize a question mean to 0-100 scale: linearly maps the year's [min, max] → [0, 100].
+ * NKI indices are already 0-100 and kept out of the question means (nki_indices).
  */
-export function normalize(value: number | null, year: number, questionText?: string, category?: 'barn' | 'foralder'): number | null {
+export function normalize(value: number | null, year: number, category?: 'barn' | 'foralder'): number | null {
   if (value === null) return null;
-  // NKI indices are already on 0-100 scale
-  if (questionText && questionText.startsWith("NKI ")) return value;
   const scale = getScale(year, category);
   return Math.round(((value - scale.min) / (scale.max - scale.min)) * 100 * 100) / 100;
 }
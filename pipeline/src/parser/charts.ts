@@ -1,13 +1,15 @@
 /**
- * Coordinate-based chart label extraction using pdf2json output.
+ * Chart label extraction from the pdftotext -layout text and, for gender splits,
+ * positioned text items (see pdf-text.ts).
  * Extracts: response distributions, gender splits, demographics.
  */
-import type { TextItem } from "./utils.js";
+import type { TextItem, SourceLocation } from "./utils.js";
 import {
   groupByRows,
   findInRegion,
   parsePct,
   cleanQuestionText,
+  sourceLocator,
 } from "./utils.js";
 
 export interface ResponseDistribution {
@@ -18,6 +20,8 @@ export interface ResponseDistribution {
   pctDisagree: number | null;
   pctStronglyDisagree: number | null;
   pctDontKnow: number | null;
+  /** The chart label lines the percentages were read from */
+  source: SourceLocation;
 }
 
 export interface GenderSplitRow {
@@ -25,6 +29,8 @@ export interface GenderSplitRow {
   pctTotal: number | null;
   pctFlicka: number | null;
   pctPojke: number | null;
+  /** The chart label lines the percentages were read from */
+  source: SourceLocation;
 }
 
 export interface Demographics {
@@ -180,6 +186,7 @@ export function parseResponseDistributions(
   const results: ResponseDistribution[] = [];
   const seen = new Set<string>(); // deduplicate by question text
   const lines = layoutText.split("\n");
+  const locate = sourceLocator(lines);
 
   let inStackedBarSection = false;
 
@@ -278,6 +285,7 @@ export function parseResponseDistributions(
         pctAgree: a,
         pctStronglyAgree: sa,
         pctDontKnow: dk,
+        source: locate(i, lastLine),
       });
     }
 
@@ -287,47 +295,80 @@ export function parseResponseDistributions(
   return results;
 }
 
+/** Legend entries of the gender chart, in the order the bars are drawn for each question */
+const GENDER_SERIES = ["Total", "Flicka", "Pojke"] as const;
+/** "…totalt och uppdelat på barnets kön." / "Svaren redovisas även uppdelade på vilket kön barnet har." */
+const GENDER_CHART_CAPTION = /uppdela(?:t|de) på (?:barnets|vilket) kön/i;
+
 /**
- * Extract gender split data from the pdf2json coordinate data.
- * The gender chart shows Total/Flicka/Pojke percentages per question.
+ * Extract gender split data from positioned text items (pdftotext -bbox-layout geometry).
+ *
+ * A gender chart page has a "Total / Flicka / Pojke" legend (only "Total", or no legend at all,
+ * when too few answered per gender), question labels left of the bars, one percentage label per bar
+ * beside each question in legend order, and an axis row of 0%-100%. Label lines continue
+ * the previous question when they sit directly below it and don't start a new "…" question.
+ * Pages where the bar labels don't add up to one group per question are skipped.
+ * pdf2json places every item of most reports at the same coordinates, which yields nothing here.
  */
 export function parseGenderSplits(
   items: TextItem[],
   pageRange: { startPage: number; endPage: number },
 ): GenderSplitRow[] {
   const results: GenderSplitRow[] = [];
-
-  // Filter items to the gender split pages
-  const pageItems = items.filter(
-    (t) => t.page >= pageRange.startPage && t.page <= pageRange.endPage,
-  );
-
-  // Group into rows by Y position
-  const rows = groupByRows(pageItems, 1);
-
-  for (const row of rows) {
-    const text = row.map((t) => t.text).join(" ");
-
-    // Look for question text followed by percentages
-    // Pattern: question  XX%  YY%  ZZ%
-    const questionItems = row.filter(
-      (t) => !t.text.match(/^\d+%?$/) && t.text.length > 10,
-    );
-    const pctItems = row.filter((t) => t.text.match(/\d+%/));
-
-    if (questionItems.length > 0 && pctItems.length >= 2) {
-      const questionText = cleanQuestionText(
-        questionItems.map((t) => t.text).join(" "),
-      );
-      const pcts = pctItems.map((t) => parsePct(t.text));
-
+  const isPct = (t: TextItem) => /^\d+\s*%$/.test(t.text.trim());
+
+  for (let page = pageRange.startPage; page <= pageRange.endPage; page++) {
+    const pageItems = items.filter((t) => t.page === page);
+    const legend = GENDER_SERIES.filter((name) => pageItems.some((t) => t.text.trim() === name));
+    const captioned = pageItems.some((t) => GENDER_CHART_CAPTION.test(t.text));
+    if (!legend.includes("Total") && !captioned) continue;
+    const series: (typeof GENDER_SERIES)[number][] = legend.includes("Total") ? legend : ["Total"];
+
+    // Bar labels: percentages outside the axis row
+    const axisRows = groupByRows(pageItems.filter(isPct), 2).filter((row) => row.length >= 5);
+    const axis = new Set(axisRows.flat());
+    const bars = pageItems.filter((t) => isPct(t) && !axis.has(t)).sort((a, b) => a.y - b.y);
+    if (bars.length === 0 || bars.length % series.length !== 0) continue;
+
+    const barsLeft = Math.min(...bars.map((t) => t.x));
+    const labelLines = findInRegion(pageItems, {
+      minX: 0,
+      maxX: barsLeft,
+      minY: bars[0].y - 2 * bars[0].height,
+      maxY: bars[bars.length - 1].y + 2 * bars[bars.length - 1].height,
+    })
+      .filter((t) => t.x + t.width <= barsLeft && !isPct(t) && !GENDER_SERIES.some((name) => t.text.trim() === name))
+      .sort((a, b) => a.y - b.y);
+
+    const questions: TextItem[][] = [];
+    for (const line of labelLines) {
+      const previous = questions.at(-1)?.at(-1);
+      const continues = previous !== undefined &&
+        !startsWithEllipsis(line.text.trim()) &&
+        line.y - previous.y <= 1.5 * previous.height;
+      if (continues) questions[questions.length - 1].push(line);
+      else questions.push([line]);
+    }
+    if (questions.length !== bars.length / series.length) continue;
+
+    questions.forEach((lines, i) => {
+      const group = bars.slice(i * series.length, (i + 1) * series.length);
+      const pct = (name: (typeof GENDER_SERIES)[number]) => {
+        const index = series.indexOf(name);
+        return index === -1 ? null : parsePct(group[index].text);
+      };
       results.push({
-        questionText,
-        pctTotal: pcts[0] ?? null,
-        pctFlicka: pcts[1] ?? null,
-        pctPojke: pcts[2] ?? null,
+        questionText: cleanQuestionText(lines.map((t) => t.text).join(" ")),
+        pctTotal: pct("Total"),
+        pctFlicka: pct("Flicka"),
+        pctPojke: pct("Pojke"),
+        source: {
+          page,
+          line: null,
+          text: [...lines, ...group].map((t) => t.text.trim()).join("\n"),
+        },
       });
-    }
+    });
   }
 
   return results;
@@ -347,6 +388,7 @@ export function parseGenderSplitsFromLayout(
   const results: GenderSplitRow[] = [];
   const seen = new Set<string>();
   const lines = layoutText.split("\n");
+  const locate = sourceLocator(lines);
 
   let inGenderSection = false;
 
@@ -434,6 +476,7 @@ export function parseGenderSplitsFromLayout(
       pctTotal: total.pct,
       pctFlicka: flicka.pct,
       pctPojke: pojke.pct,
+      source: locate(total.lineIdx, pojke.lineIdx),
     });
   }
 
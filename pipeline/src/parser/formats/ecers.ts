@@ -0,0 +1,185 @@
+/**
+ * 2011-2015 ("ecers"): 7-point scale, single mean value per question (unit only).
+ */
+import type { MeanRow } from "../tables.js";
+import { cleanQuestionText, sourceLocator } from "../utils.js";
+import { parseMetadata, mapAreaName, hasSevenPointScale, hasSignal } from "./shared.js";
+import type { SurveyFormat } from "./types.js";
+
+/**
+ * Parse mean rows from 2015 ECERS format PDFs.
+ *
+ * Supports two column variants:
+ * - Single column: just "Medelvärde" at end of line (per-school reports)
+ * - Dual column: "Medelvärde SDN Göteborg" or "Medelvärde Enhet Göteborg" (district reports)
+ *
+ * Format:
+ *   [Question text]   [percentage bars]   [mean value(s)]
+ *
+ * Questions are numbered: "3. Förskolan...", "4. Du som förälder..."
+ */
+function parseMeanRowsEcers(text: string): { rows: MeanRow[]; historicalYears: number[] } {
+  const lines = text.split("\n");
+  const locate = sourceLocator(lines);
+  const rows: MeanRow[] = [];
+  let currentArea = "";
+
+  // ECERS area patterns from the PDFs
+  const ecersAreas = ["Förutsättningar", "Lärande", "Helhetsbedömning"];
+
+  // Detect dual-column format: "SDN  Göteborg" or "Enhet  Göteborg" in header
+  const hasDualColumns = /Medelvärde\s*\n?\s*(SDN|Enhet)\s+(Göteborg|G.teborg)/m.test(text)
+    || /SDN\s+Göteborg/m.test(text);
+
+  // Mean value regex: one or two decimal numbers at end of line
+  // Single: "5,8" or dual: "5,7  5,8"
+  const singleMeanRe = /(\d[.,]\d)\s*$/;
+  const dualMeanRe = /(\d[.,]\d)\s+(\d[.,]\d)\s*$/;
+
+  let pendingQuestionText = "";
+  let inDataSection = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed === "") continue;
+
+    // "Medelvärde" header marks start of data section (skip demographics page)
+    if (/Medelvärde/i.test(trimmed) && !inDataSection) {
+      inDataSection = true;
+      continue;
+    }
+
+    if (!inDataSection) continue;
+
+    // Check for area headers
+    for (const area of ecersAreas) {
+      if (trimmed === area || trimmed.startsWith(area + "\n")) {
+        currentArea = mapAreaName(area);
+        break;
+      }
+    }
+
+    // Skip non-data lines
+    if (/^FÖRSKOLEENKÄT|^Bakgrund|^Antal\s+svarande|^Fristående|^Medelvärde|^Otillräck|^\d\.\s*(Otillräck|God|Minimal|Utmärkt)/i.test(trimmed)) continue;
+    if (/^SDN\s+Göteborg|^Kommunal\s+verksamhet|^Ranking|^Frågeställning/i.test(trimmed)) continue;
+    // Skip scale legend line
+    if (/^\d+\.\s*(Otillräcklig|God|Minimal|Utmärkt)/.test(trimmed)) continue;
+    // Skip page headers: "SchoolName, n=XX" or "SchoolName - SubType" repeating headers
+    if (/,\s*n\s*=\s*\d+/.test(trimmed) && trimmed.length < 80) {
+      pendingQuestionText = "";
+      continue;
+    }
+
+    // Try dual-column match first, then single
+    let meanSchool: number | null = null;
+    let meanDistrict: number | null = null;
+    let meanGoteborg: number | null = null;
+    let matchLength = 0;
+    let foundMean = false;
+
+    if (hasDualColumns) {
+      const dualMatch = trimmed.match(dualMeanRe);
+      if (dualMatch) {
+        const val1 = parseFloat(dualMatch[1].replace(",", "."));
+        const val2 = parseFloat(dualMatch[2].replace(",", "."));
+        if (val1 >= 1.0 && val1 <= 7.0 && val2 >= 1.0 && val2 <= 7.0) {
+          // In district-level reports: first is SDN (district), second is Göteborg
+          meanDistrict = val1;
+          meanGoteborg = val2;
+          meanSchool = val1; // Use district value as the primary value
+          matchLength = dualMatch[0].length;
+          foundMean = true;
+        }
+      }
+    }
+
+    if (!foundMean) {
+      const singleMatch = trimmed.match(singleMeanRe);
+      if (singleMatch) {
+        const val = parseFloat(singleMatch[1].replace(",", "."));
+        if (val >= 1.0 && val <= 7.0) {
+          meanSchool = val;
+          matchLength = singleMatch[0].length;
+          foundMean = true;
+        }
+      }
+    }
+
+    if (foundMean) {
+      // Extract question text: everything before percentages or the mean value
+      let questionText = trimmed.substring(0, trimmed.length - matchLength).trim();
+
+      // Remove percentage patterns
+      questionText = questionText.replace(/\d+\s*%/g, "").trim();
+      // Remove leading numbers and scale position indicators (0, 10, 20, etc.)
+      questionText = questionText.replace(/\b\d{1,3}\b/g, "").trim();
+      // Clean up multiple spaces
+      questionText = questionText.replace(/\s{2,}/g, " ").trim();
+
+      if (pendingQuestionText) {
+        if (questionText.length > 3) {
+          questionText = pendingQuestionText + " " + questionText;
+        } else {
+          questionText = pendingQuestionText;
+        }
+      }
+
+      // Remove question number prefix: "3. ", "10. "
+      questionText = questionText.replace(/^\d+\.\s*/, "");
+      questionText = cleanQuestionText(questionText);
+
+      if (questionText.length > 5) {
+        rows.push({
+          questionText,
+          questionArea: currentArea,
+          meanGr: null,
+          meanGoteborg,
+          meanDistrict,
+          meanSchool,
+          historicalMeans: {},
+          source: locate(i),
+        });
+      }
+
+      pendingQuestionText = "";
+    } else if (/^\d+\.\s+[A-ZÅÄÖ]/.test(trimmed) || /^[A-ZÅÄÖ]/.test(trimmed)) {
+      // Question text that wraps to next line (starts with number+period or capital letter)
+      if (trimmed.length > 10 && !/^FÖRSKOLE|^Bakgrund|^Antal|^Fristående|^Medelvärde|^Otillräck/i.test(trimmed)) {
+        // Strip bar chart percentage numbers: take only text before first large gap followed by numbers
+        let textPart = trimmed;
+        const gapBeforeNumbers = trimmed.match(/^(.+?)\s{3,}\d/);
+        if (gapBeforeNumbers) {
+          textPart = gapBeforeNumbers[1].trim();
+        }
+        if (textPart.length > 5) {
+          // If a new numbered question starts (e.g., "12. Barnen..."), reset pending text
+          // to avoid merging leftover text from a previous question's continuation
+          if (/^\d+\.\s+/.test(trimmed)) {
+            pendingQuestionText = textPart;
+          } else if (pendingQuestionText) {
+            pendingQuestionText += " " + textPart;
+          } else {
+            pendingQuestionText = textPart;
+          }
+        }
+      }
+    }
+  }
+
+  return { rows, historicalYears: [] };
+}
+
+
+export const ecersFormat: SurveyFormat = {
+  id: "ecers",
+  description: "2011-2015 ECERS 7-point scale",
+  years: { from: 2011, to: 2015 },
+  // 7-point labels without the "Resultat per fråga" sections that mark the 7point layout, so a
+  // 7point report isn't also an ECERS candidate (npm run classify flags reports with several)
+  detect: (text) => (hasSevenPointScale(text) && !hasSignal(text, "resultat-per-fraga") ? 40 : 0),
+  parseMetadata,
+  parseMeanRows: parseMeanRowsEcers,
+  scale: { min: 1, max: 7, label: "1-7" },
+};
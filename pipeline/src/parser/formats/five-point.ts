@@ -0,0 +1,255 @@
+/**
+ * 2020-2025 ("5point"): 5-point Likert scale, GR/Göteborg/District/School columns.
+ * Also the fallback when no other format matches.
+ */
+import type { MeanRow } from "../tables.js";
+import { cleanQuestionText, sourceLocator } from "../utils.js";
+import {
+  parseMetadata,
+  mapAreaName,
+  hasSignal,
+  genderSplitsFromCoordinates,
+  FALLBACK_SCORE,
+  QUESTION_AREA_PATTERNS_5POINT,
+} from "./shared.js";
+import type { SurveyFormat } from "./types.js";
+
+/**
+ * Column layout for 5-point format:
+ * - "gr-first": GR, Göteborg, District, School, [historical...]
+ * - "gr-last": [School historical...], District, Göteborg, GR
+ */
+type ColumnLayout5Point = "gr-first" | "gr-last";
+
+function detectColumnLayout5Point(headerLine: string): ColumnLayout5Point {
+  const grIdx = headerLine.indexOf("GR");
+  const goIdx = Math.max(headerLine.indexOf("Göteborg"), headerLine.indexOf("Goteborg"));
+  if (grIdx >= 0 && goIdx >= 0) {
+    return grIdx < goIdx ? "gr-first" : "gr-last";
+  }
+  return "gr-first";
+}
+
+function parseMeanRows5Point(text: string): { rows: MeanRow[]; historicalYears: number[] } {
+  const lines = text.split("\n");
+  const locate = sourceLocator(lines);
+  const rows: MeanRow[] = [];
+  let currentArea = "";
+  let historicalYears: number[] = [];
+  let columnLayout: ColumnLayout5Point = "gr-first";
+
+  // First, find historical years from table headers
+  // Years may be on the same line as GR/Göteborg, or on an adjacent line
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.includes("GR") && (line.includes("Göteborg") || line.includes("Goteborg"))) {
+      // Check this line and the next 2 lines for year numbers
+      for (let j = i; j <= Math.min(i + 2, lines.length - 1); j++) {
+        const yearMatches = lines[j].match(/\b(20\d{2})\b/g);
+        if (yearMatches && yearMatches.length >= 2) {
+          historicalYears = yearMatches.map((y) => parseInt(y, 10));
+          break;
+        }
+      }
+      if (historicalYears.length > 0) break;
+    }
+  }
+
+  const pageHeaderRe = /\|.*[Ss]varsfrekvens/;
+  let inTable = false;
+  let pendingQuestionText = "";
+  const numberOrDashRe = /(\d[.,]\d{2})\b|-(?=\s{2,}|\s*$)/g;
+  let doneWithTables = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    // Stop parsing when we reach gender split or unit means sections,
+    // but only AFTER we've already found some data (to skip table-of-contents references)
+    if (rows.length > 0 && (/Könsuppdelad\s+andel/i.test(trimmed) || /Frågeområde\s+per\s+enhet/i.test(trimmed))) {
+      doneWithTables = true;
+    }
+    if (doneWithTables) continue;
+
+    if (pageHeaderRe.test(trimmed)) {
+      inTable = false;
+      pendingQuestionText = "";
+      continue;
+    }
+
+    // Detect area headers regardless of inTable state.
+    // 2020-2023 PDFs lack "Årsjämförelsen" lines and page headers between areas,
+    // so inTable is never reset — area detection must work even when inTable is true.
+    for (const area of QUESTION_AREA_PATTERNS_5POINT) {
+      if (trimmed === area || trimmed.startsWith(area + " ")) {
+        currentArea = mapAreaName(area);
+        inTable = false;
+        pendingQuestionText = "";
+        break;
+      }
+    }
+
+    // Detect table header line: must have "GR" AND "Göteborg" as column headers
+    if (/\bGR\b/.test(line) && /G.teborg/.test(line)) {
+      const words = line.trim().split(/\s{2,}/);
+      if (words.length >= 2 && words.some((w) => w.trim() === "GR")) {
+        inTable = true;
+        pendingQuestionText = "";
+        columnLayout = detectColumnLayout5Point(line);
+        // Check this line and the next 2 lines for year numbers
+        for (let j = i; j <= Math.min(i + 2, lines.length - 1); j++) {
+          const yearMatches = lines[j].match(/\b(20\d{2})\b/g);
+          if (yearMatches && yearMatches.length >= 1) {
+            historicalYears = yearMatches.map((y) => parseInt(y, 10));
+            break;
+          }
+        }
+        continue;
+      }
+    }
+
+    if (inTable && trimmed.startsWith("Årsjämförelsen")) {
+      inTable = false;
+      pendingQuestionText = "";
+      continue;
+    }
+
+    if (!inTable) continue;
+    if (trimmed === "") continue;
+
+    const values: (number | null)[] = [];
+    let firstMatchIdx = -1;
+    let match;
+    numberOrDashRe.lastIndex = 0;
+    while ((match = numberOrDashRe.exec(line)) !== null) {
+      if (firstMatchIdx < 0) firstMatchIdx = match.index;
+      if (match[1]) {
+        values.push(parseFloat(match[1].replace(",", ".")));
+      } else {
+        values.push(null);
+      }
+    }
+
+    const numericCount = values.filter((v) => v !== null).length;
+    if (numericCount >= 3 && firstMatchIdx >= 0) {
+      let questionText = line.substring(0, firstMatchIdx).trim();
+
+      if (pendingQuestionText) {
+        if (questionText.length > 3) {
+          questionText = pendingQuestionText + " " + questionText;
+        } else {
+          questionText = pendingQuestionText;
+        }
+      }
+
+      questionText = cleanQuestionText(questionText);
+
+      if (questionText.length > 5) {
+        let meanGr: number | null = null;
+        let meanGoteborg: number | null = null;
+        let meanDistrict: number | null = null;
+        let meanSchool: number | null = null;
+        const histMeans: Record<string, number | null> = {};
+
+        const numHist = historicalYears.length;
+
+        if (columnLayout === "gr-first") {
+          // gr-first layout: [GR] [Göteborg] [District] [School] [Unit?] [year1] [year2] ...
+          // Geographic columns are at the START, historical years at the END
+          const histStart = values.length - numHist;
+          meanGr = values[0] ?? null;
+          meanGoteborg = values.length >= 2 ? (values[1] ?? null) : null;
+          meanDistrict = values.length >= 3 ? (values[2] ?? null) : null;
+          meanSchool = values.length >= 4 ? (values[3] ?? null) : null;
+          // values[4..histStart-1] are unit columns (ignored)
+          for (let j = 0; j < numHist; j++) {
+            histMeans[String(historicalYears[j])] = values[histStart + j];
+          }
+        } else {
+          // gr-last layout: [Unit year1] [Unit year2] ... [School?] [District] [Göteborg] [GR]
+          // Geographic columns are at the END (last 3), historical/school at the START
+          const len = values.length;
+          meanGr = len >= 1 ? (values[len - 1] ?? null) : null;
+          meanGoteborg = len >= 2 ? (values[len - 2] ?? null) : null;
+          meanDistrict = len >= 3 ? (values[len - 3] ?? null) : null;
+          const beforeGeo = values.slice(0, Math.max(0, len - 3));
+
+          if (beforeGeo.length > numHist) {
+            // Extra value(s) beyond historical years = school-level aggregate
+            // School aggregate is the last value before geographic columns
+            meanSchool = beforeGeo[beforeGeo.length - 1] ?? null;
+            const histValues = beforeGeo.slice(0, beforeGeo.length - 1);
+            for (let j = 0; j < histValues.length && j < numHist; j++) {
+              histMeans[String(historicalYears[j])] = histValues[j];
+            }
+          } else {
+            // No school aggregate — unit values map directly to historical years
+            // meanSchool = first value (unit's most recent year or sole value)
+            meanSchool = beforeGeo.length >= 1 ? (beforeGeo[0] ?? null) : null;
+            for (let j = 0; j < beforeGeo.length && j < numHist; j++) {
+              histMeans[String(historicalYears[j])] = beforeGeo[j];
+            }
+          }
+        }
+
+        rows.push({
+          questionText,
+          questionArea: currentArea,
+          meanGr,
+          meanGoteborg,
+          meanDistrict,
+          meanSchool,
+          historicalMeans: histMeans,
+          source: locate(i),
+        });
+
+        // Look-ahead: consume continuation lines trailing from wrapped questions
+        // (e.g., "samspel i grupp" or "lärande" on separate lines after data)
+        let lookAhead = i + 1;
+        while (lookAhead < lines.length) {
+          const la = lines[lookAhead].trim();
+          if (la === "") { lookAhead++; continue; }
+          if (la.length >= 3 && la.length < 60
+              && !/\d/.test(la) && /^[a-zåäö]/.test(la)) {
+            rows[rows.length - 1].questionText = cleanQuestionText(
+              rows[rows.length - 1].questionText + " " + la
+            );
+            i = lookAhead;
+            lookAhead++;
+          } else {
+            break;
+          }
+        }
+      }
+
+      pendingQuestionText = "";
+    } else if (trimmed.startsWith("\u2026") || trimmed.startsWith("…") || trimmed.startsWith("...")) {
+      pendingQuestionText = trimmed;
+    } else if (inTable && numericCount === 0 && trimmed.length > 10
+        && /^[A-ZÅÄÖ]/.test(trimmed)
+        && !QUESTION_AREA_PATTERNS_5POINT.some(a => trimmed === a || trimmed.startsWith(a))
+        && !/^Resultat|^Jämförelse|^Årsjämförelse|^Könsuppdelad|^Frågeområde/i.test(trimmed)) {
+      // Question text starting with uppercase (Helhetsomdöme questions: "Jag känner mig...")
+      pendingQuestionText = trimmed;
+    } else if (pendingQuestionText && trimmed.length > 0 && numericCount === 0) {
+      pendingQuestionText += " " + trimmed;
+    }
+  }
+
+  return { rows, historicalYears };
+}
+
+
+export const fivePointFormat: SurveyFormat = {
+  id: "5point",
+  description: "2020-2025 5-point Likert scale",
+  years: { from: 2020 },
+  // Used whenever no other format recognises the report
+  detect: () => FALLBACK_SCORE,
+  parseMetadata,
+  parseMeanRows: parseMeanRows5Point,
+  scale: { min: 1, max: 5, label: "1-5" },
+  textItems: "bbox",
+  charts: { genderSplits: genderSplitsFromCoordinates },
+};
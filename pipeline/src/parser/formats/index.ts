@@ -0,0 +1,119 @@
+/**
+ * Survey format registry. Each PDF layout era is one SurveyFormat module;
+ * the parser and validate.ts both pick a report's format with detectSurveyFormat().
+ * Supporting a new layout means adding a module and registering it in SURVEY_FORMATS.
+ */
+import {
+  parseResponseDistributions,
+  parseGenderSplits,
+  parseGenderSplitsFromLayout,
+  parseDemographics,
+  parseImportantQuestions,
+  parseUnitMeans,
+} from "../charts.js";
+import { DEFAULT_TEXT_ITEM_PROVIDER } from "../pdf-text.js";
+import type { TextItemProvider } from "../pdf-text.js";
+import type { ChartParsers, SurveyFormat } from "./types.js";
+import { FALLBACK_SCORE, matchedSignals } from "./shared.js";
+import type { FormatSignal } from "./shared.js";
+import { scandinfoFormat } from "./scandinfo.js";
+import { sevenPointFormat } from "./seven-point.js";
+import { ecersFormat } from "./ecers.js";
+import { fivePointFormat } from "./five-point.js";
+
+export type { ChartParsers, MeanRowsResult, SurveyFormat } from "./types.js";
+export type { FormatSignal } from "./shared.js";
+
+export interface FormatClassification {
+  /** The format detectSurveyFormat() picks */
+  format: SurveyFormat;
+  /** Every format that recognises the text above the fallback score, best first */
+  candidates: SurveyFormat[];
+  signals: FormatSignal[];
+}
+
+/** Registered formats, in tie-break order */
+const SURVEY_FORMATS: SurveyFormat[] = [scandinfoFormat, sevenPointFormat, ecersFormat, fivePointFormat];
+
+export const DEFAULT_CHART_PARSERS: ChartParsers = {
+  responseDistributions: parseResponseDistributions,
+  // Prefer layout-based — coordinate-based is unreliable because pdf2json
+  // often collapses all items to the same coordinates (formats with bbox
+  // text items override this with genderSplitsFromCoordinates)
+  genderSplits: (layoutText, items, pageCount, warn) => {
+    const splits = parseGenderSplitsFromLayout(layoutText);
+    if (splits.length > 0) return splits;
+    const fallback = parseGenderSplits(items, { startPage: 1, endPage: pageCount });
+    if (fallback.length > 0) {
+      warn?.({
+        stage: "gender",
+        code: "gender_split_coordinate_fallback",
+        message: `No gender splits in the layout text; ${fallback.length} read from pdf2json coordinates instead`,
+      });
+    }
+    return fallback;
+  },
+  demographics: parseDemographics,
+  importantQuestions: parseImportantQuestions,
+  unitMeans: parseUnitMeans,
+};
+
+export function registerSurveyFormat(format: SurveyFormat) {
+  if (SURVEY_FORMATS.some((f) => f.id === format.id)) {
+    throw new Error(`Survey format "${format.id}" is already registered`);
+  }
+  SURVEY_FORMATS.push(format);
+}
+
+export function listSurveyFormats(): readonly SurveyFormat[] {
+  return SURVEY_FORMATS;
+}
+
+export function getSurveyFormat(id: string): SurveyFormat {
+  const format = SURVEY_FORMATS.find((f) => f.id === id);
+  if (!format) throw new Error(`Unknown survey format "${id}"`);
+  return format;
+}
+
+/** Pick the format that scores the layout text highest */
+export function detectSurveyFormat(text: string): SurveyFormat {
+  let best: SurveyFormat | null = null;
+  let bestScore = 0;
+  for (const format of SURVEY_FORMATS) {
+    const score = format.detect(text);
+    if (score > bestScore) {
+      best = format;
+      bestScore = score;
+    }
+  }
+  if (!best) throw new Error("No survey format recognises this report");
+  return best;
+}
+
+/** Detection with its evidence: which formats matched and which signals they matched on */
+export function classifySurveyFormat(text: string): FormatClassification {
+  const scored = SURVEY_FORMATS
+    .map((format) => ({ format, score: format.detect(text) }))
+    .filter((s) => s.score > FALLBACK_SCORE)
+    .sort((a, b) => b.score - a.score);
+  return {
+    format: detectSurveyFormat(text),
+    candidates: scored.map((s) => s.format),
+    signals: matchedSignals(text),
+  };
+}
+
+/** Whether a report from this survey year is expected to use the format's layout */
+export function formatCoversYear(format: Pick<SurveyFormat, "years">, year: number): boolean {
+  return year >= format.years.from && (format.years.to === undefined || year <= format.years.to);
+}
+
+/** The chart parsers to use for a format: its overrides on top of the generic parsers */
+export function chartParsersFor(format: SurveyFormat): ChartParsers {
+  return { ...DEFAULT_CHART_PARSERS, ...format.charts };
+}
+
+/** Which provider extracts the positioned text items for a format's chart parsers */
+export function textItemProviderFor(format: SurveyFormat): TextItemProvider {
+  return format.textItems ?? DEFAULT_TEXT_ITEM_PROVIDER;
+}
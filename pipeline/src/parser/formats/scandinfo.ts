@@ -0,0 +1,234 @@
+/**
+ * 2011-2014 ("scandinfo"): Scandinfo NKI reports, 10-point scale with NKI/quality factor indices.
+ */
+import type { MeanRow, NkiIndexRow } from "../tables.js";
+import { cleanQuestionText, sourceLocator } from "../utils.js";
+import { parseMetadata, hasSignal } from "./shared.js";
+import { NKI_FACTOR_AREAS } from "../taxonomy.js";
+import type { MeanRowsResult, SurveyFormat } from "./types.js";
+
+/**
+ * Parse data from 2011-2014 Scandinfo NKI format PDFs.
+ *
+ * These PDFs use a 10-point scale (1-10) and NKI index (0-100).
+ * They contain multi-level data: district overview + per-school + per-unit.
+ *
+ * We extract from the FIRST section (the top-level entity this PDF represents):
+ * - NKI and quality factor indices (0-100 scale) → returned as nkiIndices
+ * - Per-question mean values (1-10 scale) → stored as question means
+ *
+ * Layout per section:
+ *   NKI, HELHET                72        73   69   76
+ *   TRIVSEL                    83        85   83   86
+ *   ...
+ *   Antal svarande, n = 688 (svarsandel 24%)
+ *
+ *   KVALITETSFAKTOR  ...  Medelvärde  Ingen åsikt  Ej svar
+ *   HELHET                 72
+ *   Hur nöjd är du...       7,7   0   1
+ *   ...
+ */
+function parseMeanRowsScandinfo(text: string): MeanRowsResult {
+  const lines = text.split("\n");
+  const locate = sourceLocator(lines);
+  const rows: MeanRow[] = [];
+  const nkiIndices: NkiIndexRow[] = [];
+  let currentArea = "";
+  let pendingQuestionText = "";
+
+  // Parse the first section's NKI + quality factor indices
+  let inNkiSection = false;
+  let pastFirstNki = false;
+  let inQuestionSection = false;
+  let sectionCount = 0;
+
+  // Reference values from the NKI section header
+  // "Referens SDN" or "Referens Område i GBG" columns
+  let nkiReferenceValue: number | null = null;
+
+  // Mean value regex for per-question rows: "7,7" or "7.7"
+  const meanValueRe = /(\d[.,]\d)\s+(\d+)\s+(\d+)\s*$/; // mean, "ingen åsikt %", "ej svar %"
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed === "") continue;
+
+    // Track section boundaries — "NKI, HELHET" marks start of a new entity section
+    if (/^NKI,?\s+HELHET/i.test(trimmed)) {
+      sectionCount++;
+      if (sectionCount === 1) {
+        inNkiSection = true;
+        // Extract NKI value from this line: "NKI, HELHET  72  73  69  76"
+        const nkiMatch = trimmed.match(/NKI,?\s+HELHET\s+(\d+)/i);
+        if (nkiMatch) {
+          const nkiValue = parseInt(nkiMatch[1], 10);
+          const refMatch = trimmed.match(/NKI,?\s+HELHET\s+\d+\s+(\d+)/i);
+          nkiReferenceValue = refMatch ? parseInt(refMatch[1], 10) : null;
+
+          nkiIndices.push({
+            name: "HELHET",
+            questionArea: NKI_FACTOR_AREAS["HELHET"],
+            value: nkiValue,
+            benchmarkGoteborg: nkiReferenceValue,
+            benchmarkDistrict: null,
+            source: locate(i),
+          });
+        }
+      } else {
+        // We've reached a sub-school section — stop parsing
+        break;
+      }
+      continue;
+    }
+
+    // Parse quality factor indices from the NKI section
+    if (inNkiSection && !pastFirstNki) {
+      // Quality factor lines: "TRIVSEL  83  85  83  86"
+      const factorMatch = trimmed.match(/^([A-ZÅÄÖ][A-ZÅÄÖ/ ]+?)\s{2,}(\d+)\s+(\d+)/);
+      if (factorMatch) {
+        const factorName = factorMatch[1].trim();
+        const factorValue = parseInt(factorMatch[2], 10);
+        const refValue = parseInt(factorMatch[3], 10);
+
+        if (factorValue >= 0 && factorValue <= 100 && NKI_FACTOR_AREAS[factorName]) {
+          nkiIndices.push({
+            name: factorName,
+            questionArea: NKI_FACTOR_AREAS[factorName],
+            value: factorValue,
+            benchmarkGoteborg: refValue,
+            benchmarkDistrict: null,
+            source: locate(i),
+          });
+        }
+        continue;
+      }
+
+      // "MEDELINDEX" marks end of NKI overview, start of per-question section
+      if (/^MEDELINDEX/i.test(trimmed)) {
+        pastFirstNki = true;
+        continue;
+      }
+
+      // "Antal svarande" line
+      if (/^Antal\s+svarande/i.test(trimmed)) {
+        pastFirstNki = true;
+        continue;
+      }
+    }
+
+    // Per-question section (after NKI overview)
+    if (pastFirstNki && sectionCount === 1) {
+      // Detect quality factor section headers
+      if (/^KVALITETSFAKTOR/i.test(trimmed)) {
+        inQuestionSection = true;
+        continue;
+      }
+
+      // Quality factor header in the question detail section
+      // These appear as "Helhet  72" or "Trivsel  83" (mixed case in 2011)
+      for (const [factor, area] of Object.entries(NKI_FACTOR_AREAS)) {
+        const upperTrimmed = trimmed.toUpperCase();
+        if (upperTrimmed.startsWith(factor) && /^\s+\d+\s*$/.test(trimmed.substring(factor.length))) {
+          currentArea = area;
+          pendingQuestionText = "";
+          break;
+        }
+      }
+
+      if (!inQuestionSection) continue;
+
+      // Per-question data rows: "Hur nöjd är du med verksamheten...  63  28  9  7,7  0  1"
+      // Layout: [question text] [pct 8-10] [pct 5-7] [pct 1-4] [mean] [ingen åsikt] [ej svar]
+      // The mean is the key value we want - it's on a 1-10 scale
+      const qMatch = trimmed.match(meanValueRe);
+      if (qMatch) {
+        const meanVal = parseFloat(qMatch[1].replace(",", "."));
+        if (meanVal >= 1.0 && meanVal <= 10.0) {
+          // Extract question text — everything before the percentage groups
+          // Find where numeric data starts (first sequence of digits that are percentages)
+          let questionText = "";
+
+          // The percentage data is a sequence of numbers separated by spaces
+          // Find the leftmost position where we see percentage-like numbers
+          const pctStartMatch = line.match(/\s{3,}(\d{1,2}\s{2,})/);
+          if (pctStartMatch && pctStartMatch.index !== undefined) {
+            questionText = line.substring(0, pctStartMatch.index).trim();
+          } else {
+            // Fallback: take text before the mean value match
+            const meanIdx = line.lastIndexOf(qMatch[1]);
+            questionText = line.substring(0, meanIdx).trim();
+            // Remove trailing numbers (percentages)
+            questionText = questionText.replace(/(\s+\d{1,2})+\s*$/, "").trim();
+          }
+
+          // In 2011 PDFs, long questions wrap across multiple lines.
+          // The data line may have no question text — use accumulated pending text.
+          if (pendingQuestionText) {
+            if (questionText.length > 3) {
+              questionText = pendingQuestionText + " " + questionText;
+            } else {
+              questionText = pendingQuestionText;
+            }
+          }
+
+          questionText = cleanQuestionText(questionText);
+          pendingQuestionText = "";
+
+          if (questionText.length > 5) {
+            rows.push({
+              questionText,
+              questionArea: currentArea,
+              meanGr: null,
+              meanGoteborg: null,
+              meanDistrict: null,
+              meanSchool: meanVal,
+              historicalMeans: {},
+              source: locate(i),
+            });
+          }
+        }
+      } else if (trimmed.length > 10
+                 && !/^KVALITETSFAKTOR/i.test(trimmed)
+                 && !/^Delfr.ga/i.test(trimmed)
+                 && !/^I tabellen/i.test(trimmed)
+                 && !/^\d+\s+ScandInfo/i.test(trimmed)
+                 && !/^Referens/i.test(trimmed)
+                 && !/^\d{1,3}\s{2,}\d{1,3}\s{2,}/.test(trimmed)) {
+        // Accumulate question text from non-data, non-header lines
+        // (handles multi-line questions in 2011 PDFs)
+        let isFactorHeader = false;
+        for (const [factor] of Object.entries(NKI_FACTOR_AREAS)) {
+          const upperTrimmed = trimmed.toUpperCase();
+          if (upperTrimmed.startsWith(factor) && /^\s+\d+\s*$/.test(trimmed.substring(factor.length))) {
+            isFactorHeader = true;
+            break;
+          }
+        }
+        if (!isFactorHeader) {
+          if (pendingQuestionText) {
+            pendingQuestionText += " " + trimmed;
+          } else {
+            pendingQuestionText = trimmed;
+          }
+        }
+      }
+    }
+  }
+
+  return { rows, nkiIndices, historicalYears: [] };
+}
+
+
+export const scandinfoFormat: SurveyFormat = {
+  id: "scandinfo",
+  description: "2011-2014 Scandinfo NKI 10-point scale",
+  years: { from: 2011, to: 2014 },
+  // Identified by "NKI" header and "Kvalitetsfaktor"/"HELHET" quality factor names.
+  // Checked before the 7-point formats: Scandinfo reports can mention the other scales' labels
+  detect: (text) => (hasSignal(text, "nki-helhet") || hasSignal(text, "kvalitetsfaktor-skalsteg") ? 100 : 0),
+  parseMetadata,
+  parseMeanRows: parseMeanRowsScandinfo,
+  scale: { min: 1, max: 10, label: "1-10" },
+};
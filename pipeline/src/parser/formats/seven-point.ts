@@ -0,0 +1,304 @@
+/**
+ * 2016-2018 ("7point"): 7-point scale, Year/School/District/Göteborg columns (no GR).
+ */
+import type { MeanRow } from "../tables.js";
+import { cleanQuestionText, sourceLocator } from "../utils.js";
+import {
+  parseMetadata,
+  mapAreaName,
+  hasSevenPointScale,
+  hasSignal,
+  genderSplitsFromCoordinates,
+  QUESTION_AREA_PATTERNS_7POINT,
+} from "./shared.js";
+import type { SurveyFormat } from "./types.js";
+
+/**
+ * Parse mean rows from 2016-2018 format PDFs.
+ *
+ * Table structure:
+ *   Header: 2018   2017   2016   [School]   [District]   Göteborg
+ *   Row:    [question text]   [percentages with %]   5.6   6.2   5.9   5.5   5.6   5.7
+ *
+ * Key differences from 5-point format:
+ * - No GR column — geographic comparisons are School, District, Göteborg
+ * - Historical year means come FIRST, then geographic comparisons at end
+ * - One decimal precision (5.6 not 5.67)
+ * - Percentage values (10%, 20%) appear before mean values on same line
+ */
+function parseMeanRows7Point(text: string): { rows: MeanRow[]; historicalYears: number[] } {
+  const lines = text.split("\n");
+  const locate = sourceLocator(lines);
+  const rows: MeanRow[] = [];
+  let currentArea = "";
+  let historicalYears: number[] = [];
+
+  // Number regex for 7-point format: 1-2 decimal places, NOT followed by % or more digits
+  const meanRe = /(\d[.,]\d{1,2})\b(?![\d%])/g;
+
+  // Find the DATA TABLE header line (must appear AFTER "Resultat per fråga")
+  // This avoids picking up the summary chart header that appears earlier in the PDF.
+  //
+  // Column layouts by year:
+  // 2018: "[year]  [School name]  [District name]  Göteborg"  → no GR, school has named column
+  // 2017: "[year]  [year-1]  [year-2]  [District]  Göteborg  GR"  → GR present, school value in year columns
+  // 2016: "[year]  [year-1]  Göteborg  GR"  → GR present, school value in year columns
+  let numYearColumns = 0;
+  let hasGrColumn = false;
+  let headerFound = false;
+  let sawResultatPerFraga = false;
+
+  for (let hIdx = 0; hIdx < lines.length; hIdx++) {
+    const line = lines[hIdx];
+    if (/Resultat\s+per\s+fråga/i.test(line)) {
+      sawResultatPerFraga = true;
+      continue;
+    }
+    // Only consider header lines AFTER "Resultat per fråga" to find data table header.
+    // The header may span multiple lines. In 2018, "Göteborgsregionen" is split:
+    //   line A: "... Göteborgs"
+    //   line B: "1  2  3  4  5  6  7  Vet ej"
+    //   line C: "2018  2017  ...  Centrum  Göteborg  regionen"
+    // We scan this + following lines to collect year columns and GR detection.
+    if (sawResultatPerFraga && /G.teborg/.test(line)) {
+      for (let j = hIdx; j < Math.min(hIdx + 5, lines.length); j++) {
+        const hLine = lines[j];
+        const yearMatches = hLine.match(/\b(20\d{2})\b/g);
+        if (yearMatches && yearMatches.length >= 1 && historicalYears.length === 0) {
+          historicalYears = yearMatches.map((y) => parseInt(y, 10));
+          numYearColumns = yearMatches.length;
+        }
+        if (
+          /\bGR\s*$/.test(hLine.trim()) ||
+          /regionen\s*$/i.test(hLine.trim()) ||
+          /G.teborgs\s*$/i.test(hLine.trim())
+        ) {
+          hasGrColumn = true;
+        }
+      }
+      headerFound = true;
+      break;
+    }
+  }
+
+  if (!headerFound) return { rows, historicalYears };
+
+  // Page footer pattern
+  const pageFooterRe = /Rapporten\s+gäller|Varje\s+färgat\s+fält|möjliga.*allts/;
+  // Scale header detection (marks start of actual data table)
+  const scaleHeaderRe = /Otillräcklig.*Utmärkt|Utmärkt.*Otillräcklig/;
+
+  let pendingQuestionText = "";
+  let inDataSection = false;
+  let sawResultatHeader = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    // Skip empty lines
+    if (trimmed === "") continue;
+
+    // "Resultat per fråga" marks the start of a question results section
+    if (/Resultat\s+per\s+fråga/i.test(trimmed)) {
+      sawResultatHeader = true;
+      continue;
+    }
+
+    // Skip page footers — also reset header skip state
+    if (pageFooterRe.test(trimmed)) {
+      inDataSection = false;
+      pendingQuestionText = "";
+      continue;
+    }
+
+    // Scale header activates data section only AFTER seeing "Resultat per fråga"
+    if (sawResultatHeader && scaleHeaderRe.test(trimmed)) {
+      inDataSection = true;
+      pendingQuestionText = "";
+      continue;
+    }
+
+    // Skip scale labels line: "1   2   3   4   5   6   7   Vet ej"
+    if (/^\d\s+\d\s+\d\s+\d/.test(trimmed)) continue;
+
+    // Skip column header lines: year + Göteborg/GR, or year headers
+    if (/^\d{4}\s+\d{4}/.test(trimmed)) continue;
+    if (/\b20\d{2}\b/.test(trimmed) && /G.teborg|\bGR\b/i.test(trimmed)) {
+      pendingQuestionText = "";
+      continue;
+    }
+    // Skip column name fragments that wrap from the header (school/district names without question content)
+    if (inDataSection && /Vet\s+ej/.test(trimmed)) {
+      pendingQuestionText = "";
+      continue;
+    }
+
+    // Check for question area headers
+    for (const area of QUESTION_AREA_PATTERNS_7POINT) {
+      if (trimmed.toUpperCase() === area || trimmed.toUpperCase().startsWith(area + " ")) {
+        currentArea = mapAreaName(area);
+        break;
+      }
+    }
+
+    // Section headers
+    if (/^Beskrivning|^Regiongemensam|^Om\s+undersökning|^Metod$|^Redovisning|^Här\s+visas/i.test(trimmed)) {
+      continue;
+    }
+
+    if (!inDataSection) continue;
+
+    // Extract mean values from the line (excluding percentage values)
+    // First, remove percentage patterns to avoid confusion
+    const lineWithoutPct = line.replace(/\d+\s*%/g, "   ");
+
+    const values: (number | null)[] = [];
+    let firstMatchIdx = -1;
+    let match;
+    meanRe.lastIndex = 0;
+    while ((match = meanRe.exec(lineWithoutPct)) !== null) {
+      const val = parseFloat(match[1].replace(",", "."));
+      // Filter out values clearly outside 1-7 range (probably not means)
+      if (val >= 1.0 && val <= 7.0) {
+        if (firstMatchIdx < 0) firstMatchIdx = match.index;
+        values.push(val);
+      }
+    }
+
+    const numericCount = values.filter((v) => v !== null).length;
+
+    if (numericCount >= 3 && firstMatchIdx >= 0) {
+      // This is a data row with mean values
+      // Question text is everything before the percentage values
+      // Find where the first percentage or number starts in the original line
+      const pctStartMatch = line.match(/\d+\s*%/);
+      let questionText = "";
+      if (pctStartMatch && pctStartMatch.index !== undefined) {
+        questionText = line.substring(0, pctStartMatch.index).trim();
+      } else {
+        // No percentage, take text before first mean value
+        questionText = line.substring(0, firstMatchIdx).trim();
+      }
+
+      if (pendingQuestionText) {
+        if (questionText.length > 3) {
+          questionText = pendingQuestionText + " " + questionText;
+        } else {
+          questionText = pendingQuestionText;
+        }
+      }
+
+      questionText = cleanQuestionText(questionText);
+
+      if (questionText.length > 5) {
+        const histMeans: Record<string, number | null> = {};
+
+        let meanGr: number | null = null;
+        let meanGoteborg: number | null = null;
+        let meanDistrict: number | null = null;
+        let meanSchool: number | null = null;
+
+        if (hasGrColumn) {
+          // 2016-2017 format with GR column:
+          // Layout: [year columns...] [geographic columns... Göteborg GR]
+          // The school's own value is in the first year column (current year).
+          // Geographic columns are everything after the year columns.
+          const numGeo = values.length - numYearColumns;
+          const geoStart = numYearColumns;
+          const histValues = values.slice(0, numYearColumns);
+          const geoValues = values.slice(geoStart);
+
+          // Map year column values to historical years
+          for (let j = 0; j < histValues.length && j < historicalYears.length; j++) {
+            histMeans[String(historicalYears[j])] = histValues[j];
+          }
+
+          // School's own value = first year column (current year)
+          meanSchool = histValues.length >= 1 ? (histValues[0] ?? null) : null;
+
+          // Geographic columns from right: GR (last), Göteborg (2nd-to-last), District (3rd-to-last)
+          meanGr = geoValues.length >= 1 ? (geoValues[geoValues.length - 1] ?? null) : null;
+          meanGoteborg = geoValues.length >= 2 ? (geoValues[geoValues.length - 2] ?? null) : null;
+          meanDistrict = numGeo >= 3 ? (geoValues[geoValues.length - 3] ?? null) : null;
+        } else {
+          // 2018 format without GR column:
+          // Layout: [year columns...] [School] [District] Göteborg
+          // Geographic columns from right: Göteborg, District, School
+          const numGeo = Math.max(3, values.length - numYearColumns);
+          const geoStart = Math.max(0, values.length - numGeo);
+          const histValues = values.slice(0, geoStart);
+          const geoValues = values.slice(geoStart);
+
+          for (let j = 0; j < histValues.length && j < historicalYears.length; j++) {
+            histMeans[String(historicalYears[j])] = histValues[j];
+          }
+
+          meanGoteborg = geoValues.length >= 1 ? (geoValues[geoValues.length - 1] ?? null) : null;
+          meanDistrict = geoValues.length >= 2 ? (geoValues[geoValues.length - 2] ?? null) : null;
+          meanSchool = geoValues.length >= 3 ? (geoValues[geoValues.length - 3] ?? null) : null;
+        }
+
+        rows.push({
+          questionText,
+          questionArea: currentArea,
+          meanGr,
+          meanGoteborg,
+          meanDistrict,
+          meanSchool,
+          historicalMeans: histMeans,
+          source: locate(i),
+        });
+
+        // Look-ahead: if the next non-empty line is a short text continuation
+        // (e.g., "matematik" or "naturvetenskap" trailing from a wrapped question),
+        // append it to the just-pushed question text
+        let lookAhead = i + 1;
+        while (lookAhead < lines.length && lines[lookAhead].trim() === "") lookAhead++;
+        if (lookAhead < lines.length) {
+          const nextTrimmed = lines[lookAhead].trim();
+          // Short text, no numbers/percentages, starts with lowercase = continuation word
+          if (nextTrimmed.length >= 3 && nextTrimmed.length < 40
+              && !/\d/.test(nextTrimmed) && /^[a-zåäö]/.test(nextTrimmed)) {
+            rows[rows.length - 1].questionText = cleanQuestionText(
+              rows[rows.length - 1].questionText + " " + nextTrimmed
+            );
+            i = lookAhead; // skip the consumed line
+          }
+        }
+      }
+
+      pendingQuestionText = "";
+    } else if (numericCount === 0 && trimmed.length > 10 && !scaleHeaderRe.test(trimmed)) {
+      // Possible question text line (question wraps to next line with data)
+      // In 7-point format, questions don't start with ellipsis
+      // Skip column header fragments: lines with large gaps between words (2+ segments with 3+ spaces)
+      const segments = trimmed.split(/\s{3,}/);
+      const isColumnHeader = segments.length >= 2 && segments.every((s) => s.length < 25);
+      if (!isColumnHeader && (/^[A-ZÅÄÖ]/.test(trimmed) || pendingQuestionText)) {
+        if (pendingQuestionText) {
+          pendingQuestionText += " " + trimmed;
+        } else {
+          pendingQuestionText = trimmed;
+        }
+      }
+    }
+  }
+
+  return { rows, historicalYears };
+}
+
+
+export const sevenPointFormat: SurveyFormat = {
+  id: "7point",
+  description: "2016-2018 7-point scale",
+  years: { from: 2016, to: 2018 },
+  // "Resultat per fråga" sections distinguish 7point from ECERS (both use 7-point labels).
+  // Some 2016 reports have no year columns but still use the 7-point Resultat per fråga layout
+  detect: (text) => (hasSevenPointScale(text) && hasSignal(text, "resultat-per-fraga") ? 50 : 0),
+  parseMetadata,
+  parseMeanRows: parseMeanRows7Point,
+  scale: { min: 1, max: 7, label: "1-7" },
+  textItems: "bbox",
+  charts: { genderSplits: genderSplitsFromCoordinates },
+};
@@ -0,0 +1,161 @@
+/**
+ * Helpers shared by the survey format modules: report metadata, question area mapping
+ * and chart parser variants.
+ */
+import type { TableMetadata } from "../tables.js";
+import { parseGenderSplits, parseGenderSplitsFromLayout } from "../charts.js";
+import type { ChartParsers } from "./types.js";
+
+/** Parse the header/metadata from the first page */
+export function parseMetadata(text: string): TableMetadata {
+  const meta: TableMetadata = {
+    schoolName: "",
+    areaName: "",
+    responseRate: null,
+    respondents: null,
+    totalInvited: null,
+  };
+
+  // School name: appears as "Rapport för:\nSchoolName" or in header
+  const rapportMatch = text.match(/Rapport\s+för:\s*\n\s*(.+)/);
+  if (rapportMatch) meta.schoolName = rapportMatch[1].trim();
+
+  // Response rate patterns (multiple formats across years):
+  // 2024-2025: "Svarsfrekvens 48%", "svarsfrekvens om 43 %", "svarsfrekvensen om 83%"
+  // 2016-2018: "alltså 52.6%"
+  // 2011-2015: "svarsandel 71%", "n=10 (svarsandel 71%)"
+  const rrMatch = text.match(/[Ss]varsfrekvens(?:en)?\s+(?:om\s+)?(\d+)\s*%/);
+  if (rrMatch) {
+    meta.responseRate = parseInt(rrMatch[1], 10);
+  } else {
+    // "alltså XX.X%" or "alltså XX%"
+    const alltsaMatch = text.match(/allts[aå]\s+(\d+(?:[.,]\d+)?)\s*%/);
+    if (alltsaMatch) {
+      meta.responseRate = Math.round(parseFloat(alltsaMatch[1].replace(",", ".")));
+    } else {
+      // "svarsandel XX%"
+      const svarsandelMatch = text.match(/svarsandel\s+(\d+)\s*%/);
+      if (svarsandelMatch) {
+        meta.responseRate = parseInt(svarsandelMatch[1], 10);
+      }
+    }
+  }
+
+  // Respondents: multiple patterns
+  const normalized = text.replace(/\n/g, " ");
+
+  // "XX vårdnadshavare av YY" (2016-2025)
+  const respMatch = normalized.match(/(\d+)\s+vårdnadshavare\s+av\s+(\d+)/);
+  if (respMatch) {
+    meta.respondents = parseInt(respMatch[1], 10);
+    meta.totalInvited = parseInt(respMatch[2], 10);
+  } else {
+    // "Antal svarande, n = XX (svarsandel YY%)" — Scandinfo/ECERS
+    const antalMatch = normalized.match(/Antal\s+svarande,?\s*n\s*=\s*(\d+)\s*\(svarsandel\s+(\d+)\s*%\)/);
+    if (antalMatch) {
+      meta.respondents = parseInt(antalMatch[1], 10);
+      if (!meta.responseRate) {
+        meta.responseRate = parseInt(antalMatch[2], 10);
+      }
+    } else {
+      // "n=XX" or "n = XX"
+      const nMatch = normalized.match(/\bn\s*=\s*(\d+)/);
+      if (nMatch) {
+        meta.respondents = parseInt(nMatch[1], 10);
+      }
+    }
+  }
+
+  return meta;
+}
+
+// ── Format detection signals ──
+
+/** detect() score of a format that matches any text; other formats only count as matching above it */
+export const FALLBACK_SCORE = 1;
+
+/**
+ * Named text markers the formats' detect() functions look for.
+ * `npm run classify` records which ones each report matches.
+ */
+export const FORMAT_SIGNALS = {
+  "nki-helhet": /\bNKI,?\s+HELHET\b/i,
+  "kvalitetsfaktor-skalsteg": /Kvalitetsfaktor.*Skalsteg/i,
+  sjugradig: /sjugradig/i,
+  otillracklig: /Otillräcklig/i,
+  "resultat-per-fraga": /Resultat\s+per\s+fråga/i,
+  "year-columns": /\b20\d{2}\s+20\d{2}\b/,
+  "instammer-helt": /Instämmer\s+helt/i,
+} satisfies Record<string, RegExp>;
+
+export type FormatSignal = keyof typeof FORMAT_SIGNALS;
+
+export function hasSignal(text: string, signal: FormatSignal): boolean {
+  return FORMAT_SIGNALS[signal].test(text);
+}
+
+/** Names of all signals found in the text, in FORMAT_SIGNALS order */
+export function matchedSignals(text: string): FormatSignal[] {
+  return (Object.keys(FORMAT_SIGNALS) as FormatSignal[]).filter((signal) => hasSignal(text, signal));
+}
+
+/** 7-point scale labels, used by both the ECERS (2015) and 7-point (2016-2018) layouts */
+export function hasSevenPointScale(text: string): boolean {
+  return hasSignal(text, "sjugradig") || hasSignal(text, "otillracklig");
+}
+
+// ── Question area detection ──
+
+/** Question area names for 2020-2025 format */
+export const QUESTION_AREA_PATTERNS_5POINT = [
+  "Normer och värden",
+  "Värdegrund och uppdrag",
+  "Omsorg, utveckling och lärande",
+  "Barns inflytande och delaktighet",
+  "Förskola och hem",
+  "Helhetsomdöme",
+];
+
+/** Question area names for 2016-2018 format */
+export const QUESTION_AREA_PATTERNS_7POINT = [
+  "TRYGGHET OCH GEMENSKAP",
+  "INFORMATION OCH INFLYTANDE",
+  "FÖRUTSÄTTNINGAR",
+  "PEDAGOGIK",
+  "KONTINUITET",
+];
+
+/** Map to standard area names used in DB */
+export function mapAreaName(name: string): string {
+  const lower = name.toLowerCase();
+  if (lower.includes("normer") || lower.includes("trivsel") || lower.includes("trygghet") || lower.includes("gemenskap")) return "Trygghet och trivsel";
+  if (lower.includes("värdegrund") || lower.includes("uppdrag")) return "Utveckling och lärande";
+  if (lower.includes("omsorg") || lower.includes("utveckling") || lower.includes("lärande")) return "Utveckling och lärande";
+  if (lower.includes("inflytande") || lower.includes("delaktighet")) return "Inflytande";
+  if (lower.includes("information")) return "Inflytande";
+  if (lower.includes("förskola och hem") || lower.includes("relation") || lower.includes("kommunikation")) return "Relation och kommunikation";
+  if (lower.includes("helhets") || lower.includes("helhetsomdöme")) return "Helhetsomdöme";
+  if (lower.includes("förutsättningar")) return "Utveckling och lärande";
+  if (lower.includes("pedagogik")) return "Utveckling och lärande";
+  if (lower.includes("kontinuitet")) return "Relation och kommunikation";
+  return name;
+}
+
+/**
+ * Gender splits for formats with bbox text items: the chart geometry is reliable there and,
+ * unlike the layout text, keeps each question's labels apart from its neighbours'.
+ * Falls back to the layout text when no chart page yields rows.
+ */
+export const genderSplitsFromCoordinates: ChartParsers["genderSplits"] = (layoutText, items, pageCount, warn) => {
+  const splits = parseGenderSplits(items, { startPage: 1, endPage: pageCount });
+  if (splits.length > 0) return splits;
+  const fallback = parseGenderSplitsFromLayout(layoutText);
+  if (fallback.length > 0) {
+    warn?.({
+      stage: "gender",
+      code: "gender_split_layout_fallback",
+      message: `No gender splits in the chart geometry; ${fallback.length} read from the layout text instead`,
+    });
+  }
+  return fallback;
+};
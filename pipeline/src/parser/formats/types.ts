@@ -0,0 +1,51 @@
+/**
+ * The SurveyFormat interface implemented by each survey era module in this directory.
+ */
+import type { MeanRow, NkiIndexRow, TableMetadata } from "../tables.js";
+import type { TextItem } from "../utils.js";
+import type { TextItemProvider } from "../pdf-text.js";
+import type { WarnFn } from "../warnings.js";
+import type {
+  ResponseDistribution,
+  GenderSplitRow,
+  Demographics,
+  ImportantQuestion,
+  UnitMeanRow,
+} from "../charts.js";
+
+export interface MeanRowsResult {
+  rows: MeanRow[];
+  /** Only formats that print NKI/quality factor indices (scandinfo) return these */
+  nkiIndices?: NkiIndexRow[];
+  historicalYears: number[];
+}
+
+/** Chart/diagram parsers run on every PDF report (see DEFAULT_CHART_PARSERS in index.ts) */
+export interface ChartParsers {
+  responseDistributions(layoutText: string, meansMap: Map<string, number>): ResponseDistribution[];
+  genderSplits(layoutText: string, items: TextItem[], pageCount: number, warn?: WarnFn): GenderSplitRow[];
+  demographics(items: TextItem[], layoutText: string): Demographics;
+  importantQuestions(layoutText: string): ImportantQuestion[];
+  unitMeans(layoutText: string): UnitMeanRow[];
+}
+
+export interface SurveyFormat {
+  /** Stable identifier, e.g. "5point" */
+  id: string;
+  description: string;
+  /** Survey years published in this layout; `to` is omitted while the layout is still in use */
+  years: { from: number; to?: number };
+  /**
+   * How confidently this format recognises the pdftotext -layout text: 0 = not this format,
+   * FALLBACK_SCORE = only as a last resort. The highest score wins; ties go to the format registered first.
+   */
+  detect(text: string): number;
+  parseMetadata(text: string): TableMetadata;
+  parseMeanRows(text: string): MeanRowsResult;
+  /** Scale of the question means this format reports */
+  scale: { min: number; max: number; label: string };
+  /** Overrides for chart parsers whose generic version doesn't fit this layout */
+  charts?: Partial<ChartParsers>;
+  /** Source of the positioned text items the chart parsers get; DEFAULT_TEXT_ITEM_PROVIDER when omitted */
+  textItems?: TextItemProvider;
+}
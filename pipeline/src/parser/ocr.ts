@@ -0,0 +1,185 @@
+/**
+ * OCR fallback for reports without usable text (image-only scans, broken font encodings):
+ * rasterises the pages with poppler's pdftoppm, reads them with a local tesseract and rebuilds
+ * pdftotext -layout style text from the word boxes, so parseTables and the chart parsers run unchanged.
+ */
+import { execFile } from "node:child_process";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { groupByRows } from "./utils.js";
+import type { TextItem } from "./utils.js";
+
+const execFileAsync = promisify(execFile);
+
+/** Rasterisation resolution; tesseract reads print best at 300 dpi */
+const OCR_DPI = 300;
+/** Tesseract language data used for the reports */
+const OCR_LANGUAGE = "swe";
+/** Below this many letters per page on average, pdftotext's output is not worth parsing */
+const MIN_LETTERS_PER_PAGE = 25;
+/** Blank lines inserted at most for a vertical gap between two text lines */
+const MAX_BLANK_LINES = 4;
+
+export interface OcrWord extends TextItem {
+  /** Tesseract's word confidence, 0-100 */
+  confidence: number;
+  /** Tesseract's block/paragraph/line, to join words into lines */
+  lineKey: string;
+}
+
+export interface OcrResult {
+  layoutText: string;
+  /** Recognised lines as positioned text items (points from the top-left corner, as the bbox provider) */
+  items: TextItem[];
+  pageCount: number;
+  /** Mean word confidence, 0-1; null when no words were recognised */
+  confidence: number | null;
+}
+
+/** Whether pdftotext -layout text has enough letters per page to be parsed */
+export function hasUsableText(layoutText: string): boolean {
+  const pages = Math.max(1, (layoutText.match(/\f/g) ?? []).length);
+  const letters = (layoutText.match(/\p{L}/gu) ?? []).length;
+  return letters / pages >= MIN_LETTERS_PER_PAGE;
+}
+
+/** Words of one page from `tesseract … tsv` output, scaled from pixels to points */
+export function parseTesseractTsv(tsv: string, page: number, pointsPerPixel: number): OcrWord[] {
+  const words: OcrWord[] = [];
+  for (const line of tsv.split("\n").slice(1)) {
+    const cols = line.split("\t");
+    // level 5 = word: level page block par line word left top width height conf text
+    if (cols.length < 12 || cols[0] !== "5") continue;
+    const text = cols.slice(11).join("\t").trim();
+    const confidence = Number(cols[10]);
+    if (!text || confidence < 0) continue;
+    const [left, top, width, height] = cols.slice(6, 10).map(Number);
+    words.push({
+      text,
+      x: left * pointsPerPixel,
+      y: top * pointsPerPixel,
+      width: width * pointsPerPixel,
+      height: height * pointsPerPixel,
+      page,
+      confidence,
+      lineKey: cols.slice(2, 5).join("/"),
+    });
+  }
+  return words;
+}
+
+/** Join each tesseract line's words into one item, as the bbox provider does */
+export function joinOcrLines(words: OcrWord[]): TextItem[] {
+  const lines = new Map<string, OcrWord[]>();
+  for (const word of words) {
+    const key = `${word.page}:${word.lineKey}`;
+    if (!lines.has(key)) lines.set(key, []);
+    lines.get(key)!.push(word);
+  }
+  return [...lines.values()].map((line) => {
+    const x = Math.min(...line.map((w) => w.x));
+    const y = Math.min(...line.map((w) => w.y));
+    return {
+      text: line.map((w) => w.text).join(" "),
+      x,
+      y,
+      width: Math.max(...line.map((w) => w.x + w.width)) - x,
+      height: Math.max(...line.map((w) => w.y + w.height)) - y,
+      page: line[0].page,
+    };
+  });
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Lay out one page's words the way pdftotext -layout does: rows by vertical position, words of
+ * a phrase one space apart, and words after a wider gap at the character column of their x
+ * position, at least two spaces on (so table columns stay apart), and blank lines for larger
+ * vertical gaps.
+ */
+export function layoutPage(words: TextItem[]): string[] {
+  if (words.length === 0) return [];
+  const charWidth = median(words.map((w) => w.width / w.text.length));
+  const lineHeight = median(words.map((w) => w.height));
+
+  const lines: string[] = [];
+  let previousY: number | null = null;
+  for (const row of groupByRows(words, lineHeight / 3)) {
+    const y = Math.min(...row.map((w) => w.y));
+    if (previousY !== null) {
+      const blanks = Math.round((y - previousY) / lineHeight) - 1;
+      for (let i = 0; i < Math.min(Math.max(blanks, 0), MAX_BLANK_LINES); i++) lines.push("");
+    }
+    previousY = y;
+
+    let line = "";
+    let previous: TextItem | null = null;
+    for (const word of row) {
+      // A space is about one character of the previous word's own font
+      const spaceWidth = previous ? 1.5 * (previous.width / previous.text.length) : 0;
+      if (previous && word.x - (previous.x + previous.width) <= spaceWidth) {
+        line += " " + word.text;
+      } else {
+        const column = Math.max(Math.round(word.x / charWidth), line.length + (line ? 2 : 0));
+        line = line.padEnd(column) + word.text;
+      }
+      previous = word;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Pages in pdftotext -layout form: each page followed by a form feed */
+export function layoutTextFromWords(words: TextItem[], pageCount: number): string {
+  let text = "";
+  for (let page = 1; page <= pageCount; page++) {
+    const lines = layoutPage(words.filter((w) => w.page === page));
+    text += (lines.length > 0 ? lines.join("\n") + "\n" : "") + "\f";
+  }
+  return text;
+}
+
+/** Rasterise every page and OCR it; needs pdftoppm (poppler) and tesseract with Swedish language data */
+export async function ocrPdf(pdfPath: string): Promise<OcrResult> {
+  const dir = await mkdtemp(join(tmpdir(), "ocr-"));
+  try {
+    try {
+      await execFileAsync("pdftoppm", ["-r", String(OCR_DPI), "-gray", "-png", pdfPath, join(dir, "page")]);
+    } catch (err) {
+      throw new Error(`pdftoppm failed: ${err}`);
+    }
+    // page-1.png … (zero-padded to the page count's width, so a plain sort keeps page order)
+    const images = (await readdir(dir)).filter((f) => f.endsWith(".png")).sort();
+
+    const words: OcrWord[] = [];
+    for (let i = 0; i < images.length; i++) {
+      let tsv: string;
+      try {
+        ({ stdout: tsv } = await execFileAsync(
+          "tesseract",
+          [join(dir, images[i]), "stdout", "-l", OCR_LANGUAGE, "tsv"],
+          { maxBuffer: 50 * 1024 * 1024 },
+        ));
+      } catch (err) {
+        throw new Error(`tesseract failed on page ${i + 1}: ${err}`);
+      }
+      words.push(...parseTesseractTsv(tsv, i + 1, 72 / OCR_DPI));
+    }
+
+    return {
+      layoutText: layoutTextFromWords(words, images.length),
+      items: joinOcrLines(words),
+      pageCount: images.length,
+      confidence: words.length > 0 ? words.reduce((sum, w) => sum + w.confidence, 0) / words.length / 100 : null,
+    };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
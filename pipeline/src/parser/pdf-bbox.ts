@@ -0,0 +1,83 @@
+/**
+ * pdftotext -bbox-layout wrapper — extracts positioned words from PDF.
+ * Unlike pdf2json, which places every item of many reports at the same coordinates,
+ * poppler reports a reliable bounding box for each word.
+ */
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import type { TextItem } from "./utils.js";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * `word` returns one item per word; `line` joins the words of each line pdftotext finds
+ * (a text run within one block), closer to the runs pdf2json returns.
+ */
+export type BboxGranularity = "word" | "line";
+
+const PAGE_RE = /<page\b[^>]*>([\s\S]*?)<\/page>/g;
+const LINE_RE = /<line\b[^>]*>([\s\S]*?)<\/line>/g;
+const WORD_RE = /<word xMin="([\d.-]+)" yMin="([\d.-]+)" xMax="([\d.-]+)" yMax="([\d.-]+)">([^<]*)<\/word>/g;
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => ENTITIES[name]);
+}
+
+/**
+ * Parse pdftotext -bbox-layout XHTML into text items. Coordinates are PDF points
+ * from the top-left corner of the page; `y` is the top of the box.
+ */
+export function parseBboxLayout(
+  xhtml: string,
+  granularity: BboxGranularity = "line",
+): { items: TextItem[]; pageCount: number } {
+  const items: TextItem[] = [];
+  let page = 0;
+
+  for (const pageMatch of xhtml.matchAll(PAGE_RE)) {
+    page++;
+    for (const lineMatch of pageMatch[1].matchAll(LINE_RE)) {
+      const words: TextItem[] = [];
+      for (const w of lineMatch[1].matchAll(WORD_RE)) {
+        const text = decodeEntities(w[5]);
+        if (!text.trim()) continue;
+        const [xMin, yMin, xMax, yMax] = [w[1], w[2], w[3], w[4]].map(Number);
+        words.push({ text, x: xMin, y: yMin, width: xMax - xMin, height: yMax - yMin, page });
+      }
+      if (words.length === 0) continue;
+
+      if (granularity === "word") {
+        items.push(...words);
+        continue;
+      }
+      const x = Math.min(...words.map((w) => w.x));
+      const y = Math.min(...words.map((w) => w.y));
+      items.push({
+        text: words.map((w) => w.text).join(" "),
+        x,
+        y,
+        width: Math.max(...words.map((w) => w.x + w.width)) - x,
+        height: Math.max(...words.map((w) => w.y + w.height)) - y,
+        page,
+      });
+    }
+  }
+
+  return { items, pageCount: page };
+}
+
+/** Run pdftotext -bbox-layout and return positioned text items per page */
+export async function extractBboxTextItems(
+  pdfPath: string,
+  granularity: BboxGranularity = "line",
+): Promise<{ items: TextItem[]; pageCount: number }> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync("pdftotext", ["-bbox-layout", pdfPath, "-"], { maxBuffer: 100 * 1024 * 1024 }));
+  } catch (err) {
+    throw new Error(`pdftotext -bbox-layout failed: ${err}`);
+  }
+  return parseBboxLayout(stdout, granularity);
+}
@@ -1,10 +1,20 @@
 /**
- * pdf2json wrapper — extracts positioned text items from PDF.
- * Used for coordinate-aware extraction of chart labels.
+ * Positioned text items from PDF, for coordinate-aware extraction of chart labels.
+ * Two providers: pdf2json (default) and pdftotext -bbox-layout (pdf-bbox.ts), picked per
+ * survey format (SurveyFormat.textItems).
  */
 import PDFParser from "pdf2json";
+import { extractBboxTextItems } from "./pdf-bbox.js";
 import type { TextItem } from "./utils.js";
 
+/**
+ * pdf2json places every item of many reports at the same coordinates; bbox reads poppler's
+ * word boxes, joined into lines.
+ */
+export type TextItemProvider = "pdf2json" | "bbox";
+
+export const DEFAULT_TEXT_ITEM_PROVIDER: TextItemProvider = "pdf2json";
+
 interface Pdf2JsonText {
   R: Array<{ T: string; TS: number[] }>;
   x: number;
@@ -25,7 +35,12 @@ interface Pdf2JsonOutput {
 /** Parse a PDF file and return positioned text items per page */
 export async function extractTextItems(
   pdfPath: string,
+  provider: TextItemProvider = DEFAULT_TEXT_ITEM_PROVIDER,
 ): Promise<{ items: TextItem[]; pageCount: number }> {
+  return provider === "bbox" ? extractBboxTextItems(pdfPath) : extractPdf2JsonItems(pdfPath);
+}
+
+function extractPdf2JsonItems(pdfPath: string): Promise<{ items: TextItem[]; pageCount: number }> {
   return new Promise((resolve, reject) => {
     const parser = new PDFParser(null, true);
 
@@ -0,0 +1,93 @@
+/**
+ * The parse queue: which reports a parse run works through, and the claims that keep concurrent
+ * workers (in this or another process) from parsing the same report twice.
+ */
+import { query } from "../db.js";
+
+/**
+ * Ends the parse error of a report without usable text; `--ocr` re-queues exactly these, so
+ * reports flagged as unparseable by hand stay skipped
+ */
+export const NO_TEXT_ERROR_HINT = "parse with --ocr to read the report through OCR";
+
+/** Claims older than this are assumed to belong to a crashed worker and may be taken over */
+const CLAIM_TIMEOUT = "1 hour";
+
+export interface ParseRow {
+  id: number;
+  local_path: string;
+  year: number;
+  report_category: string;
+  /** The report last failed for lack of usable text (NO_TEXT_ERROR_HINT) */
+  no_text: boolean;
+}
+
+/**
+ * WHERE clause selecting the reports a parse run should work through.
+ * With `ocr`, PDF reports that failed for lack of usable text are retried as well, so they get OCR.
+ */
+export function pendingFilter(force: boolean, ocr: boolean, year: number | undefined, params: unknown[]): string {
+  let sql = `
+    downloaded_at IS NOT NULL
+    AND local_path IS NOT NULL
+    AND pdf_url NOT LIKE '%#%'
+  `;
+  if (!force) {
+    sql += " AND parsed_at IS NULL";
+  }
+  // Skip reports with manually set parse errors (unparseable formats), unless OCR may read them
+  if (ocr) {
+    params.push(`%${NO_TEXT_ERROR_HINT}`);
+    sql += ` AND (parse_error IS NULL OR parsed_at IS NOT NULL OR parse_error LIKE $${params.length})`;
+  } else {
+    sql += " AND (parse_error IS NULL OR parsed_at IS NOT NULL)";
+  }
+
+  if (year !== undefined) {
+    params.push(year);
+    sql += ` AND year = $${params.length}`;
+  }
+  return sql;
+}
+
+/**
+ * Claim the next pending report for this worker.
+ * SKIP LOCKED makes concurrent claims (from this or another process) pick different rows,
+ * and the stored claim keeps other processes off the report until it is released.
+ * Reports already claimed since runStartedAt are skipped, so --force parses each report once per run.
+ */
+export async function claimNextReport(
+  workerId: string,
+  runStartedAt: Date,
+  force: boolean,
+  ocr: boolean,
+  year: number | undefined,
+): Promise<ParseRow | null> {
+  const params: unknown[] = [workerId, runStartedAt];
+  const filter = pendingFilter(force, ocr, year, params);
+  params.push(`%${NO_TEXT_ERROR_HINT}`);
+  const { rows } = await query(
+    `UPDATE pdf_reports
+     SET parse_claimed_by = $1, parse_claimed_at = NOW()
+     WHERE id = (
+       SELECT id FROM pdf_reports
+       WHERE ${filter}
+         AND (parse_claimed_by IS NULL OR parse_claimed_at < NOW() - INTERVAL '${CLAIM_TIMEOUT}')
+         AND (parse_claimed_at IS NULL OR parse_claimed_at < $2)
+       ORDER BY year DESC, id
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, local_path, year, COALESCE(report_category, 'barn') as report_category,
+       COALESCE(parse_error LIKE $${params.length}, false) AS no_text`,
+    params,
+  );
+  return rows.length > 0 ? (rows[0] as ParseRow) : null;
+}
+
+export async function releaseClaim(reportId: number, workerId: string) {
+  await query(
+    `UPDATE pdf_reports SET parse_claimed_by = NULL WHERE id = $1 AND parse_claimed_by = $2`,
+    [reportId, workerId],
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * The rows a parse stores for a report, read from its text (PDF) or sheet (XLS) before anything
+ * touches the database. The parser writes them (store.ts); `npm run validate` compares them with
+ * what is stored, so both see the same rows.
+ */
+import type { Queryable } from "../db.js";
+import { parseTables } from "./tables.js";
+import type { MeanRow, NkiIndexRow, TableMetadata } from "./tables.js";
+import type { Demographics, GenderSplitRow, ImportantQuestion, ResponseDistribution, UnitMeanRow } from "./charts.js";
+import { extractTextItems } from "./pdf-text.js";
+import type { SourceLocation, TextItem } from "./utils.js";
+import { chartParsersFor, classifySurveyFormat, textItemProviderFor } from "./formats/index.js";
+import type { SurveyFormat } from "./formats/index.js";
+import type { XlsUnitData } from "./xls.js";
+import { NKI_FACTOR_AREAS, areaByPrefix } from "./taxonomy.js";
+import type { WarnFn } from "./warnings.js";
+
+export type StoredMetadata = Pick<TableMetadata, "responseRate" | "respondents" | "totalInvited"> & {
+  /** Null for XLS units, whose sheets have no demographics */
+  demographics: Demographics | null;
+};
+
+/** A question mean; the index columns are XLS only, the source PDF only */
+export type StoredMean = Omit<MeanRow, "source"> & {
+  indexSchool: number | null;
+  indexDistrict: number | null;
+  source: SourceLocation | null;
+};
+
+export type StoredNkiIndex = Omit<NkiIndexRow, "source"> & { source: SourceLocation | null };
+
+/** A response distribution; the no-answer share is XLS only, the source PDF only */
+export type StoredResponse = Omit<ResponseDistribution, "source"> & {
+  pctNoAnswer: number | null;
+  source: SourceLocation | null;
+};
+
+export interface ReportRows {
+  /** Null when the report gives neither a response rate nor a respondent count */
+  metadata: StoredMetadata | null;
+  means: StoredMean[];
+  nkiIndices: StoredNkiIndex[];
+  /** Stored only for questions that exist by then (storedQuestionIds) */
+  responses: StoredResponse[];
+  /** Stored only for questions that exist by then (storedQuestionIds) */
+  genderSplits: GenderSplitRow[];
+  importantQuestions: ImportantQuestion[];
+  /** `areaName` is the shared question area the printed prefix stands for */
+  unitMeans: UnitMeanRow[];
+}
+
+/** The rows of a PDF report from its pdftotext -layout text and positioned text items */
+export function pdfReportRows(
+  layoutText: string,
+  textData: { items: TextItem[]; pageCount: number },
+  warn: WarnFn,
+): { format: SurveyFormat; rows: ReportRows } {
+  const classification = classifySurveyFormat(layoutText);
+  // 5-point reports are parsed by the fallback; their scale label says the fallback was right
+  if (classification.candidates.length === 0 && !classification.signals.includes("instammer-helt")) {
+    warn({
+      stage: "format",
+      code: "format_fallback",
+      message: `No format recognised the report, parsed as ${classification.format.id}`,
+    });
+  }
+  const charts = chartParsersFor(classification.format);
+  const tableData = parseTables(layoutText);
+
+  let metadata: StoredMetadata | null = null;
+  if (tableData.metadata.responseRate === null && tableData.metadata.respondents === null) {
+    warn({
+      stage: "metadata",
+      code: "metadata_missing",
+      message: "No response rate or respondent count found; report_metadata not stored",
+    });
+  } else {
+    metadata = {
+      responseRate: tableData.metadata.responseRate,
+      respondents: tableData.metadata.respondents,
+      totalInvited: tableData.metadata.totalInvited,
+      demographics: charts.demographics(textData.items, layoutText),
+    };
+  }
+
+  if (tableData.means.length === 0) {
+    warn({ stage: "means", code: "no_means", message: "No question means found in the comparison tables" });
+  }
+
+  // Mean-guided category assignment for the response distributions
+  const meansMap = new Map<string, number>();
+  for (const row of tableData.means) {
+    if (row.meanSchool !== null) meansMap.set(row.questionText, row.meanSchool);
+  }
+
+  const unitMeans: UnitMeanRow[] = [];
+  for (const um of charts.unitMeans(layoutText)) {
+    const areaName = areaByPrefix(um.areaName);
+    if (areaName === null) {
+      warn({
+        stage: "units",
+        code: "unit_mean_area_unmatched",
+        message: "Unit mean skipped: area name matches no known question area",
+        context: { unit: um.unitName, area: um.areaName, value: um.meanValue },
+      });
+      continue;
+    }
+    unitMeans.push({ ...um, areaName });
+  }
+
+  return {
+    format: classification.format,
+    rows: {
+      metadata,
+      means: tableData.means.map((m) => ({ ...m, indexSchool: null, indexDistrict: null })),
+      nkiIndices: tableData.nkiIndices,
+      responses: charts.responseDistributions(layoutText, meansMap).map((d) => ({ ...d, pctNoAnswer: null })),
+      genderSplits: charts.genderSplits(layoutText, textData.items, textData.pageCount, warn),
+      importantQuestions: charts.importantQuestions(layoutText),
+      unitMeans,
+    },
+  };
+}
+
+/** pdfReportRows with the positioned text items read from the PDF by its format's provider */
+export async function readPdfReportRows(
+  pdfPath: string,
+  layoutText: string,
+  warn: WarnFn,
+): Promise<{ format: SurveyFormat; rows: ReportRows }> {
+  const textData = await extractTextItems(pdfPath, textItemProviderFor(classifySurveyFormat(layoutText).format));
+  return pdfReportRows(layoutText, textData, warn);
+}
+
+/**
+ * The rows of one XLS unit. "All schools" is the district, for the means and the parent workbooks'
+ * NKI indices; the 3-point distributions map low → strongly disagree, medium → neither and
+ * high → strongly agree, plus the share with no answer.
+ */
+export function xlsUnitRows(unit: XlsUnitData): ReportRows {
+  return {
+    metadata:
+      unit.respondents !== null
+        ? { responseRate: null, respondents: unit.respondents, totalInvited: null, demographics: null }
+        : null,
+    means: unit.means.map((m) => ({
+      questionText: m.questionText,
+      questionArea: "",
+      meanGr: null,
+      meanGoteborg: null,
+      meanDistrict: m.meanAllSchools,
+      meanSchool: m.meanValue,
+      historicalMeans: {},
+      indexSchool: m.indexValue,
+      indexDistrict: m.indexAllSchools,
+      source: null,
+    })),
+    nkiIndices: unit.nkiIndices.map((n) => ({
+      name: n.name,
+      questionArea: NKI_FACTOR_AREAS[n.name.toUpperCase()] ?? "",
+      value: n.value,
+      benchmarkGoteborg: null,
+      benchmarkDistrict: n.allSchools,
+      source: null,
+    })),
+    responses: unit.responseDistribution.map((r) => ({
+      questionText: r.questionText,
+      pctStronglyAgree: r.pctHigh,
+      pctAgree: null,
+      pctNeither: r.pctMedium,
+      pctDisagree: null,
+      pctStronglyDisagree: r.pctLow,
+      pctDontKnow: null,
+      pctNoAnswer: r.pctNoAnswer,
+      source: null,
+    })),
+    genderSplits: [],
+    importantQuestions: [],
+    unitMeans: [],
+  };
+}
+
+/**
+ * Ids of the stored questions among `texts`. Response distributions and gender splits are only
+ * stored for these; the report's own means are stored first, so their questions count.
+ */
+export async function storedQuestionIds(db: Queryable, texts: string[]): Promise<Map<string, number>> {
+  if (texts.length === 0) return new Map();
+  const { rows } = await db.query(`SELECT id, text FROM questions WHERE text = ANY($1)`, [[...new Set(texts)]]);
+  return new Map(rows.map((r) => [r.text as string, r.id as number]));
+}
@@ -0,0 +1,460 @@
+/**
+ * Writes a parsed report's rows (report-rows.ts) to PostgreSQL, replacing what an earlier parse
+ * stored. The parser (index.ts) calls these inside one transaction per report, so a failure part
+ * way leaves the previous good data in place.
+ */
+import type { Queryable } from "../db.js";
+import { storedQuestionIds, xlsUnitRows } from "./report-rows.js";
+import type { ReportRows, StoredNkiIndex } from "./report-rows.js";
+import { replaceParseWarnings } from "./warnings.js";
+import type { ParseWarning, WarnFn } from "./warnings.js";
+import type { XlsUnitData } from "./xls.js";
+import { findOrCreateSchool } from "../school-helpers.js";
+import { ensureCanonicalQuestion, getOrCreateQuestionArea } from "../question-helpers.js";
+import { AREA_ORDER, TAXONOMY_VERSION, taxonomyArea } from "./taxonomy.js";
+
+/**
+ * `taxonomyVersion` is set when the area comes from the question-area taxonomy rather than the
+ * report itself; a taxonomy area only fills in a question that has none.
+ */
+async function getOrCreateQuestion(
+  db: Queryable,
+  text: string,
+  areaId: number | null,
+  taxonomyVersion: number | null = null,
+): Promise<number> {
+  const result = await db.query(
+    `INSERT INTO questions (text, question_area_id, area_taxonomy_version)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (text) DO UPDATE SET
+       question_area_id = CASE WHEN $3::int IS NULL THEN COALESCE($2, questions.question_area_id)
+                               ELSE COALESCE(questions.question_area_id, $2) END,
+       area_taxonomy_version = CASE
+         WHEN $3::int IS NULL THEN CASE WHEN $2::int IS NULL THEN questions.area_taxonomy_version END
+         WHEN questions.question_area_id IS NULL THEN $3
+         ELSE questions.area_taxonomy_version END
+     RETURNING id`,
+    [text, areaId, taxonomyVersion],
+  );
+  const questionId = result.rows[0].id;
+  // New wordings get a canonical question (and an alias suggestion if they resemble a known one)
+  await ensureCanonicalQuestion(questionId, text, areaId, db);
+  return questionId;
+}
+
+/**
+ * The question area for a parsed row: the report's own grouping when it has one, otherwise
+ * the taxonomy's mapping for the survey year (see taxonomy.ts).
+ */
+async function resolveQuestionArea(
+  db: Queryable,
+  questionText: string,
+  reportArea: string,
+  year: number,
+): Promise<{ areaId: number | null; taxonomyVersion: number | null }> {
+  if (reportArea) {
+    return {
+      areaId: await getOrCreateQuestionArea(reportArea, AREA_ORDER[reportArea] || 99, db),
+      taxonomyVersion: null,
+    };
+  }
+  const match = taxonomyArea(questionText, year);
+  if (!match) return { areaId: null, taxonomyVersion: null };
+  return {
+    areaId: await getOrCreateQuestionArea(match.area, AREA_ORDER[match.area], db),
+    taxonomyVersion: TAXONOMY_VERSION,
+  };
+}
+
+/** Store one NKI or quality factor index; its area is the factor's (see NKI_FACTOR_AREAS) */
+async function storeNkiIndex(
+  db: Queryable,
+  reportId: number,
+  row: StoredNkiIndex,
+): Promise<void> {
+  const areaId = row.questionArea
+    ? await getOrCreateQuestionArea(row.questionArea, AREA_ORDER[row.questionArea] || 99, db)
+    : null;
+  await db.query(
+    `INSERT INTO nki_indices (pdf_report_id, name, question_area_id, value,
+       benchmark_goteborg, benchmark_district, source_page, source_line, source_text)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     ON CONFLICT (pdf_report_id, name) DO UPDATE SET
+       question_area_id = $3, value = $4, benchmark_goteborg = $5, benchmark_district = $6,
+       source_page = $7, source_line = $8, source_text = $9`,
+    [
+      reportId,
+      row.name,
+      areaId,
+      row.value,
+      row.benchmarkGoteborg,
+      row.benchmarkDistrict,
+      row.source?.page ?? null,
+      row.source?.line ?? null,
+      row.source?.text ?? null,
+    ],
+  );
+}
+
+/** Where a report's text came from; OCR confidence is tesseract's mean word confidence, 0-1 */
+export type TextSource = { source: "pdftotext" } | { source: "ocr"; confidence: number | null };
+
+/** `readWarnings` are the ones from reading the rows (pdfReportRows) */
+export async function storePdfReport(
+  client: Queryable,
+  reportId: number,
+  year: number,
+  rows: ReportRows,
+  readWarnings: ParseWarning[],
+  textSource: TextSource,
+): Promise<string> {
+  // Clean up existing data for this report (important for --force re-parsing)
+  await client.query("DELETE FROM question_means WHERE pdf_report_id = $1", [reportId]);
+  await client.query("DELETE FROM question_responses WHERE pdf_report_id = $1", [reportId]);
+  await client.query("DELETE FROM gender_split WHERE pdf_report_id = $1", [reportId]);
+  await client.query("DELETE FROM important_questions WHERE pdf_report_id = $1", [reportId]);
+  await client.query("DELETE FROM unit_means WHERE pdf_report_id = $1", [reportId]);
+  await client.query("DELETE FROM nki_indices WHERE pdf_report_id = $1", [reportId]);
+
+  const warnings: ParseWarning[] = [];
+  const warn: WarnFn = (w) => warnings.push(w);
+
+  if (textSource.source === "ocr") {
+    warn({
+      stage: "text",
+      code: "ocr_text",
+      message: "No usable text layer; values read through OCR and may contain misreads",
+      context: { confidence: textSource.confidence },
+    });
+  }
+  warnings.push(...readWarnings);
+
+  // 1. Store metadata
+  if (rows.metadata) {
+    const { demographics } = rows.metadata;
+    await client.query(
+      `INSERT INTO report_metadata (pdf_report_id, response_rate, respondents, total_invited,
+         birth_year_distribution, child_gender_distribution, parent_gender_distribution)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (pdf_report_id) DO UPDATE SET
+         response_rate = $2, respondents = $3, total_invited = $4,
+         birth_year_distribution = $5, child_gender_distribution = $6,
+         parent_gender_distribution = $7`,
+      [
+        reportId,
+        rows.metadata.responseRate,
+        rows.metadata.respondents,
+        rows.metadata.totalInvited,
+        demographics && JSON.stringify(demographics.birthYearDistribution),
+        demographics && JSON.stringify(demographics.childGenderDistribution),
+        demographics && JSON.stringify(demographics.parentGenderDistribution),
+      ],
+    );
+  }
+
+  // 2. Store question means
+  for (const row of rows.means) {
+    const { areaId, taxonomyVersion } = await resolveQuestionArea(client, row.questionText, row.questionArea, year);
+    if (areaId === null) {
+      warn({
+        stage: "means",
+        code: "question_area_unmapped",
+        message: "Question has no area in the report and none in the taxonomy",
+        context: { question: row.questionText, source: row.source },
+      });
+    }
+
+    const questionId = await getOrCreateQuestion(client, row.questionText, areaId, taxonomyVersion);
+
+    await client.query(
+      `INSERT INTO question_means (pdf_report_id, question_id, mean_gr, mean_goteborg,
+         mean_district, mean_school, historical_means, source_page, source_line, source_text)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (pdf_report_id, question_id) DO UPDATE SET
+         mean_gr = $3, mean_goteborg = $4, mean_district = $5,
+         mean_school = $6, historical_means = $7,
+         source_page = $8, source_line = $9, source_text = $10`,
+      [
+        reportId,
+        questionId,
+        row.meanGr,
+        row.meanGoteborg,
+        row.meanDistrict,
+        row.meanSchool,
+        JSON.stringify(row.historicalMeans),
+        row.source?.page ?? null,
+        row.source?.line ?? null,
+        row.source?.text ?? null,
+      ],
+    );
+  }
+
+  // NKI and quality factor indices (0-100 scale), kept apart from the question means
+  for (const row of rows.nkiIndices) {
+    await storeNkiIndex(client, reportId, row);
+  }
+
+  // Distributions and gender splits only go with questions stored by now
+  const questionIds = await storedQuestionIds(client, [
+    ...rows.responses.map((r) => r.questionText),
+    ...rows.genderSplits.map((g) => g.questionText),
+  ]);
+
+  // 3. Store response distributions
+  for (const dist of rows.responses) {
+    const questionId = questionIds.get(dist.questionText);
+    if (questionId === undefined) {
+      warn({
+        stage: "responses",
+        code: "distribution_question_unmatched",
+        message: "Response distribution skipped: question text matches no stored question",
+        context: { question: dist.questionText, source: dist.source },
+      });
+      continue;
+    }
+
+    await client.query(
+      `INSERT INTO question_responses (pdf_report_id, question_id,
+         pct_strongly_agree, pct_agree, pct_neither, pct_disagree,
+         pct_strongly_disagree, pct_dont_know, source_page, source_line, source_text)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (pdf_report_id, question_id) DO UPDATE SET
+         pct_strongly_agree = $3, pct_agree = $4, pct_neither = $5,
+         pct_disagree = $6, pct_strongly_disagree = $7, pct_dont_know = $8,
+         source_page = $9, source_line = $10, source_text = $11`,
+      [
+        reportId,
+        questionId,
+        dist.pctStronglyAgree,
+        dist.pctAgree,
+        dist.pctNeither,
+        dist.pctDisagree,
+        dist.pctStronglyDisagree,
+        dist.pctDontKnow,
+        dist.source?.page ?? null,
+        dist.source?.line ?? null,
+        dist.source?.text ?? null,
+      ],
+    );
+  }
+
+  // 4. Store gender splits
+  for (const gs of rows.genderSplits) {
+    const questionId = questionIds.get(gs.questionText);
+    if (questionId === undefined) {
+      warn({
+        stage: "gender",
+        code: "gender_split_question_unmatched",
+        message: "Gender split skipped: question text matches no stored question",
+        context: { question: gs.questionText, source: gs.source },
+      });
+      continue;
+    }
+
+    await client.query(
+      `INSERT INTO gender_split (pdf_report_id, question_id, pct_total, pct_flicka, pct_pojke,
+         source_page, source_line, source_text)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (pdf_report_id, question_id) DO UPDATE SET
+         pct_total = $3, pct_flicka = $4, pct_pojke = $5,
+         source_page = $6, source_line = $7, source_text = $8`,
+      [reportId, questionId, gs.pctTotal, gs.pctFlicka, gs.pctPojke,
+       gs.source.page, gs.source.line, gs.source.text],
+    );
+  }
+
+  // 5. Store important questions
+  for (const iq of rows.importantQuestions) {
+    const qResult = await client.query(
+      "SELECT id FROM questions WHERE text = $1",
+      [iq.questionText],
+    );
+    if (qResult.rows.length === 0) {
+      // Create the question if it doesn't exist
+      const newQ = await getOrCreateQuestion(client, iq.questionText, null);
+      await client.query(
+        `INSERT INTO important_questions (pdf_report_id, question_id, rank, pct)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (pdf_report_id, question_id) DO UPDATE SET rank = $3, pct = $4`,
+        [reportId, newQ, iq.rank, iq.pct],
+      );
+    } else {
+      await client.query(
+        `INSERT INTO important_questions (pdf_report_id, question_id, rank, pct)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (pdf_report_id, question_id) DO UPDATE SET rank = $3, pct = $4`,
+        [reportId, qResult.rows[0].id, iq.rank, iq.pct],
+      );
+    }
+  }
+
+  // 6. Store unit means
+  for (const um of rows.unitMeans) {
+    const qaId = await getOrCreateQuestionArea(um.areaName, AREA_ORDER[um.areaName], client);
+
+    await client.query(
+      `INSERT INTO unit_means (pdf_report_id, unit_name, question_area_id, mean_value)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (pdf_report_id, unit_name, question_area_id) DO UPDATE SET mean_value = $4`,
+      [reportId, um.unitName, qaId, um.meanValue],
+    );
+  }
+
+  await replaceParseWarnings(client, reportId, warnings);
+
+  // Mark as parsed
+  await client.query(
+    `UPDATE pdf_reports SET parsed_at = NOW(), parse_error = NULL, text_source = $2, ocr_confidence = $3
+     WHERE id = $1`,
+    [reportId, textSource.source, textSource.source === "ocr" ? textSource.confidence : null],
+  );
+  return warnings.length > 0 ? `${warnings.length} warnings` : "";
+}
+
+/**
+ * Store an XLS workbook's units, each as a unit report (pdf_url with a #sheetId fragment) under the
+ * workbook's report. Returns a short note for the progress line.
+ */
+export async function storeXlsReport(
+  client: Queryable,
+  reportId: number,
+  xlsPath: string,
+  year: number,
+  reportCategory: string,
+  units: XlsUnitData[],
+): Promise<string> {
+  if (units.length === 0) {
+    // Some XLS files have too few respondents (<7) and contain no data
+    await client.query(
+      `UPDATE pdf_reports SET parsed_at = NOW(), parse_error = 'No unit data (too few respondents)' WHERE id = $1`,
+      [reportId],
+    );
+    return "skipped: no unit data found (too few respondents)";
+  }
+
+  // Look up the area and parent school for this report
+  const reportInfo = await client.query(
+    `SELECT pr.area_id, pr.school_id as parent_school_id, pr.pdf_url
+     FROM pdf_reports pr
+     WHERE pr.id = $1`,
+    [reportId],
+  );
+  if (reportInfo.rows.length === 0) throw new Error("Report not found");
+  const { area_id: areaId, parent_school_id: parentSchoolId, pdf_url: basePdfUrl } = reportInfo.rows[0];
+
+  let unitCount = 0;
+  for (const unit of units) {
+    // Create/find a school entry for this unit (deduped)
+    const rawName = unit.unitName.trim();
+    const schoolId = await findOrCreateSchool(rawName, rawName, areaId, client);
+
+    // Create a pdf_reports entry with #sheetId fragment for uniqueness
+    const unitPdfUrl = `${basePdfUrl}#${unit.sheetId}`;
+    const unitReportResult = await client.query(
+      `INSERT INTO pdf_reports (school_id, year, report_type, unit_name, pdf_url, local_path, downloaded_at, area_id, parent_school_id, report_category)
+       VALUES ($1, $2, 'unit', $3, $4, $5, NOW(), $6, $7, $8)
+       ON CONFLICT (pdf_url) DO UPDATE SET
+         school_id = $1, unit_name = $3, local_path = $5, area_id = $6, parent_school_id = $7, report_category = $8
+       RETURNING id`,
+      [schoolId, year, unit.unitName.trim(), unitPdfUrl, xlsPath, areaId, parentSchoolId, reportCategory],
+    );
+    const unitReportId = unitReportResult.rows[0].id;
+
+    // Clean up existing data for this unit report (for --force)
+    await client.query("DELETE FROM question_means WHERE pdf_report_id = $1", [unitReportId]);
+    await client.query("DELETE FROM question_responses WHERE pdf_report_id = $1", [unitReportId]);
+    await client.query("DELETE FROM nki_indices WHERE pdf_report_id = $1", [unitReportId]);
+    const warnings: ParseWarning[] = [];
+    const rows = xlsUnitRows(unit);
+
+    // Store metadata (respondents)
+    if (rows.metadata) {
+      await client.query(
+        `INSERT INTO report_metadata (pdf_report_id, respondents)
+         VALUES ($1, $2)
+         ON CONFLICT (pdf_report_id) DO UPDATE SET respondents = $2`,
+        [unitReportId, rows.metadata.respondents],
+      );
+    }
+
+    // Store question means
+    for (const m of rows.means) {
+      const { areaId, taxonomyVersion } = await resolveQuestionArea(client, m.questionText, m.questionArea, year);
+      if (areaId === null) {
+        warnings.push({
+          stage: "xls",
+          code: "question_area_unmapped",
+          message: "Question has no area in the taxonomy",
+          context: { unit: unit.unitName, question: m.questionText },
+        });
+      }
+      const questionId = await getOrCreateQuestion(client, m.questionText, areaId, taxonomyVersion);
+      await client.query(
+        `INSERT INTO question_means (pdf_report_id, question_id, mean_school, mean_district, historical_means,
+           index_school, index_district)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (pdf_report_id, question_id) DO UPDATE SET
+           mean_school = $3, mean_district = $4, historical_means = $5,
+           index_school = $6, index_district = $7`,
+        [
+          unitReportId,
+          questionId,
+          m.meanSchool,
+          m.meanDistrict,
+          JSON.stringify(m.historicalMeans),
+          m.indexSchool,
+          m.indexDistrict,
+        ],
+      );
+    }
+
+    // Store the parent workbooks' NKI quality factor indices
+    for (const nki of rows.nkiIndices) {
+      await storeNkiIndex(client, unitReportId, nki);
+    }
+
+    // Store response distributions (3-point, see xlsUnitRows)
+    const questionIds = await storedQuestionIds(
+      client,
+      rows.responses.map((r) => r.questionText),
+    );
+    for (const r of rows.responses) {
+      const questionId = questionIds.get(r.questionText);
+      if (questionId === undefined) {
+        warnings.push({
+          stage: "xls",
+          code: "distribution_question_unmatched",
+          message: "Response distribution skipped: question text matches no stored question",
+          context: { question: r.questionText, sheet: unit.sheetId },
+        });
+        continue;
+      }
+
+      await client.query(
+        `INSERT INTO question_responses (pdf_report_id, question_id,
+           pct_strongly_agree, pct_neither, pct_strongly_disagree, pct_no_answer)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (pdf_report_id, question_id) DO UPDATE SET
+           pct_strongly_agree = $3, pct_neither = $4, pct_strongly_disagree = $5, pct_no_answer = $6`,
+        [unitReportId, questionId, r.pctStronglyAgree, r.pctNeither, r.pctStronglyDisagree, r.pctNoAnswer],
+      );
+    }
+
+    await replaceParseWarnings(client, unitReportId, warnings);
+
+    // Mark unit report as parsed
+    await client.query(
+      `UPDATE pdf_reports SET parsed_at = NOW(), parse_error = NULL WHERE id = $1`,
+      [unitReportId],
+    );
+    unitCount++;
+  }
+
+  // Mark the original district-level report as parsed
+  await client.query(
+    `UPDATE pdf_reports SET parsed_at = NOW(), parse_error = NULL WHERE id = $1`,
+    [reportId],
+  );
+
+  return `created ${unitCount} unit reports from XLS`;
+}
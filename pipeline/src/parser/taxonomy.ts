@@ -0,0 +1,153 @@
+/**
+ * Question-area taxonomy: maps the questions and quality factors of survey eras whose reports
+ * don't group questions under the shared question areas (2007-2009 XLS workbooks, Scandinfo
+ * 2011-2014, the 2014-2015 statement-style reports) onto those areas.
+ *
+ * Applied during parsing to rows the report itself gives no area, and to existing rows with
+ * `npm run questions:areas`. Bump TAXONOMY_VERSION whenever a mapping changes, so the backfill
+ * re-applies it to questions an older version assigned.
+ */
+import { questionMatchKey } from "../normalize.js";
+
+export const TAXONOMY_VERSION = 2;
+
+/** The shared question areas, in display order */
+export const AREA_ORDER: Record<string, number> = {
+  "Trygghet och trivsel": 1,
+  "Utveckling och lärande": 2,
+  "Inflytande": 3,
+  "Relation och kommunikation": 4,
+  "Helhetsomdöme": 5,
+  "Övergripande": 6,
+};
+
+/** The shared question area a report abbreviates (e.g. a unit table's "Trygghet" column), if any */
+export function areaByPrefix(prefix: string): string | null {
+  const lower = prefix.toLowerCase();
+  return Object.keys(AREA_ORDER).find((area) => area.toLowerCase().startsWith(lower)) ?? null;
+}
+
+/**
+ * NKI quality factors (Scandinfo 2011-2014 and the 2007-2009 parent workbooks) → question area,
+ * for the factor indices (nki_indices) and the questions grouped under each factor.
+ * Keys are the factor names as printed, including the reports' own misspellings.
+ */
+export const NKI_FACTOR_AREAS: Record<string, string> = {
+  "HELHET": "Helhetsomdöme",
+  "NFI": "Helhetsomdöme",
+  "TRIVSEL": "Trygghet och trivsel",
+  "TRYGGHET": "Trygghet och trivsel",
+  "BEMÖTANDE": "Relation och kommunikation",
+  "PEDAGOGISK HANDLEDNING": "Utveckling och lärande",
+  "PEDAGOGISK PROCESS": "Utveckling och lärande",
+  "PEDAGODISK PROCESS": "Utveckling och lärande",
+  "SÄKERHET": "Trygghet och trivsel",
+  "DELAKTIGHET/INFLYTANDE": "Inflytande",
+  "DELAKTIGHET/INFYTANDE": "Inflytande",
+  "MILJÖ": "Helhetsomdöme",
+  "FÖRSKOLEMILJÖ": "Helhetsomdöme",
+  "MÅLTIDER": "Helhetsomdöme",
+  "FÖRTROENDE": "Helhetsomdöme",
+  "SERVICE VIA TELEFON": "Relation och kommunikation",
+  "SERVICE VIA TELEFONVÄXELN": "Relation och kommunikation",
+};
+
+interface TaxonomyRule {
+  /** Tested against the question's match key (lowercase, no punctuation; see questionMatchKey) */
+  match: RegExp;
+  area: string;
+}
+
+interface TaxonomyEra {
+  id: string;
+  years: { from: number; to: number };
+  /** First matching rule wins */
+  rules: TaxonomyRule[];
+}
+
+/** Rules for the questions the parent questionnaire groups under one NKI factor */
+function factorRules(factor: string, matches: RegExp[]): TaxonomyRule[] {
+  return matches.map((match) => ({ match, area: NKI_FACTOR_AREAS[factor] }));
+}
+
+export const TAXONOMY_ERAS: TaxonomyEra[] = [
+  {
+    id: "nki",
+    years: { from: 2007, to: 2014 },
+    rules: [
+      // Parent questionnaire, grouped as in the workbooks' KVALITETSFAKTOR column
+      ...factorRules("NFI", [/i sin helhet/, /förväntningar du haft/, /perfekt förskola/]),
+      ...factorRules("FÖRTROENDE", [/jämfört med andra/, /skulle välja/]),
+      ...factorRules("TRIVSEL", [/^hur ditt barn trivs/]),
+      ...factorRules("TRYGGHET", [/tryggt ditt barn/, /stabil kontakt/, /otrygghet/, /trygg du är som förälder/]),
+      ...factorRules("BEMÖTANDE", [/bemöts av personalen/, /beaktar dina synpunkter/]),
+      ...factorRules("PEDAGOGISK HANDLEDNING", [
+        /stöd i sin utveckling/,
+        /språkutveckling/,
+        /förmåga att skapa lugn och ro/,
+        /ta hänsyn till varandra/,
+      ]),
+      ...factorRules("PEDAGOGISK PROCESS", [
+        /^(vad|hur) ditt barn lär sig/,
+        /lust att lära/,
+        /möjligheter att leka/,
+        /vistas utomhus/,
+      ]),
+      ...factorRules("SÄKERHET", [/^säkerheten/, /förebygga olyckor/, /olika arrangemang/]),
+      ...factorRules("DELAKTIGHET/INFLYTANDE", [
+        /information om verksamheten/,
+        /^vilken information/,
+        /påverka verksamheten/,
+        /samarbetar med dig/,
+        /politiker lyssnar/,
+        /utvecklingssamtal/,
+      ]),
+      ...factorRules("FÖRSKOLEMILJÖ", [/^lokalerna/, /utrustning för lek/, /möjlighet att få lugn och ro/, /utemiljö/]),
+      ...factorRules("MÅLTIDER", [/måltiderna/, /mat som serveras/]),
+      // Children's questionnaire (1-3 scale)
+      { match: /roligt att vara på förskolan/, area: "Trygghet och trivsel" },
+      { match: /bra kompisar/, area: "Trygghet och trivsel" },
+      { match: /vara för dig själv/, area: "Trygghet och trivsel" },
+      { match: /själv bestämma/, area: "Inflytande" },
+      { match: /roliga saker/, area: "Utveckling och lärande" },
+      { match: /ute och leka/, area: "Utveckling och lärande" },
+      { match: /lära dig nya saker/, area: "Utveckling och lärande" },
+      { match: /tycker du om personalen/, area: "Relation och kommunikation" },
+      { match: /tycker du om maten/, area: "Helhetsomdöme" },
+    ],
+  },
+  {
+    id: "statements",
+    years: { from: 2014, to: 2015 },
+    rules: [
+      { match: /tar väl hand om ditt barn/, area: "Trygghet och trivsel" },
+      { match: /rolig trygg och lärorik/, area: "Trygghet och trivsel" },
+      { match: /möta personal som/, area: "Trygghet och trivsel" },
+      { match: /barngrupp/, area: "Trygghet och trivsel" },
+      { match: /vara med och (påverka|ha inflytande)/, area: "Inflytande" },
+      { match: /tydlig information|samarbeta med hemmen/, area: "Relation och kommunikation" },
+      {
+        match: /lära sig|matematik|språket|växter djur och natur|aktiviteter|flickor och pojkar|fungerar tillsammans/,
+        area: "Utveckling och lärande",
+      },
+    ],
+  },
+];
+
+export interface TaxonomyMatch {
+  area: string;
+  /** Id of the era whose mapping matched */
+  era: string;
+}
+
+/** The shared question area the taxonomy assigns a question text in a survey year, if any */
+export function taxonomyArea(questionText: string, year: number): TaxonomyMatch | null {
+  const key = questionMatchKey(questionText);
+
+  for (const era of TAXONOMY_ERAS) {
+    if (year < era.years.from || year > era.years.to) continue;
+    const rule = era.rules.find((r) => r.match.test(key));
+    if (rule) return { area: rule.area, era: era.id };
+  }
+  return null;
+}
@@ -1,5 +1,9 @@
 /** Shared utilities for PDF parsing */
 
+/**
+ * A positioned piece of text. pdf2json reports x/y in its own page units (1/4.5 inch) and
+ * width in points; the bbox provider reports everything in points from the top-left corner.
+ */
 export interface TextItem {
   text: string;
   x: number;
@@ -9,6 +13,47 @@ export interface TextItem {
   page: number;
 }
 
+/** Where in the PDF an extracted value was read */
+export interface SourceLocation {
+  /** 1-based page number */
+  page: number;
+  /** 1-based line within the page of the pdftotext -layout text; null for values read from text item coordinates */
+  line: number | null;
+  /** The raw text the value was read from (trimmed non-empty lines, joined with newlines) */
+  text: string;
+}
+
+/**
+ * Map line indices of `layoutText.split("\n")` to source locations.
+ * pdftotext -layout ends every page with a form feed, so each page after the first
+ * starts on a line beginning with "\f".
+ */
+export function sourceLocator(lines: string[]): (from: number, to?: number) => SourceLocation {
+  const pages: number[] = [];
+  const pageStarts: number[] = [];
+  let page = 1;
+  let pageStart = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const formFeeds = lines[i].split("\f").length - 1;
+    if (formFeeds > 0) {
+      page += formFeeds;
+      pageStart = i;
+    }
+    pages.push(page);
+    pageStarts.push(pageStart);
+  }
+
+  return (from, to = from) => ({
+    page: pages[from],
+    line: from - pageStarts[from] + 1,
+    text: lines
+      .slice(from, to + 1)
+      .map((l) => l.replace(/\f/g, "").trim())
+      .filter((l) => l !== "")
+      .join("\n"),
+  });
+}
+
 /** Group text items into rows based on Y-coordinate proximity */
 export function groupByRows(items: TextItem[], tolerance = 2): TextItem[][] {
   if (items.length === 0) return [];
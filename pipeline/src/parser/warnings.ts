@@ -0,0 +1,90 @@
+/**
+ * Structured parse warnings: non-fatal problems a parser stage ran into (rows skipped,
+ * fallbacks taken) that would otherwise leave a report looking fine with missing data.
+ * Stored per report in parse_warnings and summarised with: npm run parse -- --warnings [year]
+ */
+import { query } from "../db.js";
+import type { Queryable } from "../db.js";
+
+export type ParseStage = "text" | "format" | "metadata" | "means" | "responses" | "gender" | "units" | "xls";
+
+export interface ParseWarning {
+  stage: ParseStage;
+  /** Stable identifier to group by, e.g. "distribution_question_unmatched" */
+  code: string;
+  message: string;
+  /** Details for tracking the problem down (question text, area name, source location…) */
+  context?: Record<string, unknown>;
+}
+
+/** Callback parser stages report warnings through */
+export type WarnFn = (warning: ParseWarning) => void;
+
+/** Replace a report's warnings with the ones from its latest parse */
+export async function replaceParseWarnings(db: Queryable, reportId: number, warnings: ParseWarning[]) {
+  await db.query("DELETE FROM parse_warnings WHERE pdf_report_id = $1", [reportId]);
+  for (const w of warnings) {
+    await db.query(
+      `INSERT INTO parse_warnings (pdf_report_id, stage, code, message, context)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [reportId, w.stage, w.code, w.message, w.context ? JSON.stringify(w.context) : null],
+    );
+  }
+}
+
+/** Print warning counts grouped by code and year; with `code`, list that code's warnings */
+export async function printParseWarnings(year?: number, code?: string) {
+  const params: unknown[] = [];
+  let where = "WHERE pr.vanished_at IS NULL";
+  if (year !== undefined) {
+    params.push(year);
+    where += ` AND pr.year = $${params.length}`;
+  }
+  if (code !== undefined) {
+    params.push(code);
+    where += ` AND w.code = $${params.length}`;
+  }
+
+  if (code !== undefined) {
+    const { rows } = await query(
+      `SELECT pr.year, pr.id AS report_id, pr.local_path, w.message, w.context
+       FROM parse_warnings w
+       JOIN pdf_reports pr ON pr.id = w.pdf_report_id
+       ${where}
+       ORDER BY pr.year, pr.id, w.id`,
+      params,
+    );
+    console.log(`${code}: ${rows.length} warnings`);
+    for (const r of rows) {
+      console.log(`  ${r.year}  #${r.report_id}  ${r.message}`);
+      if (r.context) console.log(`        ${JSON.stringify(r.context)}`);
+    }
+    return;
+  }
+
+  const { rows } = await query(
+    `SELECT w.code, w.stage, pr.year,
+            count(*) AS n, count(DISTINCT w.pdf_report_id) AS reports
+     FROM parse_warnings w
+     JOIN pdf_reports pr ON pr.id = w.pdf_report_id
+     ${where}
+     GROUP BY w.code, w.stage, pr.year
+     ORDER BY w.stage, w.code, pr.year`,
+    params,
+  );
+  if (rows.length === 0) {
+    console.log("No parse warnings");
+    return;
+  }
+
+  let current = "";
+  for (const r of rows) {
+    if (r.code !== current) {
+      const total = rows.filter((x) => x.code === r.code).reduce((sum, x) => sum + Number(x.n), 0);
+      console.log(`\n${r.code} (${r.stage}) — ${total} total`);
+      current = r.code;
+    }
+    console.log(`  ${r.year}  ${String(r.n).padStart(6)} in ${r.reports} reports`);
+  }
+  console.log("\nList one code's warnings with --warnings --code=CODE");
+}
@@ -30,6 +30,12 @@ export interface XlsUnitData {
     indexValue: number | null;
     indexAllSchools: number | null;
   }>;
+  /** NKI quality factor indices (0-100) from the parent workbooks' factor summary; empty for barn sheets */
+  nkiIndices: Array<{
+    name: string;
+    value: number | null;
+    allSchools: number | null;
+  }>;
   responseDistribution: Array<{
     questionText: string;
     pctLow: number | null;
@@ -105,6 +111,7 @@ function parseForalderSheet(ws: ExcelJS.Worksheet, sheetId: string): XlsUnitData
   const level = classifySheet(sheetId);
 
   const means: XlsUnitData["means"] = [];
+  const nkiIndices: XlsUnitData["nkiIndices"] = [];
   const responseDistribution: XlsUnitData["responseDistribution"] = [];
 
   // Find factor summary section: scan for first row where C0 matches "Fr NN:..." pattern
@@ -130,29 +137,21 @@ function parseForalderSheet(ws: ExcelJS.Worksheet, sheetId: string): XlsUnitData
     // Only include rows with Fr references
     if (!/^Fr\s+\d+:/i.test(c0)) continue;
 
-    const meanValue = parseNum(data[i]?.[2]);
-    const meanAllSchools = parseNum(data[i]?.[4]);
-
-    // Create NKI-prefixed question text for the factor index
-    // "NFI, DITT BARNS FÖRSKOLA I SIN HELHET" → "NKI NFI"
-    // "TRIVSEL" → "NKI TRIVSEL"
-    // Note: don't use cleanQuestionText here as it lowercases first char
+    // The factor name as printed, without its description
+    // "NFI, DITT BARNS FÖRSKOLA I SIN HELHET" → "NFI"
     const factorName = c1.split(",")[0].replace(/\n/g, " ").trim();
-    const questionText = `NKI ${factorName}`;
 
-    means.push({
-      questionText,
-      meanValue,
-      meanAllSchools,
-      indexValue: null,
-      indexAllSchools: null,
+    nkiIndices.push({
+      name: factorName,
+      value: parseNum(data[i]?.[2]),
+      allSchools: parseNum(data[i]?.[4]),
     });
   }
 
   // Find detail section: scan for individual question rows after the summary
   // Detail rows have C0 matching "Fr X:Y" (single sub-question, not range)
   let detailStart = -1;
-  for (let i = summaryStart + means.length; i < Math.min(data.length, summaryStart + means.length + 15); i++) {
+  for (let i = summaryStart + nkiIndices.length; i < Math.min(data.length, summaryStart + nkiIndices.length + 15); i++) {
     const c0 = String(data[i]?.[0] ?? "").trim();
     if (/^Fr\s+\d+:[a-zA-Z0-9]$/i.test(c0)) {
       detailStart = i;
@@ -216,7 +215,7 @@ function parseForalderSheet(ws: ExcelJS.Worksheet, sheetId: string): XlsUnitData
     }
   }
 
-  if (means.length === 0) return null;
+  if (means.length === 0 && nkiIndices.length === 0) return null;
 
   return {
     sheetId,
@@ -225,6 +224,7 @@ function parseForalderSheet(ws: ExcelJS.Worksheet, sheetId: string): XlsUnitData
     respondents,
     level,
     means,
+    nkiIndices,
     responseDistribution,
   };
 }
@@ -305,6 +305,7 @@ function parseSheet(ws: ExcelJS.Worksheet, sheetId: string): XlsUnitData | null
     respondents,
     level,
     means,
+    nkiIndices: [],
     responseDistribution,
   };
 }
@@ -0,0 +1,115 @@
+/**
+ * Step selection for `npm run sync` (pipeline.ts): which phases a run executes, from --from/--only,
+ * or for --resume from the latest run as recorded in pipeline_runs / pipeline_run_steps.
+ */
+import type { Queryable } from "./db.js";
+
+export interface Step {
+  key: string;
+  name: string;
+  script: string;
+}
+
+export const STEPS: Step[] = [
+  { key: "crawl", name: "Crawl", script: "crawler.ts" },
+  { key: "download", name: "Download", script: "downloader.ts" },
+  { key: "parse", name: "Parse", script: "parser/index.ts" },
+  { key: "export", name: "Export", script: "export.ts" },
+];
+
+export interface RunPlan {
+  steps: Step[];
+  /** Arguments passed on to every step (the survey year) */
+  passArgs: string[];
+  resumedFrom: number | null;
+}
+
+/** The latest recorded run, as --resume needs it */
+export interface LatestRun {
+  id: number;
+  status: string;
+  /** The run's steps in order; null for runs recorded before pipeline_runs.steps (every step) */
+  steps: string[] | null;
+  /** The step it failed at or, for a run still marked running, the last step it started */
+  stoppedAt: string | null;
+  /** That step's arguments */
+  args: string[] | null;
+}
+
+export function stepIndex(key: string): number {
+  const idx = STEPS.findIndex((s) => s.key === key);
+  if (idx < 0) {
+    throw new Error(`Unknown phase "${key}" (expected one of: ${STEPS.map((s) => s.key).join(", ")})`);
+  }
+  return idx;
+}
+
+/**
+ * The most recent run; only it can be resumed, as a later run supersedes an earlier failure.
+ * Every step of a run gets the same arguments, so they are taken from its latest step even when
+ * the run was interrupted before the step it failed at started.
+ */
+export async function loadLatestRun(db: Queryable): Promise<LatestRun | null> {
+  const { rows } = await db.query(
+    `SELECT r.id, r.status, r.steps, COALESCE(r.failed_step, s.step) AS stopped_at, s.args
+     FROM pipeline_runs r
+     LEFT JOIN LATERAL (
+       SELECT step, args FROM pipeline_run_steps WHERE run_id = r.id ORDER BY id DESC LIMIT 1
+     ) s ON TRUE
+     ORDER BY r.id DESC LIMIT 1`,
+  );
+  if (rows.length === 0) return null;
+  return {
+    id: rows[0].id,
+    status: rows[0].status,
+    steps: rows[0].steps,
+    stoppedAt: rows[0].stopped_at,
+    args: rows[0].args,
+  };
+}
+
+/**
+ * Record a resumed run that never finished (still marked running) as failed at the step it
+ * stopped at, so it doesn't stay running once the resuming run has taken it over
+ */
+export async function supersedeRun(db: Queryable, runId: number, stoppedAt: string): Promise<void> {
+  await db.query(
+    `UPDATE pipeline_runs SET finished_at = NOW(), status = 'failed', failed_step = $2
+     WHERE id = $1 AND status = 'running'`,
+    [runId, stoppedAt],
+  );
+}
+
+/**
+ * The steps to resume `run` with: its own steps from the one it stopped at, so a resumed --only
+ * run stays a single phase. A run still marked running never finished (interrupted or crashed
+ * without recording it) and is resumed like a failed one.
+ */
+export function planResume(run: LatestRun | null): RunPlan {
+  if (!run || (run.status !== "failed" && run.status !== "running") || !run.stoppedAt || !run.args) {
+    throw new Error("No failed run to resume");
+  }
+  const steps = (run.steps ?? STEPS.map((s) => s.key)).map((key) => STEPS[stepIndex(key)]);
+  const start = steps.findIndex((s) => s.key === run.stoppedAt);
+  if (start < 0) throw new Error(`Run #${run.id} stopped at ${run.stoppedAt}, which is not one of its phases`);
+  return { steps: steps.slice(start), passArgs: run.args, resumedFrom: run.id };
+}
+
+/** The steps for a new run from --from= / --only= and an optional survey year */
+export function planSteps(args: string[]): RunPlan {
+  const fromArg = args.find((a) => a.startsWith("--from="));
+  const onlyArg = args.find((a) => a.startsWith("--only="));
+  const yearArg = args.find((a) => /^\d{4}$/.test(a));
+  const passArgs = yearArg ? [yearArg] : [];
+
+  if (fromArg && onlyArg) throw new Error("--from and --only cannot be combined");
+  if (onlyArg) {
+    const idx = stepIndex(onlyArg.split("=")[1]);
+    return { steps: [STEPS[idx]], passArgs, resumedFrom: null };
+  }
+  if (fromArg) {
+    const idx = stepIndex(fromArg.split("=")[1]);
+    return { steps: STEPS.slice(idx), passArgs, resumedFrom: null };
+  }
+  return { steps: STEPS, passArgs, resumedFrom: null };
+}
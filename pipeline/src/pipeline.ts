@@ -1,15 +1,56 @@
 /**
  * Full pipeline: crawl → download → parse → export.
+ * Every run is recorded in pipeline_runs / pipeline_run_steps so a failed
+ * run can be picked up at the phase that failed.
+ *
  * Run: npm run sync
+ *      npm run sync -- --from=parse   (start at a phase)
+ *      npm run sync -- --only=export  (run a single phase)
+ *      npm run sync -- --resume       (restart the last failed or interrupted run at the phase it stopped at)
  */
 import "dotenv/config";
 import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
 import { fileURLToPath } from "node:url";
 import { dirname, join } from "node:path";
+import { query } from "./db.js";
+import pool from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
+import { loadLatestRun, planResume, planSteps, supersedeRun } from "./pipeline-plan.js";
+import type { RunPlan } from "./pipeline-plan.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
-function runStep(name: string, script: string, args: string[] = []): Promise<void> {
+/** Report counts snapshotted before and after each step */
+interface ReportCounts {
+  reports: number;
+  downloaded: number;
+  parsed: number;
+  errors: number;
+}
+
+async function countReports(): Promise<ReportCounts> {
+  const { rows } = await query(
+    `SELECT count(*) AS reports,
+            count(downloaded_at) AS downloaded,
+            count(parsed_at) AS parsed,
+            count(parse_error) AS errors
+     FROM pdf_reports`,
+  );
+  return {
+    reports: Number(rows[0].reports),
+    downloaded: Number(rows[0].downloaded),
+    parsed: Number(rows[0].parsed),
+    errors: Number(rows[0].errors),
+  };
+}
+
+/** The running step's process, to pass a signal on to */
+let currentChild: ChildProcess | null = null;
+/** Set when sync itself was sent SIGINT or SIGTERM; the run is then recorded as failed */
+let interrupted: NodeJS.Signals | null = null;
+
+function runStep(name: string, script: string, args: string[] = []): Promise<number> {
   return new Promise((resolve, reject) => {
     console.log(`\n${"=".repeat(60)}`);
     console.log(`Phase: ${name}`);
@@ -21,33 +62,109 @@ function runStep(name: string, script: string, args: string[] = []): Promise<voi
       env: process.env,
       stdio: "inherit",
     });
+    currentChild = child;
 
     child.on("close", (code) => {
-      if (code !== 0) {
-        reject(new Error(`${name} exited with code ${code}`));
-      } else {
-        resolve();
-      }
+      currentChild = null;
+      resolve(code ?? 1);
     });
-
     child.on("error", reject);
   });
 }
 
+/**
+ * Work out which steps to run and with which arguments.
+ * --resume reuses the steps and arguments of the last run (if it failed or never finished) and
+ * starts at the step it stopped at.
+ */
+async function planRun(args: string[]): Promise<RunPlan> {
+  if (!args.includes("--resume")) return planSteps(args);
+  if (args.some((a) => a.startsWith("--from=") || a.startsWith("--only="))) {
+    throw new Error("--resume cannot be combined with --from or --only");
+  }
+
+  const latest = await loadLatestRun(pool);
+  const plan = planResume(latest);
+
+  const how = latest!.status === "running" ? "never finished" : "failed";
+  console.log(
+    `Resuming run #${latest!.id} (${how}) at ${plan.steps[0].name} (${plan.passArgs.join(" ") || "all years"})`,
+  );
+  return plan;
+}
+
 async function main() {
+  await assertSchemaCurrent();
+
   const args = process.argv.slice(2);
-  const yearArg = args.find((a) => /^\d{4}$/.test(a));
-  const passArgs = yearArg ? [yearArg] : [];
+  const { steps, passArgs, resumedFrom } = await planRun(args);
+
+  const runResult = await query(
+    `INSERT INTO pipeline_runs (args, resumed_from, steps) VALUES ($1, $2, $3) RETURNING id`,
+    [args, resumedFrom, steps.map((s) => s.key)],
+  );
+  const runId: number = runResult.rows[0].id;
+  if (resumedFrom !== null) await supersedeRun(pool, resumedFrom, steps[0].key);
+  console.log(`Pipeline run #${runId}: ${steps.map((s) => s.name).join(" → ")}`);
+
+  // Ctrl-C or a kill: let the running step stop, then record the run as failed so --resume finds it
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+      interrupted = signal;
+      currentChild?.kill(signal);
+    });
+  }
+  const markFailed = (step: string) =>
+    query(`UPDATE pipeline_runs SET finished_at = NOW(), status = 'failed', failed_step = $1 WHERE id = $2`, [
+      step,
+      runId,
+    ]);
 
   const start = Date.now();
 
-  await runStep("Crawl", "crawler.ts", passArgs);
-  await runStep("Download", "downloader.ts", passArgs);
-  await runStep("Parse", "parser/index.ts", passArgs);
-  await runStep("Export", "export.ts", passArgs);
+  for (const step of steps) {
+    if (interrupted) {
+      await markFailed(step.key);
+      throw new Error(`Interrupted by ${interrupted} before ${step.name} (resume with: npm run sync -- --resume)`);
+    }
+    const stepResult = await query(
+      `INSERT INTO pipeline_run_steps (run_id, step, args, counts_before)
+       VALUES ($1, $2, $3, $4) RETURNING id`,
+      [runId, step.key, passArgs, JSON.stringify(await countReports())],
+    );
+    const stepId = stepResult.rows[0].id;
+
+    let exitCode: number;
+    try {
+      exitCode = await runStep(step.name, step.script, passArgs);
+    } catch (err) {
+      console.error(`Failed to start ${step.name}: ${err}`);
+      exitCode = -1;
+    }
+
+    const status = exitCode === 0 ? "succeeded" : "failed";
+    await query(
+      `UPDATE pipeline_run_steps
+       SET finished_at = NOW(), status = $1, exit_code = $2, counts_after = $3
+       WHERE id = $4`,
+      [status, exitCode, JSON.stringify(await countReports()), stepId],
+    );
+
+    if (exitCode !== 0) {
+      await markFailed(step.key);
+      const reason = interrupted ? `was interrupted by ${interrupted}` : `exited with code ${exitCode}`;
+      throw new Error(`${step.name} ${reason} (resume with: npm run sync -- --resume)`);
+    }
+  }
+
+  await query(
+    `UPDATE pipeline_runs SET finished_at = NOW(), status = 'succeeded' WHERE id = $1`,
+    [runId],
+  );
 
   const elapsed = ((Date.now() - start) / 1000).toFixed(1);
   console.log(`\nPipeline complete in ${elapsed}s`);
+  await pool.end();
 }
 
 main().catch((err) => {
@@ -0,0 +1,99 @@
+/**
+ * Apply the question-area taxonomy (parser/taxonomy.ts) to questions already in the database:
+ * questions without an area, and questions an older taxonomy version assigned. Areas that came
+ * from the reports themselves are left alone.
+ *
+ * Run: npm run questions:areas
+ */
+import "dotenv/config";
+import { query } from "./db.js";
+import pool from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
+import { getOrCreateQuestionArea, QUESTION_YEARS_SQL } from "./question-helpers.js";
+import { AREA_ORDER, TAXONOMY_VERSION, taxonomyArea } from "./parser/taxonomy.js";
+import type { TaxonomyMatch } from "./parser/taxonomy.js";
+
+interface QuestionRow {
+  id: number;
+  text: string;
+  area_taxonomy_version: number | null;
+  years: number[];
+}
+
+/** The taxonomy's area for a question, trying the years it was asked in from the earliest */
+function matchForYears(text: string, years: number[]): TaxonomyMatch | null {
+  for (const year of years) {
+    const match = taxonomyArea(text, year);
+    if (match) return match;
+  }
+  return null;
+}
+
+async function main() {
+  await assertSchemaCurrent();
+
+  const { rows } = await query(
+    `WITH question_years AS (${QUESTION_YEARS_SQL})
+     SELECT q.id, q.text, q.area_taxonomy_version, qy.years
+     FROM questions q
+     JOIN question_years qy ON qy.question_id = q.id
+     WHERE q.question_area_id IS NULL OR q.area_taxonomy_version < $1
+     ORDER BY q.id`,
+    [TAXONOMY_VERSION],
+  );
+  console.log(`Applying question-area taxonomy v${TAXONOMY_VERSION} to ${rows.length} questions...`);
+
+  const assigned = new Map<string, number>();
+  const unmapped: QuestionRow[] = [];
+  let cleared = 0;
+
+  for (const q of rows as QuestionRow[]) {
+    const match = matchForYears(q.text, q.years);
+    if (!match) {
+      // An older taxonomy's mapping that the current one dropped
+      if (q.area_taxonomy_version !== null) {
+        await query(
+          `UPDATE questions SET question_area_id = NULL, area_taxonomy_version = NULL WHERE id = $1`,
+          [q.id],
+        );
+        cleared++;
+      }
+      unmapped.push(q);
+      continue;
+    }
+
+    const areaId = await getOrCreateQuestionArea(match.area, AREA_ORDER[match.area]);
+    await query(
+      `UPDATE questions SET question_area_id = $2, area_taxonomy_version = $3 WHERE id = $1`,
+      [q.id, areaId, TAXONOMY_VERSION],
+    );
+    // Canonical questions created before the question had an area take it over
+    await query(
+      `UPDATE canonical_questions c SET question_area_id = $2
+       FROM question_aliases a
+       WHERE a.canonical_question_id = c.id AND a.question_id = $1 AND a.status = 'confirmed'
+         AND c.question_area_id IS NULL`,
+      [q.id, areaId],
+    );
+    const key = `${match.era}: ${match.area}`;
+    assigned.set(key, (assigned.get(key) ?? 0) + 1);
+  }
+
+  console.log(`\nAssigned (${[...assigned.values()].reduce((sum, n) => sum + n, 0)})`);
+  for (const [key, n] of [...assigned].sort()) {
+    console.log(`  ${key.padEnd(40)} ${String(n).padStart(5)}`);
+  }
+  if (cleared > 0) console.log(`Cleared ${cleared} areas no longer in the taxonomy`);
+
+  console.log(`\nStill without an area (${unmapped.length})`);
+  for (const q of unmapped) {
+    console.log(`  ${q.years.join(",").padEnd(12)} #${q.id}  ${q.text.slice(0, 100)}`);
+  }
+
+  await pool.end();
+}
+
+main().catch((err) => {
+  console.error("Question areas failed:", err);
+  process.exit(1);
+});
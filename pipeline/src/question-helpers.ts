@@ -0,0 +1,158 @@
+/**
+ * Question areas, canonical questions and their text aliases — used by the parser,
+ * `npm run questions` and `npm run questions:areas`.
+ */
+import pool from "./db.js";
+import type { Queryable } from "./db.js";
+import { questionSimilarity } from "./normalize.js";
+
+/** Survey years each question text has means or response distributions for (SQL for a CTE) */
+export const QUESTION_YEARS_SQL = `
+  SELECT question_id, array_agg(DISTINCT year ORDER BY year) AS years
+  FROM (
+    SELECT qm.question_id, pr.year FROM question_means qm JOIN pdf_reports pr ON pr.id = qm.pdf_report_id
+    UNION
+    SELECT qr.question_id, pr.year FROM question_responses qr JOIN pdf_reports pr ON pr.id = qr.pdf_report_id
+  ) t
+  GROUP BY question_id
+`;
+
+export async function getOrCreateQuestionArea(
+  name: string,
+  order: number,
+  db: Queryable = pool,
+): Promise<number> {
+  const result = await db.query(
+    `INSERT INTO question_areas (name, display_order)
+     VALUES ($1, $2)
+     ON CONFLICT (name) DO UPDATE SET display_order = $2
+     RETURNING id`,
+    [name, order],
+  );
+  return result.rows[0].id;
+}
+
+/** Wordings at least this similar to a canonical question are suggested as aliases of it */
+export const SUGGEST_SIMILARITY = 0.8;
+
+interface CanonicalVariant {
+  canonical_question_id: number;
+  text: string;
+}
+
+/** The confirmed variants of every canonical question, optionally excluding one canonical question */
+async function confirmedVariants(db: Queryable, excludeCanonicalId: number | null): Promise<CanonicalVariant[]> {
+  const { rows } = await db.query(
+    `SELECT a.canonical_question_id, q.text
+     FROM question_aliases a
+     JOIN questions q ON q.id = a.question_id
+     WHERE a.status = 'confirmed' AND a.canonical_question_id IS DISTINCT FROM $1`,
+    [excludeCanonicalId],
+  );
+  return rows as CanonicalVariant[];
+}
+
+function bestMatch(text: string, variants: CanonicalVariant[]): { canonicalId: number; similarity: number } | null {
+  let best: { canonicalId: number; similarity: number } | null = null;
+  for (const v of variants) {
+    const similarity = questionSimilarity(text, v.text);
+    if (!best || similarity > best.similarity) best = { canonicalId: v.canonical_question_id, similarity };
+  }
+  return best;
+}
+
+/**
+ * Link a question text to its canonical question, creating one if needed, and return its id.
+ * Texts that differ from a known variant only in case, punctuation or whitespace join that
+ * variant's canonical question; any other new text gets its own canonical question plus a
+ * 'suggested' alias to the most similar existing one (see suggestCanonicalMatch).
+ * Pass a transaction client as `db` to make the lookup part of a larger transaction.
+ */
+export async function ensureCanonicalQuestion(
+  questionId: number,
+  text: string,
+  areaId: number | null,
+  db: Queryable = pool,
+): Promise<number> {
+  const existing = await db.query(
+    `SELECT canonical_question_id FROM question_aliases WHERE question_id = $1 AND status = 'confirmed'`,
+    [questionId],
+  );
+  if (existing.rows.length > 0) return existing.rows[0].canonical_question_id;
+
+  const match = bestMatch(text, await confirmedVariants(db, null));
+  let canonicalId: number;
+  if (match && match.similarity === 1) {
+    canonicalId = match.canonicalId;
+  } else {
+    const created = await db.query(
+      `INSERT INTO canonical_questions (text, question_area_id) VALUES ($1, $2) RETURNING id`,
+      [text, areaId],
+    );
+    canonicalId = created.rows[0].id;
+  }
+
+  // A concurrent parse may have linked the same question first; keep its link
+  const linked = await db.query(
+    `INSERT INTO question_aliases (question_id, canonical_question_id, status, similarity)
+     VALUES ($1, $2, 'confirmed', $3)
+     ON CONFLICT (question_id) WHERE status = 'confirmed' DO NOTHING
+     RETURNING canonical_question_id`,
+    [questionId, canonicalId, match?.similarity === 1 ? 1 : null],
+  );
+  if (linked.rows.length === 0) {
+    await db.query(
+      `DELETE FROM canonical_questions c WHERE c.id = $1
+       AND NOT EXISTS (SELECT 1 FROM question_aliases a WHERE a.canonical_question_id = c.id)`,
+      [canonicalId],
+    );
+    return ensureCanonicalQuestion(questionId, text, areaId, db);
+  }
+
+  if (match && match.similarity < 1 && match.similarity >= SUGGEST_SIMILARITY) {
+    await suggestCanonicalMatch(questionId, text, db);
+  }
+  return canonicalId;
+}
+
+/**
+ * Record the canonical question (other than its own) that a question text most resembles
+ * as a 'suggested' alias. Pairs already suggested, confirmed or rejected, either way round,
+ * are left alone.
+ * Returns the suggested canonical question id, or null if nothing is similar enough.
+ */
+export async function suggestCanonicalMatch(
+  questionId: number,
+  text: string,
+  db: Queryable = pool,
+): Promise<number | null> {
+  const own = await db.query(
+    `SELECT canonical_question_id FROM question_aliases WHERE question_id = $1 AND status = 'confirmed'`,
+    [questionId],
+  );
+  const ownCanonicalId: number | null = own.rows[0]?.canonical_question_id ?? null;
+
+  // Skip pairs already on record in either direction, so A → B and B → A aren't both suggested
+  const decided = await db.query(
+    `SELECT canonical_question_id FROM question_aliases WHERE question_id = $1
+     UNION
+     SELECT own.canonical_question_id
+     FROM question_aliases a
+     JOIN question_aliases own ON own.question_id = a.question_id AND own.status = 'confirmed'
+     WHERE a.canonical_question_id = $2 AND a.status <> 'confirmed'`,
+    [questionId, ownCanonicalId],
+  );
+  const skip = new Set<number>(decided.rows.map((r) => r.canonical_question_id));
+  const variants = (await confirmedVariants(db, ownCanonicalId)).filter((v) => !skip.has(v.canonical_question_id));
+
+  const match = bestMatch(text, variants);
+  if (!match || match.similarity < SUGGEST_SIMILARITY) return null;
+
+  await db.query(
+    `INSERT INTO question_aliases (question_id, canonical_question_id, status, similarity)
+     VALUES ($1, $2, 'suggested', $3)
+     ON CONFLICT (question_id, canonical_question_id) DO NOTHING`,
+    [questionId, match.canonicalId, match.similarity],
+  );
+  return match.canonicalId;
+}
@@ -0,0 +1,142 @@
+/**
+ * Review canonical question aliases: the same survey question worded differently across years.
+ *
+ * Run: npm run questions                         List pending alias suggestions
+ *      npm run questions -- --confirm=12,15      Map each suggestion's wording to the suggested canonical question
+ *      npm run questions -- --reject=13          Keep the wording separate (never suggested again)
+ *      npm run questions -- --backfill           Link questions parsed before canonical questions existed, and suggest matches
+ */
+import "dotenv/config";
+import { query, withTransaction } from "./db.js";
+import pool from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
+import { ensureCanonicalQuestion, suggestCanonicalMatch, QUESTION_YEARS_SQL } from "./question-helpers.js";
+
+function parseIds(arg: string): number[] {
+  const ids = arg.split("=")[1].split(",").map((s) => parseInt(s, 10));
+  if (ids.some((id) => !Number.isInteger(id))) throw new Error(`Invalid alias ids: ${arg}`);
+  return ids;
+}
+
+function formatYears(years: number[] | null): string {
+  return years && years.length > 0 ? years.join(", ") : "no data";
+}
+
+async function listSuggestions() {
+  const { rows } = await query(
+    `WITH question_years AS (${QUESTION_YEARS_SQL})
+     SELECT a.id, a.similarity, q.text AS variant, qy.years AS variant_years,
+            c.id AS canonical_id, c.text AS canonical,
+            (SELECT array_agg(DISTINCT y ORDER BY y)
+             FROM question_aliases ca
+             JOIN question_years cy ON cy.question_id = ca.question_id, unnest(cy.years) AS y
+             WHERE ca.canonical_question_id = c.id AND ca.status = 'confirmed') AS canonical_years
+     FROM question_aliases a
+     JOIN questions q ON q.id = a.question_id
+     JOIN canonical_questions c ON c.id = a.canonical_question_id
+     LEFT JOIN question_years qy ON qy.question_id = q.id
+     WHERE a.status = 'suggested'
+     ORDER BY a.similarity DESC, a.id`,
+  );
+  if (rows.length === 0) {
+    console.log("No pending alias suggestions");
+    return;
+  }
+
+  console.log(`${rows.length} pending alias suggestions\n`);
+  for (const r of rows) {
+    console.log(`#${r.id}  similarity ${Number(r.similarity).toFixed(2)}`);
+    console.log(`  "${r.variant}" (${formatYears(r.variant_years)})`);
+    console.log(`  → canonical #${r.canonical_id} "${r.canonical}" (${formatYears(r.canonical_years)})`);
+  }
+  console.log("\nConfirm with --confirm=ID[,ID…], reject with --reject=ID[,ID…]");
+}
+
+/** Move a suggestion's question onto the suggested canonical question */
+async function confirmAlias(aliasId: number) {
+  await withTransaction(async (client) => {
+    const { rows } = await client.query(
+      `SELECT question_id, canonical_question_id FROM question_aliases WHERE id = $1 AND status = 'suggested'`,
+      [aliasId],
+    );
+    if (rows.length === 0) throw new Error(`No pending suggestion #${aliasId}`);
+    const { question_id: questionId, canonical_question_id: canonicalId } = rows[0];
+
+    const previous = await client.query(
+      `DELETE FROM question_aliases WHERE question_id = $1 AND status = 'confirmed'
+       RETURNING canonical_question_id`,
+      [questionId],
+    );
+    await client.query(
+      `UPDATE question_aliases SET status = 'confirmed', decided_at = NOW() WHERE id = $1`,
+      [aliasId],
+    );
+    // The question's previous canonical question goes away once no wording maps to it
+    for (const r of previous.rows) {
+      await client.query(
+        `DELETE FROM canonical_questions c WHERE c.id = $1
+         AND NOT EXISTS (SELECT 1 FROM question_aliases a WHERE a.canonical_question_id = c.id AND a.status = 'confirmed')`,
+        [r.canonical_question_id],
+      );
+    }
+    console.log(`Confirmed #${aliasId}: question ${questionId} → canonical #${canonicalId}`);
+  });
+}
+
+async function rejectAlias(aliasId: number) {
+  const { rows } = await query(
+    `UPDATE question_aliases SET status = 'rejected', decided_at = NOW()
+     WHERE id = $1 AND status = 'suggested'
+     RETURNING id`,
+    [aliasId],
+  );
+  if (rows.length === 0) throw new Error(`No pending suggestion #${aliasId}`);
+  console.log(`Rejected #${aliasId}`);
+}
+
+async function backfill() {
+  const unlinked = await query(
+    `SELECT q.id, q.text, q.question_area_id FROM questions q
+     WHERE NOT EXISTS (SELECT 1 FROM question_aliases a WHERE a.question_id = q.id AND a.status = 'confirmed')
+     ORDER BY q.id`,
+  );
+  for (const q of unlinked.rows) {
+    await ensureCanonicalQuestion(q.id, q.text, q.question_area_id);
+  }
+  console.log(`Linked ${unlinked.rows.length} questions to canonical questions`);
+
+  const unsuggested = await query(
+    `SELECT q.id, q.text FROM questions q
+     WHERE NOT EXISTS (SELECT 1 FROM question_aliases a WHERE a.question_id = q.id AND a.status = 'suggested')
+     ORDER BY q.id`,
+  );
+  let suggested = 0;
+  for (const q of unsuggested.rows) {
+    if ((await suggestCanonicalMatch(q.id, q.text)) !== null) suggested++;
+  }
+  console.log(`Added ${suggested} alias suggestions`);
+}
+
+async function main() {
+  await assertSchemaCurrent();
+
+  const args = process.argv.slice(2);
+  const confirmArg = args.find((a) => a.startsWith("--confirm="));
+  const rejectArg = args.find((a) => a.startsWith("--reject="));
+
+  if (args.includes("--backfill")) {
+    await backfill();
+  } else if (confirmArg || rejectArg) {
+    for (const id of confirmArg ? parseIds(confirmArg) : []) await confirmAlias(id);
+    for (const id of rejectArg ? parseIds(rejectArg) : []) await rejectAlias(id);
+  } else {
+    await listSuggestions();
+  }
+
+  await pool.end();
+}
+
+main().catch((err) => {
+  console.error("Questions failed:", err);
+  process.exit(1);
+});
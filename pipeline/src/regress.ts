@@ -0,0 +1,243 @@
+/**
+ * Whole-corpus parser regression runner: re-runs the pure parsing functions over every local PDF,
+ * without touching the database, and diffs the results against a stored baseline.
+ *
+ * Run: npm run regress                       Compare every file under data/pdfs with the baseline
+ *      npm run regress -- --year=2024        Only one survey year
+ *      npm run regress -- --dir=DIR          Source directory (default data/pdfs)
+ *      npm run regress -- --update           Accept the current results as the new baseline
+ *
+ * Baselines live in data/regression/baseline/ (one JSON file per source file); each run writes
+ * data/regression/regression.json with the summary and the differences per file.
+ * XLS workbooks (2007-2009) go through xls.ts rather than these functions and are not covered, nor
+ * are PDFs without a usable text layer, which the parser reads through OCR (npm run parse -- --ocr),
+ * unless their baseline had text: then every baseline value shows as lost.
+ */
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join, dirname, relative, resolve, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import { extractLayoutText, parseTables } from "./parser/tables.js";
+import {
+  parseResponseDistributions,
+  parseGenderSplitsFromLayout,
+  parseDemographics,
+  parseImportantQuestions,
+  parseUnitMeans,
+} from "./parser/charts.js";
+import { extractTextItems } from "./parser/pdf-text.js";
+import { hasUsableText } from "./parser/ocr.js";
+import { detectSurveyFormat, textItemProviderFor } from "./parser/formats/index.js";
+import {
+  addFileDiff,
+  diffFile,
+  emptyRegressionSummary,
+  noTextResults,
+  REGRESSION_FUNCTIONS,
+  truncateDiff,
+} from "./regression.js";
+import type { FileDiff, FileResults, FunctionOutput, RegressionFunction, RegressionSummary } from "./regression.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_SOURCE_DIR = join(__dirname, "../../data/pdfs");
+const REGRESSION_DIR = join(__dirname, "../../data/regression");
+const BASELINE_DIR = join(REGRESSION_DIR, "baseline");
+/** Entries per list and function kept for each file in regression.json */
+const LISTED_PER_FUNCTION = 20;
+
+interface Options {
+  year: number | null;
+  dir: string;
+  update: boolean;
+}
+
+function parseOptions(args: string[]): Options {
+  const yearArg = args.find((a) => a.startsWith("--year="));
+  const dirArg = args.find((a) => a.startsWith("--dir="));
+
+  const year = yearArg ? yearArg.split("=")[1] : null;
+  if (year !== null && !/^\d{4}$/.test(year)) throw new Error(`Invalid year: ${yearArg}`);
+
+  const dir = dirArg ? resolve(dirArg.split("=")[1]) : DEFAULT_SOURCE_DIR;
+  if (!existsSync(dir)) throw new Error(`Source directory not found: ${dir}`);
+
+  return { year: year !== null ? parseInt(year, 10) : null, dir, update: args.includes("--update") };
+}
+
+/** Survey year of a file: its top-level directory (data/pdfs/{year}/…), else a year in its name */
+function yearOf(file: string): number | null {
+  const top = file.split(sep)[0];
+  if (/^\d{4}$/.test(top)) return parseInt(top, 10);
+  const match = file.match(/(?:19|20)\d{2}/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+async function listFiles(dir: string, extension: string): Promise<string[]> {
+  if (!existsSync(dir)) return [];
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+  return entries
+    .filter((e) => e.isFile() && e.name.toLowerCase().endsWith(extension))
+    .map((e) => relative(dir, join(e.parentPath, e.name)))
+    .sort();
+}
+
+async function capture(fn: () => unknown | Promise<unknown>): Promise<FunctionOutput> {
+  try {
+    return { output: await fn() };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/**
+ * Run every parsing function over one PDF, the way the parser feeds them; null when pdftotext
+ * finds no usable text, as the parser would read the PDF through OCR instead (see noTextResults)
+ */
+async function runParsers(path: string, file: string): Promise<FileResults | null> {
+  const results = {} as Record<RegressionFunction, FunctionOutput>;
+  let layoutText: string;
+  try {
+    layoutText = await extractLayoutText(path);
+  } catch (err) {
+    const error = `Text extraction failed: ${err instanceof Error ? err.message : String(err)}`;
+    for (const fn of REGRESSION_FUNCTIONS) results[fn] = { error };
+    return { file, year: yearOf(file), results };
+  }
+  if (!hasUsableText(layoutText)) return null;
+
+  results.parseTables = await capture(() => parseTables(layoutText));
+  // Distributions are matched to questions through the means, as in the parser
+  const meansMap = new Map<string, number>();
+  if ("output" in results.parseTables) {
+    for (const row of (results.parseTables.output as ReturnType<typeof parseTables>).means) {
+      if (row.meanSchool !== null) meansMap.set(row.questionText, row.meanSchool);
+    }
+  }
+  results.parseResponseDistributions = await capture(() => parseResponseDistributions(layoutText, meansMap));
+  results.parseGenderSplitsFromLayout = await capture(() => parseGenderSplitsFromLayout(layoutText));
+  results.parseDemographics = await capture(async () => {
+    const { items } = await extractTextItems(path, textItemProviderFor(detectSurveyFormat(layoutText)));
+    return parseDemographics(items, layoutText);
+  });
+  results.parseImportantQuestions = await capture(() => parseImportantQuestions(layoutText));
+  results.parseUnitMeans = await capture(() => parseUnitMeans(layoutText));
+  return { file, year: yearOf(file), results };
+}
+
+function baselinePath(file: string): string {
+  return join(BASELINE_DIR, `${file}.json`);
+}
+
+async function readBaseline(file: string): Promise<FileResults | null> {
+  const path = baselinePath(file);
+  if (!existsSync(path)) return null;
+  return JSON.parse(await readFile(path, "utf-8")) as FileResults;
+}
+
+async function writeBaseline(results: FileResults) {
+  const path = baselinePath(results.file);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(results));
+}
+
+function printSummary(summary: RegressionSummary) {
+  const pad = Math.max(...REGRESSION_FUNCTIONS.map((fn) => fn.length));
+  for (const [year, functions] of Object.entries(summary.byYear)) {
+    const files = functions.parseTables.reports;
+    const changed = REGRESSION_FUNCTIONS.filter((fn) => {
+      const s = functions[fn];
+      return s.gained > 0 || s.lost > 0 || s.changed > 0;
+    });
+    if (changed.length === 0) {
+      console.log(`${year} (${files} files): no differences`);
+      continue;
+    }
+    console.log(`\n${year} (${files} files)      reports gained / lost / changed   (values)`);
+    for (const fn of changed) {
+      const s = functions[fn];
+      console.log(
+        `  ${fn.padEnd(pad)}  ${String(s.gained).padStart(6)} / ${String(s.lost).padStart(6)} / ${String(s.changed).padStart(6)}` +
+          `   (${s.gainedValues} / ${s.lostValues} / ${s.changedValues})`,
+      );
+    }
+  }
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2));
+  const inScope = (file: string) => options.year === null || yearOf(file) === options.year;
+
+  const files = (await listFiles(options.dir, ".pdf")).filter(inScope);
+  console.log(`Re-parsing ${files.length} files from ${options.dir}${options.update ? " (updating the baseline)" : ""}`);
+
+  const summary = emptyRegressionSummary();
+  const differences: FileDiff[] = [];
+  let done = 0;
+  for (const file of files) {
+    let current = await runParsers(join(options.dir, file), file);
+    if (++done % 500 === 0) console.log(`  ${done}/${files.length}`);
+    const baseline = await readBaseline(file);
+    if (!current) {
+      // Only files that never had text are left out; losing the text of one that had shows as lost values
+      if (!baseline) {
+        summary.noTextFiles++;
+        continue;
+      }
+      current = noTextResults(file, yearOf(file));
+    }
+    if (baseline) {
+      const diff = diffFile(baseline, current);
+      addFileDiff(summary, diff);
+      if (Object.keys(diff.functions).length > 0) differences.push(truncateDiff(diff, LISTED_PER_FUNCTION));
+    } else {
+      summary.newFiles++;
+    }
+    if (options.update) await writeBaseline(current);
+  }
+
+  // Baselines of files that no longer exist
+  const sourceFiles = new Set(files);
+  const baselines = (await listFiles(BASELINE_DIR, ".json")).map((f) => f.replace(/\.json$/, "")).filter(inScope);
+  for (const file of baselines) {
+    if (sourceFiles.has(file)) continue;
+    summary.missingFiles++;
+    if (options.update) await rm(baselinePath(file));
+  }
+
+  await mkdir(REGRESSION_DIR, { recursive: true });
+  const reportPath = join(REGRESSION_DIR, "regression.json");
+  await writeFile(
+    reportPath,
+    JSON.stringify(
+      {
+        generatedAt: new Date().toISOString(),
+        options: { year: options.year, dir: options.dir, update: options.update },
+        summary,
+        files: differences,
+      },
+      null,
+      2,
+    ),
+  );
+
+  printSummary(summary);
+  console.log(
+    `\nCompared ${summary.files} files with the baseline, ${summary.filesWithDifferences} with differences; ` +
+      `${summary.newFiles} without a baseline, ${summary.missingFiles} baselines without a file`,
+  );
+  if (summary.noTextFiles > 0) {
+    console.log(
+      `Left out ${summary.noTextFiles} files without a usable text layer or a baseline (the parser reads them through OCR)`,
+    );
+  }
+  if (options.update) console.log(`Baseline updated in ${BASELINE_DIR}`);
+  else if (summary.newFiles > 0 || summary.filesWithDifferences > 0) {
+    console.log("Accept the current results as the new baseline with --update");
+  }
+  console.log(`Report: ${reportPath}`);
+}
+
+main().catch((err) => {
+  console.error("Regression run failed:", err);
+  process.exit(1);
+});
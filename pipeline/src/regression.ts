@@ -0,0 +1,214 @@
+/**
+ * Output comparison for `npm run regress` (regress.ts): each parsing function's output is
+ * flattened to keyed leaf values ("means[mitt barn trivs].meanSchool"), so a row added or
+ * dropped doesn't shift every row after it, and diffed against the stored baseline.
+ */
+import { canonicalJson } from "./validation.js";
+import type { FieldValue } from "./validation.js";
+
+/** The pure parsing functions re-run over every file, in the order they run */
+export const REGRESSION_FUNCTIONS = [
+  "parseTables",
+  "parseResponseDistributions",
+  "parseGenderSplitsFromLayout",
+  "parseDemographics",
+  "parseImportantQuestions",
+  "parseUnitMeans",
+] as const;
+
+export type RegressionFunction = (typeof REGRESSION_FUNCTIONS)[number];
+
+/** A function's output, or the message of the error it threw */
+export type FunctionOutput = { output: unknown } | { error: string };
+
+export interface FileResults {
+  /** Path relative to the source directory */
+  file: string;
+  year: number | null;
+  results: Record<RegressionFunction, FunctionOutput>;
+}
+
+export interface ChangedValue {
+  path: string;
+  before: FieldValue;
+  after: FieldValue;
+}
+
+export interface FunctionDiff {
+  /** Values the current run has and the baseline didn't */
+  gained: string[];
+  /** Values the baseline had and the current run doesn't */
+  lost: string[];
+  changed: ChangedValue[];
+}
+
+export interface FileDiff {
+  file: string;
+  year: number | null;
+  functions: Partial<Record<RegressionFunction, FunctionDiff>>;
+}
+
+/** Per function: how many reports gained, lost or changed at least one value, and how many values */
+export interface FunctionSummary {
+  reports: number;
+  gained: number;
+  lost: number;
+  changed: number;
+  gainedValues: number;
+  lostValues: number;
+  changedValues: number;
+}
+
+export interface RegressionSummary {
+  files: number;
+  /** Files without a baseline yet */
+  newFiles: number;
+  /** Baselines whose file is gone */
+  missingFiles: number;
+  /**
+   * Files without a usable text layer and without a baseline, left out: the parser reads them
+   * through OCR, not these functions
+   */
+  noTextFiles: number;
+  filesWithDifferences: number;
+  byYear: Record<string, Record<RegressionFunction, FunctionSummary>>;
+}
+
+/** Where a value was read rather than the value; layout shifts there would drown real changes */
+const IGNORED_FIELDS = new Set(["source"]);
+
+/** Identifies an output row across runs: unit + area for unit means, else the question or index name */
+function rowKey(row: Record<string, unknown>, index: number): string {
+  if (typeof row.unitName === "string" && typeof row.areaName === "string") {
+    return `${row.unitName} / ${row.areaName}`;
+  }
+  for (const field of ["questionText", "name"]) {
+    if (typeof row[field] === "string") return row[field] as string;
+  }
+  return `#${index}`;
+}
+
+/** Leaf values of an output by path; nulls, empty arrays and empty objects have no leaves */
+export function flattenOutput(
+  value: unknown,
+  prefix = "",
+  into: Record<string, FieldValue> = {},
+): Record<string, FieldValue> {
+  if (value === null || value === undefined) return into;
+  if (typeof value === "number" || typeof value === "string") {
+    into[prefix] = value;
+    return into;
+  }
+  if (typeof value === "boolean") {
+    into[prefix] = String(value);
+    return into;
+  }
+  if (Array.isArray(value)) {
+    if (value.every((v) => v === null || typeof v !== "object")) {
+      if (value.length > 0) into[prefix] = canonicalJson(value);
+      return into;
+    }
+    const seen = new Map<string, number>();
+    value.forEach((row, i) => {
+      let key = rowKey(row as Record<string, unknown>, i);
+      const n = (seen.get(key) ?? 0) + 1;
+      seen.set(key, n);
+      if (n > 1) key = `${key} (${n})`;
+      flattenOutput(row, `${prefix}[${key}]`, into);
+    });
+    return into;
+  }
+  for (const [field, v] of Object.entries(value as Record<string, unknown>)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    flattenOutput(v, prefix ? `${prefix}.${field}` : field, into);
+  }
+  return into;
+}
+
+function leaves(result: FunctionOutput | undefined): Record<string, FieldValue> {
+  if (!result) return {};
+  if ("error" in result) return { error: result.error };
+  return flattenOutput(result.output);
+}
+
+export function diffOutputs(baseline: FunctionOutput | undefined, current: FunctionOutput | undefined): FunctionDiff {
+  const before = leaves(baseline);
+  const after = leaves(current);
+  const diff: FunctionDiff = { gained: [], lost: [], changed: [] };
+  for (const [path, value] of Object.entries(after)) {
+    if (!(path in before)) diff.gained.push(path);
+    else if (before[path] !== value) diff.changed.push({ path, before: before[path], after: value });
+  }
+  for (const path of Object.keys(before)) {
+    if (!(path in after)) diff.lost.push(path);
+  }
+  return diff;
+}
+
+export function hasChanges(diff: FunctionDiff): boolean {
+  return diff.gained.length > 0 || diff.lost.length > 0 || diff.changed.length > 0;
+}
+
+/** Per-function differences of one file; functions without differences are left out */
+export function diffFile(baseline: FileResults | null, current: FileResults | null): FileDiff {
+  const file = (current ?? baseline)!;
+  const result: FileDiff = { file: file.file, year: file.year, functions: {} };
+  for (const fn of REGRESSION_FUNCTIONS) {
+    const diff = diffOutputs(baseline?.results[fn], current?.results[fn]);
+    if (hasChanges(diff)) result.functions[fn] = diff;
+  }
+  return result;
+}
+
+/**
+ * Results for a file pdftotext finds no usable text in: every function fails, so a file that had
+ * text in its baseline shows all its values as lost rather than being left out
+ */
+export function noTextResults(file: string, year: number | null): FileResults {
+  const results = {} as Record<RegressionFunction, FunctionOutput>;
+  for (const fn of REGRESSION_FUNCTIONS) results[fn] = { error: "No usable text layer" };
+  return { file, year, results };
+}
+
+function emptySummary(): FunctionSummary {
+  return { reports: 0, gained: 0, lost: 0, changed: 0, gainedValues: 0, lostValues: 0, changedValues: 0 };
+}
+
+export function emptyRegressionSummary(): RegressionSummary {
+  return { files: 0, newFiles: 0, missingFiles: 0, noTextFiles: 0, filesWithDifferences: 0, byYear: {} };
+}
+
+/** Count one compared file into the summary; files without differences count towards `reports` too */
+export function addFileDiff(summary: RegressionSummary, diff: FileDiff): void {
+  const yearKey = diff.year === null ? "unknown" : String(diff.year);
+  summary.byYear[yearKey] ??= Object.fromEntries(
+    REGRESSION_FUNCTIONS.map((fn) => [fn, emptySummary()]),
+  ) as Record<RegressionFunction, FunctionSummary>;
+  summary.files++;
+  if (Object.keys(diff.functions).length > 0) summary.filesWithDifferences++;
+  for (const fn of REGRESSION_FUNCTIONS) {
+    const s = summary.byYear[yearKey][fn];
+    s.reports++;
+    const d = diff.functions[fn];
+    if (!d) continue;
+    if (d.gained.length > 0) s.gained++;
+    if (d.lost.length > 0) s.lost++;
+    if (d.changed.length > 0) s.changed++;
+    s.gainedValues += d.gained.length;
+    s.lostValues += d.lost.length;
+    s.changedValues += d.changed.length;
+  }
+}
+
+/** The first `limit` entries of each list, for the written report */
+export function truncateDiff(diff: FileDiff, limit: number): FileDiff {
+  const functions: FileDiff["functions"] = {};
+  for (const [fn, d] of Object.entries(diff.functions) as [RegressionFunction, FunctionDiff][]) {
+    functions[fn] = {
+      gained: d.gained.slice(0, limit),
+      lost: d.lost.slice(0, limit),
+      changed: d.changed.slice(0, limit),
+    };
+  }
+  return { ...diff, functions };
+}
@@ -1,5 +1,48 @@
+/**
+ * Schema migrations runner (migrate.ts).
+ * Run: npm run schema               Apply pending migrations (same as `npm run schema -- up`)
+ *      npm run schema -- status     List applied and pending migrations and any drift
+ *      npm run schema -- down       Roll back the latest migration through its down section
+ */
 import "dotenv/config";
-import { ensureSchema } from "./db.js";
+import pool from "./db.js";
+import { describeDrift, migrateDown, migrateUp, migrationStatus } from "./migrate.js";
 
-await ensureSchema();
-process.exit(0);
+function formatVersion(version: number): string {
+  return String(version).padStart(3, "0");
+}
+
+async function printStatus() {
+  const status = await migrationStatus();
+  for (const a of status.applied) {
+    console.log(`  ${formatVersion(a.version)}-${a.name}  applied ${a.appliedAt.toISOString()}`);
+  }
+  for (const m of status.pending) console.log(`  ${m.file}  pending`);
+  console.log(`\nSchema version ${status.current}, latest ${status.latest}; ${status.pending.length} pending`);
+  if (status.drift.length > 0) console.log(`Drift: ${describeDrift(status.drift)}`);
+}
+
+async function main() {
+  const command = process.argv.slice(2).find((a) => !a.startsWith("--")) ?? "up";
+
+  if (command === "status") {
+    await printStatus();
+  } else if (command === "up") {
+    const applied = await migrateUp();
+    console.log(
+      applied.length > 0 ? `Schema migrated to version ${Math.max(...applied)}.` : "Schema is up to date.",
+    );
+  } else if (command === "down") {
+    const version = await migrateDown();
+    console.log(version !== null ? `Rolled back migration ${formatVersion(version)}.` : "No migrations applied.");
+  } else {
+    throw new Error(`Unknown command: ${command} (expected up, status or down)`);
+  }
+
+  await pool.end();
+}
+
+main().catch((err) => {
+  console.error("Schema migration failed:", err);
+  process.exit(1);
+});
@@ -1,25 +1,53 @@
 /**
- * Shared helpers for school dedup — used by crawler and parser.
+ * Shared helpers for school dedup — used by crawler and parser — and the manual identity
+ * operations of npm run schools (merge, split, rename), logged in school_identity_log.
  */
-import { query } from "./db.js";
+import { withTransaction } from "./db.js";
+import type pg from "pg";
+import type { Queryable } from "./db.js";
 import { computeCleanName, extractAddress } from "./normalize.js";
 
+/** The school `schoolId` ended up in, following merged_into through later merges */
+async function activeSchoolId(db: Queryable, schoolId: number): Promise<number> {
+  const { rows } = await db.query(
+    `WITH RECURSIVE chain AS (
+       SELECT id, merged_into FROM schools WHERE id = $1
+       UNION
+       SELECT s.id, s.merged_into FROM schools s JOIN chain c ON s.id = c.merged_into
+     )
+     SELECT id FROM chain WHERE merged_into IS NULL`,
+    [schoolId],
+  );
+  return rows[0]?.id ?? schoolId;
+}
+
 /**
  * Find or create a school, maintaining dedup by COALESCE(address, clean_name).
  * Records the name variant in school_name_variants for crawler matching.
  * Returns the canonical school_id.
+ * Pass a transaction client as `db` to make the lookup part of a larger transaction; without one
+ * it runs in its own. Concurrent callers with the same dedup key wait for each other (an advisory
+ * lock held until the transaction ends), so parse workers can't both create the same school.
+ *
+ * Manual merges, splits and renames carry over to later crawls: a name already seen in another
+ * year in the same district (area name) maps to the school its latest variant there belongs to,
+ * and a merged school redirects to the school it was merged into. Same-named schools in other
+ * districts don't count, so a split between them holds.
  */
 export async function findOrCreateSchool(
   originalName: string,
   urlSlug: string,
   areaId: number,
+  db?: Queryable,
 ): Promise<number> {
+  if (!db) return withTransaction((client) => findOrCreateSchool(originalName, urlSlug, areaId, client));
   const cleanName = computeCleanName(originalName);
   const address = extractAddress(cleanName);
   const dedupKey = address || cleanName;
+  await db.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [`school:${dedupKey.toLowerCase()}`]);
 
   // 1. Check school_name_variants for existing mapping
-  const variantResult = await query(
+  const variantResult = await db.query(
     `SELECT school_id FROM school_name_variants WHERE area_id = $1 AND url_slug = $2`,
     [areaId, urlSlug],
   );
@@ -27,31 +55,47 @@ export async function findOrCreateSchool(
     return variantResult.rows[0].school_id;
   }
 
-  // 2. Look up schools by dedup key
+  // 2. The same name in another year of the same district (areas are per year)
   let schoolId: number;
-  const schoolResult = await query(
-    `SELECT id FROM schools WHERE LOWER(COALESCE(address, clean_name)) = LOWER($1)`,
-    [dedupKey],
+  const seenResult = await db.query(
+    `SELECT v.school_id AS id
+     FROM school_name_variants v
+     JOIN areas a ON a.id = v.area_id
+     JOIN areas here ON here.id = $2
+     WHERE v.original_name = $1 AND LOWER(a.name) = LOWER(here.name)
+     ORDER BY a.year DESC, v.id DESC
+     LIMIT 1`,
+    [originalName, areaId],
   );
+  // 3. Look up schools by dedup key
+  const schoolResult =
+    seenResult.rows.length > 0
+      ? seenResult
+      : await db.query(
+          `SELECT id FROM schools WHERE LOWER(COALESCE(address, clean_name)) = LOWER($1)`,
+          [dedupKey],
+        );
 
   if (schoolResult.rows.length > 0) {
-    schoolId = schoolResult.rows[0].id;
-    // Update clean_name if current one is longer (more descriptive)
-    await query(
-      `UPDATE schools SET clean_name = $1 WHERE id = $2 AND LENGTH($1) > LENGTH(clean_name)`,
-      [cleanName, schoolId],
+    schoolId = await activeSchoolId(db, schoolResult.rows[0].id);
+    // Update clean_name if current one is longer (more descriptive), unless it was set by hand
+    await db.query(
+      `UPDATE schools SET clean_name = $1
+       WHERE id = $2 AND LENGTH($1) > LENGTH(clean_name) AND NOT name_locked
+         AND LOWER(COALESCE(address, clean_name)) = LOWER($3)`,
+      [cleanName, schoolId, dedupKey],
     );
   } else {
-    // 3. Insert new school
-    const insertResult = await query(
+    // 4. Insert new school
+    const insertResult = await db.query(
       `INSERT INTO schools (clean_name, address) VALUES ($1, $2) RETURNING id`,
       [cleanName, address],
     );
     schoolId = insertResult.rows[0].id;
   }
 
-  // 4. Record variant
-  await query(
+  // 5. Record variant
+  await db.query(
     `INSERT INTO school_name_variants (school_id, original_name, url_slug, area_id)
      VALUES ($1, $2, $3, $4)
      ON CONFLICT (area_id, url_slug) DO UPDATE SET school_id = $1, original_name = $2`,
@@ -60,3 +104,255 @@ export async function findOrCreateSchool(
 
   return schoolId;
 }
+
+export type IdentityOperation = "merge" | "split" | "rename";
+
+/** Who made an identity change and why */
+export interface IdentityChange {
+  by: string;
+  reason: string;
+}
+
+/** What a merge moved from the merged school to the kept one */
+export interface MergeDetails {
+  reports: number[];
+  /** Reports (XLS units) whose parent_school_id pointed at the merged school */
+  parentReports: number[];
+  variants: number[];
+  /** Schools merged into the merged school earlier, now redirected to the kept one */
+  mergedSchools: number[];
+}
+
+/** What a split moved to the new school */
+export interface SplitDetails {
+  name: string;
+  reports: number[];
+  parentReports: number[];
+  variants: number[];
+}
+
+export interface RenameDetails {
+  from: string;
+  to: string;
+  wasLocked: boolean;
+}
+
+interface SchoolRow {
+  id: number;
+  clean_name: string;
+  address: string | null;
+  merged_into: number | null;
+  name_locked: boolean;
+}
+
+/** Lock a school for an identity change; merged schools can't take part in one */
+async function lockActiveSchool(db: Queryable, schoolId: number): Promise<SchoolRow> {
+  const { rows } = await db.query<SchoolRow>(
+    `SELECT id, clean_name, address, merged_into, name_locked FROM schools WHERE id = $1 FOR UPDATE`,
+    [schoolId],
+  );
+  if (rows.length === 0) throw new Error(`No school #${schoolId}`);
+  if (rows[0].merged_into !== null) throw new Error(`School #${schoolId} was merged into #${rows[0].merged_into}`);
+  return rows[0];
+}
+
+/** Throw if another school already has the dedup key `name` (and `address`) would give */
+async function assertDedupKeyFree(db: Queryable, cleanName: string, address: string | null, exceptId: number | null) {
+  const { rows } = await db.query(
+    `SELECT id FROM schools WHERE LOWER(COALESCE(address, clean_name)) = LOWER($1) AND id IS DISTINCT FROM $2`,
+    [address || cleanName, exceptId],
+  );
+  if (rows.length > 0) {
+    throw new Error(`School #${rows[0].id} already has the name or address "${address || cleanName}"; merge into it instead`);
+  }
+}
+
+async function logIdentityChange(
+  db: Queryable,
+  operation: IdentityOperation,
+  schoolId: number,
+  otherSchoolId: number | null,
+  details: MergeDetails | SplitDetails | RenameDetails,
+  change: IdentityChange,
+): Promise<number> {
+  const { rows } = await db.query(
+    `INSERT INTO school_identity_log (operation, school_id, other_school_id, details, reason, performed_by)
+     VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+    [operation, schoolId, otherSchoolId, JSON.stringify(details), change.reason, change.by],
+  );
+  return rows[0].id;
+}
+
+const ids = (rows: pg.QueryResultRow[]): number[] => rows.map((r) => r.id);
+
+/**
+ * Merge `removeId` into `keepId`: its reports, XLS child reports and name variants move to the
+ * kept school, and the merged school stays as a redirect (merged_into). Run inside a transaction.
+ * Returns the log id.
+ */
+export async function mergeSchools(db: Queryable, keepId: number, removeId: number, change: IdentityChange): Promise<number> {
+  if (keepId === removeId) throw new Error("Can't merge a school into itself");
+  await lockActiveSchool(db, keepId);
+  await lockActiveSchool(db, removeId);
+
+  const details: MergeDetails = {
+    reports: ids((await db.query(`UPDATE pdf_reports SET school_id = $1 WHERE school_id = $2 RETURNING id`, [keepId, removeId])).rows),
+    parentReports: ids(
+      (await db.query(`UPDATE pdf_reports SET parent_school_id = $1 WHERE parent_school_id = $2 RETURNING id`, [keepId, removeId])).rows,
+    ),
+    variants: ids(
+      (await db.query(`UPDATE school_name_variants SET school_id = $1 WHERE school_id = $2 RETURNING id`, [keepId, removeId])).rows,
+    ),
+    mergedSchools: ids((await db.query(`UPDATE schools SET merged_into = $1 WHERE merged_into = $2 RETURNING id`, [keepId, removeId])).rows),
+  };
+  await db.query(`UPDATE schools SET merged_into = $1 WHERE id = $2`, [keepId, removeId]);
+  return logIdentityChange(db, "merge", keepId, removeId, details, change);
+}
+
+/**
+ * Split name variants (and their reports) off `schoolId` into a new school called `name` (or the
+ * school of that name merged into it earlier).
+ * Without `reportIds`, the reports that move are the school's reports in the moved variants'
+ * areas, which is only unambiguous when no variant staying behind is in one of those areas.
+ * XLS unit reports of a moved report move their parent_school_id along. Run inside a transaction.
+ */
+export async function splitSchool(
+  db: Queryable,
+  schoolId: number,
+  split: { name: string; variantIds: number[]; reportIds?: number[] },
+  change: IdentityChange,
+): Promise<{ logId: number; newSchoolId: number }> {
+  await lockActiveSchool(db, schoolId);
+  const { rows: variants } = await db.query<{ id: number; area_id: number }>(
+    `SELECT id, area_id FROM school_name_variants WHERE school_id = $1`,
+    [schoolId],
+  );
+  const moving = variants.filter((v) => split.variantIds.includes(v.id));
+  const unknown = split.variantIds.filter((id) => !moving.some((v) => v.id === id));
+  if (unknown.length > 0) throw new Error(`Name variants ${unknown.join(", ")} don't belong to school #${schoolId}`);
+  if (moving.length === 0) throw new Error("Choose the name variants to split off");
+  if (moving.length === variants.length) throw new Error("Every name variant would move; rename the school instead");
+
+  let reportIds: number[];
+  if (split.reportIds) {
+    const { rows } = await db.query(`SELECT id FROM pdf_reports WHERE school_id = $1 AND id = ANY($2)`, [schoolId, split.reportIds]);
+    const foreign = split.reportIds.filter((id) => !rows.some((r) => r.id === id));
+    if (foreign.length > 0) throw new Error(`Reports ${foreign.join(", ")} don't belong to school #${schoolId}`);
+    reportIds = split.reportIds;
+  } else {
+    const movingAreas = new Set(moving.map((v) => v.area_id));
+    const shared = variants.find((v) => !moving.includes(v) && movingAreas.has(v.area_id));
+    if (shared) {
+      throw new Error(`Area #${shared.area_id} has a variant staying with school #${schoolId}; choose the reports with --reports=`);
+    }
+    const { rows } = await db.query(`SELECT id FROM pdf_reports WHERE school_id = $1 AND area_id = ANY($2)`, [schoolId, [...movingAreas]]);
+    reportIds = ids(rows);
+  }
+
+  const cleanName = computeCleanName(split.name);
+  const address = extractAddress(cleanName);
+  // Splitting out a school merged into this one earlier brings its row back instead of a new one
+  const { rows: merged } = await db.query(
+    `UPDATE schools SET merged_into = NULL, clean_name = $1, name_locked = TRUE
+     WHERE merged_into = $2 AND LOWER(COALESCE(address, clean_name)) = LOWER($3)
+     RETURNING id`,
+    [cleanName, schoolId, address || cleanName],
+  );
+  let newSchoolId: number;
+  if (merged.length > 0) {
+    newSchoolId = merged[0].id;
+  } else {
+    await assertDedupKeyFree(db, cleanName, address, null);
+    const { rows: created } = await db.query(
+      `INSERT INTO schools (clean_name, address, name_locked) VALUES ($1, $2, TRUE) RETURNING id`,
+      [cleanName, address],
+    );
+    newSchoolId = created[0].id;
+  }
+
+  const details: SplitDetails = {
+    name: split.name,
+    reports: ids((await db.query(`UPDATE pdf_reports SET school_id = $1 WHERE id = ANY($2) RETURNING id`, [newSchoolId, reportIds])).rows),
+    // XLS unit reports share their workbook's URL up to the '#'
+    parentReports: ids(
+      (
+        await db.query(
+          `UPDATE pdf_reports SET parent_school_id = $1
+           WHERE parent_school_id = $2
+             AND split_part(pdf_url, '#', 1) IN (SELECT pdf_url FROM pdf_reports WHERE id = ANY($3))
+           RETURNING id`,
+          [newSchoolId, schoolId, reportIds],
+        )
+      ).rows,
+    ),
+    variants: ids(
+      (await db.query(`UPDATE school_name_variants SET school_id = $1 WHERE id = ANY($2) RETURNING id`, [newSchoolId, split.variantIds])).rows,
+    ),
+  };
+  const logId = await logIdentityChange(db, "split", schoolId, newSchoolId, details, change);
+  return { logId, newSchoolId };
+}
+
+/** Rename a school; the name is locked against longer crawled names. Run inside a transaction. */
+export async function renameSchool(db: Queryable, schoolId: number, name: string, change: IdentityChange): Promise<number> {
+  const school = await lockActiveSchool(db, schoolId);
+  const cleanName = computeCleanName(name);
+  await assertDedupKeyFree(db, cleanName, school.address, schoolId);
+  await db.query(`UPDATE schools SET clean_name = $1, name_locked = TRUE WHERE id = $2`, [cleanName, schoolId]);
+  const details: RenameDetails = { from: school.clean_name, to: cleanName, wasLocked: school.name_locked };
+  return logIdentityChange(db, "rename", schoolId, null, details, change);
+}
+
+/**
+ * Undo a logged identity change. Only the latest change involving its schools can be reverted,
+ * so later changes never lose what they moved. Run inside a transaction.
+ */
+export async function revertIdentityChange(db: Queryable, logId: number, change: IdentityChange): Promise<void> {
+  const { rows } = await db.query(`SELECT * FROM school_identity_log WHERE id = $1 FOR UPDATE`, [logId]);
+  if (rows.length === 0) throw new Error(`No identity change #${logId}`);
+  const entry = rows[0];
+  if (entry.reverted_at !== null) throw new Error(`Identity change #${logId} was already reverted`);
+
+  const schools = [entry.school_id, entry.other_school_id].filter((id) => id !== null);
+  const later = await db.query(
+    `SELECT id FROM school_identity_log
+     WHERE id > $1 AND reverted_at IS NULL AND (school_id = ANY($2) OR other_school_id = ANY($2))
+     ORDER BY id DESC LIMIT 1`,
+    [logId, schools],
+  );
+  if (later.rows.length > 0) throw new Error(`Revert the later change #${later.rows[0].id} to these schools first`);
+
+  if (entry.operation === "merge") {
+    const d = entry.details as MergeDetails;
+    const [keepId, removeId] = [entry.school_id, entry.other_school_id];
+    await db.query(`UPDATE schools SET merged_into = NULL WHERE id = $1`, [removeId]);
+    await db.query(`UPDATE pdf_reports SET school_id = $1 WHERE id = ANY($2) AND school_id = $3`, [removeId, d.reports, keepId]);
+    await db.query(`UPDATE pdf_reports SET parent_school_id = $1 WHERE id = ANY($2) AND parent_school_id = $3`, [
+      removeId,
+      d.parentReports,
+      keepId,
+    ]);
+    await db.query(`UPDATE school_name_variants SET school_id = $1 WHERE id = ANY($2) AND school_id = $3`, [removeId, d.variants, keepId]);
+    await db.query(`UPDATE schools SET merged_into = $1 WHERE id = ANY($2) AND merged_into = $3`, [removeId, d.mergedSchools, keepId]);
+  } else if (entry.operation === "split") {
+    // Everything on the new school goes back, including what later crawls added to it; the new
+    // school stays as a redirect so its name keeps leading to the original school
+    const [originalId, newId] = [entry.school_id, entry.other_school_id];
+    await db.query(`UPDATE pdf_reports SET school_id = $1 WHERE school_id = $2`, [originalId, newId]);
+    await db.query(`UPDATE pdf_reports SET parent_school_id = $1 WHERE parent_school_id = $2`, [originalId, newId]);
+    await db.query(`UPDATE school_name_variants SET school_id = $1 WHERE school_id = $2`, [originalId, newId]);
+    await db.query(`UPDATE schools SET merged_into = $1 WHERE id = $2`, [originalId, newId]);
+  } else if (entry.operation === "rename") {
+    const d = entry.details as RenameDetails;
+    const { rows: school } = await db.query(`SELECT address FROM schools WHERE id = $1`, [entry.school_id]);
+    await assertDedupKeyFree(db, d.from, school[0].address, entry.school_id);
+    await db.query(`UPDATE schools SET clean_name = $1, name_locked = $2 WHERE id = $3`, [d.from, d.wasLocked, entry.school_id]);
+  } else {
+    throw new Error(`Unknown identity operation: ${entry.operation}`);
+  }
+
+  await db.query(
+    `UPDATE school_identity_log SET reverted_at = NOW(), reverted_by = $1, revert_reason = $2 WHERE id = $3`,
+    [change.by, change.reason, logId],
+  );
+}
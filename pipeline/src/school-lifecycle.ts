@@ -0,0 +1,93 @@
+/**
+ * School lifecycle for the export (export.ts): from the years a school has reports and the name and
+ * area it was listed under each year, when it was first and last surveyed, the full survey years it
+ * is missing in between, and its names and areas over time. index.json only lists a school per year,
+ * so without this a closed, renamed or simply unsurveyed school all look the same.
+ */
+import { schoolMatchKey } from "./normalize.js";
+
+/** A school's listing in one survey year */
+export interface SchoolYear {
+  year: number;
+  name: string;
+  area: string;
+}
+
+export interface YearSpan {
+  from: number;
+  to: number;
+}
+
+export interface NamedSpan extends YearSpan {
+  name: string;
+}
+
+export interface SchoolHistory {
+  firstYear: number;
+  lastYear: number;
+  /** Full survey years between the first and last year without a report for the school */
+  gaps: YearSpan[];
+  /**
+   * Names, oldest first; consecutive years under the same name form one span. Names differing only
+   * in case, punctuation or "förskola(n)" (schoolMatchKey) count as the same
+   */
+  names: NamedSpan[];
+  /** Areas, oldest first, spanned like names */
+  areas: NamedSpan[];
+  /** Surveyed in the latest full survey year; false means closed or no longer surveyed */
+  current: boolean;
+}
+
+/**
+ * Share of the largest year's schools a year needs to count as a full survey. Some years only
+ * surveyed a sample (ECERS 2015-2016), and missing one of those says nothing about a school.
+ */
+export const FULL_SURVEY_SHARE = 0.5;
+
+/** Years where most schools were surveyed, from the number of schools with reports per year */
+export function fullSurveyYears(schoolsPerYear: Map<number, number>): number[] {
+  const most = Math.max(0, ...schoolsPerYear.values());
+  return [...schoolsPerYear]
+    .filter(([, count]) => count >= most * FULL_SURVEY_SHARE)
+    .map(([year]) => year)
+    .sort((a, b) => a - b);
+}
+
+/** Consecutive years with the same value (by `key`) as spans, named after the span's first year */
+function spans(years: SchoolYear[], value: (y: SchoolYear) => string, key: (v: string) => string): NamedSpan[] {
+  const result: NamedSpan[] = [];
+  for (const y of years) {
+    const last = result[result.length - 1];
+    if (last && key(last.name) === key(value(y))) last.to = y.year;
+    else result.push({ name: value(y), from: y.year, to: y.year });
+  }
+  return result;
+}
+
+/** A school's lifecycle; null for a school without any year */
+export function deriveSchoolHistory(years: SchoolYear[], surveyYears: number[]): SchoolHistory | null {
+  if (years.length === 0) return null;
+  const sorted = [...years].sort((a, b) => a.year - b.year);
+  const firstYear = sorted[0].year;
+  const lastYear = sorted[sorted.length - 1].year;
+  const surveyed = new Set(sorted.map((y) => y.year));
+
+  const gaps: YearSpan[] = [];
+  let previousMissing = false;
+  for (const year of surveyYears) {
+    if (year <= firstYear || year >= lastYear) continue;
+    const missing = !surveyed.has(year);
+    if (missing && previousMissing) gaps[gaps.length - 1].to = year;
+    else if (missing) gaps.push({ from: year, to: year });
+    previousMissing = missing;
+  }
+
+  return {
+    firstYear,
+    lastYear,
+    gaps,
+    names: spans(sorted, (y) => y.name, schoolMatchKey),
+    areas: spans(sorted, (y) => y.area, (area) => area.toLowerCase()),
+    current: surveyYears.length === 0 || lastYear >= surveyYears[surveyYears.length - 1],
+  };
+}
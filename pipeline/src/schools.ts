@@ -0,0 +1,260 @@
+/**
+ * Manual school identity fixes (school-helpers.ts), each logged in school_identity_log with who,
+ * when and why, and kept by later crawls.
+ *
+ * Run: npm run schools -- show 12                                      Name variants, reports and identity log of a school
+ *      npm run schools -- log [--school=12]                            Identity changes, newest first
+ *      npm run schools -- merge 12 34 --reason="…"                     Merge school 34 into 12
+ *      npm run schools -- split 12 --name="…" --variants=5,6 --reason="…"  Move name variants (and their reports) to a new school
+ *      npm run schools -- rename 12 --name="…" --reason="…"            Set a school's name by hand
+ *      npm run schools -- revert 7 --reason="…"                        Undo identity change #7
+ *      npm run schools -- duplicates [--min-score=0.5] [--limit=50]   Likely duplicate schools, best first
+ *      npm run schools -- duplicates --accept=12+34 [--reason="…"]    Merge reviewed pairs (into the first school listed)
+ *      npm run schools -- duplicates --reject=12+34 --reason="…"      Different schools; never suggested again
+ *
+ * --by= names who made the change (default: the current user); --reports=ID,… picks the reports
+ * a split moves when the name variants alone don't decide it.
+ */
+import "dotenv/config";
+import { userInfo } from "node:os";
+import { query, withTransaction } from "./db.js";
+import pool from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
+import { DEFAULT_MIN_SCORE, findDuplicateCandidates, pairKey, scorePair } from "./duplicate-detection.js";
+import type { SchoolProfile } from "./duplicate-detection.js";
+import { mergeSchools, renameSchool, revertIdentityChange, splitSchool } from "./school-helpers.js";
+import type { IdentityChange } from "./school-helpers.js";
+
+function parseIds(arg: string): number[] {
+  const ids = arg.split("=")[1].split(",").map((s) => parseInt(s, 10));
+  if (ids.some((id) => !Number.isInteger(id))) throw new Error(`Invalid ids: ${arg}`);
+  return ids;
+}
+
+/** "--accept=12+34,56+78" → [[12, 34], [56, 78]] */
+function parsePairs(arg: string): [number, number][] {
+  return arg
+    .split("=")[1]
+    .split(",")
+    .map((pair) => {
+      const m = pair.match(/^(\d+)\+(\d+)$/);
+      if (!m || m[1] === m[2]) throw new Error(`Invalid school pair: ${pair} (expected ID+ID)`);
+      return [parseInt(m[1], 10), parseInt(m[2], 10)];
+    });
+}
+
+function parseId(value: string | undefined, what: string): number {
+  const id = parseInt(value ?? "", 10);
+  if (!Number.isInteger(id)) throw new Error(`Expected ${what} id, got ${value ?? "nothing"}`);
+  return id;
+}
+
+function option(args: string[], name: string): string | undefined {
+  return args.find((a) => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+function identityChange(args: string[], defaultReason?: string): IdentityChange {
+  const reason = option(args, "reason")?.trim() || defaultReason;
+  if (!reason) throw new Error("Say why with --reason=\"…\"");
+  return { by: option(args, "by") || process.env.USER || userInfo().username, reason };
+}
+
+async function printLog(schoolId: number | null) {
+  const { rows } = await query(
+    `SELECT l.*, s.clean_name AS school_name, o.clean_name AS other_name
+     FROM school_identity_log l
+     JOIN schools s ON s.id = l.school_id
+     LEFT JOIN schools o ON o.id = l.other_school_id
+     WHERE $1::int IS NULL OR l.school_id = $1 OR l.other_school_id = $1
+     ORDER BY l.id DESC`,
+    [schoolId],
+  );
+  if (rows.length === 0) {
+    console.log("No identity changes");
+    return;
+  }
+  for (const r of rows) {
+    const what =
+      r.operation === "merge"
+        ? `merged #${r.other_school_id} "${r.other_name}" into #${r.school_id} "${r.school_name}"`
+        : r.operation === "split"
+          ? `split #${r.other_school_id} "${r.other_name}" off #${r.school_id} "${r.school_name}"`
+          : `renamed #${r.school_id} "${r.details.from}" → "${r.details.to}"`;
+    console.log(`#${r.id}  ${r.performed_at.toISOString().slice(0, 10)}  ${r.performed_by}: ${what}`);
+    console.log(`  ${r.reason}`);
+    if (r.reverted_at) {
+      console.log(`  reverted ${r.reverted_at.toISOString().slice(0, 10)} by ${r.reverted_by}: ${r.revert_reason}`);
+    }
+  }
+}
+
+async function showSchool(schoolId: number) {
+  const { rows: schools } = await query(`SELECT * FROM schools WHERE id = $1`, [schoolId]);
+  if (schools.length === 0) throw new Error(`No school #${schoolId}`);
+  const school = schools[0];
+  console.log(`#${school.id} ${school.clean_name}${school.name_locked ? " (name set by hand)" : ""}`);
+  if (school.merged_into !== null) console.log(`Merged into #${school.merged_into}`);
+
+  const { rows: variants } = await query(
+    `SELECT v.id, v.original_name, a.name AS area, a.year
+     FROM school_name_variants v JOIN areas a ON a.id = v.area_id
+     WHERE v.school_id = $1 ORDER BY a.year, v.id`,
+    [schoolId],
+  );
+  console.log(`\nName variants`);
+  for (const v of variants) console.log(`  #${v.id}  ${v.year}  ${v.original_name} (${v.area})`);
+
+  const { rows: reports } = await query(
+    `SELECT id, year, report_type, unit_name, parsed_at, parse_error, parent_school_id = $1 AS as_parent
+     FROM pdf_reports WHERE school_id = $1 OR parent_school_id = $1 ORDER BY year, id`,
+    [schoolId],
+  );
+  console.log(`\nReports`);
+  for (const r of reports) {
+    const status = r.parse_error ? "parse failed" : r.parsed_at ? "parsed" : "not parsed";
+    console.log(`  #${r.id}  ${r.year}  ${r.unit_name ?? r.report_type}${r.as_parent ? " (workbook unit)" : ""}  ${status}`);
+  }
+
+  console.log(`\nIdentity log`);
+  await printLog(schoolId);
+}
+
+/** Schools not merged away, with the areas and years the duplicate finder compares */
+async function loadSchoolProfiles(): Promise<Map<number, SchoolProfile>> {
+  const { rows } = await query(
+    `SELECT s.id, s.clean_name, s.lat, s.lng,
+            ARRAY(SELECT DISTINCT a.name FROM school_name_variants v JOIN areas a ON a.id = v.area_id
+                  WHERE v.school_id = s.id ORDER BY a.name) AS areas,
+            ARRAY(SELECT DISTINCT pr.year FROM pdf_reports pr WHERE pr.school_id = s.id ORDER BY pr.year) AS years
+     FROM schools s
+     WHERE s.merged_into IS NULL
+     ORDER BY s.id`,
+  );
+  return new Map(
+    rows.map((r) => [r.id, { id: r.id, name: r.clean_name, lat: r.lat, lng: r.lng, areas: r.areas, years: r.years }]),
+  );
+}
+
+async function listDuplicates(minScore: number, limit: number) {
+  const schools = await loadSchoolProfiles();
+  const dismissed = await query(`SELECT school_id, other_school_id FROM school_duplicate_dismissals`);
+  const candidates = findDuplicateCandidates(
+    [...schools.values()],
+    minScore,
+    new Set(dismissed.rows.map((r) => pairKey(r.school_id, r.other_school_id))),
+  );
+  if (candidates.length === 0) {
+    console.log(`No duplicate candidates scoring ${minScore} or more`);
+    return;
+  }
+
+  console.log(`${candidates.length} duplicate candidates scoring ${minScore} or more${candidates.length > limit ? `, best ${limit}` : ""}\n`);
+  for (const c of candidates.slice(0, limit)) {
+    const keep = schools.get(c.keepId)!;
+    const merge = schools.get(c.mergeId)!;
+    console.log(`${c.keepId}+${c.mergeId}  score ${c.score.toFixed(2)}`);
+    console.log(`  keep  #${keep.id} "${keep.name}" (${keep.years.join(", ") || "no reports"})`);
+    console.log(`  merge #${merge.id} "${merge.name}" (${merge.years.join(", ") || "no reports"})`);
+    console.log(`  ${c.reasons.join("; ")}`);
+  }
+  console.log("\nMerge with --accept=KEEP+MERGE[,…], or record as different schools with --reject=ID+ID[,…] --reason=\"…\"");
+}
+
+/** Merge each accepted pair, the first id being the school kept */
+async function acceptDuplicates(pairs: [number, number][], args: string[]) {
+  const schools = await loadSchoolProfiles();
+  for (const [keepId, mergeId] of pairs) {
+    const [keep, merge] = [schools.get(keepId), schools.get(mergeId)];
+    if (!keep || !merge) throw new Error(`No active school #${keep ? mergeId : keepId}`);
+    const candidate = scorePair(keep, merge);
+    const change = identityChange(
+      args,
+      `Duplicate candidate${candidate ? ` (score ${candidate.score.toFixed(2)}: ${candidate.reasons.join("; ")})` : ""}`,
+    );
+    const logId = await withTransaction((client) => mergeSchools(client, keepId, mergeId, change));
+    schools.delete(mergeId);
+    console.log(`Merged school #${mergeId} into #${keepId} (log #${logId})`);
+  }
+}
+
+async function rejectDuplicates(pairs: [number, number][], change: IdentityChange) {
+  for (const [a, b] of pairs) {
+    await query(
+      `INSERT INTO school_duplicate_dismissals (school_id, other_school_id, reason, performed_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (school_id, other_school_id) DO UPDATE SET reason = $3, performed_by = $4, performed_at = NOW()`,
+      [Math.min(a, b), Math.max(a, b), change.reason, change.by],
+    );
+    console.log(`Recorded #${a} and #${b} as different schools`);
+  }
+}
+
+async function main() {
+  await assertSchemaCurrent();
+
+  const args = process.argv.slice(2);
+  const [command, ...positional] = args.filter((a) => !a.startsWith("--"));
+
+  if (command === "log" || command === undefined) {
+    const schoolArg = option(args, "school");
+    await printLog(schoolArg !== undefined ? parseId(schoolArg, "school") : null);
+  } else if (command === "show") {
+    await showSchool(parseId(positional[0], "school"));
+  } else if (command === "merge") {
+    const [keepId, removeId] = [parseId(positional[0], "school"), parseId(positional[1], "school")];
+    const change = identityChange(args);
+    const logId = await withTransaction((client) => mergeSchools(client, keepId, removeId, change));
+    console.log(`Merged school #${removeId} into #${keepId} (log #${logId})`);
+  } else if (command === "split") {
+    const schoolId = parseId(positional[0], "school");
+    const name = option(args, "name");
+    const variantsArg = args.find((a) => a.startsWith("--variants="));
+    const reportsArg = args.find((a) => a.startsWith("--reports="));
+    if (!name || !variantsArg) throw new Error("split needs --name= and --variants=");
+    const change = identityChange(args);
+    const { logId, newSchoolId } = await withTransaction((client) =>
+      splitSchool(
+        client,
+        schoolId,
+        { name, variantIds: parseIds(variantsArg), reportIds: reportsArg ? parseIds(reportsArg) : undefined },
+        change,
+      ),
+    );
+    console.log(`Split school #${newSchoolId} "${name}" off #${schoolId} (log #${logId})`);
+  } else if (command === "rename") {
+    const schoolId = parseId(positional[0], "school");
+    const name = option(args, "name");
+    if (!name) throw new Error("rename needs --name=");
+    const change = identityChange(args);
+    const logId = await withTransaction((client) => renameSchool(client, schoolId, name, change));
+    console.log(`Renamed school #${schoolId} (log #${logId})`);
+  } else if (command === "revert") {
+    const logId = parseId(positional[0], "identity change");
+    const change = identityChange(args);
+    await withTransaction((client) => revertIdentityChange(client, logId, change));
+    console.log(`Reverted identity change #${logId}`);
+  } else if (command === "duplicates") {
+    const acceptArg = args.find((a) => a.startsWith("--accept="));
+    const rejectArg = args.find((a) => a.startsWith("--reject="));
+    if (acceptArg || rejectArg) {
+      if (acceptArg) await acceptDuplicates(parsePairs(acceptArg), args);
+      if (rejectArg) await rejectDuplicates(parsePairs(rejectArg), identityChange(args));
+    } else {
+      const minScoreArg = option(args, "min-score");
+      const limitArg = option(args, "limit");
+      await listDuplicates(
+        minScoreArg !== undefined ? parseFloat(minScoreArg) : DEFAULT_MIN_SCORE,
+        limitArg !== undefined ? parseInt(limitArg, 10) : 50,
+      );
+    }
+  } else {
+    throw new Error(`Unknown command: ${command} (expected show, log, merge, split, rename, revert or duplicates)`);
+  }
+
+  await pool.end();
+}
+
+main().catch((err) => {
+  console.error("Schools failed:", err);
+  process.exit(1);
+});
@@ -4,34 +4,25 @@
  *
  * This does NOT write to the database — it's a dry-run diagnostic.
  * Run: npx tsx src/test-years.ts
+ *      npx tsx src/test-years.ts --record   (also save listing pages to data/http-cache/)
+ *      npx tsx src/test-years.ts --replay   (listing pages from data/http-cache/, PDFs from data/test-pdfs/)
  */
 import "dotenv/config";
 import * as cheerio from "cheerio";
 import { mkdir, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { parseTables, extractLayoutText } from "./parser/tables.js";
 import { extractTextItems } from "./parser/pdf-text.js";
-import {
-  parseResponseDistributions,
-  parseGenderSplits,
-  parseDemographics,
-  parseImportantQuestions,
-  parseUnitMeans,
-} from "./parser/charts.js";
+import { detectSurveyFormat, chartParsersFor, textItemProviderFor } from "./parser/formats/index.js";
+import { fetcherFromArgs } from "./http-cache.js";
 
 const BASE_URL = "https://enkater.goteborg.se";
 const DELAY_MS = 600;
 const TMP_DIR = join(dirname(new URL(import.meta.url).pathname), "../../data/test-pdfs");
 
-function sleep(ms: number) {
-  return new Promise((r) => setTimeout(r, ms));
-}
-
-async function fetchPage(url: string): Promise<string> {
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
-  return res.text();
-}
+// Listing pages go through the record/replay cache; the fetcher also spaces out live requests
+const { mode, fetchPage } = fetcherFromArgs(process.argv.slice(2), DELAY_MS);
 
 function parseLinks(html: string): Array<{ name: string; href: string }> {
   const $ = cheerio.load(html);
@@ -213,7 +204,6 @@ async function testYear(year: number): Promise<TestResult> {
 
   try {
     // 1. Discover category path
-    await sleep(DELAY_MS);
     const catPath = await discoverPreschoolCategoryPath(year);
     result.catPath = catPath;
     if (!catPath) {
@@ -222,7 +212,6 @@ async function testYear(year: number): Promise<TestResult> {
     }
 
     // 2. Discover areas
-    await sleep(DELAY_MS);
     const areaUrl = `${BASE_URL}/ListEnkater.aspx?kat=${catPath}`;
     const areaHtml = await fetchPage(areaUrl);
     const allAreaLinks = parseLinks(areaHtml)
@@ -250,7 +239,6 @@ async function testYear(year: number): Promise<TestResult> {
 
     // Try each area until we find a school-level PDF
     for (const area of areasToTry.slice(0, 3)) {
-      await sleep(DELAY_MS);
       const areaPageUrl = `${BASE_URL}/ListEnkater.aspx?kat=${catPath}%5c${area.slug}`;
       const areaPageHtml = await fetchPage(areaPageUrl);
 
@@ -264,7 +252,6 @@ async function testYear(year: number): Promise<TestResult> {
         // Found school sub-folders — pick first school, get its PDFs
         const school = schoolLinks[0];
         result.schoolName = school.name;
-        await sleep(DELAY_MS);
         const schoolPageUrl = `${BASE_URL}/ListEnkater.aspx?kat=${catPath}%5c${area.slug}%5c${school.slug}`;
         const schoolPageHtml = await fetchPage(schoolPageUrl);
         const pdfLinksOnPage = parseLinks(schoolPageHtml).filter((l) => l.href.toLowerCase().endsWith(".pdf"));
@@ -299,41 +286,39 @@ async function testYear(year: number): Promise<TestResult> {
     const pdfFilename = `test-${year}.pdf`;
     const localPath = join(TMP_DIR, pdfFilename);
 
-    const pdfRes = await fetch(pdfUrl);
-    if (!pdfRes.ok) {
-      result.error = `HTTP ${pdfRes.status} downloading PDF`;
-      return result;
+    if (mode === "replay") {
+      // Offline: reuse the previously downloaded test PDF
+      if (!existsSync(localPath)) {
+        result.error = `${pdfFilename} not downloaded (replay mode)`;
+        return result;
+      }
+    } else {
+      const pdfRes = await fetch(pdfUrl);
+      if (!pdfRes.ok) {
+        result.error = `HTTP ${pdfRes.status} downloading PDF`;
+        return result;
+      }
+      const pdfBuffer = Buffer.from(await pdfRes.arrayBuffer());
+      await writeFile(localPath, pdfBuffer);
     }
-    const pdfBuffer = Buffer.from(await pdfRes.arrayBuffer());
-    await writeFile(localPath, pdfBuffer);
     result.downloaded = true;
 
-    // 4. Detect PDF format (check scale)
+    // 4. Detect PDF format
     const layoutText = await extractLayoutText(localPath);
-
-    if (layoutText.includes("sjugradig") || layoutText.includes("1 och 7") || layoutText.includes("Utmärkt")) {
-      result.pdfFormat = "old-7point (2016-2018)";
-    } else if (layoutText.includes("Scandinfo") || layoutText.includes("ECERS")) {
-      result.pdfFormat = "ecers (2007-2015)";
-    } else if (layoutText.includes("1 och 5") || layoutText.includes("Instämmer helt")) {
-      result.pdfFormat = "new-5point (2019+)";
-    } else {
-      result.pdfFormat = "unknown";
-    }
+    const format = detectSurveyFormat(layoutText);
+    result.pdfFormat = format.id;
+    const charts = chartParsersFor(format);
 
     // 5. Parse the PDF
     const [tableData, textData] = await Promise.all([
       parseTables(layoutText),
-      extractTextItems(localPath),
+      extractTextItems(localPath, textItemProviderFor(format)),
     ]);
 
-    const distributions = parseResponseDistributions(layoutText);
-    const genderSplits = parseGenderSplits(textData.items, {
-      startPage: 1,
-      endPage: textData.pageCount,
-    });
-    const important = parseImportantQuestions(layoutText);
-    const unitMeans = parseUnitMeans(layoutText);
+    const distributions = charts.responseDistributions(layoutText, new Map());
+    const genderSplits = charts.genderSplits(layoutText, textData.items, textData.pageCount);
+    const important = charts.importantQuestions(layoutText);
+    const unitMeans = charts.unitMeans(layoutText);
 
     result.parseResult = {
       schoolName: tableData.metadata.schoolName,
@@ -8,8 +8,9 @@
  * Dry run: npm run geocode:validate -- --dry-run
  */
 import "dotenv/config";
-import { query, ensureSchema } from "./db.js";
+import { query } from "./db.js";
 import pool from "./db.js";
+import { assertSchemaCurrent } from "./migrate.js";
 
 const USER_AGENT = "forskoleenkaten-gbg/1.0";
 const CORRECTION_THRESHOLD_KM = 0.5;
@@ -76,7 +77,7 @@ async function structuredReGeocode(): Promise<number> {
   const result = await query<{ id: number; clean_name: string; address: string; lat: number; lng: number }>(
     `SELECT id, clean_name, address, lat, lng
      FROM schools
-     WHERE lat IS NOT NULL AND address IS NOT NULL
+     WHERE lat IS NOT NULL AND address IS NOT NULL AND merged_into IS NULL
      ORDER BY clean_name`,
   );
 
@@ -119,7 +120,7 @@ async function structuredReGeocode(): Promise<number> {
 // ── Main ────────────────────────────────────────────────────────────
 
 async function main() {
-  await ensureSchema();
+  await assertSchemaCurrent();
 
   if (dryRun) {
     console.log("** DRY RUN — no database changes will be made **\n");
@@ -1,187 +1,491 @@
 /**
- * Validate parsed data against source PDFs.
- * Picks random samples from each format era, re-extracts text via pdftotext,
- * and compares against stored DB values.
+ * Validate parsed data against the source files: re-parses reports and compares every table the
+ * parser writes (report_metadata, question_means, nki_indices, question_responses, gender_split,
+ * important_questions, unit_means) with what is stored, field by field.
  *
- * Run: npx tsx src/validate.ts
+ * Run: npm run validate                      3 random reports per survey year
+ *      npm run validate -- --year=2024       Only one survey year
+ *      npm run validate -- --format=7point   Only one survey format (xls for the 2007-2009 workbooks)
+ *      npm run validate -- --sample=10       Reports per year (default 3)
+ *      npm run validate -- --all             Every parsed report instead of a sample
+ *      npm run validate -- --out=DIR         Report directory (default data/validation)
+ *
+ * Writes validation.json (machine-readable) and validation.html (browsable) to the report directory.
+ * Reports read through OCR are left out (and counted in the report): they have no text layer to re-parse.
  */
 import "dotenv/config";
-import { query, ensureSchema } from "./db.js";
+import { existsSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join, dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { query } from "./db.js";
 import pool from "./db.js";
-import { extractLayoutText, parseTables } from "./parser/tables.js";
+import { assertSchemaCurrent } from "./migrate.js";
+import { extractLayoutText } from "./parser/tables.js";
+import { formatCoversYear, getSurveyFormat, listSurveyFormats } from "./parser/formats/index.js";
+import { readPdfReportRows, storedQuestionIds, xlsUnitRows } from "./parser/report-rows.js";
+import type { ReportRows } from "./parser/report-rows.js";
+import { parseXlsFile } from "./parser/xls.js";
+import type { XlsUnitData } from "./parser/xls.js";
+import {
+  canonicalJson,
+  compareTables,
+  emptyTables,
+  hasDifferences,
+  matchKey,
+  renderHtmlReport,
+  summarize,
+  toNumber,
+  VALIDATED_TABLES,
+} from "./validation.js";
+import type { ComparableTables, ReportValidation, ValidationReport } from "./validation.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_OUT_DIR = join(__dirname, "../../data/validation");
+const DEFAULT_SAMPLE = 3;
+
+/** XLS workbooks aren't a SurveyFormat; they are recognised by file extension (see parser/index.ts) */
+const XLS_FORMAT = { id: "xls", years: { from: 2007, to: 2009 } };
 
-interface ValidationResult {
-  reportId: number;
+interface ReportRow {
+  id: number;
   year: number;
-  schoolName: string;
-  pdfPath: string;
-  format: string;
-  dbQuestionCount: number;
-  parsedQuestionCount: number;
-  mismatches: Array<{
-    question: string;
-    field: string;
-    dbValue: number | null;
-    parsedValue: number | null;
-  }>;
-  missingInDb: string[];
-  missingInParse: string[];
+  local_path: string;
+  pdf_url: string;
+  unit_name: string | null;
+  report_category: string | null;
+  detected_format: string | null;
+  text_source: string | null;
+  school_name: string;
+}
+
+interface Options {
+  all: boolean;
+  year: number | null;
+  format: string | null;
+  sample: number | null;
+  outDir: string;
+}
+
+function isXls(path: string): boolean {
+  return /\.xlsx?$/i.test(path);
 }
 
-async function validateReport(reportId: number): Promise<ValidationResult> {
-  // Get report info
-  const reportRes = await query(
-    `SELECT pr.id, pr.local_path, pr.year, s.clean_name as school_name, a.name as area_name
+function parseOptions(args: string[]): Options {
+  const yearArg = args.find((a) => a.startsWith("--year="));
+  const formatArg = args.find((a) => a.startsWith("--format="));
+  const sampleArg = args.find((a) => a.startsWith("--sample="));
+  const outArg = args.find((a) => a.startsWith("--out="));
+  const all = args.includes("--all");
+
+  const year = yearArg ? yearArg.split("=")[1] : null;
+  if (year !== null && !/^\d{4}$/.test(year)) throw new Error(`Invalid year: ${yearArg}`);
+
+  const format = formatArg ? formatArg.split("=")[1] : null;
+  const formatIds = [XLS_FORMAT.id, ...listSurveyFormats().map((f) => f.id)];
+  if (format !== null && !formatIds.includes(format)) {
+    throw new Error(`Unknown format: ${format} (known: ${formatIds.join(", ")})`);
+  }
+
+  const sample = sampleArg ? parseInt(sampleArg.split("=")[1], 10) : DEFAULT_SAMPLE;
+  if (!Number.isInteger(sample) || sample < 1) throw new Error(`Invalid sample size: ${sampleArg}`);
+
+  return {
+    all,
+    year: year !== null ? parseInt(year, 10) : null,
+    format,
+    sample: all ? null : sample,
+    outDir: outArg ? resolve(outArg.split("=")[1]) : DEFAULT_OUT_DIR,
+  };
+}
+
+/** Whether a report can be in the requested format, before re-parsing tells for sure */
+function mayHaveFormat(report: ReportRow, format: string): boolean {
+  if (isXls(report.local_path)) return format === XLS_FORMAT.id;
+  if (format === XLS_FORMAT.id) return false;
+  if (report.detected_format) return report.detected_format === format;
+  return formatCoversYear(getSurveyFormat(format), report.year);
+}
+
+/** The reports to validate, and how many in scope were left out for being read through OCR */
+async function selectReports(options: Options): Promise<{ reports: ReportRow[]; skippedOcr: number }> {
+  // XLS workbook rows themselves hold no data; their sheets are stored as '#sheetId' unit reports
+  const { rows } = await query(
+    `SELECT pr.id, pr.year, pr.local_path, pr.pdf_url, pr.unit_name, pr.report_category,
+            pr.detected_format, pr.text_source, s.clean_name AS school_name
      FROM pdf_reports pr
-     JOIN schools s ON pr.school_id = s.id
-     JOIN areas a ON pr.area_id = a.id
-     WHERE pr.id = $1`,
+     JOIN schools s ON s.id = pr.school_id
+     WHERE pr.parsed_at IS NOT NULL
+       AND pr.parse_error IS NULL
+       AND pr.local_path IS NOT NULL
+       AND NOT (pr.local_path ~* '\\.xlsx?$' AND pr.pdf_url NOT LIKE '%#%')
+       AND ($1::int IS NULL OR pr.year = $1)
+     ORDER BY pr.year DESC, pr.id`,
+    [options.year],
+  );
+  const format = options.format;
+  const inScope = (rows as ReportRow[]).filter((r) => format === null || mayHaveFormat(r, format));
+  const candidates = inScope.filter((r) => r.text_source !== "ocr");
+  const skippedOcr = inScope.length - candidates.length;
+  if (options.all) return { reports: candidates, skippedOcr };
+
+  const byYear = new Map<number, ReportRow[]>();
+  for (const r of candidates) {
+    if (!byYear.has(r.year)) byYear.set(r.year, []);
+    byYear.get(r.year)!.push(r);
+  }
+  const sampled: ReportRow[] = [];
+  for (const reports of byYear.values()) {
+    const shuffled = reports
+      .map((r) => ({ r, order: Math.random() }))
+      .sort((a, b) => a.order - b.order)
+      .map(({ r }) => r);
+    sampled.push(...shuffled.slice(0, options.sample ?? DEFAULT_SAMPLE));
+  }
+  return { reports: sampled, skippedOcr };
+}
+
+// ── Stored side ──
+
+async function loadStoredTables(reportId: number): Promise<ComparableTables> {
+  const tables = emptyTables();
+
+  const meta = await query(`SELECT * FROM report_metadata WHERE pdf_report_id = $1`, [reportId]);
+  for (const m of meta.rows) {
+    tables.report_metadata.push({
+      key: "report",
+      values: {
+        response_rate: toNumber(m.response_rate),
+        respondents: toNumber(m.respondents),
+        total_invited: toNumber(m.total_invited),
+        birth_year_distribution: canonicalJson(m.birth_year_distribution),
+        child_gender_distribution: canonicalJson(m.child_gender_distribution),
+        parent_gender_distribution: canonicalJson(m.parent_gender_distribution),
+      },
+    });
+  }
+
+  const means = await query(
+    `SELECT q.text, qm.mean_gr, qm.mean_goteborg, qm.mean_district, qm.mean_school,
+            qm.historical_means, qm.index_school, qm.index_district
+     FROM question_means qm JOIN questions q ON q.id = qm.question_id
+     WHERE qm.pdf_report_id = $1`,
     [reportId],
   );
-  const report = reportRes.rows[0];
-
-  // Get DB means
-  const dbMeans = await query(
-    `SELECT q.text as question, qm.mean_gr, qm.mean_goteborg, qm.mean_district, qm.mean_school
-     FROM question_means qm
-     JOIN questions q ON q.id = qm.question_id
-     WHERE qm.pdf_report_id = $1
-     ORDER BY q.text`,
+  for (const m of means.rows) {
+    tables.question_means.push({
+      key: matchKey(m.text),
+      values: {
+        mean_school: toNumber(m.mean_school),
+        mean_goteborg: toNumber(m.mean_goteborg),
+        mean_district: toNumber(m.mean_district),
+        mean_gr: toNumber(m.mean_gr),
+        historical_means: canonicalJson(m.historical_means),
+        index_school: toNumber(m.index_school),
+        index_district: toNumber(m.index_district),
+      },
+    });
+  }
+
+  const nki = await query(
+    `SELECT name, value, benchmark_goteborg, benchmark_district FROM nki_indices WHERE pdf_report_id = $1`,
     [reportId],
   );
+  for (const n of nki.rows) {
+    tables.nki_indices.push({
+      key: n.name,
+      values: {
+        value: toNumber(n.value),
+        benchmark_goteborg: toNumber(n.benchmark_goteborg),
+        benchmark_district: toNumber(n.benchmark_district),
+      },
+    });
+  }
 
-  // Re-parse from PDF
-  const text = await extractLayoutText(report.local_path);
-  const parsed = parseTables(text);
+  const responses = await query(
+    `SELECT q.text, qr.pct_strongly_agree, qr.pct_agree, qr.pct_neither, qr.pct_disagree,
+            qr.pct_strongly_disagree, qr.pct_dont_know, qr.pct_no_answer
+     FROM question_responses qr JOIN questions q ON q.id = qr.question_id
+     WHERE qr.pdf_report_id = $1`,
+    [reportId],
+  );
+  for (const r of responses.rows) {
+    tables.question_responses.push({
+      key: matchKey(r.text),
+      values: {
+        pct_strongly_agree: toNumber(r.pct_strongly_agree),
+        pct_agree: toNumber(r.pct_agree),
+        pct_neither: toNumber(r.pct_neither),
+        pct_disagree: toNumber(r.pct_disagree),
+        pct_strongly_disagree: toNumber(r.pct_strongly_disagree),
+        pct_dont_know: toNumber(r.pct_dont_know),
+        pct_no_answer: toNumber(r.pct_no_answer),
+      },
+    });
+  }
 
-  // Detect format for logging
-  let format = "unknown";
-  if (/\bNKI,?\s+HELHET\b/i.test(text)) format = "scandinfo";
-  else if (/sjugradig/i.test(text) || /Otillräcklig/i.test(text)) {
-    if (/Resultat\s+per\s+fråga/i.test(text) && /\b20\d{2}\s+20\d{2}\b/.test(text)) format = "7point";
-    else format = "ecers";
-  } else format = "5point";
+  const gender = await query(
+    `SELECT q.text, gs.pct_total, gs.pct_flicka, gs.pct_pojke
+     FROM gender_split gs JOIN questions q ON q.id = gs.question_id
+     WHERE gs.pdf_report_id = $1`,
+    [reportId],
+  );
+  for (const g of gender.rows) {
+    tables.gender_split.push({
+      key: matchKey(g.text),
+      values: {
+        pct_total: toNumber(g.pct_total),
+        pct_flicka: toNumber(g.pct_flicka),
+        pct_pojke: toNumber(g.pct_pojke),
+      },
+    });
+  }
 
-  const result: ValidationResult = {
-    reportId,
-    year: report.year,
-    schoolName: report.school_name,
-    pdfPath: report.local_path,
-    format,
-    dbQuestionCount: dbMeans.rows.length,
-    parsedQuestionCount: parsed.means.length,
-    mismatches: [],
-    missingInDb: [],
-    missingInParse: [],
-  };
+  const important = await query(
+    `SELECT q.text, iq.rank, iq.pct
+     FROM important_questions iq JOIN questions q ON q.id = iq.question_id
+     WHERE iq.pdf_report_id = $1`,
+    [reportId],
+  );
+  for (const i of important.rows) {
+    tables.important_questions.push({
+      key: matchKey(i.text),
+      values: { rank: toNumber(i.rank), pct: toNumber(i.pct) },
+    });
+  }
 
-  // Build maps for comparison (normalize question text for matching)
-  const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, " ").trim().substring(0, 80);
+  const units = await query(
+    `SELECT um.unit_name, qa.name AS area, um.mean_value
+     FROM unit_means um JOIN question_areas qa ON qa.id = um.question_area_id
+     WHERE um.pdf_report_id = $1`,
+    [reportId],
+  );
+  for (const u of units.rows) {
+    tables.unit_means.push({
+      key: `${u.unit_name} / ${u.area}`,
+      values: { mean_value: toNumber(u.mean_value) },
+    });
+  }
+
+  return tables;
+}
+
+// ── Re-parsed side: the rows the parser would store (parser/report-rows.ts) ──
+
+async function comparableTables(rows: ReportRows): Promise<ComparableTables> {
+  const tables = emptyTables();
 
-  const dbMap = new Map<string, typeof dbMeans.rows[0]>();
-  for (const row of dbMeans.rows) {
-    dbMap.set(normalize(row.question), row);
+  if (rows.metadata) {
+    const { demographics } = rows.metadata;
+    tables.report_metadata.push({
+      key: "report",
+      values: {
+        response_rate: rows.metadata.responseRate,
+        respondents: rows.metadata.respondents,
+        total_invited: rows.metadata.totalInvited,
+        birth_year_distribution: canonicalJson(demographics?.birthYearDistribution),
+        child_gender_distribution: canonicalJson(demographics?.childGenderDistribution),
+        parent_gender_distribution: canonicalJson(demographics?.parentGenderDistribution),
+      },
+    });
   }
 
-  const parsedMap = new Map<string, typeof parsed.means[0]>();
-  for (const row of parsed.means) {
-    parsedMap.set(normalize(row.questionText), row);
+  for (const m of rows.means) {
+    tables.question_means.push({
+      key: matchKey(m.questionText),
+      values: {
+        mean_school: m.meanSchool,
+        mean_goteborg: m.meanGoteborg,
+        mean_district: m.meanDistrict,
+        mean_gr: m.meanGr,
+        historical_means: canonicalJson(m.historicalMeans),
+        index_school: m.indexSchool,
+        index_district: m.indexDistrict,
+      },
+      source: m.source,
+    });
   }
 
-  // Compare: check each DB entry against parsed
-  for (const [normQ, dbRow] of dbMap) {
-    const parsedRow = parsedMap.get(normQ);
-    if (!parsedRow) {
-      result.missingInParse.push(dbRow.question.substring(0, 80));
-      continue;
-    }
+  for (const n of rows.nkiIndices) {
+    tables.nki_indices.push({
+      key: n.name,
+      values: { value: n.value, benchmark_goteborg: n.benchmarkGoteborg, benchmark_district: n.benchmarkDistrict },
+      source: n.source,
+    });
+  }
 
-    // Compare values
-    const fields: Array<{ name: string; dbVal: number | null; parsedVal: number | null }> = [
-      { name: "mean_school", dbVal: dbRow.mean_school ? parseFloat(dbRow.mean_school) : null, parsedVal: parsedRow.meanSchool },
-      { name: "mean_goteborg", dbVal: dbRow.mean_goteborg ? parseFloat(dbRow.mean_goteborg) : null, parsedVal: parsedRow.meanGoteborg },
-      { name: "mean_district", dbVal: dbRow.mean_district ? parseFloat(dbRow.mean_district) : null, parsedVal: parsedRow.meanDistrict },
-      { name: "mean_gr", dbVal: dbRow.mean_gr ? parseFloat(dbRow.mean_gr) : null, parsedVal: parsedRow.meanGr },
-    ];
-
-    for (const f of fields) {
-      if (f.dbVal === null && f.parsedVal === null) continue;
-      if (f.dbVal !== null && f.parsedVal !== null && Math.abs(f.dbVal - f.parsedVal) < 0.011) continue;
-      result.mismatches.push({
-        question: dbRow.question.substring(0, 60),
-        field: f.name,
-        dbValue: f.dbVal,
-        parsedValue: f.parsedVal,
-      });
-    }
+  // The parser stores the means' questions before it matches distributions and gender splits
+  const stored = await storedQuestionIds(pool, [
+    ...rows.responses.map((r) => r.questionText),
+    ...rows.genderSplits.map((g) => g.questionText),
+  ]);
+  const known = (text: string) => stored.has(text) || rows.means.some((m) => m.questionText === text);
+
+  for (const d of rows.responses) {
+    if (!known(d.questionText)) continue;
+    tables.question_responses.push({
+      key: matchKey(d.questionText),
+      values: {
+        pct_strongly_agree: d.pctStronglyAgree,
+        pct_agree: d.pctAgree,
+        pct_neither: d.pctNeither,
+        pct_disagree: d.pctDisagree,
+        pct_strongly_disagree: d.pctStronglyDisagree,
+        pct_dont_know: d.pctDontKnow,
+        pct_no_answer: d.pctNoAnswer,
+      },
+      source: d.source,
+    });
   }
 
-  // Check for parsed rows not in DB
-  for (const [normQ, parsedRow] of parsedMap) {
-    if (!dbMap.has(normQ)) {
-      result.missingInParse.push(`EXTRA: ${parsedRow.questionText.substring(0, 80)}`);
-    }
+  for (const g of rows.genderSplits) {
+    if (!known(g.questionText)) continue;
+    tables.gender_split.push({
+      key: matchKey(g.questionText),
+      values: { pct_total: g.pctTotal, pct_flicka: g.pctFlicka, pct_pojke: g.pctPojke },
+      source: g.source,
+    });
   }
 
+  for (const i of rows.importantQuestions) {
+    tables.important_questions.push({
+      key: matchKey(i.questionText),
+      values: { rank: i.rank, pct: i.pct },
+    });
+  }
+
+  for (const u of rows.unitMeans) {
+    tables.unit_means.push({ key: `${u.unitName} / ${u.areaName}`, values: { mean_value: u.meanValue } });
+  }
+
+  return tables;
+}
+
+async function reparsePdf(path: string): Promise<{ format: string; tables: ComparableTables }> {
+  const layoutText = await extractLayoutText(path);
+  const { format, rows } = await readPdfReportRows(path, layoutText, () => {});
+  return { format: format.id, tables: await comparableTables(rows) };
+}
+
+const xlsCache = new Map<string, XlsUnitData[]>();
+
+async function reparseXlsUnit(report: ReportRow): Promise<ComparableTables> {
+  const sheetFormat = report.report_category === "foralder" ? "foralder" : "barn";
+  const cacheKey = `${report.local_path}|${sheetFormat}`;
+  if (!xlsCache.has(cacheKey)) xlsCache.set(cacheKey, await parseXlsFile(report.local_path, sheetFormat));
+
+  const sheetId = report.pdf_url.split("#")[1];
+  const unit = xlsCache.get(cacheKey)!.find((u) => u.sheetId === sheetId);
+  if (!unit) throw new Error(`Sheet ${sheetId} not found in ${report.local_path}`);
+  return comparableTables(xlsUnitRows(unit));
+}
+
+async function validateReport(report: ReportRow, options: Options): Promise<ReportValidation | null> {
+  const result: ReportValidation = {
+    reportId: report.id,
+    year: report.year,
+    schoolName: report.school_name,
+    unitName: report.unit_name,
+    path: report.local_path,
+    format: isXls(report.local_path) ? XLS_FORMAT.id : (report.detected_format ?? "?"),
+    tables: {},
+  };
+
+  try {
+    if (!existsSync(report.local_path)) throw new Error("Source file not found");
+    let parsed: ComparableTables;
+    if (isXls(report.local_path)) {
+      parsed = await reparseXlsUnit(report);
+    } else {
+      const reparsed = await reparsePdf(report.local_path);
+      result.format = reparsed.format;
+      parsed = reparsed.tables;
+    }
+    // Sampled by year or stored format; the re-parse decides
+    if (options.format !== null && result.format !== options.format) return null;
+    result.tables = compareTables(await loadStoredTables(report.id), parsed);
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+  }
   return result;
 }
 
-async function main() {
-  await ensureSchema();
-
-  // Pick 3 random reports from each year that has data
-  const years = [2025, 2024, 2023, 2022, 2021, 2020, 2018, 2017, 2016, 2015, 2014, 2013, 2012];
-
-  let totalMismatches = 0;
-  let totalReports = 0;
-
-  for (const year of years) {
-    const samples = await query(
-      `SELECT pr.id FROM pdf_reports pr
-       WHERE pr.year = $1
-         AND pr.parsed_at IS NOT NULL
-         AND pr.local_path IS NOT NULL
-         AND EXISTS (SELECT 1 FROM question_means qm WHERE qm.pdf_report_id = pr.id)
-       ORDER BY RANDOM() LIMIT 3`,
-      [year],
+function printResult(r: ReportValidation) {
+  const name = `${r.schoolName}${r.unitName ? ` / ${r.unitName}` : ""}`.substring(0, 50);
+  console.log(`  [${r.format}] Report #${r.reportId} ${name}`);
+  if (r.error) {
+    console.log(`    ERROR: ${r.error}`);
+    return;
+  }
+  if (!hasDifferences(r)) {
+    console.log("    ✓");
+    return;
+  }
+  for (const table of VALIDATED_TABLES) {
+    const c = r.tables[table];
+    if (!c || (c.mismatches.length === 0 && c.missingInDb.length === 0 && c.missingInParse.length === 0)) continue;
+    console.log(
+      `    ${table}: ${c.dbRows} stored, ${c.parsedRows} re-parsed → ${c.mismatches.length} mismatches, ` +
+        `${c.missingInDb.length} only re-parsed, ${c.missingInParse.length} only stored`,
     );
-
-    if (samples.rows.length === 0) {
-      console.log(`\n${year}: No parsed reports with means found`);
-      continue;
+    for (const m of c.mismatches.slice(0, 3)) {
+      console.log(`      "${m.key.substring(0, 60)}" ${m.field}: DB=${m.dbValue} vs Parsed=${m.parsedValue}`);
+      if (m.source) console.log(`        page ${m.source.page}, line ${m.source.line}: ${m.source.text}`);
     }
+    if (c.mismatches.length > 3) console.log(`      ... and ${c.mismatches.length - 3} more`);
+  }
+}
+
+async function main() {
+  await assertSchemaCurrent();
+  const options = parseOptions(process.argv.slice(2));
+
+  const { reports, skippedOcr } = await selectReports(options);
+  const scope = options.all ? "all" : `up to ${options.sample} per year`;
+  console.log(
+    `Validating ${reports.length} reports (${scope}` +
+      `${options.year ? `, ${options.year}` : ""}${options.format ? `, ${options.format}` : ""})`,
+  );
+  if (skippedOcr > 0) console.log(`Leaving out ${skippedOcr} reports read through OCR (no text layer to re-parse)`);
 
-    console.log(`\n═══ ${year} ═══`);
-    for (const sample of samples.rows) {
-      try {
-        const result = await validateReport(sample.id);
-        totalReports++;
-
-        const mismatchCount = result.mismatches.length;
-        totalMismatches += mismatchCount;
-
-        const status = mismatchCount === 0 ? "✓" : `✗ ${mismatchCount} mismatches`;
-        console.log(`  [${result.format}] Report #${result.reportId} ${result.schoolName.substring(0, 40)}`);
-        console.log(`    DB: ${result.dbQuestionCount} questions, Parsed: ${result.parsedQuestionCount} → ${status}`);
-
-        if (mismatchCount > 0) {
-          for (const m of result.mismatches.slice(0, 5)) {
-            console.log(`    MISMATCH: "${m.question}" ${m.field}: DB=${m.dbValue} vs Parsed=${m.parsedValue}`);
-          }
-          if (mismatchCount > 5) console.log(`    ... and ${mismatchCount - 5} more`);
-        }
-
-        if (result.missingInParse.length > 0) {
-          console.log(`    Missing in re-parse: ${result.missingInParse.length} (${result.missingInParse.slice(0, 3).join(", ")})`);
-        }
-      } catch (err) {
-        console.log(`  Report #${sample.id}: ERROR: ${err}`);
-      }
+  const results: ReportValidation[] = [];
+  let currentYear: number | null = null;
+  for (const report of reports) {
+    if (report.year !== currentYear) {
+      currentYear = report.year;
+      console.log(`\n═══ ${currentYear} ═══`);
     }
+    const result = await validateReport(report, options);
+    if (!result) continue;
+    results.push(result);
+    printResult(result);
   }
 
+  const summary = summarize(results);
+  const report: ValidationReport = {
+    generatedAt: new Date().toISOString(),
+    options: { all: options.all, year: options.year, format: options.format, sample: options.sample },
+    summary,
+    skippedOcr,
+    reports: results,
+  };
+
+  await mkdir(options.outDir, { recursive: true });
+  const jsonPath = join(options.outDir, "validation.json");
+  const htmlPath = join(options.outDir, "validation.html");
+  await writeFile(jsonPath, JSON.stringify(report, null, 2));
+  await writeFile(htmlPath, renderHtmlReport(report));
+
   console.log(`\n═══ SUMMARY ═══`);
-  console.log(`Validated ${totalReports} reports, found ${totalMismatches} value mismatches`);
+  console.log(
+    `Validated ${summary.reports} reports, ${summary.reportsWithDifferences} with differences (${summary.errors} errors): ` +
+      `${summary.mismatches} value mismatches, ${summary.missingInDb} rows only re-parsed, ` +
+      `${summary.missingInParse} rows only stored`,
+  );
+  for (const [field, n] of Object.entries(summary.byField).sort((a, b) => b[1] - a[1])) {
+    console.log(`  ${field.padEnd(45)} ${String(n).padStart(5)}`);
+  }
+  console.log(`Reports: ${jsonPath}\n         ${htmlPath}`);
 
   await pool.end();
 }
@@ -0,0 +1,289 @@
+/**
+ * Comparison and report rendering for `npm run validate` (validate.ts): each table the parser
+ * writes is turned into keyed rows, once from the database and once from a fresh re-parse of
+ * the source file, and the two sides are diffed field by field.
+ */
+import type { SourceLocation } from "./parser/utils.js";
+
+/** Every table the parser writes, in the order reports list them */
+export const VALIDATED_TABLES = [
+  "report_metadata",
+  "question_means",
+  "nki_indices",
+  "question_responses",
+  "gender_split",
+  "important_questions",
+  "unit_means",
+] as const;
+
+export type ValidatedTable = (typeof VALIDATED_TABLES)[number];
+
+/** Numbers are compared with a tolerance; JSON columns are compared as canonical JSON strings */
+export type FieldValue = number | string | null;
+
+export interface ComparableRow {
+  /** Identifies the row within its table and report (question text, unit + area, index name…) */
+  key: string;
+  values: Record<string, FieldValue>;
+  /** Where a re-parsed row was read in the PDF, when the parser records it */
+  source?: SourceLocation | null;
+}
+
+export type ComparableTables = Record<ValidatedTable, ComparableRow[]>;
+
+export interface FieldMismatch {
+  key: string;
+  field: string;
+  dbValue: FieldValue;
+  parsedValue: FieldValue;
+  source: SourceLocation | null;
+}
+
+export interface TableComparison {
+  dbRows: number;
+  parsedRows: number;
+  mismatches: FieldMismatch[];
+  /** Re-parsed rows the database doesn't have */
+  missingInDb: string[];
+  /** Stored rows the re-parse no longer produces */
+  missingInParse: string[];
+}
+
+export interface ReportValidation {
+  reportId: number;
+  year: number;
+  schoolName: string;
+  unitName: string | null;
+  path: string;
+  format: string;
+  tables: Partial<Record<ValidatedTable, TableComparison>>;
+  /** Set when the report could not be re-parsed; `tables` is then empty */
+  error?: string;
+}
+
+export interface ValidationSummary {
+  reports: number;
+  reportsWithDifferences: number;
+  errors: number;
+  mismatches: number;
+  missingInDb: number;
+  missingInParse: number;
+  /** Mismatch count per "table.field" */
+  byField: Record<string, number>;
+}
+
+export interface ValidationReport {
+  generatedAt: string;
+  options: { all: boolean; year: number | null; format: string | null; sample: number | null };
+  summary: ValidationSummary;
+  /**
+   * Selected reports read through OCR (text_source = 'ocr'), left out: a re-parse through pdftotext
+   * finds no text in them, and every stored row would show up as only in the database
+   */
+  skippedOcr: number;
+  reports: ReportValidation[];
+}
+
+/** Absolute difference below which two numbers count as equal (stored values are REAL) */
+export const NUMBER_TOLERANCE = 0.011;
+
+export function emptyTables(): ComparableTables {
+  return {
+    report_metadata: [],
+    question_means: [],
+    nki_indices: [],
+    question_responses: [],
+    gender_split: [],
+    important_questions: [],
+    unit_means: [],
+  };
+}
+
+/** Row key for question texts: case and whitespace differences don't count */
+export function matchKey(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/** A database number (pg returns NUMERIC as a string) or null */
+export function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "number" ? value : parseFloat(String(value));
+  return isNaN(n) ? null : n;
+}
+
+/** JSON with object keys sorted, so JSONB's key order doesn't count as a difference */
+export function canonicalJson(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const sortKeys = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.map(sortKeys);
+    if (v && typeof v === "object") {
+      return Object.fromEntries(
+        Object.keys(v as Record<string, unknown>)
+          .sort()
+          .map((k) => [k, sortKeys((v as Record<string, unknown>)[k])]),
+      );
+    }
+    return v;
+  };
+  return JSON.stringify(sortKeys(value));
+}
+
+export function valuesEqual(a: FieldValue, b: FieldValue): boolean {
+  if (typeof a === "number" && typeof b === "number") return Math.abs(a - b) < NUMBER_TOLERANCE;
+  return a === b;
+}
+
+export function compareTable(dbRows: ComparableRow[], parsedRows: ComparableRow[]): TableComparison {
+  const result: TableComparison = {
+    dbRows: dbRows.length,
+    parsedRows: parsedRows.length,
+    mismatches: [],
+    missingInDb: [],
+    missingInParse: [],
+  };
+  const parsedByKey = new Map(parsedRows.map((r) => [r.key, r]));
+  const dbKeys = new Set(dbRows.map((r) => r.key));
+
+  for (const dbRow of dbRows) {
+    const parsedRow = parsedByKey.get(dbRow.key);
+    if (!parsedRow) {
+      result.missingInParse.push(dbRow.key);
+      continue;
+    }
+    for (const [field, dbValue] of Object.entries(dbRow.values)) {
+      const parsedValue = parsedRow.values[field] ?? null;
+      if (valuesEqual(dbValue, parsedValue)) continue;
+      result.mismatches.push({ key: dbRow.key, field, dbValue, parsedValue, source: parsedRow.source ?? null });
+    }
+  }
+  for (const parsedRow of parsedRows) {
+    if (!dbKeys.has(parsedRow.key)) result.missingInDb.push(parsedRow.key);
+  }
+  return result;
+}
+
+export function compareTables(db: ComparableTables, parsed: ComparableTables): Record<ValidatedTable, TableComparison> {
+  return Object.fromEntries(
+    VALIDATED_TABLES.map((t) => [t, compareTable(db[t], parsed[t])]),
+  ) as Record<ValidatedTable, TableComparison>;
+}
+
+export function hasDifferences(report: ReportValidation): boolean {
+  if (report.error) return true;
+  return Object.values(report.tables).some(
+    (t) => t.mismatches.length > 0 || t.missingInDb.length > 0 || t.missingInParse.length > 0,
+  );
+}
+
+export function summarize(reports: ReportValidation[]): ValidationSummary {
+  const summary: ValidationSummary = {
+    reports: reports.length,
+    reportsWithDifferences: reports.filter(hasDifferences).length,
+    errors: reports.filter((r) => r.error).length,
+    mismatches: 0,
+    missingInDb: 0,
+    missingInParse: 0,
+    byField: {},
+  };
+  for (const report of reports) {
+    for (const [table, comparison] of Object.entries(report.tables)) {
+      summary.mismatches += comparison.mismatches.length;
+      summary.missingInDb += comparison.missingInDb.length;
+      summary.missingInParse += comparison.missingInParse.length;
+      for (const m of comparison.mismatches) {
+        const field = `${table}.${m.field}`;
+        summary.byField[field] = (summary.byField[field] ?? 0) + 1;
+      }
+    }
+  }
+  return summary;
+}
+
+// ── HTML report ──
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function formatValue(value: FieldValue): string {
+  return value === null ? "—" : escapeHtml(String(value));
+}
+
+function formatSource(source: SourceLocation | null): string {
+  if (!source) return "";
+  const where = source.line === null ? `p. ${source.page}` : `p. ${source.page}, line ${source.line}`;
+  return `${where}<br><code>${escapeHtml(source.text)}</code>`;
+}
+
+function renderTableComparison(table: string, c: TableComparison): string {
+  if (c.mismatches.length === 0 && c.missingInDb.length === 0 && c.missingInParse.length === 0) return "";
+  const parts = [`<h4>${table} <small>(${c.dbRows} stored, ${c.parsedRows} re-parsed)</small></h4>`];
+  if (c.mismatches.length > 0) {
+    parts.push(
+      "<table><tr><th>Row</th><th>Field</th><th>Stored</th><th>Re-parsed</th><th>Source</th></tr>",
+      ...c.mismatches.map(
+        (m) =>
+          `<tr><td>${escapeHtml(m.key)}</td><td>${m.field}</td><td>${formatValue(m.dbValue)}</td>` +
+          `<td>${formatValue(m.parsedValue)}</td><td>${formatSource(m.source)}</td></tr>`,
+      ),
+      "</table>",
+    );
+  }
+  for (const [label, keys] of [
+    ["Only in the re-parse", c.missingInDb],
+    ["Only in the database", c.missingInParse],
+  ] as const) {
+    if (keys.length === 0) continue;
+    parts.push(`<p>${label} (${keys.length})</p><ul>${keys.map((k) => `<li>${escapeHtml(k)}</li>`).join("")}</ul>`);
+  }
+  return parts.join("\n");
+}
+
+function renderReport(r: ReportValidation): string {
+  const title =
+    `#${r.reportId} ${escapeHtml(r.schoolName)}${r.unitName ? ` / ${escapeHtml(r.unitName)}` : ""}` +
+    ` — ${r.year}, ${escapeHtml(r.format)}`;
+  const body = r.error
+    ? `<p class="error">${escapeHtml(r.error)}</p>`
+    : VALIDATED_TABLES.map((t) => (r.tables[t] ? renderTableComparison(t, r.tables[t]) : ""))
+        .filter(Boolean)
+        .join("\n");
+  return `<details${r.error ? "" : " open"}><summary>${title}</summary>\n<p><code>${escapeHtml(r.path)}</code></p>\n${body}\n</details>`;
+}
+
+export function renderHtmlReport(report: ValidationReport): string {
+  const { summary } = report;
+  const fieldRows = Object.entries(summary.byField)
+    .sort((a, b) => b[1] - a[1])
+    .map(([field, n]) => `<tr><td>${field}</td><td>${n}</td></tr>`)
+    .join("");
+  const differing = report.reports.filter(hasDifferences);
+
+  return `<!doctype html>
+<html lang="sv">
+<head>
+<meta charset="utf-8">
+<title>Validation report ${escapeHtml(report.generatedAt)}</title>
+<style>
+  body { font: 14px system-ui, sans-serif; margin: 24px; color: #1f2328; }
+  table { border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; vertical-align: top; }
+  details { margin: 12px 0; border: 1px solid #d0d7de; border-radius: 6px; padding: 8px 12px; }
+  summary { cursor: pointer; font-weight: 600; }
+  code { font-size: 12px; white-space: pre-wrap; }
+  .error { color: #cf222e; }
+</style>
+</head>
+<body>
+<h1>Validation report</h1>
+<p>Generated ${escapeHtml(report.generatedAt)}. Options: <code>${escapeHtml(JSON.stringify(report.options))}</code></p>
+<p>${summary.reports} reports validated, ${summary.reportsWithDifferences} with differences (${summary.errors} errors):
+${summary.mismatches} value mismatches, ${summary.missingInDb} rows only in the re-parse, ${summary.missingInParse} rows only in the database.</p>
+${report.skippedOcr > 0 ? `<p>${report.skippedOcr} reports read through OCR were left out; they have no text layer to re-parse.</p>` : ""}
+${fieldRows ? `<h2>Mismatches per field</h2>\n<table><tr><th>Field</th><th>Mismatches</th></tr>${fieldRows}</table>` : ""}
+<h2>Reports with differences (${differing.length})</h2>
+${differing.map(renderReport).join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the year-over-year and city-wide anomaly detection (anomaly-detection.ts).
+ */
+import { describe, it } from "node:test";
+import { strictEqual, deepStrictEqual, ok } from "node:assert";
+import { detectAnomalies, robustSpread } from "../src/anomaly-detection.js";
+import type { MeanObservation } from "../src/anomaly-detection.js";
+
+let nextReportId = 1;
+
+/** One school mean on a 1-5 scale; normalized is derived from it */
+function obs(school: number, year: number, mean: number, history: Record<string, number> = {}): MeanObservation {
+  return {
+    reportId: year * 1000 + school,
+    year,
+    seriesKey: `${school}|school||`,
+    questionKey: "c1",
+    questionId: 1,
+    question: "Mitt barn trivs på förskolan",
+    mean,
+    normalized: ((mean - 1) / 4) * 100,
+    history,
+  };
+}
+
+/** A year of ordinary schools between 4.0 and 4.4, ids 1..n; `cycle` varies which school gets which */
+function cityYear(year: number, cycle = 5, n = 20): MeanObservation[] {
+  return Array.from({ length: n }, (_, i) => obs(i + 1, year, 4.0 + (i % cycle) * 0.1));
+}
+
+function kinds(observations: MeanObservation[]): string[] {
+  return detectAnomalies(observations).map((a) => a.kind);
+}
+
+describe("robustSpread", () => {
+  it("returns the median and scaled MAD", () => {
+    const spread = robustSpread([1, 2, 3, 4, 100]);
+    strictEqual(spread?.median, 3);
+    strictEqual(spread?.sigma, 1.4826);
+  });
+
+  it("is null when most values are identical", () => {
+    strictEqual(robustSpread([5, 5, 5, 1]), null);
+  });
+});
+
+describe("detectAnomalies", () => {
+  it("finds nothing in an ordinary city", () => {
+    deepStrictEqual(detectAnomalies([...cityYear(2023), ...cityYear(2024, 4)]), []);
+  });
+
+  it("flags a school far outside the year's city-wide distribution", () => {
+    const year = cityYear(2024);
+    year[0] = obs(1, 2024, 1.2);
+    const anomalies = detectAnomalies(year);
+    strictEqual(anomalies.length, 1);
+    strictEqual(anomalies[0].kind, "city_outlier");
+    strictEqual(anomalies[0].reportId, 2024001);
+    ok(anomalies[0].score >= 1);
+    ok(anomalies[0].reason.includes("below"));
+  });
+
+  it("flags a jump from the school's previous year", () => {
+    const before = cityYear(2023);
+    before[2] = obs(3, 2023, 2.2);
+    const anomalies = detectAnomalies([...before, ...cityYear(2024, 4)]).filter((a) => a.kind === "year_jump");
+    strictEqual(anomalies.length, 1);
+    strictEqual(anomalies[0].reportId, 2024003);
+    strictEqual(anomalies[0].context.previousSource, "report");
+  });
+
+  it("uses the report's printed history when the previous year isn't stored", () => {
+    const previous = cityYear(2023, 4);
+    const year: MeanObservation[] = cityYear(2024).map((o, i) => ({
+      ...o,
+      history: { "2023": previous[i].normalized },
+    }));
+    year[4] = obs(5, 2024, 4.4, { "2023": 20 });
+    const anomalies = detectAnomalies(year).filter((a) => a.kind === "year_jump");
+    strictEqual(anomalies.length, 1);
+    strictEqual(anomalies[0].context.previousSource, "history");
+  });
+
+  it("flags a value most reports share exactly", () => {
+    const year = cityYear(2024).map((o, i) => (i < 12 ? obs(i + 1, 2024, 1) : o));
+    const constant = detectAnomalies(year).filter((a) => a.kind === "city_constant");
+    strictEqual(constant.length, 12);
+    strictEqual(constant[0].score, 1.2);
+  });
+
+  it("flags a report whose printed history disagrees with the stored years", () => {
+    const observations = [
+      obs(1, 2023, 4.0),
+      { ...obs(1, 2024, 4.2, { "2023": 25, "2024": 80 }), questionKey: "c1" },
+      { ...obs(1, 2024, 4.6, { "2024": 30 }), questionKey: "c2", questionId: 2 },
+    ];
+    const anomalies = detectAnomalies(observations);
+    deepStrictEqual(kinds(observations), ["history_mismatch"]);
+    strictEqual(anomalies[0].questionId, null);
+    strictEqual(anomalies[0].context.mismatched, 2);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for the internal consistency rules run by `npm run check` (checks.ts).
+ */
+import { describe, it } from "node:test";
+import { strictEqual, deepStrictEqual } from "node:assert";
+import { CHECK_RULES, checkReport, impliedMean } from "../src/checks.js";
+import type { CheckedReport, CheckedResponse } from "../src/checks.js";
+
+function report(overrides: Partial<CheckedReport> = {}): CheckedReport {
+  return {
+    reportId: 1,
+    year: 2024,
+    category: null,
+    metadata: null,
+    means: new Map(),
+    responses: [],
+    genderSplit: [],
+    nkiIndices: [],
+    ...overrides,
+  };
+}
+
+function distribution(question: string, pcts: Partial<CheckedResponse>): CheckedResponse {
+  return {
+    question,
+    stronglyAgree: null,
+    agree: null,
+    neither: null,
+    disagree: null,
+    stronglyDisagree: null,
+    dontKnow: null,
+    noAnswer: null,
+    ...pcts,
+  };
+}
+
+function rulesFired(r: CheckedReport): string[] {
+  return checkReport(r).map((v) => v.rule);
+}
+
+describe("impliedMean", () => {
+  it("weights the 1-5 columns and leaves out vet ej", () => {
+    const r = distribution("q", { stronglyAgree: 50, agree: 50, dontKnow: 20 });
+    strictEqual(impliedMean(r, { min: 1, max: 5 }), 4.5);
+  });
+
+  it("maps the 1-3 scale onto the outer and middle columns", () => {
+    const r = distribution("q", { stronglyAgree: 80, neither: 20 });
+    strictEqual(impliedMean(r, { min: 1, max: 3 }), 2.8);
+  });
+
+  it("is not computed for other scales or empty distributions", () => {
+    strictEqual(impliedMean(distribution("q", { agree: 100 }), { min: 1, max: 7 }), null);
+    strictEqual(impliedMean(distribution("q", {}), { min: 1, max: 5 }), null);
+  });
+});
+
+describe("check rules", () => {
+  it("every rule has a unique id", () => {
+    const ids = CHECK_RULES.map((r) => r.id);
+    strictEqual(new Set(ids).size, ids.length);
+  });
+
+  it("accepts a consistent report", () => {
+    const r = report({
+      metadata: { responseRate: 63, respondents: 15, totalInvited: 24 },
+      means: new Map([["Mitt barn trivs", 4.4]]),
+      responses: [distribution("Mitt barn trivs", { stronglyAgree: 50, agree: 40, neither: 10 })],
+      genderSplit: [{ question: "Mitt barn trivs", total: 88, flicka: 90, pojke: 87 }],
+      nkiIndices: [{ name: "HELHET", value: 72, scaleMin: 0, scaleMax: 100 }],
+    });
+    deepStrictEqual(checkReport(r), []);
+  });
+
+  it("flags distributions that don't sum to 100", () => {
+    const r = report({ responses: [distribution("q", { stronglyAgree: 50, agree: 40 })] });
+    deepStrictEqual(rulesFired(r), ["distribution_sum"]);
+    // Whole-percent rounding is allowed for; the no-answer share isn't part of the distribution
+    const rounded = report({ responses: [distribution("q", { stronglyAgree: 34, agree: 33, neither: 31, noAnswer: 8 })] });
+    deepStrictEqual(rulesFired(rounded), []);
+    const withDontKnow = report({ responses: [distribution("q", { stronglyAgree: 50, agree: 40, dontKnow: 10 })] });
+    deepStrictEqual(rulesFired(withDontKnow), []);
+  });
+
+  it("flags a mean the distribution contradicts", () => {
+    const r = report({
+      means: new Map([["q", 2.1]]),
+      responses: [distribution("q", { stronglyAgree: 60, agree: 40 })],
+    });
+    deepStrictEqual(rulesFired(r), ["distribution_mean"]);
+  });
+
+  it("flags means outside the year's scale and NKI indices outside theirs", () => {
+    const r = report({
+      year: 2016,
+      means: new Map([["q", 8.2]]),
+      nkiIndices: [{ name: "HELHET", value: 104, scaleMin: 0, scaleMax: 100 }],
+    });
+    deepStrictEqual(rulesFired(r), ["mean_out_of_scale", "nki_out_of_range"]);
+  });
+
+  it("flags respondent counts that contradict the invited count", () => {
+    const r = report({ metadata: { responseRate: 80, respondents: 30, totalInvited: 25 } });
+    deepStrictEqual(rulesFired(r), ["respondents_exceed_invited", "response_rate_mismatch"]);
+  });
+
+  it("flags a gender split whose total lies outside both groups", () => {
+    const r = report({ genderSplit: [{ question: "q", total: 95, flicka: 80, pojke: 85 }] });
+    deepStrictEqual(rulesFired(r), ["gender_split_bracket"]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for the crawl history (crawl-store.ts, crawl-diff.ts): each crawl of a year logs its PDFs
+ * as seen, added or removed, marks vanished reports instead of deleting them, and records new
+ * areas and renamed school folders. Runs on an in-memory embedded database.
+ */
+import { describe, it, before, after } from "node:test";
+import { strictEqual, deepStrictEqual, notStrictEqual } from "node:assert";
+import type { DiscoveredArea, DiscoveredSchool, DiscoveredYear } from "../src/discover.js";
+
+process.env.DATABASE_MODE = "embedded";
+process.env.DATABASE_DIR = "memory://";
+const { query, default: pool } = await import("../src/db.js");
+const { migrateUp } = await import("../src/migrate.js");
+const { storeDiscoveredYear } = await import("../src/crawl-store.js");
+const { summarizeCrawlRun } = await import("../src/crawl-diff.js");
+
+const URL = "https://enkater.goteborg.se/2024";
+
+function school(name: string, slug: string, files: string[]): DiscoveredSchool {
+  return {
+    name,
+    slug,
+    pdfs: files.map((file) => ({ name: file, url: `${URL}/${slug}/${file}`, reportType: "school", unitName: null })),
+  };
+}
+
+function area(name: string, slug: string, schools: DiscoveredSchool[]): DiscoveredArea {
+  return { name, slug, catPath: `Kat=${slug}`, reportCategory: "barn", hierarchy: "schools", schools };
+}
+
+function discovered(areas: DiscoveredArea[], errors: string[] = []): DiscoveredYear {
+  return { year: 2024, catPaths: ["Kat=1"], areas, errors };
+}
+
+/** Store a crawl the way crawlYear does, returning the run id */
+async function crawl(year: DiscoveredYear): Promise<number> {
+  const { rows } = await query(`INSERT INTO crawl_runs (year, fetch_mode) VALUES (2024, 'replay') RETURNING id`);
+  const status = await storeDiscoveredYear(rows[0].id, year);
+  await query(`UPDATE crawl_runs SET finished_at = NOW(), status = $1 WHERE id = $2`, [status, rows[0].id]);
+  return rows[0].id;
+}
+
+async function urlLog(runId: number): Promise<Record<string, string>> {
+  const { rows } = await query(`SELECT pdf_url, status FROM crawl_run_urls WHERE crawl_run_id = $1`, [runId]);
+  return Object.fromEntries(rows.map((r) => [r.pdf_url.slice(URL.length + 1), r.status]));
+}
+
+async function vanishedAt(file: string): Promise<Date | null> {
+  const { rows } = await query(`SELECT vanished_at FROM pdf_reports WHERE pdf_url = $1`, [`${URL}/${file}`]);
+  return rows[0].vanished_at;
+}
+
+describe("Crawl history", () => {
+  before(async () => {
+    await migrateUp(() => {});
+    await query(`INSERT INTO survey_years (year) VALUES (2024)`);
+  });
+  after(() => pool.end());
+
+  it("logs every PDF of a first crawl as added", async () => {
+    const runId = await crawl(
+      discovered([area("Centrum", "centrum", [school("Förskolan Bågen", "bagen", ["a.pdf", "b.pdf"])])]),
+    );
+    deepStrictEqual(await urlLog(runId), { "bagen/a.pdf": "added", "bagen/b.pdf": "added" });
+  });
+
+  it("records new, vanished and renamed against the previous crawl", async () => {
+    const runId = await crawl(
+      discovered([
+        area("Centrum", "centrum", [school("Bågens förskola", "bagen", ["a.pdf", "c.pdf"])]),
+        area("Hisingen", "hisingen", [school("Förskolan Ankan", "ankan", ["d.pdf"])]),
+      ]),
+    );
+    deepStrictEqual(await urlLog(runId), {
+      "bagen/a.pdf": "seen",
+      "bagen/b.pdf": "removed",
+      "bagen/c.pdf": "added",
+      "ankan/d.pdf": "added",
+    });
+    // Vanished reports are marked, not deleted
+    notStrictEqual(await vanishedAt("bagen/b.pdf"), null);
+    strictEqual(await vanishedAt("bagen/a.pdf"), null);
+
+    const { rows } = await query(
+      `SELECT change, url_slug, old_name, new_name FROM crawl_run_changes WHERE crawl_run_id = $1 ORDER BY change`,
+      [runId],
+    );
+    deepStrictEqual(rows, [
+      { change: "area_added", url_slug: "hisingen", old_name: null, new_name: "Hisingen" },
+      { change: "school_renamed", url_slug: "bagen", old_name: "Förskolan Bågen", new_name: "Bågens förskola" },
+    ]);
+    strictEqual(
+      await summarizeCrawlRun(runId),
+      "Changes: 2 new PDFs, 1 vanished, 1 renamed schools, 1 new areas (1 unchanged)",
+    );
+  });
+
+  it("un-marks a vanished report listed again", async () => {
+    await crawl(discovered([area("Centrum", "centrum", [school("Bågens förskola", "bagen", ["a.pdf", "b.pdf", "c.pdf"])])]));
+    strictEqual(await vanishedAt("bagen/b.pdf"), null);
+  });
+
+  it("doesn't mark reports vanished when a page failed to load", async () => {
+    const runId = await crawl(
+      discovered([area("Centrum", "centrum", [school("Bågens förskola", "bagen", ["a.pdf"])])], ["Kat=1/hisingen"]),
+    );
+    const { rows } = await query(`SELECT status FROM crawl_runs WHERE id = $1`, [runId]);
+    strictEqual(rows[0].status, "partial");
+    deepStrictEqual(await urlLog(runId), { "bagen/a.pdf": "seen" });
+    strictEqual(await vanishedAt("bagen/c.pdf"), null);
+  });
+});
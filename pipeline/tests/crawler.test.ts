@@ -0,0 +1,115 @@
+/**
+ * Offline crawler tests: site discovery replayed from recorded listing pages.
+ *
+ * The pages in tests/fixtures/http-cache/ use the same layout as `npm run crawl -- --record`.
+ * If a snapshot test fails after an intentional change to discover.ts,
+ * run `npm run test:snapshot` to update the crawl snapshots.
+ */
+import { describe, it } from "node:test";
+import { deepStrictEqual, rejects, strictEqual } from "node:assert";
+import { readFileSync } from "node:fs";
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { createPageFetcher } from "../src/http-cache.js";
+import { discoverYear, discoverYears, isPhysicalSchool, parseSchoolFromLinkText } from "../src/discover.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const HTTP_CACHE_DIR = join(__dirname, "fixtures/http-cache");
+const SNAPSHOT_DIR = join(__dirname, "snapshots");
+
+const CRAWL_YEARS = [2011, 2022];
+
+const fetchPage = createPageFetcher("replay", { cacheDir: HTTP_CACHE_DIR });
+const quiet = () => {};
+
+function loadSnapshot(name: string): unknown {
+  return JSON.parse(readFileSync(join(SNAPSHOT_DIR, name), "utf-8"));
+}
+
+describe("replay fetcher", () => {
+  it("serves recorded pages", async () => {
+    const html = await fetchPage("https://enkater.goteborg.se/Default.aspx");
+    strictEqual(html.includes("ImageYearText"), true);
+  });
+
+  it("rejects pages that were never recorded", async () => {
+    await rejects(fetchPage("https://enkater.goteborg.se/ListEnkater.aspx?Kat=1999"), /No cached page/);
+  });
+});
+
+describe("discoverYears", () => {
+  it("finds years from the home page and year navigation", async () => {
+    deepStrictEqual(await discoverYears(fetchPage), [2022, 2011]);
+  });
+});
+
+describe("discoverYear snapshots", () => {
+  for (const year of CRAWL_YEARS) {
+    it(`Year ${year} matches snapshot`, async () => {
+      const discovered = await discoverYear(fetchPage, year, quiet);
+      deepStrictEqual(JSON.parse(JSON.stringify(discovered)), loadSnapshot(`crawl-${year}.json`));
+    });
+  }
+});
+
+describe("discoverYear", () => {
+  it("walks both barn and föräldrar categories (2011)", async () => {
+    const { areas } = await discoverYear(fetchPage, 2011, quiet);
+    deepStrictEqual(
+      areas.map((a) => [a.name, a.reportCategory, a.hierarchy]),
+      [
+        ["Centrum", "barn", "schools"],
+        ["Majorna-Linné", "barn", "schools"],
+        ["Centrum", "foralder", "schools"],
+      ],
+    );
+    // "(total)", "område 2" and "Pedagogisk omsorg" folders are not schools
+    deepStrictEqual(
+      areas.flatMap((a) => a.schools.map((s) => s.name)),
+      ["Annedals förskola", "Gibraltargatan 82", "Karl Johansgatan 40", "Annedals förskola"],
+    );
+  });
+
+  it("groups flat area PDFs by school (2022)", async () => {
+    const { areas } = await discoverYear(fetchPage, 2022, quiet);
+    deepStrictEqual(areas.map((a) => a.hierarchy), ["flat", "flat"]);
+
+    const borgaregatan = areas[0].schools.find((s) => s.name === "Borgaregatan 5 förskola");
+    deepStrictEqual(
+      borgaregatan?.pdfs.map((p) => [p.reportType, p.unitName]),
+      [["school", null], ["unit", "Grodan"], ["unit", "Myran"]],
+    );
+    // Summary PDFs and the 2__RAPPORTER directory are skipped
+    strictEqual(areas[0].schools.flatMap((s) => s.pdfs).some((p) => p.url.includes("2__RAPPORTER")), false);
+  });
+});
+
+describe("parseSchoolFromLinkText", () => {
+  it("parses the 2020 dash format", () => {
+    deepStrictEqual(parseSchoolFromLinkText("GR-Göteborg-Centrum 1-Albotorget 5-Junibacken_2020.pdf"), {
+      schoolName: "Albotorget 5",
+      unitName: "Junibacken",
+    });
+  });
+
+  it("parses the 2021 GR-last format", () => {
+    deepStrictEqual(parseSchoolFromLinkText("Björnidet, Fräntorpsgatan 57, Östra 1, Göteborg, GR.pdf"), {
+      schoolName: "Fräntorpsgatan 57",
+      unitName: "Björnidet",
+    });
+  });
+
+  it("returns null for area summaries", () => {
+    strictEqual(parseSchoolFromLinkText("GR, Göteborg, Centrum 1"), null);
+  });
+});
+
+describe("isPhysicalSchool", () => {
+  it("rejects summaries and category entries", () => {
+    strictEqual(isPhysicalSchool("Fristående förskolor (total)"), false);
+    strictEqual(isPhysicalSchool("Pedagogisk omsorg"), false);
+    strictEqual(isPhysicalSchool("Sydväst område 2"), false);
+    strictEqual(isPhysicalSchool("Annedals förskola"), true);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for the embedded database mode (db.ts, db-embedded.ts): an in-memory PGlite runs
+ * the migrations and behaves like node-postgres behind query()/getClient().
+ */
+import { describe, it, after } from "node:test";
+import { strictEqual, deepStrictEqual, rejects } from "node:assert";
+
+process.env.DATABASE_MODE = "embedded";
+process.env.DATABASE_DIR = "memory://";
+const { query, withTransaction, default: pool } = await import("../src/db.js");
+const { assertSchemaCurrent, migrateDown, migrateUp } = await import("../src/migrate.js");
+
+describe("Embedded database", () => {
+  after(() => pool.end());
+
+  it("applies every migration and passes the schema check", async () => {
+    await rejects(assertSchemaCurrent(), /npm run schema/);
+    const applied = await migrateUp(() => {});
+    strictEqual(applied[0], 0);
+    await assertSchemaCurrent();
+  });
+
+  it("returns results the way node-postgres does", async () => {
+    await query("INSERT INTO survey_years (year) VALUES ($1), ($2)", [2024, 2025]);
+    const { rows } = await query("SELECT count(*) AS n, max(year) AS latest FROM survey_years");
+    deepStrictEqual(rows, [{ n: "2", latest: 2025 }]);
+    const updated = await query("UPDATE survey_years SET crawled_at = NOW()");
+    strictEqual(updated.rowCount, 2);
+  });
+
+  it("rolls a failed transaction back", async () => {
+    await rejects(
+      withTransaction(async (client) => {
+        await client.query("INSERT INTO survey_years (year) VALUES ($1)", [2023]);
+        throw new Error("abort");
+      }),
+      /abort/,
+    );
+    const { rows } = await query("SELECT year FROM survey_years WHERE year = $1", [2023]);
+    strictEqual(rows.length, 0);
+  });
+
+  it("adopts a database from before migrations were tracked, running 003", async () => {
+    // Roll back to where the hand-run migrations left off, then forget the tracking
+    while ((await migrateDown(() => {}))! > 4);
+    await query("INSERT INTO schools (clean_name) VALUES ('Förskolan Solen')");
+    await query(
+      `INSERT INTO pdf_reports (school_id, year, pdf_url) SELECT id, 2024, 'https://example.test/solen.pdf' FROM schools`,
+    );
+    await query("INSERT INTO questions (text) VALUES ('NKI Helhetsbedömning')");
+    await query(`INSERT INTO question_means (pdf_report_id, question_id, mean_school)
+                 SELECT r.id, q.id, 72 FROM pdf_reports r, questions q`);
+    await query("DROP TABLE schema_migrations");
+
+    const lines: string[] = [];
+    await migrateUp((line) => lines.push(line));
+    deepStrictEqual(
+      lines.filter((line) => line.includes("recorded as applied")).map((line) => line.trim().slice(0, 3)),
+      ["001", "002"],
+    );
+    const nki = await query("SELECT name, value FROM nki_indices");
+    deepStrictEqual(nki.rows, [{ name: "HELHET", value: 72 }]);
+    strictEqual((await query("SELECT count(*) AS n FROM question_means")).rows[0].n, "0");
+    await assertSchemaCurrent();
+  });
+});
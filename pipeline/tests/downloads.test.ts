@@ -0,0 +1,94 @@
+/**
+ * Tests for the downloader's change detection (download-helpers.ts): a file whose bytes changed
+ * upstream keeps its previous version in pdf_report_revisions and is queued for re-parse.
+ * Runs on an in-memory embedded database.
+ */
+import { describe, it, before, after } from "node:test";
+import { strictEqual, deepStrictEqual, notStrictEqual, rejects } from "node:assert";
+import type { StoredFile } from "../src/download-helpers.js";
+
+process.env.DATABASE_MODE = "embedded";
+process.env.DATABASE_DIR = "memory://";
+const { query, default: pool } = await import("../src/db.js");
+const { migrateUp } = await import("../src/migrate.js");
+const { recordChangedFile, sha256 } = await import("../src/download-helpers.js");
+
+let schoolId: number;
+let areaId: number;
+
+/** A downloaded and parsed report, as refreshReport reads it */
+async function addReport(name: string, hash: string | null): Promise<StoredFile> {
+  const { rows } = await query(
+    `INSERT INTO pdf_reports (school_id, year, report_type, pdf_url, area_id, local_path, downloaded_at,
+       parsed_at, content_sha256, content_bytes, http_etag, http_last_modified)
+     VALUES ($1, 2024, 'school', $2, $3, $4, NOW() - INTERVAL '1 day', NOW(), $5, $6, '"v1"',
+       'Mon, 01 Jan 2024 00:00:00 GMT')
+     RETURNING id, pdf_url, local_path, content_sha256, content_bytes, http_etag, http_last_modified, downloaded_at`,
+    [schoolId, `https://example.test/2024/${name}.pdf`, areaId, `/data/${name}.pdf`, hash, hash ? 100 : null],
+  );
+  return rows[0] as StoredFile;
+}
+
+function downloaded(name: string, data: string) {
+  return {
+    localPath: `/data/${name}.pdf`,
+    sha256: sha256(Buffer.from(data)),
+    bytes: data.length,
+    etag: '"v2"',
+    lastModified: "Mon, 01 Apr 2024 00:00:00 GMT",
+  };
+}
+
+async function revisions(reportId: number) {
+  const { rows } = await query(
+    `SELECT content_sha256, content_bytes, http_etag FROM pdf_report_revisions WHERE pdf_report_id = $1`,
+    [reportId],
+  );
+  return rows;
+}
+
+describe("Download revisions", () => {
+  before(async () => {
+    await migrateUp(() => {});
+    await query(`INSERT INTO survey_years (year) VALUES (2024)`);
+    areaId = (await query(`INSERT INTO areas (year, name, url_slug) VALUES (2024, 'Centrum', 'centrum') RETURNING id`))
+      .rows[0].id;
+    schoolId = (await query(`INSERT INTO schools (clean_name) VALUES ('Bågen') RETURNING id`)).rows[0].id;
+  });
+  after(() => pool.end());
+
+  it("keeps the previous version and queues a changed file for re-parse", async () => {
+    const report = await addReport("changed", "old-hash");
+    const file = downloaded("changed", "new bytes");
+    await recordChangedFile(report, { sha256: report.content_sha256, bytes: report.content_bytes }, file);
+
+    deepStrictEqual(await revisions(report.id), [{ content_sha256: "old-hash", content_bytes: 100, http_etag: '"v1"' }]);
+    const { rows } = await query(
+      `SELECT content_sha256, content_bytes, http_etag, parsed_at, downloaded_at > $2 AS redownloaded
+       FROM pdf_reports WHERE id = $1`,
+      [report.id, report.downloaded_at],
+    );
+    strictEqual(rows[0].content_sha256, file.sha256);
+    strictEqual(rows[0].content_bytes, file.bytes);
+    strictEqual(rows[0].http_etag, '"v2"');
+    strictEqual(rows[0].parsed_at, null);
+    strictEqual(rows[0].redownloaded, true);
+  });
+
+  it("records no revision for a file downloaded before hashes were stored", async () => {
+    const report = await addReport("unhashed", null);
+    await recordChangedFile(report, { sha256: null, bytes: null }, downloaded("unhashed", "bytes"));
+    deepStrictEqual(await revisions(report.id), []);
+  });
+
+  it("keeps neither the revision nor the new file when storing fails", async () => {
+    const report = await addReport("failing", "old-hash");
+    const file = { ...downloaded("failing", "new bytes"), bytes: 1.5 };
+    await rejects(recordChangedFile(report, { sha256: "old-hash", bytes: 100 }, file));
+
+    deepStrictEqual(await revisions(report.id), []);
+    const { rows } = await query(`SELECT content_sha256, parsed_at FROM pdf_reports WHERE id = $1`, [report.id]);
+    strictEqual(rows[0].content_sha256, "old-hash");
+    notStrictEqual(rows[0].parsed_at, null);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for the duplicate-school candidate scoring (duplicate-detection.ts).
+ */
+import { describe, it } from "node:test";
+import { strictEqual, deepStrictEqual, ok } from "node:assert";
+import { distanceMeters, findDuplicateCandidates, pairKey, scorePair } from "../src/duplicate-detection.js";
+import type { SchoolProfile } from "../src/duplicate-detection.js";
+
+function school(id: number, name: string, years: number[], at: [number, number] | null = null, areas = ["Centrum"]): SchoolProfile {
+  return { id, name, lat: at?.[0] ?? null, lng: at?.[1] ?? null, areas, years };
+}
+
+const BAGEN: [number, number] = [57.7, 11.97];
+/** About 30 m north of BAGEN */
+const NEXT_DOOR: [number, number] = [57.70027, 11.97];
+
+describe("distanceMeters", () => {
+  it("measures short distances in meters", () => {
+    const meters = distanceMeters(...BAGEN, ...NEXT_DOOR);
+    ok(meters > 25 && meters < 35, `${meters}`);
+  });
+});
+
+describe("scorePair", () => {
+  it("scores a renamed school nearby with years apart highly, keeping the newer one", () => {
+    const c = scorePair(school(1, "Förskolan Bågen", [2016, 2017], BAGEN), school(2, "Bågens förskola", [2020, 2021], NEXT_DOOR))!;
+    strictEqual(c.keepId, 2);
+    strictEqual(c.mergeId, 1);
+    strictEqual(c.disjointYears, true);
+    deepStrictEqual(c.sharedAreas, ["Centrum"]);
+    ok(c.score > 0.9, `${c.score}`);
+    strictEqual(c.reasons.length, 4);
+  });
+
+  it("finds an address-named variant at the same spot", () => {
+    const c = scorePair(school(1, "Förskolan Bågen", [2020], BAGEN), school(2, "Bågvägen 3", [2020], NEXT_DOOR));
+    ok(c !== null);
+    strictEqual(c.distanceMeters! < 50, true);
+  });
+
+  it("doesn't take street names with different numbers as alike", () => {
+    strictEqual(scorePair(school(1, "Kärralundsgatan 11", [2020]), school(2, "Kärralundsgatan 13", [2021])), null);
+  });
+
+  it("skips unlike names without nearby coordinates", () => {
+    strictEqual(scorePair(school(1, "Förskolan Bågen", [2020], BAGEN), school(2, "Förskolan Tallen", [2020])), null);
+  });
+});
+
+describe("findDuplicateCandidates", () => {
+  const schools = [
+    school(1, "Förskolan Bågen", [2016], BAGEN),
+    school(2, "Bågens förskola", [2020], NEXT_DOOR),
+    school(3, "Förskolan Tallen", [2020], [57.75, 11.9], ["Hisingen"]),
+  ];
+
+  it("lists pairs above the minimum score, best first", () => {
+    deepStrictEqual(
+      findDuplicateCandidates(schools).map((c) => pairKey(c.keepId, c.mergeId)),
+      ["1+2"],
+    );
+  });
+
+  it("leaves out dismissed pairs", () => {
+    deepStrictEqual(findDuplicateCandidates(schools, 0.5, new Set([pairKey(2, 1)])), []);
+  });
+});
@@ -1,10 +1,11 @@
 /**
- * Generate test snapshots by running parser functions against test PDFs/XLS.
+ * Generate test snapshots by running parser functions against test PDFs/XLS,
+ * and the crawler's site discovery against the recorded pages in tests/fixtures/http-cache/.
  *
  * Usage: npm run test:snapshot
  *
  * This creates JSON snapshot files in tests/snapshots/ that capture the
- * current parser output. These snapshots are used by parse.test.ts to
+ * current parser output. These snapshots are used by parse.test.ts and crawler.test.ts to
  * verify that parser behavior remains consistent across refactors or
  * language migrations.
  */
@@ -23,12 +24,16 @@ import {
 } from "../src/parser/charts.js";
 import { extractTextItems } from "../src/parser/pdf-text.js";
 import { parseXlsFile } from "../src/parser/xls.js";
+import { discoverYear } from "../src/discover.js";
+import { createPageFetcher } from "../src/http-cache.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const TEST_DATA_DIR = join(__dirname, "../../data/test-pdfs");
 const SNAPSHOT_DIR = join(__dirname, "snapshots");
+const HTTP_CACHE_DIR = join(__dirname, "fixtures/http-cache");
 
 const PDF_YEARS = [2011, 2012, 2013, 2014, 2015, 2016, 2017, 2018, 2020, 2021, 2022, 2023, 2024, 2025];
+const CRAWL_YEARS = [2011, 2022];
 
 async function generatePdfSnapshot(year: number): Promise<void> {
   const pdfPath = join(TEST_DATA_DIR, `test-${year}.pdf`);
@@ -81,6 +86,7 @@ async function generatePdfSnapshot(year: number): Promise<void> {
     tables: {
       metadata: tables.metadata,
       means: tables.means,
+      nkiIndices: tables.nkiIndices,
       historicalYears: tables.historicalYears,
     },
     responseDistributions,
@@ -111,6 +117,17 @@ async function generateXlsSnapshot(): Promise<void> {
   console.log(`  Saved ${snapshotPath}`);
 }
 
+async function generateCrawlSnapshot(year: number): Promise<void> {
+  console.log(`  Crawling ${year} from recorded pages...`);
+
+  const fetchPage = createPageFetcher("replay", { cacheDir: HTTP_CACHE_DIR });
+  const discovered = await discoverYear(fetchPage, year, () => {});
+
+  const snapshotPath = join(SNAPSHOT_DIR, `crawl-${year}.json`);
+  await writeFile(snapshotPath, JSON.stringify(discovered, null, 2));
+  console.log(`  Saved ${snapshotPath}`);
+}
+
 async function main() {
   console.log("Generating test snapshots...\n");
 
@@ -124,6 +141,11 @@ async function main() {
   // Generate XLS snapshot
   await generateXlsSnapshot();
 
+  // Generate crawl snapshots
+  for (const year of CRAWL_YEARS) {
+    await generateCrawlSnapshot(year);
+  }
+
   console.log("\nDone. Snapshots saved to pipeline/tests/snapshots/");
 }
 
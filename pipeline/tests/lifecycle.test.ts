@@ -0,0 +1,51 @@
+/**
+ * Unit tests for the school lifecycle derivation (school-lifecycle.ts).
+ */
+import { describe, it } from "node:test";
+import { strictEqual, deepStrictEqual } from "node:assert";
+import { deriveSchoolHistory, fullSurveyYears } from "../src/school-lifecycle.js";
+import type { SchoolYear } from "../src/school-lifecycle.js";
+
+const SURVEY_YEARS = [2017, 2018, 2020, 2021, 2022, 2023, 2024, 2025];
+
+function years(...entries: [number, string, string?][]): SchoolYear[] {
+  return entries.map(([year, name, area = "Centrum"]) => ({ year, name, area }));
+}
+
+describe("fullSurveyYears", () => {
+  it("leaves out years where only a sample of schools was surveyed", () => {
+    deepStrictEqual(fullSurveyYears(new Map([[2015, 69], [2016, 34], [2017, 412], [2018, 396], [2020, 389]])), [2017, 2018, 2020]);
+  });
+});
+
+describe("deriveSchoolHistory", () => {
+  it("finds gaps in full survey years only", () => {
+    const h = deriveSchoolHistory(years([2015, "Bågen"], [2017, "Bågen"], [2021, "Bågen"], [2024, "Bågen"]), SURVEY_YEARS)!;
+    strictEqual(h.firstYear, 2015);
+    strictEqual(h.lastYear, 2024);
+    deepStrictEqual(h.gaps, [{ from: 2018, to: 2020 }, { from: 2022, to: 2023 }]);
+    strictEqual(h.current, false);
+  });
+
+  it("spans names and areas over the years, ignoring how förskola is written", () => {
+    const h = deriveSchoolHistory(
+      years(
+        [2017, "Förskolan Bågen", "Örgryte-Härlanda"],
+        [2018, "Bågen förskola", "Örgryte-Härlanda"],
+        [2020, "Regnbågen förskola", "Centrum område 1"],
+        [2025, "Regnbågen förskola", "Centrum område 1"],
+      ),
+      SURVEY_YEARS,
+    )!;
+    deepStrictEqual(h.names, [
+      { name: "Förskolan Bågen", from: 2017, to: 2018 },
+      { name: "Regnbågen förskola", from: 2020, to: 2025 },
+    ]);
+    deepStrictEqual(h.areas.map((a) => a.name), ["Örgryte-Härlanda", "Centrum område 1"]);
+    strictEqual(h.current, true);
+  });
+
+  it("returns null for a school without years", () => {
+    strictEqual(deriveSchoolHistory([], SURVEY_YEARS), null);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for the schema migrations runner (migrate.ts).
+ */
+import { describe, it } from "node:test";
+import { strictEqual, deepStrictEqual, throws } from "node:assert";
+import { compareMigrations, loadMigrations, parseMigration } from "../src/migrate.js";
+import type { AppliedMigration, Migration } from "../src/migrate.js";
+
+function applied(migration: Migration, checksum = migration.checksum): AppliedMigration {
+  return { version: migration.version, name: migration.name, checksum, appliedAt: new Date(0) };
+}
+
+describe("parseMigration", () => {
+  it("splits up and down sections", () => {
+    const m = parseMigration(
+      "004-school-history.sql",
+      "-- Adds school history\n-- migrate:up\nCREATE TABLE t (id INT);\n-- migrate:down\nDROP TABLE t;\n",
+    );
+    strictEqual(m.version, 4);
+    strictEqual(m.name, "school-history");
+    strictEqual(m.up.trim(), "CREATE TABLE t (id INT);");
+    strictEqual(m.down?.trim(), "DROP TABLE t;");
+  });
+
+  it("treats a file without markers as an irreversible up migration", () => {
+    const m = parseMigration("001-cleanup.sql", "DELETE FROM t;\n");
+    strictEqual(m.up, "DELETE FROM t;\n");
+    strictEqual(m.down, null);
+  });
+
+  it("checksums the file regardless of line endings", () => {
+    strictEqual(
+      parseMigration("001-a.sql", "SELECT 1;\r\nSELECT 2;\r\n").checksum,
+      parseMigration("001-a.sql", "SELECT 1;\nSELECT 2;\n").checksum,
+    );
+  });
+
+  it("rejects badly named files", () => {
+    throws(() => parseMigration("4-x.sql", "SELECT 1;"), /file name/);
+  });
+});
+
+describe("compareMigrations", () => {
+  const [a, b, c] = ["000-base.sql", "001-data.sql", "002-more.sql"].map((f) => parseMigration(f, `-- ${f}\nSELECT 1;\n`));
+
+  it("lists pending migrations after the applied ones", () => {
+    const status = compareMigrations([a, b, c], [applied(a)]);
+    strictEqual(status.current, 0);
+    strictEqual(status.latest, 2);
+    deepStrictEqual(status.pending.map((m) => m.version), [1, 2]);
+    deepStrictEqual(status.drift, []);
+  });
+
+  it("reports changed, missing and out-of-order migrations as drift", () => {
+    const status = compareMigrations([a, b], [applied(a, "edited"), applied(c)]);
+    deepStrictEqual(
+      status.drift.map((d) => [d.version, d.problem]),
+      [[0, "changed"], [1, "out_of_order"], [2, "missing"]],
+    );
+  });
+});
+
+describe("Migration files", () => {
+  it("are numbered from the baseline without gaps or duplicates", () => {
+    const versions = loadMigrations().map((m) => m.version);
+    deepStrictEqual(versions, versions.map((_, i) => i));
+    strictEqual(loadMigrations()[0].name, "baseline");
+  });
+});
@@ -1,9 +1,19 @@
 /**
- * Unit tests for normalization logic (getScale / normalize / computeCleanName / extractAddress).
+ * Unit tests for normalization logic (getScale / normalize / computeCleanName / extractAddress /
+ * questionMatchKey / questionSimilarity / schoolMatchKey / schoolNameSimilarity).
  */
 import { describe, it } from "node:test";
 import { strictEqual, deepStrictEqual } from "node:assert";
-import { getScale, normalize, computeCleanName, extractAddress } from "../src/normalize.js";
+import {
+  getScale,
+  normalize,
+  computeCleanName,
+  extractAddress,
+  questionMatchKey,
+  questionSimilarity,
+  schoolMatchKey,
+  schoolNameSimilarity,
+} from "../src/normalize.js";
 
 describe("getScale", () => {
   it("returns 1-3 for years <= 2009", () => {
@@ -42,17 +52,13 @@ describe("normalize", () => {
     strictEqual(normalize(7.8, 2013), 75.56);
   });
 
-  it("passes through NKI values unchanged: 72 → 72", () => {
-    strictEqual(normalize(72, 2013, "NKI Helhetsbedömning"), 72);
-  });
-
   it("normalizes 1-3 scale (≤2009): 2.40 → 70.00", () => {
     strictEqual(normalize(2.4, 2009), 70.0);
   });
 
   it("returns null for null input", () => {
     strictEqual(normalize(null, 2024), null);
-    strictEqual(normalize(null, 2013, "NKI Helhetsbedömning"), null);
+    strictEqual(normalize(null, 2013), null);
   });
 
   it("handles boundary values", () => {
@@ -83,16 +89,12 @@ describe("getScale with category", () => {
 
 describe("normalize with FÖRÄLDRAR scale", () => {
   it("normalizes 1-10 scale for FÖRÄLDRAR 2008: 7.80 → 75.56", () => {
-    strictEqual(normalize(7.8, 2008, undefined, 'foralder'), 75.56);
-  });
-
-  it("NKI passthrough works with category", () => {
-    strictEqual(normalize(72, 2008, "NKI TRIVSEL", 'foralder'), 72);
+    strictEqual(normalize(7.8, 2008, 'foralder'), 75.56);
   });
 
   it("FÖRÄLDRAR boundary values", () => {
-    strictEqual(normalize(1, 2009, undefined, 'foralder'), 0);
-    strictEqual(normalize(10, 2009, undefined, 'foralder'), 100);
+    strictEqual(normalize(1, 2009, 'foralder'), 0);
+    strictEqual(normalize(10, 2009, 'foralder'), 100);
   });
 });
 
@@ -215,3 +217,52 @@ describe("extractAddress", () => {
     strictEqual(extractAddress("Kärralundsgatan 11"), "Kärralundsgatan 11");
   });
 });
+
+describe("questionMatchKey", () => {
+  it("ignores case, punctuation and whitespace", () => {
+    strictEqual(
+      questionMatchKey("Jag känner mig trygg när mitt barn är i förskolan."),
+      questionMatchKey("jag känner mig  trygg när mitt barn är i förskolan"),
+    );
+  });
+
+  it("strips a leading ellipsis", () => {
+    strictEqual(questionMatchKey("…att mitt barn trivs"), "att mitt barn trivs");
+    strictEqual(questionMatchKey("...att mitt barn trivs"), "att mitt barn trivs");
+  });
+});
+
+describe("questionSimilarity", () => {
+  it("returns 1 for wordings that differ only in punctuation", () => {
+    strictEqual(questionSimilarity("Mitt barn trivs på förskolan.", "Mitt barn trivs på förskolan"), 1);
+  });
+
+  it("scores small rewordings above the suggestion threshold", () => {
+    const similarity = questionSimilarity(
+      "Jag är nöjd med verksamheten på mitt barns förskola",
+      "Jag är som helhet nöjd med verksamheten på mitt barns förskola",
+    );
+    strictEqual(similarity > 0.8 && similarity < 1, true);
+  });
+
+  it("scores unrelated questions low", () => {
+    strictEqual(questionSimilarity("Mitt barn trivs på förskolan", "Jag får information om mitt barns utveckling") < 0.5, true);
+  });
+});
+
+describe("schoolMatchKey", () => {
+  it("drops förskola and company forms", () => {
+    strictEqual(schoolMatchKey("Förskolan Bågen"), "bågen");
+    strictEqual(schoolMatchKey("Solrosen föräldrakooperativ ek. för."), "solrosen");
+  });
+});
+
+describe("schoolNameSimilarity", () => {
+  it("matches the same name in another word order", () => {
+    strictEqual(schoolNameSimilarity("Förskolan Bågen", "Bågens förskola") > 0.8, true);
+  });
+
+  it("scores different schools low", () => {
+    strictEqual(schoolNameSimilarity("Förskolan Bågen", "Förskolan Tallen") < 0.5, true);
+  });
+});
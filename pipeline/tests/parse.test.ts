@@ -6,21 +6,36 @@
  * or intentionally (run `npm run test:snapshot` to update snapshots).
  */
 import { describe, it } from "node:test";
-import { deepStrictEqual } from "node:assert";
+import { deepStrictEqual, strictEqual, throws } from "node:assert";
 import { readFileSync, existsSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 
-import { extractLayoutText, parseTablesFromPdf } from "../src/parser/tables.js";
+import { extractLayoutText, parseTables, parseTablesFromPdf } from "../src/parser/tables.js";
 import {
   parseResponseDistributions,
+  parseGenderSplits,
   parseGenderSplitsFromLayout,
   parseDemographics,
   parseImportantQuestions,
   parseUnitMeans,
 } from "../src/parser/charts.js";
+import {
+  classifySurveyFormat,
+  detectSurveyFormat,
+  formatCoversYear,
+  getSurveyFormat,
+  registerSurveyFormat,
+} from "../src/parser/formats/index.js";
 import { extractTextItems } from "../src/parser/pdf-text.js";
+import { extractBboxTextItems, parseBboxLayout } from "../src/parser/pdf-bbox.js";
+import { hasUsableText, joinOcrLines, layoutTextFromWords, parseTesseractTsv } from "../src/parser/ocr.js";
+import { sourceLocator } from "../src/parser/utils.js";
+import type { TextItem } from "../src/parser/utils.js";
+import { taxonomyArea } from "../src/parser/taxonomy.js";
 import { parseXlsFile } from "../src/parser/xls.js";
+import { pdfReportRows, xlsUnitRows } from "../src/parser/report-rows.js";
+import type { ParseWarning } from "../src/parser/warnings.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const TEST_DATA_DIR = join(__dirname, "../../data/test-pdfs");
@@ -112,6 +127,246 @@ describe("PDF parser snapshots", () => {
   }
 });
 
+describe("Survey format detection", () => {
+  const EXPECTED_FORMATS: Record<number, string> = {
+    2015: "ecers",
+    2017: "7point",
+    2018: "7point",
+    2022: "5point",
+  };
+
+  for (const [year, formatId] of Object.entries(EXPECTED_FORMATS)) {
+    const pdfPath = join(TEST_DATA_DIR, `test-${year}.pdf`);
+    if (!existsSync(pdfPath)) {
+      it(`Year ${year} - skipped (missing test file)`, () => {});
+      continue;
+    }
+    it(`Year ${year} is detected as ${formatId}`, async () => {
+      const text = await extractLayoutText(pdfPath);
+      strictEqual(detectSurveyFormat(text).id, formatId);
+    });
+  }
+
+  it("picks scandinfo over the 7-point formats when both match", () => {
+    const text = "NKI, HELHET\nsjugradig skala\nResultat per fråga";
+    strictEqual(detectSurveyFormat(text).id, "scandinfo");
+  });
+
+  it("classification lists every matching format and the signals found", () => {
+    const result = classifySurveyFormat("NKI, HELHET\nsjugradig skala\nResultat per fråga");
+    deepStrictEqual(result.candidates.map((f) => f.id), ["scandinfo", "7point"]);
+    deepStrictEqual(result.signals, ["nki-helhet", "sjugradig", "resultat-per-fraga"]);
+  });
+
+  it("matches a plain 7point report as 7point only, so classify doesn't flag it", () => {
+    const result = classifySurveyFormat("sjugradig skala\nResultat per fråga");
+    strictEqual(result.format.id, "7point");
+    deepStrictEqual(result.candidates.map((f) => f.id), ["7point"]);
+    deepStrictEqual(classifySurveyFormat("sjugradig skala").candidates.map((f) => f.id), ["ecers"]);
+  });
+
+  it("the 5-point fallback is not counted as a match", () => {
+    const result = classifySurveyFormat("Instämmer helt");
+    strictEqual(result.format.id, "5point");
+    deepStrictEqual(result.candidates, []);
+  });
+
+  it("checks survey years against the format's era", () => {
+    strictEqual(formatCoversYear(getSurveyFormat("ecers"), 2015), true);
+    strictEqual(formatCoversYear(getSurveyFormat("ecers"), 2016), false);
+    strictEqual(formatCoversYear(getSurveyFormat("5point"), 2030), true);
+  });
+
+  it("rejects a second format with a registered id", () => {
+    throws(() => registerSurveyFormat({ ...getSurveyFormat("5point") }), /already registered/);
+  });
+});
+
+describe("NKI indices", () => {
+  it("keeps Scandinfo NKI and quality factor indices out of the question means", () => {
+    const tables = parseTables([
+      "NKI, HELHET                72        73   69   76",
+      "TRIVSEL                    83        85   83   86",
+      "Antal svarande, n = 688 (svarsandel 24%)",
+      "KVALITETSFAKTOR                 Medelvärde  Ingen åsikt  Ej svar",
+      "TRIVSEL                 83",
+      "Hur nöjd är du med hur ditt barn trivs?     63   28   9   7,7   0   1",
+    ].join("\n"));
+    deepStrictEqual(
+      tables.nkiIndices.map((n) => [n.name, n.questionArea, n.value, n.benchmarkGoteborg]),
+      [
+        ["HELHET", "Helhetsomdöme", 72, 73],
+        ["TRIVSEL", "Trygghet och trivsel", 83, 85],
+      ],
+    );
+    deepStrictEqual(tables.means.map((m) => [m.questionText, m.meanSchool]), [["hur nöjd är du med hur ditt barn trivs?", 7.7]]);
+  });
+});
+
+describe("Stored rows", () => {
+  it("reads a PDF report's rows with the format's parsers", () => {
+    const warnings: ParseWarning[] = [];
+    const { format, rows } = pdfReportRows(
+      [
+        "NKI, HELHET                72        73   69   76",
+        "Antal svarande, n = 688 (svarsandel 24%)",
+        "KVALITETSFAKTOR                 Medelvärde  Ingen åsikt  Ej svar",
+        "TRIVSEL                 83",
+        "Hur nöjd är du med hur ditt barn trivs?     63   28   9   7,7   0   1",
+      ].join("\n"),
+      { items: [], pageCount: 1 },
+      (w) => warnings.push(w),
+    );
+    strictEqual(format.id, "scandinfo");
+    deepStrictEqual([rows.metadata?.respondents, rows.metadata?.responseRate], [688, 24]);
+    deepStrictEqual(
+      rows.means.map((m) => [m.meanSchool, m.indexSchool]),
+      [[7.7, null]],
+    );
+    deepStrictEqual(rows.nkiIndices.map((n) => n.name), ["HELHET"]);
+    deepStrictEqual(warnings.map((w) => w.code), []);
+  });
+
+  it("maps an XLS unit's 3-point distributions and all-schools benchmarks", () => {
+    const rows = xlsUnitRows({
+      sheetId: "T101",
+      unitName: "Förskolan Solen",
+      districtName: "Centrum",
+      respondents: 12,
+      level: "unit",
+      means: [{ questionText: "Trivs", meanValue: 8.2, meanAllSchools: 8, indexValue: 80, indexAllSchools: 78 }],
+      nkiIndices: [{ name: "Trivsel", value: 81, allSchools: 79 }],
+      responseDistribution: [{ questionText: "Trivs", pctLow: 5, pctMedium: 15, pctHigh: 75, pctNoAnswer: 5 }],
+    });
+    deepStrictEqual(rows.metadata, { responseRate: null, respondents: 12, totalInvited: null, demographics: null });
+    deepStrictEqual(
+      rows.means.map((m) => [m.meanSchool, m.meanDistrict, m.indexSchool, m.indexDistrict]),
+      [[8.2, 8, 80, 78]],
+    );
+    deepStrictEqual(
+      rows.nkiIndices.map((n) => [n.questionArea, n.benchmarkDistrict]),
+      [["Trygghet och trivsel", 79]],
+    );
+    deepStrictEqual(
+      rows.responses.map((r) => [r.pctStronglyDisagree, r.pctNeither, r.pctStronglyAgree, r.pctAgree, r.pctNoAnswer]),
+      [[5, 15, 75, null, 5]],
+    );
+  });
+});
+
+describe("Source locations", () => {
+  it("counts pages at form feeds and lines within the page", () => {
+    const locate = sourceLocator("title\nfirst\n\fpage two\n  value  4,50\n\n  more\n".split("\n"));
+    deepStrictEqual(locate(1), { page: 1, line: 2, text: "first" });
+    deepStrictEqual(locate(3), { page: 2, line: 2, text: "value  4,50" });
+    deepStrictEqual(locate(3, 5), { page: 2, line: 2, text: "value  4,50\nmore" });
+  });
+});
+
+describe("Positioned text items", () => {
+  const word = (x: number, y: number, text: string) =>
+    `<word xMin="${x}" yMin="${y}" xMax="${x + 20}" yMax="${y + 10}">${text}</word>`;
+  const xhtml = `<doc><page width="720" height="405"><flow><block>
+    <line>${word(10, 20, "Barn &amp;")}${word(35, 20, "personal")}</line>
+    <line>${word(10, 40, "90%")}</line>
+  </block></flow></page><page width="720" height="405"></page></doc>`;
+
+  it("reads pdftotext -bbox-layout lines and words", () => {
+    const lines = parseBboxLayout(xhtml);
+    strictEqual(lines.pageCount, 2);
+    deepStrictEqual(lines.items[0], { text: "Barn & personal", x: 10, y: 20, width: 45, height: 10, page: 1 });
+    deepStrictEqual(parseBboxLayout(xhtml, "word").items.map((t) => t.text), ["Barn &", "personal", "90%"]);
+  });
+
+  it("reads gender splits from the chart geometry", () => {
+    const item = (text: string, x: number, y: number): TextItem => ({ text, x, y, width: 30, height: 10, page: 1 });
+    const axis = ["0%", "25%", "50%", "75%", "100%"].map((t, i) => item(t, 300 + i * 50, 20));
+    const splits = parseGenderSplits(
+      [
+        item("Total", 300, 5),
+        ...axis,
+        item("…mitt barn trivs på", 100, 50),
+        item("förskolan", 100, 62),
+        item("88%", 500, 52),
+        item("…personalen bemöter mitt barn", 100, 90),
+        item("75%", 450, 90),
+      ],
+      { startPage: 1, endPage: 1 },
+    );
+    deepStrictEqual(
+      splits.map((s) => [s.questionText, s.pctTotal, s.pctFlicka, s.pctPojke]),
+      [["mitt barn trivs på förskolan", 88, null, null], ["personalen bemöter mitt barn", 75, null, null]],
+    );
+  });
+
+  it("bbox gender splits match the layout text where it reads cleanly", async () => {
+    const pdfPath = join(TEST_DATA_DIR, "test-2025.pdf");
+    if (!existsSync(pdfPath)) return;
+    const { items, pageCount } = await extractTextItems(pdfPath, "bbox");
+    const values = (rows: ReturnType<typeof parseGenderSplits>) =>
+      rows.map((r) => [r.questionText, r.pctTotal, r.pctFlicka, r.pctPojke]);
+    deepStrictEqual(
+      values(parseGenderSplits(items, { startPage: 1, endPage: pageCount })),
+      values(parseGenderSplitsFromLayout(await extractLayoutText(pdfPath))),
+    );
+  });
+});
+
+describe("OCR fallback", () => {
+  it("tells a text layer from an image-only report", () => {
+    strictEqual(hasUsableText("Resultat för förskolan Solen\nSvarsfrekvens 85%\f"), true);
+    strictEqual(hasUsableText("\f\f  12\f"), false);
+  });
+
+  it("reads tesseract TSV words into points and joins them per line", () => {
+    const tsv = [
+      "level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext",
+      "4\t1\t1\t1\t1\t0\t100\t200\t400\t50\t-1\t",
+      "5\t1\t1\t1\t1\t1\t100\t200\t150\t50\t96.5\tMitt",
+      "5\t1\t1\t1\t1\t2\t300\t200\t200\t50\t91\tbarn",
+      "5\t1\t1\t1\t1\t3\t600\t200\t50\t50\t-1\t ",
+    ].join("\n");
+    const words = parseTesseractTsv(tsv, 1, 72 / 300);
+    deepStrictEqual(words.map((w) => [w.text, w.confidence]), [["Mitt", 96.5], ["barn", 91]]);
+    deepStrictEqual(joinOcrLines(words), [{ text: "Mitt barn", x: 24, y: 48, width: 96, height: 12, page: 1 }]);
+  });
+
+  it("rebuilds layout text the table parser reads like pdftotext's", async () => {
+    const pdfPath = join(TEST_DATA_DIR, "test-2025.pdf");
+    if (!existsSync(pdfPath)) return;
+    // pdftotext's word boxes stand in for OCR output
+    const { items, pageCount } = await extractBboxTextItems(pdfPath, "word");
+    const rebuilt = parseTables(layoutTextFromWords(items, pageCount));
+    const real = parseTables(await extractLayoutText(pdfPath));
+    deepStrictEqual(rebuilt.metadata, real.metadata);
+    deepStrictEqual(
+      rebuilt.means.map((m) => [m.questionText, m.meanSchool]),
+      real.means.map((m) => [m.questionText, m.meanSchool]),
+    );
+  });
+});
+
+describe("Question-area taxonomy", () => {
+  it("maps 2007-2009 parent and children's questions", () => {
+    strictEqual(taxonomyArea("hur du bemöts av personalen i förskolan/familjedag- hemmet?", 2009)?.area, "Relation och kommunikation");
+    strictEqual(taxonomyArea("din möjlighet att påverka verksamheten i förskolan/ familjedaghemmet?", 2007)?.area, "Inflytande");
+    strictEqual(taxonomyArea("personalens förmåga att skapa lugn och ro?", 2008)?.area, "Utveckling och lärande");
+    strictEqual(taxonomyArea("ditt barns möjlighet att få lugn och ro?", 2008)?.area, "Helhetsomdöme");
+    strictEqual(taxonomyArea("får du själv bestämma vad du vill leka på förskolan/ familjedaghemmet?", 2007)?.area, "Inflytande");
+  });
+
+  it("maps the 2014-2015 statements", () => {
+    strictEqual(taxonomyArea("du som förälder ska kunna känna att personalen tar väl hand om ditt barn.", 2015)?.area, "Trygghet och trivsel");
+    strictEqual(taxonomyArea("föräldrar ska kunna vara med och påverka arbetet i förskolan/", 2015)?.area, "Inflytande");
+  });
+
+  it("only applies an era's mapping within its years", () => {
+    strictEqual(taxonomyArea("hur du bemöts av personalen i förskolan?", 2020), null);
+    strictEqual(taxonomyArea("hur ditt barn trivs med kamraterna?", 2016), null);
+    strictEqual(taxonomyArea("Resultat per förskola", 2014), null);
+  });
+});
+
 describe("XLS parser snapshot", () => {
   const xlsPath = join(TEST_DATA_DIR, "test-2009.xls");
   const snapshotFile = "2009-xls.json";
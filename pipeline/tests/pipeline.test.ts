@@ -0,0 +1,123 @@
+/**
+ * Tests for the sync step selection (pipeline-plan.ts): --from/--only and --resume, and reading the
+ * run to resume from pipeline_runs / pipeline_run_steps on an in-memory embedded database.
+ */
+import { describe, it, before, after } from "node:test";
+import { strictEqual, deepStrictEqual, throws } from "node:assert";
+import type { LatestRun, RunPlan } from "../src/pipeline-plan.js";
+
+process.env.DATABASE_MODE = "embedded";
+process.env.DATABASE_DIR = "memory://";
+const { query, default: pool } = await import("../src/db.js");
+const { migrateUp } = await import("../src/migrate.js");
+const { loadLatestRun, planResume, planSteps, supersedeRun } = await import("../src/pipeline-plan.js");
+
+function keys(plan: RunPlan): string[] {
+  return plan.steps.map((s) => s.key);
+}
+
+function run(overrides: Partial<LatestRun> = {}): LatestRun {
+  return {
+    id: 7,
+    status: "failed",
+    steps: ["crawl", "download", "parse", "export"],
+    stoppedAt: "parse",
+    args: ["2024"],
+    ...overrides,
+  };
+}
+
+describe("planSteps", () => {
+  it("runs every step by default and passes the year on", () => {
+    const plan = planSteps(["2024"]);
+    deepStrictEqual(keys(plan), ["crawl", "download", "parse", "export"]);
+    deepStrictEqual(plan.passArgs, ["2024"]);
+    strictEqual(plan.resumedFrom, null);
+  });
+
+  it("starts at --from and runs only --only", () => {
+    deepStrictEqual(keys(planSteps(["--from=parse"])), ["parse", "export"]);
+    deepStrictEqual(keys(planSteps(["--only=download"])), ["download"]);
+  });
+
+  it("rejects unknown phases and --from with --only", () => {
+    throws(() => planSteps(["--only=publish"]), /Unknown phase/);
+    throws(() => planSteps(["--from=parse", "--only=export"]), /cannot be combined/);
+  });
+});
+
+describe("planResume", () => {
+  it("continues a failed run at the step it failed with its arguments", () => {
+    const plan = planResume(run());
+    deepStrictEqual(keys(plan), ["parse", "export"]);
+    deepStrictEqual(plan.passArgs, ["2024"]);
+    strictEqual(plan.resumedFrom, 7);
+  });
+
+  it("stays within the steps of an --only or --from run", () => {
+    deepStrictEqual(keys(planResume(run({ steps: ["parse"] }))), ["parse"]);
+    deepStrictEqual(keys(planResume(run({ steps: ["download", "parse"], stoppedAt: "download" }))), [
+      "download",
+      "parse",
+    ]);
+  });
+
+  it("resumes a run that never finished at the last step it started", () => {
+    deepStrictEqual(keys(planResume(run({ status: "running", stoppedAt: "download" }))), [
+      "download",
+      "parse",
+      "export",
+    ]);
+  });
+
+  it("treats runs recorded without their steps as planning every step", () => {
+    deepStrictEqual(keys(planResume(run({ steps: null, stoppedAt: "export" }))), ["export"]);
+  });
+
+  it("refuses a succeeded run, a missing run or one that never started a step", () => {
+    throws(() => planResume(null), /No failed run/);
+    throws(() => planResume(run({ status: "succeeded" })), /No failed run/);
+    throws(() => planResume(run({ status: "running", stoppedAt: null, args: null })), /No failed run/);
+    throws(() => planResume(run({ steps: ["export"], stoppedAt: "parse" })), /not one of its phases/);
+  });
+});
+
+describe("Resuming a recorded run", () => {
+  before(() => migrateUp(() => {}));
+  after(() => pool.end());
+
+  /** A run as pipeline.ts records it: the steps it started, each with the run's year */
+  async function recordRun(status: string, failedStep: string | null, started: string[]): Promise<number> {
+    const { rows } = await query(
+      `INSERT INTO pipeline_runs (args, steps, status, failed_step) VALUES ($1, $2, $3, $4) RETURNING id`,
+      [["2024"], ["crawl", "download", "parse", "export"], status, failedStep],
+    );
+    for (const step of started) {
+      await query(`INSERT INTO pipeline_run_steps (run_id, step, args, status) VALUES ($1, $2, $3, 'succeeded')`, [
+        rows[0].id,
+        step,
+        ["2024"],
+      ]);
+    }
+    return rows[0].id;
+  }
+
+  it("resumes a run interrupted between steps at the step it was about to start", async () => {
+    await recordRun("failed", "parse", ["crawl", "download"]);
+    const plan = planResume(await loadLatestRun(pool));
+    deepStrictEqual(keys(plan), ["parse", "export"]);
+    deepStrictEqual(plan.passArgs, ["2024"]);
+  });
+
+  it("records a run that never finished as failed once it is taken over", async () => {
+    const id = await recordRun("running", null, ["crawl", "download"]);
+    const plan = planResume(await loadLatestRun(pool));
+    deepStrictEqual(keys(plan), ["download", "parse", "export"]);
+
+    await supersedeRun(pool, id, plan.steps[0].key);
+    const { rows } = await query(`SELECT status, failed_step, finished_at FROM pipeline_runs WHERE id = $1`, [id]);
+    strictEqual(rows[0].status, "failed");
+    strictEqual(rows[0].failed_step, "download");
+    strictEqual(rows[0].finished_at instanceof Date, true);
+  });
+});
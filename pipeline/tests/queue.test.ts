@@ -0,0 +1,140 @@
+/**
+ * Tests for the parse queue (parser/queue.ts): concurrent workers claim different reports, a claim
+ * keeps other processes off a report until it expires, each report is claimed once per run, and
+ * workers storing the same new unit create one school for it. Runs on an in-memory embedded database.
+ */
+import { describe, it, before, beforeEach, after } from "node:test";
+import { strictEqual, deepStrictEqual, notStrictEqual } from "node:assert";
+import type { XlsUnitData } from "../src/parser/xls.js";
+
+process.env.DATABASE_MODE = "embedded";
+process.env.DATABASE_DIR = "memory://";
+const { query, withTransaction, default: pool } = await import("../src/db.js");
+const { migrateUp } = await import("../src/migrate.js");
+const { NO_TEXT_ERROR_HINT, claimNextReport, releaseClaim } = await import("../src/parser/queue.js");
+const { storeXlsReport } = await import("../src/parser/store.js");
+const { findOrCreateSchool } = await import("../src/school-helpers.js");
+
+let schoolId: number;
+let areaId: number;
+
+async function addReport(name: string, columns: Record<string, unknown> = {}): Promise<number> {
+  const { rows } = await query(
+    `INSERT INTO pdf_reports (school_id, year, report_type, pdf_url, area_id, local_path, downloaded_at)
+     VALUES ($1, 2024, 'school', $2, $3, $4, NOW()) RETURNING id`,
+    [schoolId, `https://example.test/2024/${name}.pdf`, areaId, `/data/${name}.pdf`],
+  );
+  const id = rows[0].id as number;
+  for (const [column, value] of Object.entries(columns)) {
+    await query(`UPDATE pdf_reports SET ${column} = $1 WHERE id = $2`, [value, id]);
+  }
+  return id;
+}
+
+async function runStart(): Promise<Date> {
+  const { rows } = await query("SELECT NOW() AS now");
+  return rows[0].now;
+}
+
+describe("Parse queue", () => {
+  before(async () => {
+    await migrateUp(() => {});
+    await query(`INSERT INTO survey_years (year) VALUES (2024)`);
+    areaId = (await query(`INSERT INTO areas (year, name, url_slug) VALUES (2024, 'Centrum', 'centrum') RETURNING id`))
+      .rows[0].id;
+    schoolId = (await query(`INSERT INTO schools (clean_name) VALUES ('Bågen') RETURNING id`)).rows[0].id;
+  });
+  beforeEach(() => query("DELETE FROM pdf_reports"));
+  after(() => pool.end());
+
+  it("gives concurrent workers different reports", async () => {
+    const ids = [await addReport("a"), await addReport("b")];
+    const started = await runStart();
+    const [first, second] = await Promise.all([
+      claimNextReport("host:1#1", started, false, false, undefined),
+      claimNextReport("host:1#2", started, false, false, undefined),
+    ]);
+    notStrictEqual(first, null);
+    notStrictEqual(second, null);
+    deepStrictEqual([first!.id, second!.id].sort((a, b) => a - b), ids);
+    strictEqual(await claimNextReport("host:1#3", started, false, false, undefined), null);
+  });
+
+  it("leaves a report claimed by another process alone until the claim expires", async () => {
+    await addReport("claimed", { parse_claimed_by: "other:2#1", parse_claimed_at: new Date(Date.now() - 60_000) });
+    const stale = await addReport("stale", {
+      parse_claimed_by: "other:3#1",
+      parse_claimed_at: new Date(Date.now() - 2 * 3_600_000),
+    });
+    const started = await runStart();
+    strictEqual((await claimNextReport("host:1#1", started, false, false, undefined))?.id, stale);
+    strictEqual(await claimNextReport("host:1#1", started, false, false, undefined), null);
+  });
+
+  it("claims each report once per run, also with --force", async () => {
+    const id = await addReport("parsed", { parsed_at: new Date() });
+    const started = await runStart();
+    strictEqual(await claimNextReport("host:1#1", started, false, false, undefined), null);
+    const row = await claimNextReport("host:1#1", started, true, false, undefined);
+    strictEqual(row?.id, id);
+    await releaseClaim(id, "host:1#1");
+
+    const { rows } = await query(`SELECT parse_claimed_by FROM pdf_reports WHERE id = $1`, [id]);
+    strictEqual(rows[0].parse_claimed_by, null);
+    strictEqual(await claimNextReport("host:1#1", started, true, false, undefined), null);
+  });
+
+  it("creates one school for a new unit that two workers store at the same time", async () => {
+    await addReport("foralder", { report_category: "foralder" });
+    await addReport("barn", { report_category: "barn" });
+    const started = await runStart();
+    const claims = await Promise.all([
+      claimNextReport("host:1#1", started, false, false, undefined),
+      claimNextReport("host:1#2", started, false, false, undefined),
+    ]);
+    const unit: XlsUnitData = {
+      sheetId: "T7",
+      unitName: "Förskolan Ekorren",
+      districtName: "Centrum",
+      respondents: null,
+      level: "unit",
+      means: [],
+      nkiIndices: [],
+      responseDistribution: [],
+    };
+    await Promise.all(
+      claims.map((row) =>
+        withTransaction((client) =>
+          storeXlsReport(client, row!.id, row!.local_path, row!.year, row!.report_category, [unit]),
+        ),
+      ),
+    );
+
+    const { rows } = await query(`SELECT DISTINCT school_id FROM pdf_reports WHERE pdf_url LIKE '%#T7'`);
+    strictEqual(rows.length, 1);
+    const named = await query(`SELECT id FROM schools WHERE clean_name = 'Förskolan Ekorren'`);
+    deepStrictEqual(named.rows, [{ id: rows[0].school_id }]);
+  });
+
+  it("holds the school lock until the storing transaction ends", async () => {
+    const held = await withTransaction(async (client) => {
+      await findOrCreateSchool("Förskolan Igelkotten", "igelkotten", areaId, client);
+      const { rows } = await client.query(`SELECT COUNT(*)::int AS n FROM pg_locks WHERE locktype = 'advisory'`);
+      return rows[0].n;
+    });
+    strictEqual(held, 1);
+    const { rows } = await query(`SELECT COUNT(*)::int AS n FROM pg_locks WHERE locktype = 'advisory'`);
+    strictEqual(rows[0].n, 0);
+  });
+
+  it("queues reports that failed for lack of text only with --ocr", async () => {
+    const id = await addReport("scan", { parse_error: `No usable text layer; ${NO_TEXT_ERROR_HINT}` });
+    await addReport("broken", { parse_error: "Unparseable format" });
+    const started = await runStart();
+    strictEqual(await claimNextReport("host:1#1", started, false, false, undefined), null);
+    const row = await claimNextReport("host:1#1", started, false, true, undefined);
+    strictEqual(row?.id, id);
+    strictEqual(row?.no_text, true);
+    strictEqual(await claimNextReport("host:1#1", started, false, true, undefined), null);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for the parser regression diff (regression.ts).
+ */
+import { describe, it } from "node:test";
+import { strictEqual, deepStrictEqual } from "node:assert";
+import {
+  addFileDiff,
+  diffFile,
+  diffOutputs,
+  emptyRegressionSummary,
+  flattenOutput,
+  noTextResults,
+} from "../src/regression.js";
+import type { FileResults, FunctionOutput, RegressionFunction } from "../src/regression.js";
+
+function results(file: string, year: number | null, outputs: Partial<Record<RegressionFunction, FunctionOutput>>): FileResults {
+  const empty = { output: [] };
+  return {
+    file,
+    year,
+    results: {
+      parseTables: empty,
+      parseResponseDistributions: empty,
+      parseGenderSplitsFromLayout: empty,
+      parseDemographics: empty,
+      parseImportantQuestions: empty,
+      parseUnitMeans: empty,
+      ...outputs,
+    },
+  };
+}
+
+describe("flattenOutput", () => {
+  it("keys rows by question so a new row doesn't shift the others", () => {
+    const flat = flattenOutput({
+      means: [
+        { questionText: "Mitt barn trivs", meanSchool: 4.5, source: "table" },
+        { questionText: "Jag är nöjd", meanSchool: null },
+      ],
+      respondents: 12,
+    });
+    deepStrictEqual(flat, {
+      "means[Mitt barn trivs].questionText": "Mitt barn trivs",
+      "means[Mitt barn trivs].meanSchool": 4.5,
+      "means[Jag är nöjd].questionText": "Jag är nöjd",
+      respondents: 12,
+    });
+  });
+
+  it("keys unit means by unit and area and numbers duplicate keys", () => {
+    const flat = flattenOutput([
+      { unitName: "Avd 1", areaName: "Trygghet", mean: 4 },
+      { name: "Kön", values: [1, 2] },
+      { name: "Kön", values: [3] },
+      { other: true },
+    ]);
+    deepStrictEqual(flat, {
+      "[Avd 1 / Trygghet].unitName": "Avd 1",
+      "[Avd 1 / Trygghet].areaName": "Trygghet",
+      "[Avd 1 / Trygghet].mean": 4,
+      "[Kön].name": "Kön",
+      "[Kön].values": "[1,2]",
+      "[Kön (2)].name": "Kön",
+      "[Kön (2)].values": "[3]",
+      "[#3].other": "true",
+    });
+  });
+});
+
+describe("diffOutputs", () => {
+  it("separates gained, lost and changed values", () => {
+    const diff = diffOutputs(
+      { output: [{ questionText: "A", mean: 4 }, { questionText: "B", mean: 3 }] },
+      { output: [{ questionText: "A", mean: 4.1 }, { questionText: "C", mean: 2 }] },
+    );
+    deepStrictEqual(diff.gained, ["[C].questionText", "[C].mean"]);
+    deepStrictEqual(diff.lost, ["[B].questionText", "[B].mean"]);
+    deepStrictEqual(diff.changed, [{ path: "[A].mean", before: 4, after: 4.1 }]);
+  });
+
+  it("treats a thrown error as a value of its own", () => {
+    const diff = diffOutputs({ output: { respondents: 12 } }, { error: "No table found" });
+    deepStrictEqual(diff.gained, ["error"]);
+    deepStrictEqual(diff.lost, ["respondents"]);
+  });
+});
+
+describe("addFileDiff", () => {
+  it("counts reports and values per year and function", () => {
+    const summary = emptyRegressionSummary();
+    const baseline = results("2024/a.pdf", 2024, { parseUnitMeans: { output: [{ unitName: "U", areaName: "A", mean: 4 }] } });
+    addFileDiff(summary, diffFile(baseline, results("2024/a.pdf", 2024, {})));
+    addFileDiff(summary, diffFile(results("2024/b.pdf", 2024, {}), results("2024/b.pdf", 2024, {})));
+    addFileDiff(summary, diffFile(null, results("x.pdf", null, { parseTables: { output: { respondents: 3 } } })));
+
+    strictEqual(summary.files, 3);
+    strictEqual(summary.filesWithDifferences, 2);
+    deepStrictEqual(summary.byYear["2024"].parseUnitMeans, {
+      reports: 2, gained: 0, lost: 1, changed: 0, gainedValues: 0, lostValues: 3, changedValues: 0,
+    });
+    strictEqual(summary.byYear["2024"].parseTables.gained, 0);
+    strictEqual(summary.byYear.unknown.parseTables.gained, 1);
+  });
+});
+
+describe("noTextResults", () => {
+  it("shows a file that lost its text as lost values", () => {
+    const baseline = results("2024/a.pdf", 2024, {
+      parseTables: { output: { metadata: { respondents: 24 }, means: [{ questionText: "Trivs", meanSchool: 4.2 }] } },
+    });
+    const diff = diffFile(baseline, noTextResults("2024/a.pdf", 2024));
+    deepStrictEqual(diff.functions.parseTables, {
+      gained: ["error"],
+      lost: ["metadata.respondents", "means[Trivs].questionText", "means[Trivs].meanSchool"],
+      changed: [],
+    });
+  });
+});
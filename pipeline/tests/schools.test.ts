@@ -0,0 +1,186 @@
+/**
+ * Tests for the school identity operations (school-helpers.ts): merge, split and rename with
+ * their log and revert, and re-crawls (findOrCreateSchool) keeping what they decided.
+ * Runs on an in-memory embedded database.
+ */
+import { describe, it, before, after } from "node:test";
+import { strictEqual, deepStrictEqual, notStrictEqual, rejects } from "node:assert";
+
+process.env.DATABASE_MODE = "embedded";
+process.env.DATABASE_DIR = "memory://";
+const { query, withTransaction, default: pool } = await import("../src/db.js");
+const { migrateUp } = await import("../src/migrate.js");
+const { findOrCreateSchool, mergeSchools, renameSchool, revertIdentityChange, splitSchool } = await import(
+  "../src/school-helpers.js"
+);
+
+const change = { by: "test", reason: "test" };
+const areas: Record<number, number> = {};
+/** A second district, for same-named schools */
+const hisingen: Record<number, number> = {};
+
+async function addArea(year: number, name = "Centrum"): Promise<number> {
+  await query(`INSERT INTO survey_years (year) VALUES ($1) ON CONFLICT DO NOTHING`, [year]);
+  const { rows } = await query(`INSERT INTO areas (year, name, url_slug) VALUES ($1, $2, $3) RETURNING id`, [
+    year,
+    name,
+    name.toLowerCase(),
+  ]);
+  return rows[0].id;
+}
+
+/** Crawl a school's report for a year the way crawler.ts does */
+async function crawl(
+  name: string,
+  year: number,
+  areaId = areas[year],
+): Promise<{ schoolId: number; reportId: number }> {
+  const schoolId = await findOrCreateSchool(name, name.toLowerCase(), areaId);
+  const { rows } = await query(
+    `INSERT INTO pdf_reports (school_id, year, report_type, pdf_url, area_id)
+     VALUES ($1, $2, 'school', $3, $4)
+     ON CONFLICT (pdf_url) DO UPDATE SET vanished_at = NULL
+     RETURNING id, school_id`,
+    [schoolId, year, `https://example.test/${year}/${areaId}/${encodeURIComponent(name)}.pdf`, areaId],
+  );
+  return { schoolId: rows[0].school_id, reportId: rows[0].id };
+}
+
+async function schoolOf(reportId: number): Promise<number> {
+  const { rows } = await query(`SELECT school_id FROM pdf_reports WHERE id = $1`, [reportId]);
+  return rows[0].school_id;
+}
+
+async function variantIds(schoolId: number, year: number, areaId = areas[year]): Promise<number[]> {
+  const { rows } = await query(`SELECT id FROM school_name_variants WHERE school_id = $1 AND area_id = $2`, [
+    schoolId,
+    areaId,
+  ]);
+  return rows.map((r) => r.id);
+}
+
+describe("School identity", () => {
+  before(async () => {
+    await migrateUp(() => {});
+    for (const year of [2023, 2024, 2025]) {
+      areas[year] = await addArea(year);
+      hisingen[year] = await addArea(year, "Hisingen");
+    }
+  });
+  after(() => pool.end());
+
+  it("merges a renamed school into its old self and keeps it merged on a re-crawl", async () => {
+    const old = await crawl("Förskolan Solen", 2023);
+    const renamed = await crawl("Förskolan Solstrålen", 2024);
+    notStrictEqual(old.schoolId, renamed.schoolId);
+
+    const logId = await withTransaction((db) => mergeSchools(db, old.schoolId, renamed.schoolId, change));
+    strictEqual(await schoolOf(renamed.reportId), old.schoolId);
+
+    // A later crawl finds the new name in a new year: it lands on the kept school
+    const next = await crawl("Förskolan Solstrålen", 2025);
+    strictEqual(next.schoolId, old.schoolId);
+
+    // Reverting gives back exactly what the merge moved; the 2025 report stays
+    await withTransaction((db) => revertIdentityChange(db, logId, { by: "test", reason: "wrong school" }));
+    strictEqual(await schoolOf(renamed.reportId), renamed.schoolId);
+    strictEqual(await schoolOf(next.reportId), old.schoolId);
+    const { rows } = await query(`SELECT merged_into FROM schools WHERE id = $1`, [renamed.schoolId]);
+    strictEqual(rows[0].merged_into, null);
+    const log = await query(`SELECT reverted_by, revert_reason FROM school_identity_log WHERE id = $1`, [logId]);
+    deepStrictEqual(log.rows[0], { reverted_by: "test", revert_reason: "wrong school" });
+  });
+
+  it("splits a name variant off into a new school that later crawls keep", async () => {
+    const a = await crawl("Förskolan Månen", 2023);
+    const b = await crawl("Förskolan Månen 2", 2024);
+    await withTransaction((db) => mergeSchools(db, a.schoolId, b.schoolId, change));
+
+    const moving = await variantIds(a.schoolId, 2024);
+    const { newSchoolId } = await withTransaction((db) =>
+      splitSchool(db, a.schoolId, { name: "Förskolan Månen 2", variantIds: moving }, change),
+    );
+    strictEqual(await schoolOf(b.reportId), newSchoolId);
+    strictEqual(await schoolOf(a.reportId), a.schoolId);
+
+    const next = await crawl("Förskolan Månen 2", 2025);
+    strictEqual(next.schoolId, newSchoolId);
+  });
+
+  it("keeps same-named schools in different districts apart on a re-crawl", async () => {
+    const centrum = await crawl("Förskolan Solros", 2023);
+    const other = await crawl("Förskolan Solros", 2023, hisingen[2023]);
+    // Same dedup key, so the first crawl takes them for one school
+    strictEqual(other.schoolId, centrum.schoolId);
+
+    const moving = await variantIds(centrum.schoolId, 2023, hisingen[2023]);
+    const { newSchoolId } = await withTransaction((db) =>
+      splitSchool(db, centrum.schoolId, { name: "Förskolan Solros Hisingen", variantIds: moving }, change),
+    );
+    strictEqual(await schoolOf(other.reportId), newSchoolId);
+
+    strictEqual((await crawl("Förskolan Solros", 2024)).schoolId, centrum.schoolId);
+    strictEqual((await crawl("Förskolan Solros", 2024, hisingen[2024])).schoolId, newSchoolId);
+  });
+
+  it("follows a school merged into one that was merged in turn", async () => {
+    const { schoolId } = await crawl("Förskolan Kotten", 2023);
+    const { rows } = await query(`INSERT INTO schools (clean_name) VALUES ('Kottens förskola'), ('Kotten') RETURNING id`);
+    const [middle, kept] = rows.map((r) => r.id);
+    // An earlier merge left a chain of two hops
+    await query(`UPDATE schools SET merged_into = $1 WHERE id = $2`, [middle, schoolId]);
+    await query(`UPDATE schools SET merged_into = $1 WHERE id = $2`, [kept, middle]);
+
+    strictEqual((await crawl("Förskolan Kotten", 2024)).schoolId, kept);
+  });
+
+  it("refuses a split it can't decide without the reports to move", async () => {
+    const first = await crawl("Förskolan Stjärnan", 2023);
+    const second = await crawl("Förskolan Stjärnan Västra", 2023);
+    await withTransaction((db) => mergeSchools(db, first.schoolId, second.schoolId, change));
+    const [variant] = (await variantIds(first.schoolId, 2023)).slice(-1);
+
+    await rejects(
+      withTransaction((db) => splitSchool(db, first.schoolId, { name: "Förskolan Stjärnan Västra", variantIds: [variant] }, change)),
+      /--reports=/,
+    );
+    const { newSchoolId } = await withTransaction((db) =>
+      splitSchool(
+        db,
+        first.schoolId,
+        { name: "Förskolan Stjärnan Västra", variantIds: [variant], reportIds: [second.reportId] },
+        change,
+      ),
+    );
+    strictEqual(await schoolOf(second.reportId), newSchoolId);
+    strictEqual(await schoolOf(first.reportId), first.schoolId);
+  });
+
+  it("keeps a manual name when a longer name is crawled, until the rename is reverted", async () => {
+    const { schoolId } = await crawl("Förskolan Regnbågen", 2023);
+    const logId = await withTransaction((db) => renameSchool(db, schoolId, "Regnbågens förskola", change));
+    await crawl("Förskolan Regnbågen", 2024);
+    const named = await query(`SELECT clean_name, name_locked FROM schools WHERE id = $1`, [schoolId]);
+    deepStrictEqual(named.rows[0], { clean_name: "Regnbågens förskola", name_locked: true });
+
+    await withTransaction((db) => revertIdentityChange(db, logId, change));
+    const restored = await query(`SELECT clean_name, name_locked FROM schools WHERE id = $1`, [schoolId]);
+    deepStrictEqual(restored.rows[0], { clean_name: "Förskolan Regnbågen", name_locked: false });
+  });
+
+  it("only reverts the latest change to a school", async () => {
+    const a = await crawl("Förskolan Molnet", 2023);
+    const b = await crawl("Förskolan Molnet Östra", 2023);
+    const mergeId = await withTransaction((db) => mergeSchools(db, a.schoolId, b.schoolId, change));
+    await withTransaction((db) => renameSchool(db, a.schoolId, "Molnets förskola", change));
+
+    await rejects(
+      withTransaction((db) => revertIdentityChange(db, mergeId, change)),
+      /Revert the later change/,
+    );
+    await rejects(
+      withTransaction((db) => mergeSchools(db, b.schoolId, a.schoolId, change)),
+      /was merged into/,
+    );
+  });
+});
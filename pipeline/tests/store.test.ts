@@ -0,0 +1,147 @@
+/**
+ * Tests for storing parsed reports (parser/store.ts): a re-parse replaces the report's rows, one
+ * that fails part way keeps the previous good data, and XLS units keep their index scores and
+ * no-answer share. Runs on an in-memory embedded database.
+ */
+import { describe, it, before, after } from "node:test";
+import { strictEqual, deepStrictEqual, rejects } from "node:assert";
+import type { ReportRows, StoredMean } from "../src/parser/report-rows.js";
+import type { XlsUnitData } from "../src/parser/xls.js";
+
+process.env.DATABASE_MODE = "embedded";
+process.env.DATABASE_DIR = "memory://";
+const { query, withTransaction, default: pool } = await import("../src/db.js");
+const { migrateUp } = await import("../src/migrate.js");
+const { storePdfReport, storeXlsReport } = await import("../src/parser/store.js");
+
+let reportId: number;
+let xlsReportId: number;
+
+function mean(questionText: string, meanSchool: number): StoredMean {
+  return {
+    questionText,
+    questionArea: "Trygghet",
+    meanGr: null,
+    meanGoteborg: 4.1,
+    meanDistrict: 4.2,
+    meanSchool,
+    historicalMeans: {},
+    indexSchool: null,
+    indexDistrict: null,
+    source: { page: 3, line: 12, text: `${questionText} 4.1 4.2 ${meanSchool}` },
+  };
+}
+
+function reportRows(overrides: Partial<ReportRows> = {}): ReportRows {
+  return {
+    metadata: { responseRate: 48, respondents: 24, totalInvited: 50, demographics: null },
+    means: [],
+    nkiIndices: [],
+    responses: [],
+    genderSplits: [],
+    importantQuestions: [],
+    unitMeans: [],
+    ...overrides,
+  };
+}
+
+function store(rows: ReportRows): Promise<string> {
+  return withTransaction((client) => storePdfReport(client, reportId, 2024, rows, [], { source: "pdftotext" }));
+}
+
+async function storedMeans(): Promise<{ text: string; mean_school: number }[]> {
+  const { rows } = await query(
+    `SELECT q.text, qm.mean_school FROM question_means qm JOIN questions q ON q.id = qm.question_id
+     WHERE qm.pdf_report_id = $1 ORDER BY q.text`,
+    [reportId],
+  );
+  return rows as { text: string; mean_school: number }[];
+}
+
+describe("Storing a parsed report", () => {
+  before(async () => {
+    await migrateUp(() => {});
+    await query(`INSERT INTO survey_years (year) VALUES (2008), (2024)`);
+    const { rows: areas } = await query(
+      `INSERT INTO areas (year, name, url_slug) VALUES (2024, 'Centrum', 'centrum') RETURNING id`,
+    );
+    const { rows: schools } = await query(`INSERT INTO schools (clean_name) VALUES ('Bågen') RETURNING id`);
+    const { rows } = await query(
+      `INSERT INTO pdf_reports (school_id, year, report_type, pdf_url, area_id)
+       VALUES ($1, 2024, 'school', 'https://example.test/2024/bagen.pdf', $2) RETURNING id`,
+      [schools[0].id, areas[0].id],
+    );
+    reportId = rows[0].id;
+    const { rows: xls } = await query(
+      `INSERT INTO pdf_reports (school_id, year, report_type, pdf_url, area_id, report_category)
+       VALUES ($1, 2008, 'district', 'https://example.test/2008/centrum.xls', $2, 'foralder') RETURNING id`,
+      [schools[0].id, areas[0].id],
+    );
+    xlsReportId = xls[0].id;
+  });
+  after(() => pool.end());
+
+  it("replaces the rows of an earlier parse", async () => {
+    await store(reportRows({ means: [mean("Mitt barn känner sig tryggt", 4.5), mean("Mitt barn trivs", 4.4)] }));
+    await store(reportRows({ means: [mean("Mitt barn känner sig tryggt", 4.6)] }));
+    deepStrictEqual(await storedMeans(), [{ text: "Mitt barn känner sig tryggt", mean_school: 4.6 }]);
+
+    const { rows } = await query(`SELECT parsed_at, text_source FROM pdf_reports WHERE id = $1`, [reportId]);
+    strictEqual(rows[0].text_source, "pdftotext");
+    strictEqual(rows[0].parsed_at instanceof Date, true);
+  });
+
+  it("keeps the previous data when a re-parse fails part way", async () => {
+    const { rows: before } = await query(`SELECT parsed_at FROM pdf_reports WHERE id = $1`, [reportId]);
+    await rejects(
+      store(
+        reportRows({
+          means: [mean("Mitt barn känner sig tryggt", 3.1)],
+          // Stored after the means; a rank that isn't an integer fails the insert
+          importantQuestions: [{ rank: Number.NaN, questionText: "Mitt barn känner sig tryggt", pct: 40 }],
+        }),
+      ),
+    );
+
+    deepStrictEqual(await storedMeans(), [{ text: "Mitt barn känner sig tryggt", mean_school: 4.6 }]);
+    const { rows: after } = await query(`SELECT parsed_at FROM pdf_reports WHERE id = $1`, [reportId]);
+    deepStrictEqual(after[0].parsed_at, before[0].parsed_at);
+  });
+
+  it("keeps an XLS unit's index scores and no-answer share", async () => {
+    const unit: XlsUnitData = {
+      sheetId: "T101",
+      unitName: "Förskolan Bågen",
+      districtName: "Centrum",
+      respondents: 18,
+      level: "unit",
+      means: [
+        {
+          questionText: "Jag är nöjd med verksamheten",
+          meanValue: 3.4,
+          meanAllSchools: 3.2,
+          indexValue: 78,
+          indexAllSchools: 71,
+        },
+      ],
+      nkiIndices: [],
+      responseDistribution: [
+        { questionText: "Jag är nöjd med verksamheten", pctLow: 5, pctMedium: 20, pctHigh: 70, pctNoAnswer: 5 },
+      ],
+    };
+    await withTransaction((client) =>
+      storeXlsReport(client, xlsReportId, "/data/2008/centrum.xls", 2008, "foralder", [unit]),
+    );
+
+    const { rows } = await query(
+      `SELECT qm.mean_school, qm.index_school, qm.index_district, qr.pct_strongly_agree, qr.pct_no_answer
+       FROM pdf_reports pr
+       JOIN question_means qm ON qm.pdf_report_id = pr.id
+       JOIN question_responses qr ON qr.pdf_report_id = pr.id AND qr.question_id = qm.question_id
+       WHERE pr.pdf_url = 'https://example.test/2008/centrum.xls#T101'`,
+    );
+    deepStrictEqual(rows, [
+      { mean_school: 3.4, index_school: 78, index_district: 71, pct_strongly_agree: 70, pct_no_answer: 5 },
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for the validator's table comparison and reports (validation.ts).
+ */
+import { describe, it } from "node:test";
+import { strictEqual, deepStrictEqual, notStrictEqual, ok } from "node:assert";
+import {
+  canonicalJson,
+  compareTable,
+  compareTables,
+  emptyTables,
+  matchKey,
+  renderHtmlReport,
+  summarize,
+} from "../src/validation.js";
+import type { ReportValidation } from "../src/validation.js";
+
+const source = { page: 2, line: 14, text: "Mitt barn trivs  4,52" };
+
+describe("compareTable", () => {
+  it("reports fields that differ beyond the tolerance", () => {
+    const result = compareTable(
+      [{ key: "a", values: { mean_school: 4.52, mean_gr: 4.1 } }],
+      [{ key: "a", values: { mean_school: 4.5199999, mean_gr: 4.2 }, source }],
+    );
+    deepStrictEqual(result.mismatches, [{ key: "a", field: "mean_gr", dbValue: 4.1, parsedValue: 4.2, source }]);
+  });
+
+  it("treats a value on one side only as a mismatch", () => {
+    const result = compareTable([{ key: "a", values: { pct: null } }], [{ key: "a", values: { pct: 12 } }]);
+    strictEqual(result.mismatches.length, 1);
+  });
+
+  it("lists rows found on one side only", () => {
+    const result = compareTable(
+      [{ key: "a", values: {} }, { key: "b", values: {} }],
+      [{ key: "b", values: {} }, { key: "c", values: {} }],
+    );
+    deepStrictEqual(result.missingInParse, ["a"]);
+    deepStrictEqual(result.missingInDb, ["c"]);
+  });
+
+  it("compares JSON columns regardless of key order", () => {
+    strictEqual(canonicalJson({ "2024": 4.1, "2023": 4 }), canonicalJson({ "2023": 4, "2024": 4.1 }));
+    strictEqual(canonicalJson(null), null);
+  });
+
+  it("matches question texts regardless of case and whitespace", () => {
+    strictEqual(matchKey("Mitt  barn\ntrivs "), matchKey("mitt barn trivs"));
+    const prefix = "Jag upplever att mitt barn får det stöd och den stimulans som behövs för sin utveckling";
+    notStrictEqual(matchKey(`${prefix} i språk`), matchKey(`${prefix} i matematik`));
+  });
+});
+
+describe("validation report", () => {
+  const tables = emptyTables();
+  tables.question_means.push({ key: "a <b>", values: { mean_school: 4 } });
+  const parsed = emptyTables();
+  parsed.question_means.push({ key: "a <b>", values: { mean_school: 3 }, source });
+  const reports: ReportValidation[] = [
+    {
+      reportId: 1, year: 2024, schoolName: "Solen", unitName: null, path: "a.pdf", format: "5point",
+      tables: compareTables(tables, parsed),
+    },
+    { reportId: 2, year: 2024, schoolName: "Månen", unitName: null, path: "b.pdf", format: "5point", tables: {}, error: "Source file not found" },
+    { reportId: 3, year: 2024, schoolName: "Stjärnan", unitName: null, path: "c.pdf", format: "5point", tables: compareTables(tables, tables) },
+  ];
+
+  it("counts mismatches per table field", () => {
+    const summary = summarize(reports);
+    strictEqual(summary.reports, 3);
+    strictEqual(summary.reportsWithDifferences, 2);
+    strictEqual(summary.errors, 1);
+    deepStrictEqual(summary.byField, { "question_means.mean_school": 1 });
+  });
+
+  it("renders reports with differences as escaped HTML", () => {
+    const html = renderHtmlReport({
+      generatedAt: "2026-01-01T00:00:00.000Z",
+      options: { all: true, year: null, format: null, sample: null },
+      summary: summarize(reports),
+      skippedOcr: 2,
+      reports,
+    });
+    ok(html.includes("a &lt;b&gt;"));
+    ok(html.includes("2 reports read through OCR were left out"));
+    ok(html.includes("Source file not found"));
+    ok(!html.includes("Stjärnan"));
+  });
+});